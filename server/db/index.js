@@ -102,6 +102,20 @@ export async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_forms_github_user ON forms(github_user_id);
       CREATE INDEX IF NOT EXISTS idx_forms_status ON forms(status);
 
+      -- Form versions table - immutable snapshots taken on publish
+      CREATE TABLE IF NOT EXISTS form_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        schema JSONB NOT NULL,
+        published_by VARCHAR(255),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_form_versions_form_version ON form_versions(form_id, version);
+
       -- Submissions table for storing form responses
       CREATE TABLE IF NOT EXISTS submissions (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -116,6 +130,65 @@ export async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_submissions_form ON submissions(form_id);
       CREATE INDEX IF NOT EXISTS idx_submissions_submitted_at ON submissions(submitted_at);
 
+      -- Form uploads table - files attached to file fields
+      CREATE TABLE IF NOT EXISTS form_uploads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+        field_id VARCHAR(255) NOT NULL,
+        session_id UUID NOT NULL,
+        submission_id UUID REFERENCES submissions(id) ON DELETE CASCADE,
+        filename VARCHAR(255) NOT NULL,
+        original_name VARCHAR(255) NOT NULL,
+        mimetype VARCHAR(255) NOT NULL,
+        size INTEGER NOT NULL,
+        hash VARCHAR(100) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_form_uploads_form ON form_uploads(form_id);
+      CREATE INDEX IF NOT EXISTS idx_form_uploads_submission ON form_uploads(submission_id);
+
+      -- Submission review tables - reviewer comments and audit trail
+      CREATE TABLE IF NOT EXISTS submission_comments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+        parent_id UUID REFERENCES submission_comments(id) ON DELETE CASCADE,
+        github_user_id VARCHAR(255) NOT NULL,
+        github_username VARCHAR(255) NOT NULL,
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_submission_comments_submission ON submission_comments(submission_id);
+
+      CREATE TABLE IF NOT EXISTS submission_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+        action VARCHAR(50) NOT NULL,
+        details JSONB,
+        github_username VARCHAR(255),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_submission_events_submission ON submission_events(submission_id);
+
+      -- Form drafts table - applicant save-and-resume
+      CREATE TABLE IF NOT EXISTS form_drafts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+        resume_token VARCHAR(64) NOT NULL,
+        session_id UUID NOT NULL,
+        field_values JSONB NOT NULL,
+        proof_presentations JSONB,
+        current_step INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_form_drafts_resume_token ON form_drafts(resume_token);
+      CREATE INDEX IF NOT EXISTS idx_form_drafts_expires_at ON form_drafts(expires_at);
+
       -- Credential Library table for storing imported credentials
       CREATE TABLE IF NOT EXISTS credential_library (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -199,13 +272,78 @@ export async function initializeDatabase() {
                        WHERE table_name = 'proof_templates' AND column_name = 'published_to_verifier') THEN
           ALTER TABLE proof_templates ADD COLUMN published_to_verifier BOOLEAN NOT NULL DEFAULT false;
         END IF;
+
+        -- Version lineage and deprecation columns
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'proof_templates' AND column_name = 'family_id') THEN
+          ALTER TABLE proof_templates ADD COLUMN family_id UUID;
+          ALTER TABLE proof_templates ADD COLUMN previous_version_id UUID;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'proof_templates' AND column_name = 'status_reason') THEN
+          ALTER TABLE proof_templates ADD COLUMN status_reason TEXT;
+          ALTER TABLE proof_templates ADD COLUMN status_changed_at TIMESTAMP;
+        END IF;
+
+        -- Add credential_groups column if it doesn't exist
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'proof_templates' AND column_name = 'credential_groups') THEN
+          ALTER TABLE proof_templates ADD COLUMN credential_groups JSONB NOT NULL DEFAULT '[]';
+        END IF;
+      END $$;
+    `);
+
+    // Step 2b: Form versioning, issuance and review columns, plus a version 1 snapshot for forms
+    // published before versioning existed
+    await pool.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'forms' AND column_name = 'current_version_id') THEN
+          ALTER TABLE forms ADD COLUMN current_version_id UUID;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'submissions' AND column_name = 'form_version_id') THEN
+          ALTER TABLE submissions ADD COLUMN form_version_id UUID REFERENCES form_versions(id);
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'submissions' AND column_name = 'credential_offer') THEN
+          ALTER TABLE submissions ADD COLUMN credential_offer JSONB;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'submissions' AND column_name = 'status') THEN
+          ALTER TABLE submissions ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'new';
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'submissions' AND column_name = 'assignee') THEN
+          ALTER TABLE submissions ADD COLUMN assignee VARCHAR(255);
+        END IF;
       END $$;
+
+      INSERT INTO form_versions (form_id, version, title, description, schema, published_by, created_at)
+      SELECT f.id, 1, f.title, f.description, f.schema, f.github_username, COALESCE(f.published_at, NOW())
+      FROM forms f
+      WHERE f.status = 'published'
+        AND NOT EXISTS (SELECT 1 FROM form_versions v WHERE v.form_id = f.id);
+
+      UPDATE forms f
+      SET current_version_id = v.id
+      FROM form_versions v
+      WHERE v.form_id = f.id AND v.version = 1 AND f.current_version_id IS NULL;
     `);
 
     // Step 3: Create indexes for the new columns (after they exist)
     await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_submissions_form_version ON submissions(form_version_id);
+      CREATE INDEX IF NOT EXISTS idx_submissions_status ON submissions(status);
       CREATE INDEX IF NOT EXISTS idx_proof_templates_credential_format ON proof_templates(credential_format);
       CREATE INDEX IF NOT EXISTS idx_proof_templates_published_to_verifier ON proof_templates(published_to_verifier);
+      CREATE INDEX IF NOT EXISTS idx_proof_templates_family ON proof_templates(family_id);
     `);
 
     console.log('Forms Builder: Database tables initialized');
@@ -5,7 +5,7 @@
  * Using Drizzle ORM with PostgreSQL.
  */
 
-import { pgTable, uuid, varchar, text, jsonb, timestamp, boolean, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, jsonb, timestamp, boolean, integer, index, uniqueIndex } from 'drizzle-orm/pg-core';
 
 // Forms table - stores form definitions
 export const forms = pgTable('forms', {
@@ -29,6 +29,9 @@ export const forms = pgTable('forms', {
   // Cloning support
   clonedFrom: uuid('cloned_from'),
 
+  // Latest published version (form_versions.id) - new submissions are pinned to it
+  currentVersionId: uuid('current_version_id'),
+
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -39,20 +42,100 @@ export const forms = pgTable('forms', {
   statusIdx: index('idx_forms_status').on(table.status),
 }));
 
+// Form Versions table - immutable snapshots of a form taken each time it is published
+export const formVersions = pgTable('form_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  formId: uuid('form_id').notNull().references(() => forms.id),
+  version: integer('version').notNull(), // 1, 2, 3... per form
+  title: varchar('title', { length: 255 }).notNull(),
+  description: text('description'),
+  schema: jsonb('schema').notNull(),
+  publishedBy: varchar('published_by', { length: 255 }), // GitHub username
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  formVersionIdx: uniqueIndex('idx_form_versions_form_version').on(table.formId, table.version),
+}));
+
 // Submissions table - stores form submissions (will be added in Increment 4)
 export const submissions = pgTable('submissions', {
   id: uuid('id').primaryKey().defaultRandom(),
   formId: uuid('form_id').notNull().references(() => forms.id),
+  formVersionId: uuid('form_version_id').references(() => formVersions.id), // null for draft test submissions
   sessionId: uuid('session_id').notNull(),
   isTest: boolean('is_test').default(false).notNull(),
   fieldValues: jsonb('field_values').notNull(),
   proofPresentations: jsonb('proof_presentations'),
+  credentialOffer: jsonb('credential_offer'), // Latest credential offer made from this submission
+  status: varchar('status', { length: 20 }).default('new').notNull(), // 'new' | 'in_review' | 'approved' | 'rejected'
+  assignee: varchar('assignee', { length: 255 }), // GitHub username of the assigned reviewer
   submittedAt: timestamp('submitted_at').defaultNow().notNull(),
 }, (table) => ({
   formIdx: index('idx_submissions_form').on(table.formId),
+  formVersionIdx: index('idx_submissions_form_version').on(table.formVersionId),
+  statusIdx: index('idx_submissions_status').on(table.status),
   submittedAtIdx: index('idx_submissions_submitted_at').on(table.submittedAt),
 }));
 
+// Submission Comments table - internal reviewer comments; replies reference a top-level comment
+export const submissionComments = pgTable('submission_comments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  submissionId: uuid('submission_id').notNull().references(() => submissions.id),
+  parentId: uuid('parent_id'), // null for top-level comments
+  githubUserId: varchar('github_user_id', { length: 255 }).notNull(),
+  githubUsername: varchar('github_username', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  submissionIdx: index('idx_submission_comments_submission').on(table.submissionId),
+}));
+
+// Submission Events table - audit trail of review actions
+export const submissionEvents = pgTable('submission_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  submissionId: uuid('submission_id').notNull().references(() => submissions.id),
+  action: varchar('action', { length: 50 }).notNull(), // 'status_changed' | 'assigned' | 'commented' | 'credential_issued'
+  details: jsonb('details'), // e.g. { from, to } for status and assignee changes
+  githubUsername: varchar('github_username', { length: 255 }), // null for system actions
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  submissionIdx: index('idx_submission_events_submission').on(table.submissionId),
+}));
+
+// Form Uploads table - files attached to 'file' fields; stored in the form uploads directory
+export const formUploads = pgTable('form_uploads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  formId: uuid('form_id').notNull().references(() => forms.id),
+  fieldId: varchar('field_id', { length: 255 }).notNull(), // FormField.id
+  sessionId: uuid('session_id').notNull(), // Applicant session that uploaded the file
+  submissionId: uuid('submission_id').references(() => submissions.id), // Set once the form is submitted
+  filename: varchar('filename', { length: 255 }).notNull(), // Stored file name
+  originalName: varchar('original_name', { length: 255 }).notNull(),
+  mimetype: varchar('mimetype', { length: 255 }).notNull(),
+  size: integer('size').notNull(),
+  hash: varchar('hash', { length: 100 }).notNull(), // sha256-<base64>
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  formIdx: index('idx_form_uploads_form').on(table.formId),
+  submissionIdx: index('idx_form_uploads_submission').on(table.submissionId),
+}));
+
+// Form Drafts table - applicant-side saved progress, resumed via resume token
+export const formDrafts = pgTable('form_drafts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  formId: uuid('form_id').notNull().references(() => forms.id),
+  resumeToken: varchar('resume_token', { length: 64 }).notNull(),
+  sessionId: uuid('session_id').notNull(), // Applicant session - proof requests are scoped to it
+  fieldValues: jsonb('field_values').notNull(), // Flat values keyed by field name
+  proofPresentations: jsonb('proof_presentations'), // Proof request IDs keyed by field name
+  currentStep: integer('current_step').notNull().default(0),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  resumeTokenIdx: uniqueIndex('idx_form_drafts_resume_token').on(table.resumeToken),
+  expiresAtIdx: index('idx_form_drafts_expires_at').on(table.expiresAt),
+}));
+
 // Credential Library table - stores imported credentials (will be added in Increment 5)
 export const credentialLibrary = pgTable('credential_library', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -99,11 +182,16 @@ export const proofTemplates = pgTable('proof_templates', {
   // Requested credentials (replaces claims array)
   requestedCredentials: jsonb('requested_credentials').notNull().default([]),
 
+  // Alternatives among requested credentials ({ id, name, minimum }; members reference groupId)
+  credentialGroups: jsonb('credential_groups').notNull().default([]),
+
   // Metadata
   metadata: jsonb('metadata').default({}), // { author, ecosystemTag, tags[] }
 
   // Status and publishing
-  status: varchar('status', { length: 20 }).notNull().default('draft'), // 'draft' | 'published'
+  status: varchar('status', { length: 20 }).notNull().default('draft'), // 'draft' | 'published' | 'deprecated' | 'retired'
+  statusReason: text('status_reason'), // Why the template was deprecated or retired
+  statusChangedAt: timestamp('status_changed_at'),
   vdrUri: varchar('vdr_uri', { length: 500 }), // URI after publishing to VDR
   publishedToVerifier: boolean('published_to_verifier').default(false).notNull(), // Available in Test Verifier app
 
@@ -116,6 +204,10 @@ export const proofTemplates = pgTable('proof_templates', {
   // Cloning support
   clonedFrom: uuid('cloned_from'),
 
+  // Version lineage - every version of a template shares the family ID of its first version
+  familyId: uuid('family_id'), // null for the first version (the family ID is its own ID)
+  previousVersionId: uuid('previous_version_id'),
+
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -125,4 +217,5 @@ export const proofTemplates = pgTable('proof_templates', {
   statusIdx: index('idx_proof_templates_status').on(table.status),
   credentialFormatIdx: index('idx_proof_templates_credential_format').on(table.credentialFormat),
   publishedToVerifierIdx: index('idx_proof_templates_published_to_verifier').on(table.publishedToVerifier),
+  familyIdx: index('idx_proof_templates_family').on(table.familyId),
 }));
@@ -301,6 +301,7 @@ router.get('/vct/:filename', requireAuth, async (req, res) => {
       filename: data.name,
       sha: data.sha,
       content: vct,
+      raw: content, // Exact bytes, for integrity checks
     });
   } catch (error) {
     if (error.status === 404) {
@@ -311,15 +312,74 @@ router.get('/vct/:filename', requireAuth, async (req, res) => {
   }
 });
 
+// Get the published version of a JSON Schema (used to diff before republishing)
+router.get('/schema/:filename', requireAuth, async (req, res) => {
+  try {
+    const { filename } = req.params;
+    const octokit = getOctokit(req);
+
+    // Same extension rule as POST /schema
+    const finalFilename = filename.endsWith('.json') ? filename : `${filename}.json`;
+
+    const { data } = await octokit.rest.repos.getContent({
+      owner: GITHUB_REPO_OWNER,
+      repo: GITHUB_REPO_NAME,
+      path: `${SCHEMA_FOLDER_PATH}/${finalFilename}`,
+      ...(GITHUB_BASE_BRANCH && { ref: GITHUB_BASE_BRANCH }),
+    });
+
+    const content = Buffer.from(data.content, 'base64').toString('utf-8');
+
+    res.json({
+      filename: data.name,
+      sha: data.sha,
+      content: JSON.parse(content),
+      uri: `${BASE_URL}/${data.path}`,
+    });
+  } catch (error) {
+    if (error.status === 404) {
+      return res.status(404).json({ error: 'Schema file not found' });
+    }
+    console.error('Error fetching schema file:', error);
+    res.status(500).json({ error: 'Failed to fetch schema file' });
+  }
+});
+
+// Check if a file exists on a branch to get its SHA for update (null if it doesn't exist yet)
+async function getExistingFileSha(octokit, filePath, branch) {
+  try {
+    const { data: existingFile } = await octokit.rest.repos.getContent({
+      owner: GITHUB_REPO_OWNER,
+      repo: GITHUB_REPO_NAME,
+      path: filePath,
+      ref: branch,
+    });
+    return existingFile.sha;
+  } catch (error) {
+    if (error.status !== 404) {
+      throw error;
+    }
+    return null;
+  }
+}
+
 // Create a new Schema file (creates branch + PR)
 // Supports both JSON Schema (.json) and JSON-LD Context (.jsonld) modes
+// Republishing an existing file updates it; changeSummary (markdown from the
+// Schema Builder's schema diff) is appended to the PR body
 router.post('/schema', requireAuth, async (req, res) => {
   try {
-    const { filename, content, title, description, mode } = req.body;
+    const { filename, content, title, description, mode, context, changeSummary } = req.body;
 
     if (!filename || !content) {
       return res.status(400).json({ error: 'Filename and content are required' });
     }
+    if (context !== undefined && (typeof context !== 'object' || context === null || !context['@context'])) {
+      return res.status(400).json({ error: 'Context must be a JSON-LD document with an @context' });
+    }
+    if (changeSummary !== undefined && typeof changeSummary !== 'string') {
+      return res.status(400).json({ error: 'changeSummary must be a string' });
+    }
 
     // Determine folder and file extension based on mode
     const isJsonLdMode = mode === 'jsonld-context';
@@ -357,9 +417,14 @@ router.post('/schema', requireAuth, async (req, res) => {
     });
     const baseSha = ref.object.sha;
 
+    // Updating an existing file requires its blob sha
+    const filePath = `${folderPath}/${finalFilename}`;
+    const existingSha = await getExistingFileSha(octokit, filePath, baseBranch);
+    const action = existingSha ? 'Update' : 'Add';
+
     // Create a new branch
     const timestamp = Date.now();
-    const branchName = `${branchPrefix}/add-${finalFilename.replace(/\.(json|jsonld)$/, '')}-${timestamp}`;
+    const branchName = `${branchPrefix}/${action.toLowerCase()}-${finalFilename.replace(/\.(json|jsonld)$/, '')}-${timestamp}`;
 
     await octokit.rest.git.createRef({
       owner: GITHUB_REPO_OWNER,
@@ -369,7 +434,6 @@ router.post('/schema', requireAuth, async (req, res) => {
     });
 
     // Create or update the file in the new branch
-    const filePath = `${folderPath}/${finalFilename}`;
     const fileContent = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
     const encodedContent = Buffer.from(fileContent).toString('base64');
 
@@ -377,16 +441,44 @@ router.post('/schema', requireAuth, async (req, res) => {
       owner: GITHUB_REPO_OWNER,
       repo: GITHUB_REPO_NAME,
       path: filePath,
-      message: `Add ${typeLabel}: ${finalFilename}`,
+      message: `${action} ${typeLabel}: ${finalFilename}`,
       content: encodedContent,
       branch: branchName,
+      ...(existingSha && { sha: existingSha }),
     });
 
-    // Create a pull request
-    const prTitle = title || `Add ${typeLabel}: ${finalFilename}`;
-    const prBody = description || `This PR adds a new ${typeLabel} file: \`${finalFilename}\`
+    // Publish the JSON-LD context generated alongside the schema on the same branch
+    let contextPath = null;
+    if (context && !isJsonLdMode) {
+      const contextFilename = finalFilename.replace(/(\.schema)?\.json$/, '') + '.context.jsonld';
+      contextPath = `${CONTEXT_FOLDER_PATH}/${contextFilename}`;
+      const existingContextSha = await getExistingFileSha(octokit, contextPath, baseBranch);
 
-Created by @${user.login} using the [Cornerstone Network Apps](https://apps.openpropertyassociation.ca).`;
+      await octokit.rest.repos.createOrUpdateFileContents({
+        owner: GITHUB_REPO_OWNER,
+        repo: GITHUB_REPO_NAME,
+        path: contextPath,
+        message: `${existingContextSha ? 'Update' : 'Add'} JSON-LD Context: ${contextFilename}`,
+        content: Buffer.from(JSON.stringify(context, null, 2)).toString('base64'),
+        branch: branchName,
+        ...(existingContextSha && { sha: existingContextSha }),
+      });
+    }
+
+    // Create a pull request
+    const prTitle = title || `${action} ${typeLabel}: ${finalFilename}`;
+    const addedFiles = contextPath
+      ? `files: \`${finalFilename}\` and its JSON-LD context \`${contextPath.split('/').pop()}\``
+      : `file: \`${finalFilename}\``;
+    const summary = existingSha
+      ? `This PR updates the ${typeLabel} ${addedFiles}`
+      : `This PR adds a new ${typeLabel} ${addedFiles}`;
+    const prBody = [
+      description || `${summary}
+
+Created by @${user.login} using the [Cornerstone Network Apps](https://apps.openpropertyassociation.ca).`,
+      ...(changeSummary ? [changeSummary] : []),
+    ].join('\n\n');
 
     const { data: pr } = await octokit.rest.pulls.create({
       owner: GITHUB_REPO_OWNER,
@@ -407,6 +499,7 @@ Created by @${user.login} using the [Cornerstone Network Apps](https://apps.open
       branch: branchName,
       file: filePath,
       uri: `${BASE_URL}/${filePath}`,
+      ...(contextPath ? { contextFile: contextPath, contextUri: `${BASE_URL}/${contextPath}` } : {}),
     });
   } catch (error) {
     console.error('Error creating Schema PR:', error);
@@ -1413,6 +1506,7 @@ router.get('/published-assets', requireAuth, async (req, res) => {
       fetchFolder(`${ENTITY_FOLDER_PATH}/logos`, 'entity-logo'),
       fetchFolder(`${VCT_FOLDER_PATH}/backgrounds`, 'credential-background'),
       fetchFolder(`${VCT_FOLDER_PATH}/icons`, 'credential-icon'),
+      fetchFolder(`${VCT_FOLDER_PATH}/svg-templates`, 'credential-svg-template'),
     ]);
 
     res.json(assets);
@@ -1435,6 +1529,7 @@ function getAssetTypePath(assetType) {
     'entity-logo': `${settings.entityPath}/logos`,
     'credential-background': `${settings.vctPath}/backgrounds`,
     'credential-icon': `${settings.vctPath}/icons`,
+    'credential-svg-template': `${settings.vctPath}/svg-templates`,
   };
   return paths[assetType] || null;
 }
@@ -1540,6 +1635,7 @@ router.post('/asset', requireAuth, async (req, res) => {
       'entity-logo': 'Entity Logo',
       'credential-background': 'Credential Background',
       'credential-icon': 'Credential Icon',
+      'credential-svg-template': 'Credential SVG Template',
     }[assetType];
     const prBody = description || `This PR adds a new ${assetTypeLabel}: \`${targetFilename}\`
 
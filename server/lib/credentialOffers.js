@@ -0,0 +1,50 @@
+/**
+ * Credential Offers
+ *
+ * Sends credential offers to the Orbit Issuer API. Shared by the Test Issuer
+ * (POST /api/issuer/offers/catalogue) and form submission issuance.
+ */
+
+// Orbit offers are only valid for a limited time
+export const OFFER_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * POST a credential offer to the configured Orbit LOB.
+ * Returns the request details alongside the response so callers can report them.
+ */
+export async function sendCredentialOffer(issuerConfig, { credentialId, credAttributes, comment, socketSessionId }) {
+  // Normalize baseUrl to remove trailing slashes
+  const normalizedBaseUrl = issuerConfig.baseUrl.replace(/\/+$/, '');
+
+  // Prepare credential offer payload per Orbit Issuer API spec
+  const payload = {
+    credentialId,
+    credAttributes,
+    comment,
+    messageProtocol: 'AIP2_0',
+    credAutoIssue: true,
+    ...(socketSessionId && { socketSessionId }),
+  };
+
+  const url = `${normalizedBaseUrl}/api/lob/${issuerConfig.lobId}/credential/offer`;
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(issuerConfig.apiKey && { 'api-key': issuerConfig.apiKey }),
+  };
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(payload),
+  });
+
+  const responseText = await response.text();
+  let result;
+  try {
+    result = JSON.parse(responseText);
+  } catch {
+    result = {};
+  }
+
+  return { url, payload, response, responseText, result };
+}
@@ -0,0 +1,118 @@
+/**
+ * Form Issuance
+ *
+ * Issues a catalogue credential from a form submission, using the form's
+ * issuance binding (FormSchema.issuance) to fill the credential's attributes
+ * from submitted answers. See IssuanceBinding in src/types/forms.ts.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getOrbitApiConfig, isApiConfigured } from './orbitConfig.js';
+import { OFFER_TTL_MS, sendCredentialOffer } from './credentialOffers.js';
+import { getValueByPath } from '../../src/lib/formRules.js';
+import { toCellValue } from './submissionExport.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Look up a cloned catalogue credential that can be issued through Orbit.
+ * Reads the Credential Catalogue store (see routes/credential-catalogue.js).
+ */
+export function getIssuableCredential(catalogueCredentialId) {
+  const assetsPath = process.env.ASSETS_PATH || path.join(__dirname, '..', 'assets');
+  const credentialsFile = path.join(assetsPath, 'credential-catalogue', 'credentials.json');
+  if (!fs.existsSync(credentialsFile)) return null;
+
+  const credentials = JSON.parse(fs.readFileSync(credentialsFile, 'utf-8'));
+  const credential = credentials.find((c) => c.id === catalogueCredentialId);
+  return credential?.clonedAt && credential.clonedOrbitCredDefId ? credential : null;
+}
+
+/**
+ * Fill credential attributes from submitted answers.
+ * Every attribute must be mapped; unanswered optional fields are issued as ''.
+ */
+export function buildCredentialAttributes(formSchema, binding, credential, fieldValues) {
+  const fields = (formSchema?.sections || []).flatMap((section) => section.fields || []);
+  const credAttributes = {};
+  const unmapped = [];
+
+  for (const attribute of credential.attributes || []) {
+    const fieldName = binding.attributeMappings?.[attribute];
+    const field = fieldName && fields.find((f) => f.name === fieldName);
+    if (!field) {
+      unmapped.push(attribute);
+      continue;
+    }
+    credAttributes[attribute] = String(toCellValue(field, getValueByPath(fieldValues, fieldName)));
+  }
+
+  return { credAttributes, unmapped };
+}
+
+/**
+ * Offer the form's bound credential for a submission.
+ * Returns { offer } or { status, error, apiDetails? } on failure.
+ */
+export async function issueSubmissionCredential(formSchema, submission, issuedBy) {
+  const binding = formSchema?.issuance;
+  if (!binding?.catalogueCredentialId) {
+    return { status: 400, error: 'This form does not issue a credential' };
+  }
+
+  if (!isApiConfigured('issuer')) {
+    return { status: 503, error: 'Issuer API not configured' };
+  }
+  const issuerConfig = getOrbitApiConfig('issuer');
+  if (!issuerConfig?.baseUrl || !issuerConfig.lobId) {
+    return { status: 503, error: 'Issuer API not properly configured' };
+  }
+
+  const credential = getIssuableCredential(binding.catalogueCredentialId);
+  if (!credential) {
+    return { status: 400, error: `${binding.credentialName} is no longer available for issuance` };
+  }
+
+  const { credAttributes, unmapped } = buildCredentialAttributes(
+    formSchema,
+    binding,
+    credential,
+    submission.fieldValues
+  );
+  if (unmapped.length > 0) {
+    return { status: 400, error: `No form field is mapped to: ${unmapped.join(', ')}` };
+  }
+
+  const { url, response, responseText, result } = await sendCredentialOffer(issuerConfig, {
+    credentialId: credential.clonedOrbitCredDefId,
+    credAttributes,
+    comment: `Credential offer for form submission ${submission.id}`,
+  });
+
+  if (!response.ok || !result.data?.shortUrl) {
+    console.error('[Forms] Credential offer failed:', response.status, responseText);
+    return {
+      status: response.ok ? 502 : response.status,
+      error: result.message || result.error || 'Failed to create credential offer',
+      apiDetails: { requestUrl: url, statusCode: response.status, responseBody: responseText },
+    };
+  }
+
+  const now = new Date();
+  return {
+    offer: {
+      offerId: result.data.credOfferId || crypto.randomUUID(),
+      shortUrl: result.data.shortUrl,
+      longUrl: result.data.longUrl,
+      catalogueCredentialId: binding.catalogueCredentialId,
+      credentialName: credential.clonedSchemaName || credential.name || binding.credentialName,
+      issuedBy,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + OFFER_TTL_MS).toISOString(),
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Form File Uploads
+ *
+ * Upload policy for FormField type 'file'. Files are received by the multer
+ * pipeline in proxy.js and checked here against the field's fileConfig, using
+ * the upload rules shared with the form builder (src/lib/formRules.js).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FILE_UPLOAD_TYPES, getAcceptedFileTypes, getMaxFileSizeMb } from '../../src/lib/formRules.js';
+
+// MIME types applicants may upload to any field
+export const FORM_UPLOAD_TYPES = FILE_UPLOAD_TYPES.map((type) => type.mimeType);
+
+// Uploads not attached to a submission are removed after this long, unless the
+// applicant's session still has a draft that can be resumed
+export const UNATTACHED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Most files one applicant session may upload to a form
+export const MAX_UPLOADS_PER_SESSION = 20;
+
+// Most uploads a form may hold that are not yet attached to a submission
+export const MAX_UNATTACHED_UPLOADS_PER_FORM = 500;
+
+/**
+ * Check an uploaded file against a field's limits.
+ * Returns an error message or null.
+ */
+export function checkUploadForField(field, file) {
+  if (!getAcceptedFileTypes(field).includes(file.mimetype)) {
+    return 'Invalid file type for this field';
+  }
+  const maxSizeMb = getMaxFileSizeMb(field);
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return `File too large. Maximum size is ${maxSizeMb}MB.`;
+  }
+  return null;
+}
+
+/**
+ * Delete stored upload files in the background. Files that are already gone are ignored.
+ */
+export function unlinkUploadFiles(uploadsDir, filenames) {
+  for (const filename of filenames) {
+    fs.promises.unlink(path.join(uploadsDir, filename)).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        console.error('Error removing uploaded file:', error);
+      }
+    });
+  }
+}
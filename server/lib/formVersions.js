@@ -0,0 +1,36 @@
+/**
+ * Form Versions
+ *
+ * Resolves the version of a published form that applicants fill in. Live
+ * submissions are pinned to (and validated against) this version, so proof
+ * requests, uploads and drafts must use the same schema.
+ */
+
+import { eq } from 'drizzle-orm';
+import { schema } from '../db/index.js';
+
+/**
+ * Load the version a published form currently serves.
+ * Returns null for unpublished forms and forms published before versioning.
+ */
+export async function getPublishedFormVersion(db, form) {
+  if (form.status !== 'published' || !form.currentVersionId) {
+    return null;
+  }
+
+  const [formVersion] = await db
+    .select()
+    .from(schema.formVersions)
+    .where(eq(schema.formVersions.id, form.currentVersionId));
+
+  return formVersion || null;
+}
+
+/**
+ * The schema applicants see: the published version's schema, falling back to
+ * the working schema when the form has no version (draft test submissions)
+ */
+export async function getPublishedFormSchema(db, form) {
+  const formVersion = await getPublishedFormVersion(db, form);
+  return formVersion?.schema || form.schema;
+}
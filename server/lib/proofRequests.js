@@ -0,0 +1,313 @@
+/**
+ * Proof Request Helper
+ *
+ * Shared proof request logic for the Test Verifier and published forms:
+ * 1. Conversion of proof templates to Orbit proof request payloads (via src/lib/proofCompiler.js)
+ * 2. Synthesis of single-credential templates from form verifiable-credential fields
+ * 3. In-memory tracking of generated proof requests
+ * 4. Backend RegisterSocket listeners for requests made by anonymous applicants
+ */
+
+import { io as socketIoClient } from 'socket.io-client';
+import { getOrbitApiConfig } from './orbitConfig.js';
+import { ORBIT_FORMAT_MAP, compileProofTemplate, toOrbitRequestedClaims } from '../../src/lib/proofCompiler.js';
+
+// How long a backend socket waits for a wallet to respond before the request expires
+const WATCH_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How long a settled form request is kept: verified ones until the applicant
+// submits (or resumes a draft), failed and expired ones until the form has polled them
+const VERIFIED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const SETTLED_RETENTION_MS = 5 * 60 * 1000;
+
+// Most unsettled proof requests one applicant session may hold for a form
+export const MAX_PENDING_PROOF_REQUESTS_PER_SESSION = 10;
+
+// Most unsettled proof requests a form may hold across all applicants
+export const MAX_PENDING_PROOF_REQUESTS_PER_FORM = 200;
+
+// Statuses after which a proof request no longer changes
+export const TERMINAL_STATUSES = ['verified', 'failed', 'expired'];
+
+// In-memory storage for proof requests
+// In production, use database tables
+export const proofRequests = new Map();
+
+/**
+ * Warnings for the template author about what a proof request cannot express as
+ * configured, e.g. credential groups whose alternatives are all requested
+ */
+export function proofRequestWarnings(template) {
+  return compileProofTemplate(template).issues
+    .filter((issue) => issue.severity === 'warning')
+    .map((issue) => issue.message);
+}
+
+/**
+ * Convert our template to Orbit proof request format using the compiler shared
+ * with the Proof Templates Builder (src/lib/proofCompiler.js).
+ *
+ * Throws (with status 400) for anything the compiler reports as an error, since
+ * leaving it out would accept more credentials than the template allows.
+ */
+export function toOrbitProofRequest(template, socketSessionId) {
+  const { credentials, issues } = compileProofTemplate(template);
+  const error = issues.find((issue) => issue.severity === 'error');
+  if (error) {
+    throw Object.assign(new Error(error.message), { status: 400 });
+  }
+
+  const formatConfig = ORBIT_FORMAT_MAP[template.credentialFormat] || ORBIT_FORMAT_MAP['anoncreds'];
+  const { requestedAttributes, requestedPredicates } = toOrbitRequestedClaims(credentials);
+
+  // Generate a unique credProofId based on template
+  const ecosystemTag = template.metadata?.ecosystemTag || 'general';
+  const safeName = template.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  const credProofId = `${ecosystemTag}.${safeName}.${template.version || '1.0.0'}.${Date.now()}`;
+
+  return {
+    messageProtocol: formatConfig.messageProtocol,
+    credProofId,
+    proofAutoVerify: true,
+    createClaim: false,
+    sendProblemReport: false,
+    problemReportMessage: '',
+    proofName: template.name,
+    proofPurpose: template.description || `Verify ${template.name}`,
+    proofCredFormat: formatConfig.proofCredFormat,
+    requestedAttributes,
+    requestedPredicates: requestedPredicates.length > 0 ? requestedPredicates : undefined,
+    ...(socketSessionId && { socketSessionId }),
+  };
+}
+
+/**
+ * Strip the credentialSubject prefix from a schema attribute path
+ * ("credentialSubject.person.birth_date" -> "person.birth_date")
+ */
+function toAttributeName(attributePath) {
+  return attributePath.replace(/^credentialSubject\./, '');
+}
+
+/**
+ * Build a single-credential proof template from a form's verifiable-credential field.
+ * The result has the same shape as a stored proof template, so it can be passed
+ * straight to toOrbitProofRequest.
+ */
+export function credentialFieldToTemplate(form, field) {
+  const config = field.credentialConfig || {};
+  const label = field.label || 'Credential';
+
+  const attributeNames = new Set((config.requiredAttributes || []).map(toAttributeName));
+  const predicates = [];
+
+  if (config.attributePath) {
+    const attributeName = toAttributeName(config.attributePath);
+
+    if (config.predicate) {
+      // Form predicates carry no data type; ISO date values are dates
+      predicates.push({
+        attributeName,
+        predicateType: /^\d{4}-\d{2}-\d{2}$/.test(String(config.predicate.value)) ? 'date' : 'integer',
+        operator: config.predicate.operator,
+        value: config.predicate.value,
+      });
+    } else {
+      attributeNames.add(attributeName);
+    }
+  }
+
+  // Accepted issuers may be DIDs or display names; only DIDs can restrict a proof
+  const issuerDids = (config.acceptedIssuers || []).filter((issuer) => issuer.startsWith('did:'));
+
+  return {
+    name: `${form.title} - ${label}`,
+    description: field.description || `Verify ${label}`,
+    version: '1.0.0',
+    credentialFormat: config.source === 'vct-library' ? 'w3c-sd-jwt' : 'anoncreds',
+    metadata: { ecosystemTag: 'forms' },
+    requestedCredentials: [
+      {
+        id: field.id,
+        credentialName: label,
+        restrictions: {
+          ...(config.schemaId && { schemaId: config.schemaId }),
+          ...(config.credDefId && { credentialDefinitionId: config.credDefId }),
+          ...(issuerDids.length > 0 && { issuerDids }),
+        },
+        requestedAttributes: [...attributeNames].map((attributeName) => ({ attributeName, required: true })),
+        predicates,
+      },
+    ],
+  };
+}
+
+/**
+ * Map an Orbit VERIFICATION_RESPONSE proofRequestStatus to our proof request status
+ */
+function mapVerificationStatus(orbitStatus) {
+  switch (orbitStatus) {
+    case 'request-sent':
+      return 'request-sent';
+    case 'presentation-received':
+    case 'proof-received':
+      return 'proof-received';
+    case 'verified':
+    case 'done':
+      return 'verified';
+    case 'abandoned':
+    case 'declined':
+    case 'failed':
+    case 'invalid':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Open a backend RegisterSocket connection for proof requests created on behalf
+ * of applicants who have no COPA session (and so cannot register a socket themselves).
+ *
+ * Resolves to { socket, socketSessionId }, or null when RegisterSocket is not configured.
+ */
+export function registerVerificationSocket() {
+  const registerSocketConfig = getOrbitApiConfig('registerSocket');
+  if (!registerSocketConfig?.baseUrl || !registerSocketConfig.lobId) {
+    return Promise.resolve(null);
+  }
+
+  const socketUrl = registerSocketConfig.baseUrl.replace(/\/+$/, '');
+  const { lobId, apiKey } = registerSocketConfig;
+
+  return new Promise((resolve, reject) => {
+    const socket = socketIoClient(socketUrl, {
+      auth: apiKey ? { 'api-key': apiKey } : undefined,
+      transports: ['websocket', 'polling'],
+      timeout: 20000,
+      reconnection: false,
+    });
+
+    const timeoutId = setTimeout(() => {
+      socket.disconnect();
+      reject(new Error('Socket registration timeout - Orbit RegisterSocket did not respond in time'));
+    }, 25000);
+
+    socket.on('connect', () => {
+      socket.emit('REGISTER_SOCKET', lobId);
+    });
+
+    socket.on('REGISTER_SOCKET_RESPONSE', (response) => {
+      clearTimeout(timeoutId);
+      if (response?.success) {
+        resolve({ socket, socketSessionId: response.socketId || socket.id });
+      } else {
+        socket.disconnect();
+        reject(new Error('Socket registration failed: ' + JSON.stringify(response)));
+      }
+    });
+
+    socket.on('connect_error', (error) => {
+      clearTimeout(timeoutId);
+      socket.disconnect();
+      reject(new Error('Socket connection failed: ' + error.message));
+    });
+  });
+}
+
+/**
+ * Count unsettled form proof requests for a form and for one applicant session on it
+ */
+export function countPendingFormProofRequests(formId, sessionId) {
+  let form = 0;
+  let session = 0;
+  for (const proofRequest of proofRequests.values()) {
+    if (proofRequest.formId !== formId || TERMINAL_STATUSES.includes(proofRequest.status)) continue;
+    form++;
+    if (proofRequest.formSessionId === sessionId) session++;
+  }
+  return { form, session };
+}
+
+/**
+ * Watch a stored form proof request until it settles, then drop it from the
+ * proofRequests map once the applicant no longer needs it.
+ *
+ * Listens for VERIFICATION_RESPONSE events and updates the request in place. The
+ * request expires after WATCH_TIMEOUT_MS; without a socket it can only expire.
+ *
+ * @param {Object|null} socket - Socket returned by registerVerificationSocket
+ * @param {string} proofRequestId - Key in the proofRequests map
+ * @param {Function} [onTerminal] - Called with the proof request when it settles
+ */
+export function watchProofRequest(socket, proofRequestId, onTerminal) {
+  const finish = () => {
+    clearTimeout(expiryId);
+    socket?.disconnect();
+    const proofRequest = proofRequests.get(proofRequestId);
+    if (!proofRequest) return;
+    onTerminal?.(proofRequest);
+    setTimeout(
+      () => proofRequests.delete(proofRequestId),
+      proofRequest.status === 'verified' ? VERIFIED_RETENTION_MS : SETTLED_RETENTION_MS
+    );
+  };
+
+  const expiryId = setTimeout(() => {
+    const proofRequest = proofRequests.get(proofRequestId);
+    if (proofRequest && !TERMINAL_STATUSES.includes(proofRequest.status)) {
+      proofRequest.status = 'expired';
+    }
+    finish();
+  }, WATCH_TIMEOUT_MS);
+
+  if (!socket) return;
+
+  socket.on('VERIFICATION_RESPONSE', (msg) => {
+    const proofRequest = proofRequests.get(proofRequestId);
+    if (!proofRequest) return;
+
+    const payload = msg?.payload || {};
+    if (payload.credProofId && payload.credProofId !== proofRequest.credProofId) return;
+
+    const status = mapVerificationStatus(payload.proofRequestStatus);
+    if (!status) return;
+
+    proofRequest.status = status;
+    if (status === 'verified') {
+      proofRequest.verifiedAt = new Date().toISOString();
+      proofRequest.verificationResult = payload;
+    }
+    if (status === 'failed') {
+      proofRequest.errorMessage = payload.message || `Proof ${payload.proofRequestStatus}`;
+    }
+
+    if (TERMINAL_STATUSES.includes(status)) {
+      finish();
+    }
+  });
+}
+
+/**
+ * Get the verified presentation for a form-scoped proof request.
+ * Returns null unless the request belongs to this form + applicant session and is verified.
+ */
+export function getVerifiedFormPresentation(proofRequestId, { formId, fieldId, sessionId }) {
+  const proofRequest = proofRequests.get(proofRequestId);
+  if (
+    !proofRequest ||
+    proofRequest.formId !== formId ||
+    proofRequest.fieldId !== fieldId ||
+    proofRequest.formSessionId !== sessionId ||
+    proofRequest.status !== 'verified'
+  ) {
+    return null;
+  }
+
+  return {
+    proofRequestId: proofRequest.id,
+    credProofId: proofRequest.credProofId,
+    verifiedAt: proofRequest.verifiedAt,
+    presentation: proofRequest.verificationResult,
+  };
+}
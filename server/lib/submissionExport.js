@@ -0,0 +1,184 @@
+/**
+ * Submission Export
+ *
+ * Flattens form submissions into a table for spreadsheet export:
+ * one row per submission, one column per FormField.name, plus columns for
+ * attributes disclosed in verified credential presentations.
+ */
+
+import { flattenFormData, formatAddress, getValueByPath } from '../../src/lib/formRules.js';
+
+// Leading characters that make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Pull disclosed attribute values out of a stored presentation.
+ * Orbit payloads either list presentedCredentials (each with attributes) or carry
+ * revealed attributes directly; both are flattened to { attributeName: value }.
+ */
+export function extractPresentedAttributes(presentation) {
+  if (!presentation || typeof presentation !== 'object') return {};
+
+  if (Array.isArray(presentation.presentedCredentials)) {
+    return Object.assign(
+      {},
+      ...presentation.presentedCredentials.map((credential) => flattenFormData(credential?.attributes))
+    );
+  }
+
+  const attributes = presentation.revealedAttributes || presentation.attributes;
+  return attributes && typeof attributes === 'object' ? flattenFormData(attributes) : {};
+}
+
+/**
+ * Render a single value as cell text
+ */
+export function toCellValue(field, value) {
+  if (value === undefined || value === null) return '';
+
+  // Checkbox answers are { [optionLabel]: boolean } - list the checked labels
+  if (field?.type === 'checkbox' && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value)
+      .filter(([, checked]) => checked)
+      .map(([label]) => label)
+      .join('; ');
+  }
+  // File answers are stored uploads - export the original file name
+  if (field?.type === 'file' && typeof value === 'object') return value.name || '';
+  if (field?.type === 'address' && typeof value === 'object' && !Array.isArray(value)) return formatAddress(value);
+  // Signature images are too large for a cell
+  if (field?.type === 'signature') return value ? 'Signed' : '';
+  if (Array.isArray(value)) return value.map(String).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Named fields of a FormSchema, in form order, split into value fields and
+ * verifiable-credential fields
+ */
+function splitSchemaFields(formSchema) {
+  const fields = (formSchema?.sections || [])
+    .flatMap((section) => section.fields || [])
+    .filter((field) => field.name);
+  return {
+    valueFields: fields.filter((field) => field.type !== 'verifiable-credential'),
+    credentialFields: fields.filter((field) => field.type === 'verifiable-credential'),
+  };
+}
+
+/**
+ * Build export columns and rows for a form's submissions.
+ *
+ * Each submission is read with the schema of the form version it was submitted
+ * against (the working schema for submissions without one), so columns are the
+ * union of those schemas' fields, newest version first. Columns are: submission
+ * metadata, every named non-credential field, then `<field>.verified_at` and
+ * `<field>.<attribute>` for each verifiable-credential field. Values submitted
+ * under keys not in the submission's schema are appended as extra columns so
+ * nothing is lost.
+ *
+ * @param {Object} form - Form row (schema is the working FormSchema)
+ * @param {Object[]} submissions - Submission rows
+ * @param {Object} [versions] - form_versions.id -> { version, schema } for the versions submissions reference
+ * @returns {{ columns: string[], rows: Object[] }}
+ */
+export function buildSubmissionTable(form, submissions, versions = {}) {
+  const workingFields = splitSchemaFields(form.schema);
+  const versionFields = new Map(
+    Object.entries(versions).map(([versionId, formVersion]) => [versionId, splitSchemaFields(formVersion.schema)])
+  );
+  const fieldsFor = (submission) => versionFields.get(submission.formVersionId) || workingFields;
+
+  // Newest version first, then the working schema if any submission has no version
+  const schemaFields = Object.keys(versions)
+    .sort((a, b) => versions[b].version - versions[a].version)
+    .map((versionId) => versionFields.get(versionId));
+  if (submissions.some((submission) => !versionFields.has(submission.formVersionId))) {
+    schemaFields.push(workingFields);
+  }
+  const unionNames = (key) => [...new Set(schemaFields.flatMap((fields) => fields[key].map((field) => field.name)))];
+
+  const rows = submissions.map((submission) => {
+    const { valueFields, credentialFields } = fieldsFor(submission);
+    const row = {
+      submission_id: submission.id,
+      submitted_at: submission.submittedAt ? new Date(submission.submittedAt).toISOString() : '',
+      is_test: submission.isTest ? 'true' : 'false',
+      form_version: versions[submission.formVersionId]?.version ?? '',
+      review_status: submission.status || '',
+      assignee: submission.assignee || '',
+    };
+
+    for (const field of valueFields) {
+      row[field.name] = toCellValue(field, getValueByPath(submission.fieldValues, field.name));
+    }
+
+    // Keys that do not belong to a field of the submission's schema
+    for (const [key, value] of Object.entries(flattenFormData(submission.fieldValues))) {
+      const belongsToField = valueFields.some(
+        (field) => key === field.name || key.startsWith(`${field.name}.`)
+      );
+      if (!belongsToField) {
+        row[key] = toCellValue(null, value);
+      }
+    }
+
+    for (const field of credentialFields) {
+      const presentation = submission.proofPresentations?.[field.name];
+      row[`${field.name}.verified_at`] = presentation?.verifiedAt || '';
+      for (const [attribute, value] of Object.entries(extractPresentedAttributes(presentation?.presentation))) {
+        row[`${field.name}.${attribute}`] = toCellValue(null, value);
+      }
+    }
+
+    return row;
+  });
+
+  // Fixed columns first, then anything only some rows have, in first-seen order
+  const columns = [
+    'submission_id',
+    'submitted_at',
+    'is_test',
+    'form_version',
+    'review_status',
+    'assignee',
+    ...unionNames('valueFields'),
+    ...unionNames('credentialFields').map((name) => `${name}.verified_at`),
+  ];
+  const known = new Set(columns);
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!known.has(key)) {
+        known.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  return { columns, rows };
+}
+
+/**
+ * Quote a cell for CSV (RFC 4180), neutralising spreadsheet formulas
+ */
+function toCsvCell(value) {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise a table as CSV. Starts with a UTF-8 BOM and uses CRLF line endings
+ * so Excel opens it with the right encoding.
+ */
+export function toCsv({ columns, rows }) {
+  const lines = [
+    columns.map(toCsvCell).join(','),
+    ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(',')),
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
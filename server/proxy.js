@@ -24,6 +24,8 @@ import issuerRouter from './routes/issuer.js';
 import credentialCatalogueRouter from './routes/credential-catalogue.js';
 import testVerifierRouter from './routes/test-verifier.js';
 import { initializeDatabase } from './db/index.js';
+import { FORM_UPLOAD_TYPES } from './lib/formUploads.js';
+import { FILE_UPLOAD_MAX_SIZE_MB } from '../src/lib/formRules.js';
 import {
   getOrbitConfig,
   getOrbitConfigStatus,
@@ -71,6 +73,13 @@ if (!fs.existsSync(PROJECTS_DIR)) {
   fs.mkdirSync(PROJECTS_DIR, { recursive: true });
 }
 
+// Files uploaded by form applicants - private, served only to the form owner
+const FORM_UPLOADS_DIR = path.join(ASSETS_DIR, 'form-uploads');
+
+if (!fs.existsSync(FORM_UPLOADS_DIR)) {
+  fs.mkdirSync(FORM_UPLOADS_DIR, { recursive: true });
+}
+
 // Initialize access logger
 initAccessLogger(ASSETS_DIR);
 
@@ -136,6 +145,35 @@ const upload = multer({
   },
 });
 
+// Configure multer for form applicant uploads (FormField type 'file').
+// Per-field type and size limits are checked by the submissions router.
+const formUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, FORM_UPLOADS_DIR);
+    },
+    filename: (req, file, cb) => {
+      // Random name only - the original name is kept in the form_uploads table
+      cb(null, `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`);
+    },
+  }),
+  limits: {
+    fileSize: FILE_UPLOAD_MAX_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (FORM_UPLOAD_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only PDF, PNG, JPEG, WebP and Word documents are allowed.'));
+    }
+  },
+});
+
+// Used by the submissions router for POST /api/forms/:formId/uploads
+app.locals.formUpload = formUpload;
+app.locals.formUploadsDir = FORM_UPLOADS_DIR;
+
 // CORS configuration
 app.use(cors({
   origin: isProduction
@@ -162,7 +200,8 @@ if (isProduction) {
   app.set('trust proxy', 1);
 }
 
-app.use(express.json());
+// Raised from the 100kb default so form submissions can carry drawn signatures
+app.use(express.json({ limit: '1mb' }));
 
 // Allow iframe embedding from any domain
 // Remove X-Frame-Options and set permissive Content-Security-Policy frame-ancestors
@@ -207,6 +246,11 @@ app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(specs, {
 }));
 app.get('/api/docs.json', (req, res) => res.json(specs));
 
+// Form applicant uploads are never served statically
+app.use('/assets/form-uploads', (req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
 // Serve static assets (uploaded files)
 app.use('/assets', express.static(ASSETS_DIR));
 
@@ -602,7 +646,7 @@ app.get('/api/schema-projects/:id', requireProjectAuth, (req, res) => {
 app.post('/api/schema-projects', requireProjectAuth, (req, res) => {
   try {
     const userId = req.session.user.id;
-    const { id, name, metadata, properties } = req.body;
+    const { id, name, metadata, properties, definitions } = req.body;
 
     if (!id || !name) {
       return res.status(400).json({ error: 'id and name are required' });
@@ -616,6 +660,7 @@ app.post('/api/schema-projects', requireProjectAuth, (req, res) => {
       name,
       metadata: metadata || {},
       properties: properties || [],
+      definitions: definitions || [],
       createdAt: now,
       updatedAt: now,
     };
@@ -635,7 +680,7 @@ app.put('/api/schema-projects/:id', requireProjectAuth, (req, res) => {
   try {
     const userId = req.session.user.id;
     const { id } = req.params;
-    const { name, metadata, properties } = req.body;
+    const { name, metadata, properties, definitions } = req.body;
 
     const data = loadUserSchemaProjects(userId);
     const projectIndex = data.projects.findIndex(p => p.id === id);
@@ -649,6 +694,7 @@ app.put('/api/schema-projects/:id', requireProjectAuth, (req, res) => {
       name: name ?? data.projects[projectIndex].name,
       metadata: metadata ?? data.projects[projectIndex].metadata,
       properties: properties ?? data.projects[projectIndex].properties,
+      definitions: definitions ?? data.projects[projectIndex].definitions ?? [],
       updatedAt: new Date().toISOString(),
     };
 
@@ -2172,11 +2218,14 @@ app.get('/api/vocabulary/fetch', async (req, res) => {
 
 // Hash generation endpoint (existing)
 app.get('/hash', async (req, res) => {
-  const { url } = req.query;
+  const { url, alg = 'sha256' } = req.query;
 
   if (!url) {
     return res.status(400).json({ error: 'URL parameter is required' });
   }
+  if (!['sha256', 'sha384', 'sha512'].includes(alg)) {
+    return res.status(400).json({ error: 'alg must be sha256, sha384 or sha512' });
+  }
 
   try {
     // Fetch the resource
@@ -2191,13 +2240,13 @@ app.get('/hash', async (req, res) => {
     // Get the content as an ArrayBuffer
     const buffer = await response.arrayBuffer();
 
-    // Compute SHA-256 hash
-    const hash = createHash('sha256');
+    // Compute the SHA-2 hash
+    const hash = createHash(alg);
     hash.update(Buffer.from(buffer));
     const hashBase64 = hash.digest('base64');
 
     // Return in SubResource Integrity format
-    const integrityHash = `sha256-${hashBase64}`;
+    const integrityHash = `${alg}-${hashBase64}`;
 
     res.json({
       url,
@@ -2219,7 +2268,8 @@ app.use((err, req, res, next) => {
 
   // Handle Multer errors
   if (err.code === 'LIMIT_FILE_SIZE') {
-    return res.status(400).json({ error: 'File too large. Maximum size is 5MB.' });
+    const maxSizeMb = req.path.endsWith('/uploads') ? FILE_UPLOAD_MAX_SIZE_MB : 5;
+    return res.status(400).json({ error: `File too large. Maximum size is ${maxSizeMb}MB.` });
   }
   if (err.message && err.message.includes('Invalid file type')) {
     return res.status(400).json({ error: err.message });
@@ -8,7 +8,8 @@
 import express from 'express';
 import crypto from 'crypto';
 import { getDb, schema } from '../db/index.js';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and } from 'drizzle-orm';
+import { unlinkUploadFiles } from '../lib/formUploads.js';
 
 const router = express.Router();
 
@@ -189,6 +190,92 @@ router.get('/slug/:slug', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/forms/:id/versions
+ * List the published versions of a form (newest first)
+ */
+router.get('/:id/versions', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const [form] = await req.db
+      .select()
+      .from(schema.forms)
+      .where(eq(schema.forms.id, id));
+
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    if (form.githubUserId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const versions = await req.db
+      .select()
+      .from(schema.formVersions)
+      .where(eq(schema.formVersions.formId, id))
+      .orderBy(desc(schema.formVersions.version));
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching form versions:', error);
+    res.status(500).json({ error: 'Failed to fetch form versions' });
+  }
+});
+
+/**
+ * GET /api/forms/:id/versions/:version
+ * Get a single published version of a form by version number
+ */
+router.get('/:id/versions/:version', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const version = parseInt(req.params.version, 10);
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (Number.isNaN(version)) {
+      return res.status(400).json({ error: 'Version must be a number' });
+    }
+
+    const [form] = await req.db
+      .select()
+      .from(schema.forms)
+      .where(eq(schema.forms.id, id));
+
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    if (form.githubUserId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [formVersion] = await req.db
+      .select()
+      .from(schema.formVersions)
+      .where(and(eq(schema.formVersions.formId, id), eq(schema.formVersions.version, version)));
+
+    if (!formVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(formVersion);
+  } catch (error) {
+    console.error('Error fetching form version:', error);
+    res.status(500).json({ error: 'Failed to fetch form version' });
+  }
+});
+
 /**
  * POST /api/forms
  * Create a new form
@@ -327,10 +414,18 @@ router.delete('/:id', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    const uploads = await req.db
+      .select({ filename: schema.formUploads.filename })
+      .from(schema.formUploads)
+      .where(eq(schema.formUploads.formId, id));
+
     await req.db
       .delete(schema.forms)
       .where(eq(schema.forms.id, id));
 
+    // Upload rows go with the form; their files have to be removed from disk
+    unlinkUploadFiles(req.app.locals.formUploadsDir, uploads.map((upload) => upload.filename));
+
     res.json({ success: true, message: 'Form deleted' });
   } catch (error) {
     console.error('Error deleting form:', error);
@@ -372,11 +467,42 @@ router.put('/:id/publish', requireDatabase, async (req, res) => {
     // Generate unique slug
     const slug = crypto.randomUUID();
 
+    // Snapshot the form as a new immutable version, unless it is unchanged since
+    // the last one (e.g. unpublished and re-published without edits)
+    const [latestVersion] = await req.db
+      .select()
+      .from(schema.formVersions)
+      .where(eq(schema.formVersions.formId, id))
+      .orderBy(desc(schema.formVersions.version))
+      .limit(1);
+
+    const unchanged =
+      latestVersion &&
+      latestVersion.title === existingForm.title &&
+      (latestVersion.description || '') === (existingForm.description || '') &&
+      JSON.stringify(latestVersion.schema) === JSON.stringify(existingForm.schema);
+
+    let currentVersion = latestVersion;
+    if (!unchanged) {
+      [currentVersion] = await req.db
+        .insert(schema.formVersions)
+        .values({
+          formId: id,
+          version: (latestVersion?.version || 0) + 1,
+          title: existingForm.title,
+          description: existingForm.description,
+          schema: existingForm.schema,
+          publishedBy: user.githubUsername,
+        })
+        .returning();
+    }
+
     const [publishedForm] = await req.db
       .update(schema.forms)
       .set({
         status: 'published',
         slug,
+        currentVersionId: currentVersion.id,
         publishedAt: new Date(),
         updatedAt: new Date(),
       })
@@ -17,6 +17,7 @@ import {
   isApiConfigured,
   getOrbitConfigStatus,
 } from '../lib/orbitConfig.js';
+import { OFFER_TTL_MS, sendCredentialOffer } from '../lib/credentialOffers.js';
 
 const router = express.Router();
 
@@ -393,44 +394,17 @@ router.post('/offers/catalogue', requireAuth, requireOrbit, async (req, res) =>
       });
     }
 
-    // Normalize baseUrl to remove trailing slashes
-    const normalizedBaseUrl = issuerConfig.baseUrl.replace(/\/+$/, '');
-
-    // Prepare credential offer payload per Orbit Issuer API spec
-    const payload = {
-      credentialId: credentialId,
-      credAttributes: credAttributes,
-      comment: 'Credential offer from Test Issuer',
-      messageProtocol: 'AIP2_0',
-      credAutoIssue: true,
-      ...(socketSessionId && { socketSessionId }),
-    };
-
-    const url = `${normalizedBaseUrl}/api/lob/${issuerConfig.lobId}/credential/offer`;
-    const headers = {
-      'Content-Type': 'application/json',
-      ...(issuerConfig.apiKey && { 'api-key': issuerConfig.apiKey }),
-    };
-
     console.log('[Issuer] Creating credential offer:');
-    console.log('[Issuer]   URL:', url);
     console.log('[Issuer]   Credential ID:', credentialId);
     console.log('[Issuer]   Attributes:', Object.keys(credAttributes).length);
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload),
+    const { url, payload, response, responseText, result } = await sendCredentialOffer(issuerConfig, {
+      credentialId,
+      credAttributes,
+      comment: 'Credential offer from Test Issuer',
+      socketSessionId,
     });
 
-    const responseText = await response.text();
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch {
-      result = {};
-    }
-
     if (!response.ok) {
       console.error('[Issuer] Credential offer failed:', response.status, responseText);
       return res.status(response.status).json({
@@ -464,7 +438,7 @@ router.post('/offers/catalogue', requireAuth, requireOrbit, async (req, res) =>
       shortUrl: result.data?.shortUrl,
       longUrl: result.data?.longUrl,
       orbitOfferId: result.data?.credOfferId,
-      expiresAt: new Date(now.getTime() + 15 * 60 * 1000).toISOString(),
+      expiresAt: new Date(now.getTime() + OFFER_TTL_MS).toISOString(),
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
     };
@@ -9,11 +9,13 @@
  * - One credential format per template (for Orbit compound proof compatibility)
  * - requestedCredentials array replaces claims
  * - Publishing to Test Verifier app
+ * - Version lineage: each version is its own row, linked to its predecessor
+ *   and grouped into a family by the ID of the first version
  */
 
 import express from 'express';
 import { getDb, schema } from '../db/index.js';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, or, ne } from 'drizzle-orm';
 import { requireAuth, getOctokit } from '../auth.js';
 
 const router = express.Router();
@@ -55,6 +57,72 @@ const getCurrentUser = (req) => {
   return null;
 };
 
+/**
+ * Lifecycle transitions allowed through PATCH /:id/status. Deprecated templates
+ * still work but should be replaced; retired templates are read-only and are
+ * no longer offered to verifiers. Only published templates can be deprecated.
+ */
+const STATUS_TRANSITIONS = {
+  draft: ['retired'],
+  published: ['deprecated', 'retired'],
+  deprecated: ['draft', 'published', 'retired'], // Reinstating returns to draft or published
+  retired: [],
+};
+
+const VERSION_BUMPS = ['major', 'minor', 'patch'];
+
+/**
+ * Parse a "major.minor.patch" version; missing or non-numeric parts count as 0
+ */
+const parseVersion = (version) => {
+  const parts = String(version || '').split('.');
+  return [0, 1, 2].map((i) => parseInt(parts[i], 10) || 0);
+};
+
+const compareVersions = (a, b) => {
+  const [left, right] = [parseVersion(a), parseVersion(b)];
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+};
+
+const bumpVersion = (version, bump) => {
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'patch') return `${major}.${minor}.${patch + 1}`;
+  return `${major}.${minor + 1}.0`;
+};
+
+/**
+ * The family ID of a template row (the first version's ID)
+ */
+const familyIdOf = (row) => row.familyId || row.id;
+
+/**
+ * Drizzle condition matching every version of a template family
+ */
+const inFamily = (familyId) =>
+  or(eq(schema.proofTemplates.familyId, familyId), eq(schema.proofTemplates.id, familyId));
+
+/**
+ * Whether a template has been published to the VDR (and so is visible to other users),
+ * including published templates that were later deprecated or retired
+ */
+const isPublished = (row) =>
+  row.status === 'published' || (['deprecated', 'retired'].includes(row.status) && !!row.publishedAt);
+
+/**
+ * Keep only the latest version of each family, preserving the input order
+ */
+const latestPerFamily = (rows) => {
+  const latest = new Map();
+  for (const row of rows) {
+    const current = latest.get(familyIdOf(row));
+    if (!current || compareVersions(row.version, current.version) > 0) {
+      latest.set(familyIdOf(row), row);
+    }
+  }
+  return rows.filter((row) => latest.get(familyIdOf(row)) === row);
+};
+
 /**
  * Convert database row to ProofTemplate response (full template)
  */
@@ -65,6 +133,7 @@ const toProofTemplateResponse = (row) => ({
   version: row.version || '1.0.0',
   credentialFormat: row.credentialFormat || 'anoncreds',
   requestedCredentials: row.requestedCredentials || [],
+  credentialGroups: row.credentialGroups || [],
   metadata: {
     author: row.metadata?.author || row.githubUsername || row.authorName,
     ecosystemTag: row.metadata?.ecosystemTag || '',
@@ -72,6 +141,10 @@ const toProofTemplateResponse = (row) => ({
     ...(row.metadata || {}),
   },
   status: row.status,
+  statusReason: row.statusReason || null,
+  statusChangedAt: row.statusChangedAt,
+  familyId: familyIdOf(row),
+  previousVersionId: row.previousVersionId || null,
   publishedToVerifier: row.publishedToVerifier || false,
   vdrUri: row.vdrUri,
   createdAt: row.createdAt,
@@ -86,8 +159,12 @@ const toListItemResponse = (row) => ({
   id: row.id,
   name: row.name,
   description: row.description || '',
+  version: row.version || '1.0.0',
+  familyId: familyIdOf(row),
+  previousVersionId: row.previousVersionId || null,
   credentialFormat: row.credentialFormat || 'anoncreds',
   status: row.status,
+  statusReason: row.statusReason || null,
   credentialCount: (row.requestedCredentials || []).length,
   publishedToVerifier: row.publishedToVerifier || false,
   vdrUri: row.vdrUri,
@@ -123,28 +200,44 @@ router.get('/', requireDatabase, async (req, res) => {
 
 /**
  * GET /api/proof-templates/published
- * Get all templates published to Test Verifier (for Test Verifier app)
+ * Get all templates published to Test Verifier (for Test Verifier app).
+ * Retired templates are never included.
+ *
+ * Query parameters:
+ * - latest=true: only the latest published version of each template family
+ * - version: only templates at this version (e.g. "1.2.0")
+ * - familyId: only versions of one template family
  */
 router.get('/published', requireDatabase, async (req, res) => {
   try {
     const user = getCurrentUser(req);
+    const { latest, version, familyId } = req.query;
 
     if (!user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
     // Get templates that are published to verifier for this user
-    const templates = await req.db
+    let templates = await req.db
       .select()
       .from(schema.proofTemplates)
       .where(
         and(
           eq(schema.proofTemplates.githubUserId, user.githubUserId),
-          eq(schema.proofTemplates.publishedToVerifier, true)
+          eq(schema.proofTemplates.publishedToVerifier, true),
+          ne(schema.proofTemplates.status, 'retired'),
+          familyId ? inFamily(familyId) : undefined
         )
       )
       .orderBy(desc(schema.proofTemplates.updatedAt));
 
+    if (version) {
+      templates = templates.filter((t) => compareVersions(t.version || '1.0.0', version) === 0);
+    }
+    if (latest === 'true') {
+      templates = latestPerFamily(templates);
+    }
+
     res.json(templates.map(toProofTemplateResponse));
   } catch (error) {
     console.error('Error fetching published proof templates:', error);
@@ -175,7 +268,7 @@ router.get('/:id', requireDatabase, async (req, res) => {
     }
 
     // Check ownership (published templates can be viewed by anyone)
-    if (template.githubUserId !== user.githubUserId && template.status !== 'published') {
+    if (template.githubUserId !== user.githubUserId && !isPublished(template)) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -186,6 +279,49 @@ router.get('/:id', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/proof-templates/:id/versions
+ * Get the version history of a template's family, newest version first
+ */
+router.get('/:id/versions', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const [template] = await req.db
+      .select()
+      .from(schema.proofTemplates)
+      .where(eq(schema.proofTemplates.id, id));
+
+    if (!template) {
+      return res.status(404).json({ error: 'Proof template not found' });
+    }
+
+    if (template.githubUserId !== user.githubUserId && !isPublished(template)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const versions = await req.db
+      .select()
+      .from(schema.proofTemplates)
+      .where(inFamily(familyIdOf(template)));
+
+    res.json(
+      versions
+        .filter((row) => row.githubUserId === user.githubUserId || isPublished(row))
+        .sort((a, b) => compareVersions(b.version, a.version))
+        .map(toListItemResponse)
+    );
+  } catch (error) {
+    console.error('Error fetching proof template versions:', error);
+    res.status(500).json({ error: 'Failed to fetch proof template versions' });
+  }
+});
+
 /**
  * POST /api/proof-templates
  * Create a new proof template
@@ -270,7 +406,28 @@ router.put('/:id', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const { name, description, version, requestedCredentials, metadata, publishedToVerifier } = req.body;
+    if (existingTemplate.status === 'retired') {
+      return res.status(400).json({
+        error: 'Template is retired',
+        message: 'Retired templates are read-only. Create a new version to make changes.',
+      });
+    }
+
+    const { name, description, version, requestedCredentials, credentialGroups, metadata, publishedToVerifier } = req.body;
+
+    // Versions identify published templates, so each must be unique within the family
+    if (version !== undefined && compareVersions(version, existingTemplate.version) !== 0) {
+      const family = await req.db
+        .select()
+        .from(schema.proofTemplates)
+        .where(inFamily(familyIdOf(existingTemplate)));
+      if (family.some((row) => row.id !== id && compareVersions(row.version, version) === 0)) {
+        return res.status(409).json({
+          error: 'Version already exists',
+          message: `Another version of this template is already numbered ${version}.`,
+        });
+      }
+    }
 
     const updateData = {
       updatedAt: new Date(),
@@ -280,6 +437,7 @@ router.put('/:id', requireDatabase, async (req, res) => {
     if (description !== undefined) updateData.description = description;
     if (version !== undefined) updateData.version = version;
     if (requestedCredentials !== undefined) updateData.requestedCredentials = requestedCredentials;
+    if (credentialGroups !== undefined) updateData.credentialGroups = credentialGroups;
     if (publishedToVerifier !== undefined) updateData.publishedToVerifier = publishedToVerifier;
     if (metadata !== undefined) {
       // Merge with existing metadata
@@ -334,6 +492,13 @@ router.patch('/:id/publish-to-verifier', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (enabled && existingTemplate.status === 'retired') {
+      return res.status(400).json({
+        error: 'Template is retired',
+        message: 'Retired templates cannot be published to the Test Verifier.',
+      });
+    }
+
     // Update publishedToVerifier status
     const [updatedTemplate] = await req.db
       .update(schema.proofTemplates)
@@ -351,6 +516,69 @@ router.patch('/:id/publish-to-verifier', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/proof-templates/:id/status
+ * Deprecate, retire or reinstate a template (see STATUS_TRANSITIONS)
+ */
+router.patch('/:id/status', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, reason } = req.body;
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const [existingTemplate] = await req.db
+      .select()
+      .from(schema.proofTemplates)
+      .where(eq(schema.proofTemplates.id, id));
+
+    if (!existingTemplate) {
+      return res.status(404).json({ error: 'Proof template not found' });
+    }
+
+    if (existingTemplate.githubUserId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const allowed = STATUS_TRANSITIONS[existingTemplate.status] || [];
+    if (!allowed.includes(status)) {
+      return res.status(400).json({
+        error: 'Invalid status change',
+        message: `A ${existingTemplate.status} template cannot be changed to ${status || 'an empty status'}`,
+      });
+    }
+
+    if (status === 'published' && !existingTemplate.publishedAt) {
+      return res.status(400).json({
+        error: 'Invalid status change',
+        message: 'Only templates published to the VDR can be reinstated as published',
+      });
+    }
+
+    const isEndOfLife = status === 'deprecated' || status === 'retired';
+    const [updatedTemplate] = await req.db
+      .update(schema.proofTemplates)
+      .set({
+        status,
+        statusReason: isEndOfLife ? reason || null : null,
+        statusChangedAt: new Date(),
+        // Retired templates are withdrawn from the Test Verifier
+        ...(status === 'retired' && { publishedToVerifier: false }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.proofTemplates.id, id))
+      .returning();
+
+    res.json(toProofTemplateResponse(updatedTemplate));
+  } catch (error) {
+    console.error('Error updating proof template status:', error);
+    res.status(500).json({ error: 'Failed to update proof template status' });
+  }
+});
+
 /**
  * DELETE /api/proof-templates/:id
  * Delete a proof template
@@ -378,6 +606,12 @@ router.delete('/:id', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    // Keep the lineage connected: the next version now follows this one's predecessor
+    await req.db
+      .update(schema.proofTemplates)
+      .set({ previousVersionId: existingTemplate.previousVersionId })
+      .where(eq(schema.proofTemplates.previousVersionId, id));
+
     await req.db
       .delete(schema.proofTemplates)
       .where(eq(schema.proofTemplates.id, id));
@@ -417,6 +651,13 @@ router.post('/:id/publish', requireDatabase, requireAuth, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (template.status === 'retired') {
+      return res.status(400).json({
+        error: 'Template is retired',
+        message: 'Create a new version of this template to publish it.',
+      });
+    }
+
     // Validate template has requested credentials
     if (!template.requestedCredentials || template.requestedCredentials.length === 0) {
       return res.status(400).json({
@@ -425,13 +666,20 @@ router.post('/:id/publish', requireDatabase, requireAuth, async (req, res) => {
       });
     }
 
+    const [previousVersion] = template.previousVersionId
+      ? await req.db
+          .select()
+          .from(schema.proofTemplates)
+          .where(eq(schema.proofTemplates.id, template.previousVersionId))
+      : [];
+
     // Generate the proof template JSON
-    const templateJson = toPublishableFormat(template);
+    const templateJson = toPublishableFormat(template, previousVersion);
 
-    // Create filename from ecosystem tag and name
-    const ecosystemTag = template.metadata?.ecosystemTag || 'general';
+    // One file per version, named after the publishable ID, so earlier versions'
+    // VDR URIs (and previousVersion references) keep resolving
     const safeName = template.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-    const filename = `${ecosystemTag}-${safeName}.json`;
+    const filename = `${toPublishableId(template)}.json`;
     const filePath = `${PROOF_TEMPLATE_FOLDER_PATH}/${filename}`;
 
     const octokit = getOctokit(req);
@@ -525,7 +773,7 @@ Created by @${req.session.user.login} using the [Cornerstone Network Apps](https
     await req.db
       .update(schema.proofTemplates)
       .set({
-        status: 'published',
+        status: template.status === 'deprecated' ? 'deprecated' : 'published',
         vdrUri,
         publishedAt: new Date(),
         updatedAt: new Date(),
@@ -567,7 +815,7 @@ router.post('/:id/clone', requireDatabase, async (req, res) => {
     }
 
     // Anyone can clone a published template, but only owner can clone drafts
-    if (existingTemplate.status !== 'published' && existingTemplate.githubUserId !== user.githubUserId) {
+    if (!isPublished(existingTemplate) && existingTemplate.githubUserId !== user.githubUserId) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -579,6 +827,7 @@ router.post('/:id/clone', requireDatabase, async (req, res) => {
         version: '1.0.0', // Reset version for clone
         credentialFormat: existingTemplate.credentialFormat,
         requestedCredentials: existingTemplate.requestedCredentials,
+        credentialGroups: existingTemplate.credentialGroups || [],
         metadata: {
           ...existingTemplate.metadata,
           author: user.authorName || user.githubUsername,
@@ -600,16 +849,98 @@ router.post('/:id/clone', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/proof-templates/:id/new-version
+ * Create the next version of a template as a draft linked to its predecessor.
+ * Body: { bump: 'major' | 'minor' | 'patch' } (default 'minor'), applied to the
+ * family's latest version so versions stay unique.
+ */
+router.post('/:id/new-version', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const bump = req.body?.bump || 'minor';
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!VERSION_BUMPS.includes(bump)) {
+      return res.status(400).json({
+        error: 'Invalid version bump',
+        message: `Bump must be one of: ${VERSION_BUMPS.join(', ')}`,
+      });
+    }
+
+    const [existingTemplate] = await req.db
+      .select()
+      .from(schema.proofTemplates)
+      .where(eq(schema.proofTemplates.id, id));
+
+    if (!existingTemplate) {
+      return res.status(404).json({ error: 'Proof template not found' });
+    }
+
+    // Clone a template you do not own instead
+    if (existingTemplate.githubUserId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const familyId = familyIdOf(existingTemplate);
+    const family = await req.db
+      .select()
+      .from(schema.proofTemplates)
+      .where(inFamily(familyId));
+    const latestVersion = family
+      .map((row) => row.version || '1.0.0')
+      .reduce((max, version) => (compareVersions(version, max) > 0 ? version : max), '0.0.0');
+
+    const [newVersion] = await req.db
+      .insert(schema.proofTemplates)
+      .values({
+        name: existingTemplate.name,
+        description: existingTemplate.description,
+        version: bumpVersion(latestVersion, bump),
+        credentialFormat: existingTemplate.credentialFormat,
+        requestedCredentials: existingTemplate.requestedCredentials,
+        credentialGroups: existingTemplate.credentialGroups || [],
+        metadata: existingTemplate.metadata,
+        status: 'draft',
+        publishedToVerifier: false,
+        githubUserId: user.githubUserId,
+        githubUsername: user.githubUsername,
+        authorName: user.authorName,
+        authorEmail: user.authorEmail,
+        familyId,
+        previousVersionId: id,
+      })
+      .returning();
+
+    res.status(201).json(toProofTemplateResponse(newVersion));
+  } catch (error) {
+    console.error('Error creating proof template version:', error);
+    res.status(500).json({ error: 'Failed to create proof template version' });
+  }
+});
+
+/**
+ * Publishable template ID: "ecosystemname.templatename.version"
+ */
+function toPublishableId(template) {
+  const ecosystemTag = template.metadata?.ecosystemTag || 'general';
+  const safeName = template.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  return `${ecosystemTag}.${safeName}.${template.version || '1.0.0'}`;
+}
+
 /**
  * Convert a ProofTemplate to publishable JSON format
  * This is our custom format designed for third-party verifier consumption
  */
-function toPublishableFormat(template) {
+function toPublishableFormat(template, previousVersion) {
   const ecosystemTag = template.metadata?.ecosystemTag || 'general';
-  const safeName = template.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
 
   return {
-    id: `${ecosystemTag}.${safeName}.${template.version || '1.0.0'}`,
+    id: toPublishableId(template),
     name: template.name,
     description: template.description || '',
     version: template.version || '1.0.0',
@@ -619,6 +950,8 @@ function toPublishableFormat(template) {
       catalogueCredentialId: cred.catalogueCredentialId,
       credentialName: cred.credentialName,
       restrictions: cred.restrictions,
+      ...(cred.dateEncoding && { dateEncoding: cred.dateEncoding }),
+      ...(cred.groupId && { groupId: cred.groupId }),
       requestedAttributes: (cred.requestedAttributes || []).map((attr) => ({
         attributeName: attr.attributeName,
         label: attr.label,
@@ -635,12 +968,15 @@ function toPublishableFormat(template) {
         revealResult: pred.revealResult,
       })),
     })),
+    ...(template.credentialGroups?.length > 0 && { credentialGroups: template.credentialGroups }),
     metadata: {
       author: template.metadata?.author || template.githubUsername || template.authorName,
       ecosystemTag,
       tags: template.metadata?.tags || [],
     },
     status: template.status,
+    ...(template.statusReason && { statusReason: template.statusReason }),
+    ...(previousVersion && { previousVersion: toPublishableId(previousVersion) }),
     publishedToVerifier: template.publishedToVerifier,
     createdAt: template.createdAt,
     updatedAt: template.updatedAt,
@@ -7,11 +7,33 @@
 
 import express from 'express';
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import { getDb, schema } from '../db/index.js';
-import { eq, desc, and, inArray } from 'drizzle-orm';
+import { eq, desc, and, inArray, notInArray, isNull, count, gte, lte, lt } from 'drizzle-orm';
+import { getVerifiedFormPresentation } from '../lib/proofRequests.js';
+import { SUBMISSION_STATUSES, getValueByPath, validateSubmission } from '../../src/lib/formRules.js';
+import {
+  checkUploadForField,
+  unlinkUploadFiles,
+  UNATTACHED_UPLOAD_TTL_MS,
+  MAX_UPLOADS_PER_SESSION,
+  MAX_UNATTACHED_UPLOADS_PER_FORM,
+} from '../lib/formUploads.js';
+import { buildSubmissionTable, toCsv } from '../lib/submissionExport.js';
+import { issueSubmissionCredential } from '../lib/formIssuance.js';
+import { getPublishedFormVersion, getPublishedFormSchema } from '../lib/formVersions.js';
 
 const router = express.Router();
 
+// How long an applicant's saved draft can be resumed
+const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const GITHUB_USERNAME_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+const MAX_COMMENT_LENGTH = 5000;
+
 /**
  * Middleware to check database availability
  */
@@ -40,14 +62,136 @@ const getCurrentUser = (req) => {
   return null;
 };
 
+/**
+ * Map form_versions.id -> version number for the versions referenced by submissions
+ */
+const getVersionNumbers = async (db, submissions) => {
+  const versionIds = [...new Set(submissions.map((s) => s.formVersionId).filter(Boolean))];
+  if (versionIds.length === 0) return {};
+
+  const versions = await db
+    .select({ id: schema.formVersions.id, version: schema.formVersions.version })
+    .from(schema.formVersions)
+    .where(inArray(schema.formVersions.id, versionIds));
+
+  return Object.fromEntries(versions.map((v) => [v.id, v.version]));
+};
+
+/**
+ * Map form_versions.id -> { version, schema } for the versions referenced by submissions
+ */
+const getSubmissionVersions = async (db, submissions) => {
+  const versionIds = [...new Set(submissions.map((s) => s.formVersionId).filter(Boolean))];
+  if (versionIds.length === 0) return {};
+
+  const versions = await db
+    .select({ id: schema.formVersions.id, version: schema.formVersions.version, schema: schema.formVersions.schema })
+    .from(schema.formVersions)
+    .where(inArray(schema.formVersions.id, versionIds));
+
+  return Object.fromEntries(versions.map((v) => [v.id, { version: v.version, schema: v.schema }]));
+};
+
+/**
+ * Replace a value in nested submission data by dot-notation field name.
+ * The path must already exist.
+ */
+const setValueByPath = (data, name, value) => {
+  const keys = name.split('.');
+  const parent = keys.slice(0, -1).reduce((current, key) => current[key], data);
+  parent[keys[keys.length - 1]] = value;
+};
+
+/**
+ * Load a submission and its form, checking the current user owns the form.
+ * Sends the error response and returns null if not found or not allowed.
+ */
+const findOwnedSubmission = async (req, res, user) => {
+  const [submission] = UUID_REGEX.test(req.params.id)
+    ? await req.db
+      .select()
+      .from(schema.submissions)
+      .where(eq(schema.submissions.id, req.params.id))
+    : [];
+
+  if (!submission) {
+    res.status(404).json({ error: 'Submission not found' });
+    return null;
+  }
+
+  const [form] = await req.db
+    .select()
+    .from(schema.forms)
+    .where(eq(schema.forms.id, submission.formId));
+
+  if (!form || form.githubUserId !== user.githubUserId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return { submission, form };
+};
+
+/**
+ * Add an entry to a submission's audit trail
+ */
+const recordSubmissionEvent = async (db, submissionId, action, details, githubUsername) => {
+  const [event] = await db
+    .insert(schema.submissionEvents)
+    .values({ submissionId, action, details, githubUsername })
+    .returning();
+  return event;
+};
+
+/**
+ * Delete the stored files of form uploads attached to the given submissions
+ */
+const removeUploadedFiles = async (req, submissionIds) => {
+  const uploads = await req.db
+    .select({ filename: schema.formUploads.filename })
+    .from(schema.formUploads)
+    .where(inArray(schema.formUploads.submissionId, submissionIds));
+
+  unlinkUploadFiles(req.app.locals.formUploadsDir, uploads.map((upload) => upload.filename));
+};
+
+/**
+ * Delete a form's uploads that were never attached to a submission and have expired.
+ * Uploads from sessions with a resumable draft are kept so the draft can still be submitted.
+ */
+const removeExpiredUploads = async (req, formId) => {
+  const resumableDrafts = await req.db
+    .select({ sessionId: schema.formDrafts.sessionId })
+    .from(schema.formDrafts)
+    .where(and(eq(schema.formDrafts.formId, formId), gte(schema.formDrafts.expiresAt, new Date())));
+
+  const conditions = [
+    eq(schema.formUploads.formId, formId),
+    isNull(schema.formUploads.submissionId),
+    lt(schema.formUploads.createdAt, new Date(Date.now() - UNATTACHED_UPLOAD_TTL_MS)),
+  ];
+  if (resumableDrafts.length > 0) {
+    conditions.push(notInArray(schema.formUploads.sessionId, resumableDrafts.map((draft) => draft.sessionId)));
+  }
+
+  const expired = await req.db
+    .delete(schema.formUploads)
+    .where(and(...conditions))
+    .returning({ filename: schema.formUploads.filename });
+
+  unlinkUploadFiles(req.app.locals.formUploadsDir, expired.map((upload) => upload.filename));
+};
+
 /**
  * POST /api/forms/:formId/submissions
  * Submit a form (public endpoint - no auth required)
+ *
+ * isTest is only honoured for the signed-in owner of the form.
  */
 router.post('/forms/:formId/submissions', requireDatabase, async (req, res) => {
   try {
     const { formId } = req.params;
-    const { fieldValues, sessionId, proofPresentations, isTest } = req.body;
+    const { fieldValues, sessionId, proofPresentations, resumeToken } = req.body;
 
     // Verify form exists and is published
     const [form] = await req.db
@@ -59,29 +203,139 @@ router.post('/forms/:formId/submissions', requireDatabase, async (req, res) => {
       return res.status(404).json({ error: 'Form not found' });
     }
 
+    // Test mode comes from the session: only the form's owner can make test submissions,
+    // and the flag is ignored for everyone else
+    const user = getCurrentUser(req);
+    const isTest = req.body.isTest === true && !!user && user.githubUserId === form.githubUserId;
+
     if (form.status !== 'published' && !isTest) {
       return res.status(400).json({ error: 'Form is not accepting submissions' });
     }
 
-    if (!fieldValues || typeof fieldValues !== 'object') {
+    if (!fieldValues || typeof fieldValues !== 'object' || Array.isArray(fieldValues)) {
       return res.status(400).json({ error: 'Field values are required' });
     }
 
+    // Live submissions are pinned to (and validated against) the published version;
+    // test submissions of drafts use the working schema and have no version
+    const formVersion = await getPublishedFormVersion(req.db, form);
+    const formSchema = formVersion?.schema || form.schema;
+
+    // Verifiable-credential fields are submitted as proof request IDs; the verified
+    // presentation is looked up server-side so applicants cannot supply their own
+    const allFields = (formSchema?.sections || []).flatMap((section) => section.fields || []);
+    const verifiedPresentations = {};
+
+    for (const field of allFields.filter((f) => f.type === 'verifiable-credential')) {
+      const proofRequestId = proofPresentations?.[field.name];
+      const presentation = typeof proofRequestId === 'string'
+        ? getVerifiedFormPresentation(proofRequestId, { formId, fieldId: field.id, sessionId })
+        : null;
+      if (presentation) {
+        verifiedPresentations[field.name] = presentation;
+      }
+    }
+
+    const fieldErrors = validateSubmission(formSchema, fieldValues, {
+      verifiedCredentials: new Set(Object.keys(verifiedPresentations)),
+      proofPresentations,
+      // Published forms always require their credentials; owners may test drafts without them
+      requireCredentials: form.status === 'published' || !isTest,
+    });
+
+    // File fields reference uploads by ID; each must have been uploaded to this field
+    // in this session and not yet used. The stored details replace the submitted ones.
+    const uploadIds = [];
+    for (const field of allFields.filter((f) => f.type === 'file' && f.name && !fieldErrors[f.name])) {
+      const value = getValueByPath(fieldValues, field.name);
+      if (!value || typeof value.uploadId !== 'string') continue;
+
+      const [upload] = UUID_REGEX.test(value.uploadId)
+        ? await req.db
+          .select()
+          .from(schema.formUploads)
+          .where(eq(schema.formUploads.id, value.uploadId))
+        : [];
+
+      if (!upload || upload.formId !== formId || upload.fieldId !== field.id
+        || upload.sessionId !== sessionId || upload.submissionId) {
+        fieldErrors[field.name] = 'Please upload the file again';
+        continue;
+      }
+
+      uploadIds.push(upload.id);
+      setValueByPath(fieldValues, field.name, {
+        uploadId: upload.id,
+        name: upload.originalName,
+        size: upload.size,
+        mimetype: upload.mimetype,
+      });
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please correct the highlighted fields and try again.',
+        fieldErrors,
+      });
+    }
+
     const [submission] = await req.db
       .insert(schema.submissions)
       .values({
         formId,
+        formVersionId: formVersion?.id || null,
         sessionId: sessionId || crypto.randomUUID(),
-        isTest: isTest || false,
+        isTest,
         fieldValues,
-        proofPresentations: proofPresentations || null,
+        proofPresentations: Object.keys(verifiedPresentations).length > 0 ? verifiedPresentations : null,
       })
       .returning();
 
+    if (uploadIds.length > 0) {
+      await req.db
+        .update(schema.formUploads)
+        .set({ submissionId: submission.id })
+        .where(inArray(schema.formUploads.id, uploadIds));
+    }
+
+    // A submitted draft can no longer be resumed
+    if (typeof resumeToken === 'string') {
+      await req.db
+        .delete(schema.formDrafts)
+        .where(and(eq(schema.formDrafts.resumeToken, resumeToken), eq(schema.formDrafts.formId, formId)));
+    }
+
+    // Auto-issued credentials are offered to the applicant on the success screen.
+    // The submission is kept even if the offer fails - an approver can issue it later.
+    // Test submissions never receive a credential.
+    let credentialOffer = null;
+    if (!isTest && formSchema?.issuance?.mode === 'auto') {
+      try {
+        const issued = await issueSubmissionCredential(formSchema, submission, null);
+        if (issued.offer) {
+          credentialOffer = issued.offer;
+          await req.db
+            .update(schema.submissions)
+            .set({ credentialOffer })
+            .where(eq(schema.submissions.id, submission.id));
+          await recordSubmissionEvent(req.db, submission.id, 'credential_issued', {
+            offerId: credentialOffer.offerId,
+            credentialName: credentialOffer.credentialName,
+          }, null);
+        } else {
+          console.error('Error issuing credential for submission:', issued.error);
+        }
+      } catch (error) {
+        console.error('Error issuing credential for submission:', error);
+      }
+    }
+
     res.status(201).json({
       id: submission.id,
       message: 'Form submitted successfully',
       submittedAt: submission.submittedAt,
+      credentialOffer,
     });
   } catch (error) {
     console.error('Error submitting form:', error);
@@ -89,6 +343,273 @@ router.post('/forms/:formId/submissions', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * Load the form and file field an upload is for: a published form, or a draft
+ * when the form's signed-in owner is uploading for a test submission.
+ * Runs before the file is received so uploads to unknown fields are never stored.
+ */
+const getUploadField = async (req, res, next) => {
+  try {
+    const { formId } = req.params;
+    const { fieldId, sessionId } = req.query;
+
+    if (typeof sessionId !== 'string' || !UUID_REGEX.test(sessionId)) {
+      return res.status(400).json({ error: 'A valid sessionId is required' });
+    }
+
+    const [form] = await req.db
+      .select()
+      .from(schema.forms)
+      .where(eq(schema.forms.id, formId));
+
+    // Same rule as test submissions: only the owner may use a form that is not published
+    const user = getCurrentUser(req);
+    const isOwner = !!form && !!user && user.githubUserId === form.githubUserId;
+    if (!form || (form.status !== 'published' && !isOwner)) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    const formSchema = await getPublishedFormSchema(req.db, form);
+    const field = (formSchema?.sections || [])
+      .flatMap((section) => section.fields || [])
+      .find((f) => f.id === fieldId && f.type === 'file');
+
+    if (!field) {
+      return res.status(400).json({ error: 'Unknown file field' });
+    }
+
+    // Expired uploads do not count towards the limits
+    await removeExpiredUploads(req, formId);
+
+    const [{ sessionUploads }] = await req.db
+      .select({ sessionUploads: count() })
+      .from(schema.formUploads)
+      .where(and(eq(schema.formUploads.formId, formId), eq(schema.formUploads.sessionId, sessionId)));
+
+    const [{ unattachedUploads }] = await req.db
+      .select({ unattachedUploads: count() })
+      .from(schema.formUploads)
+      .where(and(eq(schema.formUploads.formId, formId), isNull(schema.formUploads.submissionId)));
+
+    if (sessionUploads >= MAX_UPLOADS_PER_SESSION || unattachedUploads >= MAX_UNATTACHED_UPLOADS_PER_FORM) {
+      return res.status(429).json({ error: 'Upload limit reached. Please submit the form or try again later.' });
+    }
+
+    req.uploadField = field;
+    next();
+  } catch (error) {
+    console.error('Error preparing upload:', error);
+    res.status(500).json({ error: 'Failed to upload file' });
+  }
+};
+
+/**
+ * POST /api/forms/:formId/uploads?fieldId=&sessionId=
+ * Upload a file for a file field (public endpoint, multipart field "file").
+ * Returns the FileFieldValue to submit with the form.
+ */
+router.post(
+  '/forms/:formId/uploads',
+  requireDatabase,
+  getUploadField,
+  (req, res, next) => req.app.locals.formUpload.single('file')(req, res, next),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const { originalname, filename, mimetype, size, path: filePath } = req.file;
+
+      const uploadError = checkUploadForField(req.uploadField, req.file);
+      if (uploadError) {
+        await fs.promises.unlink(filePath);
+        return res.status(400).json({ error: uploadError });
+      }
+
+      const hash = crypto.createHash('sha256').update(await fs.promises.readFile(filePath)).digest('base64');
+
+      const [upload] = await req.db
+        .insert(schema.formUploads)
+        .values({
+          formId: req.params.formId,
+          fieldId: req.uploadField.id,
+          sessionId: req.query.sessionId,
+          filename,
+          originalName: originalname.slice(0, 255),
+          mimetype,
+          size,
+          hash: `sha256-${hash}`,
+        })
+        .returning();
+
+      res.status(201).json({
+        uploadId: upload.id,
+        name: upload.originalName,
+        size: upload.size,
+        mimetype: upload.mimetype,
+      });
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      res.status(500).json({ error: 'Failed to upload file' });
+    }
+  }
+);
+
+/**
+ * Shape a draft row for the applicant. Proof requests are only returned while they
+ * are still verified for this form + session, so a resumed draft never shows stale proofs.
+ */
+const toDraftResponse = (form, formSchema, draft) => {
+  const allFields = (formSchema?.sections || []).flatMap((section) => section.fields || []);
+  const proofPresentations = {};
+
+  for (const [fieldName, proofRequestId] of Object.entries(draft.proofPresentations || {})) {
+    const field = allFields.find((f) => f.name === fieldName && f.type === 'verifiable-credential');
+    const verified = field && typeof proofRequestId === 'string'
+      ? getVerifiedFormPresentation(proofRequestId, { formId: form.id, fieldId: field.id, sessionId: draft.sessionId })
+      : null;
+    if (verified) {
+      proofPresentations[fieldName] = proofRequestId;
+    }
+  }
+
+  return {
+    resumeToken: draft.resumeToken,
+    sessionId: draft.sessionId,
+    fieldValues: draft.fieldValues,
+    proofPresentations,
+    currentStep: draft.currentStep,
+    expiresAt: draft.expiresAt,
+    updatedAt: draft.updatedAt,
+  };
+};
+
+/**
+ * Load a published form that accepts drafts and the schema of its published version,
+ * or send the error response
+ */
+const getDraftableForm = async (req, res) => {
+  const [form] = await req.db
+    .select()
+    .from(schema.forms)
+    .where(eq(schema.forms.id, req.params.formId));
+
+  if (!form || form.status !== 'published') {
+    res.status(404).json({ error: 'Form not found' });
+    return null;
+  }
+
+  const formSchema = await getPublishedFormSchema(req.db, form);
+  if (!formSchema?.saveAndResume) {
+    res.status(400).json({ error: 'This form does not support saving drafts' });
+    return null;
+  }
+
+  return { form, formSchema };
+};
+
+/**
+ * POST /api/forms/:formId/drafts
+ * Save an applicant's progress (public endpoint - no auth required)
+ *
+ * Creates a draft with a new resume token, or updates the draft when a valid
+ * resumeToken is supplied. Values are stored unvalidated; they are validated on submit.
+ */
+router.post('/forms/:formId/drafts', requireDatabase, async (req, res) => {
+  try {
+    const { formId } = req.params;
+    const { fieldValues, proofPresentations, currentStep, sessionId, resumeToken } = req.body;
+
+    const draftable = await getDraftableForm(req, res);
+    if (!draftable) return;
+    const { form, formSchema } = draftable;
+
+    if (!fieldValues || typeof fieldValues !== 'object' || Array.isArray(fieldValues)) {
+      return res.status(400).json({ error: 'Field values are required' });
+    }
+
+    if (typeof sessionId !== 'string' || !UUID_REGEX.test(sessionId)) {
+      return res.status(400).json({ error: 'A valid sessionId is required' });
+    }
+
+    // Only keep values for fields that exist on the form
+    const fieldNames = new Set(
+      (formSchema.sections || []).flatMap((section) => section.fields || []).map((f) => f.name).filter(Boolean)
+    );
+    const keep = (values) =>
+      Object.fromEntries(Object.entries(values || {}).filter(([name]) => fieldNames.has(name)));
+
+    const values = {
+      sessionId,
+      fieldValues: keep(fieldValues),
+      proofPresentations: proofPresentations && typeof proofPresentations === 'object' ? keep(proofPresentations) : null,
+      currentStep: Number.isInteger(currentStep) && currentStep >= 0 ? currentStep : 0,
+      expiresAt: new Date(Date.now() + DRAFT_TTL_MS),
+      updatedAt: new Date(),
+    };
+
+    // Clear out drafts for this form that can no longer be resumed
+    await req.db
+      .delete(schema.formDrafts)
+      .where(and(eq(schema.formDrafts.formId, formId), lt(schema.formDrafts.expiresAt, new Date())));
+
+    let draft = null;
+    if (typeof resumeToken === 'string') {
+      [draft] = await req.db
+        .update(schema.formDrafts)
+        .set(values)
+        .where(and(eq(schema.formDrafts.resumeToken, resumeToken), eq(schema.formDrafts.formId, formId)))
+        .returning();
+    }
+
+    const isNew = !draft;
+    if (isNew) {
+      [draft] = await req.db
+        .insert(schema.formDrafts)
+        .values({
+          formId,
+          resumeToken: crypto.randomBytes(24).toString('base64url'),
+          ...values,
+        })
+        .returning();
+    }
+
+    res.status(isNew ? 201 : 200).json(toDraftResponse(form, formSchema, draft));
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    res.status(500).json({ error: 'Failed to save draft' });
+  }
+});
+
+/**
+ * GET /api/forms/:formId/drafts/:resumeToken
+ * Resume a saved draft (public endpoint - the token is the credential)
+ */
+router.get('/forms/:formId/drafts/:resumeToken', requireDatabase, async (req, res) => {
+  try {
+    const { formId, resumeToken } = req.params;
+
+    const draftable = await getDraftableForm(req, res);
+    if (!draftable) return;
+    const { form, formSchema } = draftable;
+
+    const [draft] = await req.db
+      .select()
+      .from(schema.formDrafts)
+      .where(and(eq(schema.formDrafts.resumeToken, resumeToken), eq(schema.formDrafts.formId, formId)));
+
+    if (!draft || draft.expiresAt < new Date()) {
+      return res.status(404).json({ error: 'Draft not found or expired' });
+    }
+
+    res.json(toDraftResponse(form, formSchema, draft));
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    res.status(500).json({ error: 'Failed to fetch draft' });
+  }
+});
+
 /**
  * GET /api/submissions
  * List all submissions for current user's forms
@@ -114,17 +635,28 @@ router.get('/submissions', requireDatabase, async (req, res) => {
     const formIds = userForms.map((f) => f.id);
     const formTitleMap = Object.fromEntries(userForms.map((f) => [f.id, f.title]));
 
+    const { status } = req.query;
+    if (status && !SUBMISSION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${SUBMISSION_STATUSES.join(', ')}` });
+    }
+
     // Get submissions for those forms
+    const conditions = [inArray(schema.submissions.formId, formIds)];
+    if (status) conditions.push(eq(schema.submissions.status, status));
+
     const submissions = await req.db
       .select()
       .from(schema.submissions)
-      .where(inArray(schema.submissions.formId, formIds))
+      .where(and(...conditions))
       .orderBy(desc(schema.submissions.submittedAt));
 
-    // Add form title to each submission
+    const versionNumbers = await getVersionNumbers(req.db, submissions);
+
+    // Add form title and version number to each submission
     const enrichedSubmissions = submissions.map((s) => ({
       ...s,
       formTitle: formTitleMap[s.formId] || 'Unknown Form',
+      formVersion: versionNumbers[s.formVersionId] ?? null,
     }));
 
     res.json(enrichedSubmissions);
@@ -161,13 +693,23 @@ router.get('/submissions/form/:formId', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    const { status } = req.query;
+    if (status && !SUBMISSION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${SUBMISSION_STATUSES.join(', ')}` });
+    }
+
+    const conditions = [eq(schema.submissions.formId, formId)];
+    if (status) conditions.push(eq(schema.submissions.status, status));
+
     const submissions = await req.db
       .select()
       .from(schema.submissions)
-      .where(eq(schema.submissions.formId, formId))
+      .where(and(...conditions))
       .orderBy(desc(schema.submissions.submittedAt));
 
-    res.json(submissions);
+    const versionNumbers = await getVersionNumbers(req.db, submissions);
+
+    res.json(submissions.map((s) => ({ ...s, formVersion: versionNumbers[s.formVersionId] ?? null })));
   } catch (error) {
     console.error('Error fetching submissions:', error);
     res.status(500).json({ error: 'Failed to fetch submissions' });
@@ -206,10 +748,35 @@ router.get('/submissions/:id', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    // Render against the version the submission was collected with, not the current form
+    let formVersion = null;
+    if (submission.formVersionId) {
+      [formVersion] = await req.db
+        .select()
+        .from(schema.formVersions)
+        .where(eq(schema.formVersions.id, submission.formVersionId));
+    }
+
+    const comments = await req.db
+      .select()
+      .from(schema.submissionComments)
+      .where(eq(schema.submissionComments.submissionId, id))
+      .orderBy(schema.submissionComments.createdAt);
+
+    const events = await req.db
+      .select()
+      .from(schema.submissionEvents)
+      .where(eq(schema.submissionEvents.submissionId, id))
+      .orderBy(desc(schema.submissionEvents.createdAt));
+
     res.json({
       ...submission,
+      comments,
+      events,
       formTitle: form.title,
-      formSchema: form.schema,
+      formSchema: formVersion?.schema || form.schema,
+      formVersion: formVersion?.version ?? null,
+      isCurrentVersion: !formVersion || formVersion.id === form.currentVersionId,
     });
   } catch (error) {
     console.error('Error fetching submission:', error);
@@ -217,6 +784,233 @@ router.get('/submissions/:id', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/submissions/:id/review
+ * Update a submission's review status and/or assignee (form owner only).
+ * Each change is recorded in the audit trail; returns the submission's review fields and new events.
+ */
+router.patch('/submissions/:id/review', requireDatabase, async (req, res) => {
+  try {
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { status, assignee } = req.body;
+
+    if (status !== undefined && !SUBMISSION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${SUBMISSION_STATUSES.join(', ')}` });
+    }
+
+    // An empty assignee unassigns the submission
+    const nextAssignee = typeof assignee === 'string' ? assignee.trim().replace(/^@/, '') || null : assignee;
+    if (nextAssignee !== undefined && nextAssignee !== null && !GITHUB_USERNAME_REGEX.test(nextAssignee)) {
+      return res.status(400).json({ error: 'assignee must be a GitHub username' });
+    }
+
+    const owned = await findOwnedSubmission(req, res, user);
+    if (!owned) return;
+    const { submission } = owned;
+
+    const updates = {};
+    const events = [];
+
+    if (status !== undefined && status !== submission.status) {
+      updates.status = status;
+      events.push(['status_changed', { from: submission.status, to: status }]);
+    }
+    if (nextAssignee !== undefined && nextAssignee !== submission.assignee) {
+      updates.assignee = nextAssignee;
+      events.push(['assigned', { from: submission.assignee, to: nextAssignee }]);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.json({ status: submission.status, assignee: submission.assignee, events: [] });
+    }
+
+    const [updated] = await req.db
+      .update(schema.submissions)
+      .set(updates)
+      .where(eq(schema.submissions.id, submission.id))
+      .returning();
+
+    const recorded = [];
+    for (const [action, details] of events) {
+      recorded.push(await recordSubmissionEvent(req.db, submission.id, action, details, user.githubUsername));
+    }
+
+    res.json({ status: updated.status, assignee: updated.assignee, events: recorded });
+  } catch (error) {
+    console.error('Error updating submission review:', error);
+    res.status(500).json({ error: 'Failed to update submission' });
+  }
+});
+
+/**
+ * POST /api/submissions/:id/comments
+ * Add an internal reviewer comment (form owner only).
+ * Replies set parentId to a top-level comment; replies to replies join the same thread.
+ */
+router.post('/submissions/:id/comments', requireDatabase, async (req, res) => {
+  try {
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { parentId } = req.body;
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+    if (!body) {
+      return res.status(400).json({ error: 'Comment text is required' });
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return res.status(400).json({ error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` });
+    }
+
+    const owned = await findOwnedSubmission(req, res, user);
+    if (!owned) return;
+    const { submission } = owned;
+
+    let threadId = null;
+    if (parentId) {
+      const [parent] = UUID_REGEX.test(parentId)
+        ? await req.db
+          .select()
+          .from(schema.submissionComments)
+          .where(eq(schema.submissionComments.id, parentId))
+        : [];
+
+      if (!parent || parent.submissionId !== submission.id) {
+        return res.status(400).json({ error: 'Comment to reply to was not found' });
+      }
+      threadId = parent.parentId || parent.id;
+    }
+
+    const [comment] = await req.db
+      .insert(schema.submissionComments)
+      .values({
+        submissionId: submission.id,
+        parentId: threadId,
+        githubUserId: user.githubUserId,
+        githubUsername: user.githubUsername,
+        body,
+      })
+      .returning();
+
+    const event = await recordSubmissionEvent(req.db, submission.id, 'commented', {
+      commentId: comment.id,
+      reply: !!threadId,
+    }, user.githubUsername);
+
+    res.status(201).json({ comment, event });
+  } catch (error) {
+    console.error('Error adding submission comment:', error);
+    res.status(500).json({ error: 'Failed to add comment' });
+  }
+});
+
+/**
+ * POST /api/submissions/:id/issue
+ * Offer the form's bound credential for a submission (form owner only).
+ * Replaces any earlier offer, e.g. one that expired before the applicant scanned it.
+ */
+router.post('/submissions/:id/issue', requireDatabase, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const owned = await findOwnedSubmission(req, res, user);
+    if (!owned) return;
+    const { submission, form } = owned;
+
+    // Issue with the binding of the version the submission was collected with
+    let formVersion = null;
+    if (submission.formVersionId) {
+      [formVersion] = await req.db
+        .select()
+        .from(schema.formVersions)
+        .where(eq(schema.formVersions.id, submission.formVersionId));
+    }
+
+    const issued = await issueSubmissionCredential(
+      formVersion?.schema || form.schema,
+      submission,
+      user.githubUsername
+    );
+    if (!issued.offer) {
+      return res.status(issued.status).json({ error: issued.error, apiDetails: issued.apiDetails });
+    }
+
+    await req.db
+      .update(schema.submissions)
+      .set({ credentialOffer: issued.offer })
+      .where(eq(schema.submissions.id, id));
+    const event = await recordSubmissionEvent(req.db, id, 'credential_issued', {
+      offerId: issued.offer.offerId,
+      credentialName: issued.offer.credentialName,
+    }, user.githubUsername);
+
+    res.status(201).json({ offer: issued.offer, event });
+  } catch (error) {
+    console.error('Error issuing credential:', error);
+    res.status(500).json({ error: 'Failed to issue credential' });
+  }
+});
+
+/**
+ * GET /api/submissions/:id/files/:uploadId
+ * Download a file attached to a submission (form owner only)
+ */
+router.get('/submissions/:id/files/:uploadId', requireDatabase, async (req, res) => {
+  try {
+    const { id, uploadId } = req.params;
+    const user = getCurrentUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const [upload] = UUID_REGEX.test(uploadId)
+      ? await req.db
+        .select()
+        .from(schema.formUploads)
+        .where(eq(schema.formUploads.id, uploadId))
+      : [];
+
+    if (!upload || upload.submissionId !== id) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    // Verify form ownership
+    const [form] = await req.db
+      .select()
+      .from(schema.forms)
+      .where(eq(schema.forms.id, upload.formId));
+
+    if (!form || form.githubUserId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.type(upload.mimetype);
+    res.download(path.join(req.app.locals.formUploadsDir, upload.filename), upload.originalName, (error) => {
+      if (error && !res.headersSent) {
+        console.error('Error sending uploaded file:', error);
+        res.status(404).json({ error: 'File not found' });
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    res.status(500).json({ error: 'Failed to fetch file' });
+  }
+});
+
 /**
  * DELETE /api/submissions/:id
  * Delete a submission
@@ -249,6 +1043,7 @@ router.delete('/submissions/:id', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    await removeUploadedFiles(req, [id]);
     await req.db
       .delete(schema.submissions)
       .where(eq(schema.submissions.id, id));
@@ -302,6 +1097,7 @@ router.delete('/submissions/bulk', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied to some submissions' });
     }
 
+    await removeUploadedFiles(req, ids);
     await req.db
       .delete(schema.submissions)
       .where(inArray(schema.submissions.id, ids));
@@ -313,19 +1109,54 @@ router.delete('/submissions/bulk', requireDatabase, async (req, res) => {
   }
 });
 
+/**
+ * Parse a date filter. Date-only values ("2025-01-31") cover the whole day,
+ * so `to` is moved to the end of that day.
+ */
+const parseDateFilter = (value, endOfDay = false) => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
 /**
  * GET /api/submissions/export/:formId
- * Export all submissions for a form as JSON
+ * Export submissions for a form
+ *
+ * Query params:
+ * - format: 'json' (default, nested fieldValues), 'csv' (one row per submission)
+ *   or 'table' (the CSV columns and rows as JSON, used for XLSX downloads)
+ * - from, to: submittedAt range (ISO dates, inclusive)
+ * - isTest: 'true' or 'false' to export only test or only live submissions
  */
 router.get('/submissions/export/:formId', requireDatabase, async (req, res) => {
   try {
     const { formId } = req.params;
+    const { format = 'json', isTest } = req.query;
     const user = getCurrentUser(req);
 
     if (!user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
+    if (!['json', 'csv', 'table'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be json, csv or table' });
+    }
+
+    const from = parseDateFilter(req.query.from);
+    const to = parseDateFilter(req.query.to, true);
+    if (from === undefined || to === undefined) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    if (isTest !== undefined && isTest !== 'true' && isTest !== 'false') {
+      return res.status(400).json({ error: 'isTest must be true or false' });
+    }
+
     // Verify form ownership
     const [form] = await req.db
       .select()
@@ -340,12 +1171,38 @@ router.get('/submissions/export/:formId', requireDatabase, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    const conditions = [eq(schema.submissions.formId, formId)];
+    if (from) conditions.push(gte(schema.submissions.submittedAt, from));
+    if (to) conditions.push(lte(schema.submissions.submittedAt, to));
+    if (isTest !== undefined) conditions.push(eq(schema.submissions.isTest, isTest === 'true'));
+
     const submissions = await req.db
       .select()
       .from(schema.submissions)
-      .where(eq(schema.submissions.formId, formId))
+      .where(and(...conditions))
       .orderBy(desc(schema.submissions.submittedAt));
 
+    const versions = await getSubmissionVersions(req.db, submissions);
+    const fileName = `${form.title.replace(/[^a-z0-9]/gi, '_')}_submissions`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      return res.send(toCsv(buildSubmissionTable(form, submissions, versions)));
+    }
+
+    if (format === 'table') {
+      const { columns, rows } = buildSubmissionTable(form, submissions, versions);
+      return res.json({
+        formId: form.id,
+        formTitle: form.title,
+        exportedAt: new Date().toISOString(),
+        totalSubmissions: submissions.length,
+        columns,
+        rows,
+      });
+    }
+
     // Format for export
     const exportData = {
       formId: form.id,
@@ -356,16 +1213,14 @@ router.get('/submissions/export/:formId', requireDatabase, async (req, res) => {
         id: s.id,
         submittedAt: s.submittedAt,
         isTest: s.isTest,
+        formVersion: versions[s.formVersionId]?.version ?? null,
         fieldValues: s.fieldValues,
         proofPresentations: s.proofPresentations,
       })),
     };
 
     res.setHeader('Content-Type', 'application/json');
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename="${form.title.replace(/[^a-z0-9]/gi, '_')}_submissions.json"`
-    );
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
     res.json(exportData);
   } catch (error) {
     console.error('Error exporting submissions:', error);
@@ -409,11 +1264,19 @@ router.get('/submissions/stats/:formId', requireDatabase, async (req, res) => {
     const testSubmissions = submissions.filter((s) => s.isTest).length;
     const liveSubmissions = total - testSubmissions;
 
+    // Review status counts, with every status present
+    const byStatus = Object.fromEntries(SUBMISSION_STATUSES.map((status) => [status, 0]));
+    for (const submission of submissions) {
+      byStatus[submission.status] = (byStatus[submission.status] || 0) + 1;
+    }
+
     res.json({
       formId,
       total,
       liveSubmissions,
       testSubmissions,
+      byStatus,
+      unassigned: submissions.filter((s) => !s.assignee).length,
     });
   } catch (error) {
     console.error('Error fetching submission stats:', error);
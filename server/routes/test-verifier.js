@@ -9,15 +9,29 @@
 import express from 'express';
 import crypto from 'crypto';
 import { getDb, schema } from '../db/index.js';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, ne } from 'drizzle-orm';
 import {
   getOrbitApiConfig,
   isApiConfigured,
   getOrbitConfigStatus,
 } from '../lib/orbitConfig.js';
+import {
+  proofRequests,
+  toOrbitProofRequest,
+  proofRequestWarnings,
+  credentialFieldToTemplate,
+  registerVerificationSocket,
+  watchProofRequest,
+  countPendingFormProofRequests,
+  MAX_PENDING_PROOF_REQUESTS_PER_SESSION,
+  MAX_PENDING_PROOF_REQUESTS_PER_FORM,
+} from '../lib/proofRequests.js';
+import { getPublishedFormSchema } from '../lib/formVersions.js';
 
 const router = express.Router();
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Get current user from session (COPA GitHub OAuth)
  */
@@ -56,103 +70,6 @@ const requireOrbit = (req, res, next) => {
   next();
 };
 
-// In-memory storage for proof requests
-// In production, use database tables
-const proofRequests = new Map();
-
-/**
- * Map our credential format to Orbit's format
- */
-const ORBIT_FORMAT_MAP = {
-  'anoncreds': { proofCredFormat: 'ANONCREDS', messageProtocol: 'AIP2_0' },
-  'w3c-jsonld': { proofCredFormat: 'JSONLD', messageProtocol: 'OID4VC' },
-  'w3c-sd-jwt': { proofCredFormat: 'OID4VC', messageProtocol: 'OID4VC' },
-  'iso-18013-5': { proofCredFormat: 'ISO_18013_5', messageProtocol: 'OID4VC' },
-};
-
-/**
- * Convert our template to Orbit proof request format
- */
-function toOrbitProofRequest(template, socketSessionId) {
-  const formatConfig = ORBIT_FORMAT_MAP[template.credentialFormat] || ORBIT_FORMAT_MAP['anoncreds'];
-
-  // Build requested attributes from template
-  const requestedAttributes = [];
-  const requestedPredicates = [];
-
-  for (const cred of template.requestedCredentials || []) {
-    // Build restrictions from credential
-    const restrictions = [];
-    if (cred.restrictions) {
-      const restriction = {};
-      if (cred.restrictions.schemaId) {
-        restriction.schemaId = cred.restrictions.schemaId;
-      }
-      if (cred.restrictions.credentialDefinitionId) {
-        restriction.credentialDefinitionId = cred.restrictions.credentialDefinitionId;
-      }
-      if (cred.restrictions.issuerDid) {
-        restriction.issuerDid = cred.restrictions.issuerDid;
-      }
-      if (Object.keys(restriction).length > 0) {
-        restrictions.push(restriction);
-      }
-    }
-
-    // Add requested attributes
-    if (cred.requestedAttributes && cred.requestedAttributes.length > 0) {
-      const attributes = cred.requestedAttributes.map((attr) => attr.attributeName);
-      requestedAttributes.push({
-        attributes,
-        restrictions,
-      });
-    }
-
-    // Add predicates
-    if (cred.predicates && cred.predicates.length > 0) {
-      for (const pred of cred.predicates) {
-        // Map our operator to Orbit's pType
-        const pTypeMap = {
-          '>': '>',
-          '>=': '>=',
-          '<': '<',
-          '<=': '<=',
-          '==': '=',
-          '!=': '!=',
-        };
-        const pType = pTypeMap[pred.operator] || '>=';
-
-        requestedPredicates.push({
-          attributeName: pred.attributeName,
-          pType,
-          pValue: typeof pred.value === 'number' ? pred.value : parseInt(pred.value, 10),
-          restrictions,
-        });
-      }
-    }
-  }
-
-  // Generate a unique credProofId based on template
-  const ecosystemTag = template.metadata?.ecosystemTag || 'general';
-  const safeName = template.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-  const credProofId = `${ecosystemTag}.${safeName}.${template.version || '1.0.0'}.${Date.now()}`;
-
-  return {
-    messageProtocol: formatConfig.messageProtocol,
-    credProofId,
-    proofAutoVerify: true,
-    createClaim: false,
-    sendProblemReport: false,
-    problemReportMessage: '',
-    proofName: template.name,
-    proofPurpose: template.description || `Verify ${template.name}`,
-    proofCredFormat: formatConfig.proofCredFormat,
-    requestedAttributes,
-    requestedPredicates: requestedPredicates.length > 0 ? requestedPredicates : undefined,
-    ...(socketSessionId && { socketSessionId }),
-  };
-}
-
 /**
  * GET /api/test-verifier/orbit-status
  * Check Orbit Verifier API connection status
@@ -188,7 +105,8 @@ router.get('/templates', requireAuth, async (req, res) => {
       .where(
         and(
           eq(schema.proofTemplates.githubUserId, req.user.githubUserId),
-          eq(schema.proofTemplates.publishedToVerifier, true)
+          eq(schema.proofTemplates.publishedToVerifier, true),
+          ne(schema.proofTemplates.status, 'retired')
         )
       )
       .orderBy(desc(schema.proofTemplates.updatedAt));
@@ -201,8 +119,12 @@ router.get('/templates', requireAuth, async (req, res) => {
       version: t.version || '1.0.0',
       credentialFormat: t.credentialFormat || 'anoncreds',
       requestedCredentials: t.requestedCredentials || [],
+      credentialGroups: t.credentialGroups || [],
       metadata: t.metadata || {},
       status: t.status,
+      statusReason: t.statusReason || null,
+      familyId: t.familyId || t.id,
+      previousVersionId: t.previousVersionId || null,
       publishedToVerifier: t.publishedToVerifier,
       createdAt: t.createdAt,
       updatedAt: t.updatedAt,
@@ -259,6 +181,13 @@ router.post('/proof-request', requireAuth, requireOrbit, async (req, res) => {
       });
     }
 
+    if (template.status === 'retired') {
+      return res.status(400).json({
+        error: 'Template is retired',
+        message: 'Use a newer version of this template.',
+      });
+    }
+
     // Get verifier API config
     const verifierConfig = getOrbitApiConfig('verifier');
     if (!verifierConfig || !verifierConfig.baseUrl || !verifierConfig.lobId) {
@@ -270,6 +199,7 @@ router.post('/proof-request', requireAuth, requireOrbit, async (req, res) => {
 
     // Build Orbit proof request
     const orbitPayload = toOrbitProofRequest(template, socketSessionId);
+    const warnings = proofRequestWarnings(template);
 
     // Normalize baseUrl
     const normalizedBaseUrl = verifierConfig.baseUrl.replace(/\/+$/, '');
@@ -334,6 +264,7 @@ router.post('/proof-request', requireAuth, requireOrbit, async (req, res) => {
       status: 'generated',
       socketSessionId: socketSessionId || null,
       requestPayload: JSON.stringify(orbitPayload),
+      warnings,
       createdAt: now.toISOString(),
       verifiedAt: null,
       verificationResult: null,
@@ -353,6 +284,7 @@ router.post('/proof-request', requireAuth, requireOrbit, async (req, res) => {
       longUrl: proofRequest.longUrl,
       status: proofRequest.status,
       requestPayload: proofRequest.requestPayload,
+      warnings: proofRequest.warnings,
       createdAt: proofRequest.createdAt,
       // Include API details for debugging
       apiDetails: {
@@ -367,7 +299,7 @@ router.post('/proof-request', requireAuth, requireOrbit, async (req, res) => {
     });
   } catch (error) {
     console.error('[TestVerifier] Error creating proof request:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
       error: 'Failed to create proof request',
       message: error.message,
       apiDetails: {
@@ -397,11 +329,174 @@ router.get('/proof-request/:id', requireAuth, (req, res) => {
   res.json(proofRequest);
 });
 
+/**
+ * POST /api/test-verifier/forms/:formId/proof-request
+ * Create a proof request for a verifiable-credential field on a published form
+ * (public endpoint - no auth required, scoped to the applicant's form session)
+ */
+router.post('/forms/:formId/proof-request', requireOrbit, async (req, res) => {
+  try {
+    const { formId } = req.params;
+    const { fieldId, sessionId } = req.body;
+
+    if (!fieldId || !sessionId) {
+      return res.status(400).json({ error: 'fieldId and sessionId are required' });
+    }
+
+    if (!UUID_REGEX.test(formId) || typeof sessionId !== 'string' || !UUID_REGEX.test(sessionId)) {
+      return res.status(400).json({ error: 'A valid formId and sessionId are required' });
+    }
+
+    const db = getDb();
+    if (!db) {
+      return res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Forms Builder requires PostgreSQL.',
+      });
+    }
+
+    const [form] = await db
+      .select()
+      .from(schema.forms)
+      .where(eq(schema.forms.id, formId));
+
+    if (!form || form.status !== 'published') {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    // Request the credential the published version asks for - the one submissions are validated against
+    const formSchema = await getPublishedFormSchema(db, form);
+    const field = (formSchema?.sections || [])
+      .flatMap((section) => section.fields || [])
+      .find((f) => f.id === fieldId);
+
+    if (!field || field.type !== 'verifiable-credential') {
+      return res.status(404).json({ error: 'Credential field not found' });
+    }
+
+    // Each request holds a backend socket until it settles or expires
+    const pending = countPendingFormProofRequests(formId, sessionId);
+    if (pending.session >= MAX_PENDING_PROOF_REQUESTS_PER_SESSION || pending.form >= MAX_PENDING_PROOF_REQUESTS_PER_FORM) {
+      return res.status(429).json({ error: 'Too many pending credential requests. Please try again later.' });
+    }
+
+    const verifierConfig = getOrbitApiConfig('verifier');
+    if (!verifierConfig || !verifierConfig.baseUrl || !verifierConfig.lobId) {
+      return res.status(503).json({
+        error: 'Verifier API not properly configured',
+        message: 'Please configure the Verifier API with Base URL and LOB ID in Settings.',
+      });
+    }
+
+    // Applicants have no COPA session, so the backend holds the socket for them
+    let watcher = null;
+    try {
+      watcher = await registerVerificationSocket();
+    } catch (error) {
+      console.warn('[TestVerifier] Form proof request without socket updates:', error.message);
+    }
+
+    const template = credentialFieldToTemplate(form, field);
+    let orbitPayload;
+    try {
+      orbitPayload = toOrbitProofRequest(template, watcher?.socketSessionId);
+    } catch (error) {
+      watcher?.socket.disconnect();
+      throw error;
+    }
+
+    const normalizedBaseUrl = verifierConfig.baseUrl.replace(/\/+$/, '');
+    const url = `${normalizedBaseUrl}/api/lob/${verifierConfig.lobId}/proof-request/url?connectionless=true`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(verifierConfig.apiKey && { 'api-key': verifierConfig.apiKey }),
+      },
+      body: JSON.stringify(orbitPayload),
+    });
+
+    const responseText = await response.text();
+    let result;
+    try {
+      result = JSON.parse(responseText);
+    } catch {
+      result = {};
+    }
+
+    if (!response.ok) {
+      watcher?.socket.disconnect();
+      console.error('[TestVerifier] Form proof request failed:', response.status, responseText);
+      return res.status(502).json({
+        error: result.message || result.error || 'Failed to create proof request',
+      });
+    }
+
+    const proofRequestId = crypto.randomUUID();
+    const proofRequest = {
+      id: proofRequestId,
+      templateId: null,
+      templateName: template.name,
+      credentialFormat: template.credentialFormat,
+      credProofId: result.data?.credProofId || orbitPayload.credProofId,
+      shortUrl: result.data?.shortUrl,
+      longUrl: result.data?.longUrl,
+      status: 'generated',
+      socketSessionId: watcher?.socketSessionId || null,
+      requestPayload: JSON.stringify(orbitPayload),
+      createdAt: new Date().toISOString(),
+      verifiedAt: null,
+      verificationResult: null,
+      errorMessage: null,
+      userId: null,
+      formId,
+      fieldId,
+      formSessionId: sessionId,
+    };
+
+    proofRequests.set(proofRequestId, proofRequest);
+
+    // Audit trail in the proof_requests table (best effort)
+    const recordState = (state) =>
+      db
+        .insert(schema.proofRequests)
+        .values({
+          proofRequestId,
+          credProofId: proofRequest.credProofId,
+          formId,
+          sessionId,
+          socketSessionId: proofRequest.socketSessionId,
+          state,
+        })
+        .catch((error) => console.error('[TestVerifier] Failed to record proof request:', error.message));
+
+    recordState('pending');
+
+    watchProofRequest(watcher?.socket || null, proofRequestId, (settled) => recordState(settled.status));
+
+    res.status(201).json({
+      id: proofRequest.id,
+      credProofId: proofRequest.credProofId,
+      shortUrl: proofRequest.shortUrl,
+      longUrl: proofRequest.longUrl,
+      status: proofRequest.status,
+      createdAt: proofRequest.createdAt,
+    });
+  } catch (error) {
+    console.error('[TestVerifier] Error creating form proof request:', error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to create proof request' });
+  }
+});
+
 /**
  * GET /api/test-verifier/status/:id
  * Get/refresh proof request status
+ *
+ * Form-scoped requests are readable without auth by passing the applicant's
+ * form session as ?sessionId=
  */
-router.get('/status/:id', requireAuth, async (req, res) => {
+router.get('/status/:id', async (req, res) => {
   const { id } = req.params;
   const proofRequest = proofRequests.get(id);
 
@@ -409,13 +504,22 @@ router.get('/status/:id', requireAuth, async (req, res) => {
     return res.status(404).json({ error: 'Proof request not found' });
   }
 
-  if (proofRequest.userId !== req.user.githubUserId) {
-    return res.status(403).json({ error: 'Access denied' });
+  if (proofRequest.formId) {
+    if (req.query.sessionId !== proofRequest.formSessionId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+  } else {
+    const user = getCurrentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (proofRequest.userId !== user.githubUserId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
   }
 
-  // For now, return stored status
-  // In a full implementation, you could poll Orbit API for status updates
-  // or rely on socket events which update the status via the store
+  // Status is updated in place by socket event handlers (PATCH below for
+  // browser sockets, watchProofRequest for backend sockets on form requests)
 
   res.json({
     id: proofRequest.id,
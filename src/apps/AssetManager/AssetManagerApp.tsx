@@ -264,6 +264,7 @@ export default function AssetManagerApp() {
               <option value="entity-logo">Entity Logos ({assets.filter((a) => a.type === 'entity-logo').length})</option>
               <option value="credential-background">Backgrounds ({assets.filter((a) => a.type === 'credential-background').length})</option>
               <option value="credential-icon">Icons ({assets.filter((a) => a.type === 'credential-icon').length})</option>
+              <option value="credential-svg-template">SVG Templates ({assets.filter((a) => a.type === 'credential-svg-template').length})</option>
             </select>
           </div>
 
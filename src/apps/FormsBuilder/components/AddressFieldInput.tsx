@@ -0,0 +1,79 @@
+/**
+ * AddressFieldInput Component
+ *
+ * Structured Canadian address input for FormField type 'address'.
+ * Used by the form preview and the public form page.
+ */
+
+import { AddressFieldValue } from '../../../types/forms';
+import { CANADIAN_REGIONS, formatPostalCode } from '../../../constants/regions';
+
+interface AddressFieldInputProps {
+  value: Partial<AddressFieldValue> | undefined;
+  onChange: (value: Partial<AddressFieldValue>) => void;
+  inputClassName: string;
+}
+
+export default function AddressFieldInput({ value, onChange, inputClassName }: AddressFieldInputProps) {
+  const address = value || {};
+
+  const update = (updates: Partial<AddressFieldValue>) => {
+    onChange({ ...address, ...updates });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        <input
+          type="text"
+          value={address.street || ''}
+          onChange={(e) => update({ street: e.target.value })}
+          placeholder="Street address"
+          autoComplete="address-line1"
+          className={`col-span-3 ${inputClassName}`}
+        />
+        <input
+          type="text"
+          value={address.unit || ''}
+          onChange={(e) => update({ unit: e.target.value })}
+          placeholder="Unit"
+          autoComplete="address-line2"
+          className={inputClassName}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="text"
+          value={address.city || ''}
+          onChange={(e) => update({ city: e.target.value })}
+          placeholder="City"
+          autoComplete="address-level2"
+          className={inputClassName}
+        />
+        <select
+          value={address.province || ''}
+          onChange={(e) => update({ province: e.target.value as AddressFieldValue['province'] })}
+          autoComplete="address-level1"
+          className={inputClassName}
+        >
+          <option value="">Province / territory</option>
+          {CANADIAN_REGIONS.map((region) => (
+            <option key={region.code} value={region.code}>
+              {region.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={address.postalCode || ''}
+          onChange={(e) => update({ postalCode: e.target.value })}
+          onBlur={(e) => e.target.value && update({ postalCode: formatPostalCode(e.target.value) })}
+          placeholder="A1A 1A1"
+          maxLength={7}
+          autoComplete="postal-code"
+          className={`${inputClassName} uppercase`}
+        />
+      </div>
+    </div>
+  );
+}
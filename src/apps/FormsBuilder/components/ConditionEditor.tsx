@@ -0,0 +1,176 @@
+/**
+ * ConditionEditor Component
+ *
+ * Edits a ConditionGroup (show-if / required-if rules) for a field or section.
+ * Rules reference other fields by name; verifiable-credential fields can be
+ * tested for a successful proof (including their predicate).
+ */
+
+import {
+  ConditionGroup,
+  ConditionOperator,
+  FieldCondition,
+  FormField,
+  CONDITION_OPERATOR_LABELS,
+  VALUE_CONDITION_OPERATORS,
+  createEmptyCondition,
+  getConditionOperators,
+} from '../../../types/forms';
+
+interface ConditionEditorProps {
+  title: string;
+  description: string;
+  group?: ConditionGroup;
+  availableFields: FormField[];
+  onChange: (group: ConditionGroup | undefined) => void;
+}
+
+export default function ConditionEditor({
+  title,
+  description,
+  group,
+  availableFields,
+  onChange,
+}: ConditionEditorProps) {
+  const namedFields = availableFields.filter((f) => f.name);
+  const conditions = group?.conditions || [];
+
+  const updateConditions = (next: FieldCondition[]) => {
+    onChange(next.length > 0 ? { match: group?.match || 'all', conditions: next } : undefined);
+  };
+
+  const handleAddCondition = () => {
+    const firstField = namedFields[0];
+    const condition = createEmptyCondition(firstField?.name);
+    if (firstField) {
+      condition.operator = getConditionOperators(firstField.type)[0];
+    }
+    updateConditions([...conditions, condition]);
+  };
+
+  const handleUpdateCondition = (conditionId: string, updates: Partial<FieldCondition>) => {
+    updateConditions(conditions.map((c) => (c.id === conditionId ? { ...c, ...updates } : c)));
+  };
+
+  const handleFieldChange = (condition: FieldCondition, fieldName: string) => {
+    const field = namedFields.find((f) => f.name === fieldName);
+    const operators = field ? getConditionOperators(field.type) : [];
+    handleUpdateCondition(condition.id, {
+      fieldName,
+      // Keep the operator if the new field supports it
+      operator: operators.includes(condition.operator) ? condition.operator : operators[0] || 'equals',
+      value: '',
+    });
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700">{title}</label>
+        <button
+          onClick={handleAddCondition}
+          disabled={namedFields.length === 0}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          + Add Rule
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">{description}</p>
+
+      {namedFields.length === 0 && (
+        <p className="text-sm text-gray-400 text-center py-2">
+          Give other fields a name to use them in rules
+        </p>
+      )}
+
+      {conditions.length > 1 && (
+        <div className="flex items-center gap-2 mb-2 text-sm text-gray-600">
+          <span>Match</span>
+          <select
+            value={group?.match || 'all'}
+            onChange={(e) => onChange({ match: e.target.value as ConditionGroup['match'], conditions })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">all rules</option>
+            <option value="any">any rule</option>
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {conditions.map((condition) => {
+          const field = namedFields.find((f) => f.name === condition.fieldName);
+          const operators = field ? getConditionOperators(field.type) : [condition.operator];
+          const needsValue = VALUE_CONDITION_OPERATORS.includes(condition.operator);
+
+          return (
+            <div key={condition.id} className="p-2 bg-gray-50 border border-gray-200 rounded space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={condition.fieldName}
+                  onChange={(e) => handleFieldChange(condition, e.target.value)}
+                  className={`flex-1 min-w-0 px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    field ? 'border-gray-300' : 'border-red-300 bg-red-50'
+                  }`}
+                >
+                  {!field && <option value={condition.fieldName}>{condition.fieldName || 'Select field...'} (missing)</option>}
+                  {namedFields.map((f) => (
+                    <option key={f.id} value={f.name}>
+                      {f.label || f.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateConditions(conditions.filter((c) => c.id !== condition.id))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={condition.operator}
+                  onChange={(e) =>
+                    handleUpdateCondition(condition.id, { operator: e.target.value as ConditionOperator })
+                  }
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {operators.map((op) => (
+                    <option key={op} value={op}>
+                      {CONDITION_OPERATOR_LABELS[op]}
+                    </option>
+                  ))}
+                </select>
+                {needsValue &&
+                  (field?.options && field.options.length > 0 ? (
+                    <select
+                      value={condition.value || ''}
+                      onChange={(e) => handleUpdateCondition(condition.id, { value: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select...</option>
+                      {field.options.map((option) => (
+                        <option key={option.label} value={field.type === 'select' ? option.value || option.label : option.label}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={field?.type === 'date' ? 'date' : field?.type === 'number' ? 'number' : 'text'}
+                      value={condition.value || ''}
+                      onChange={(e) => handleUpdateCondition(condition.id, { value: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Value"
+                    />
+                  ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
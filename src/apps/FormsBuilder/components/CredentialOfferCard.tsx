@@ -0,0 +1,39 @@
+/**
+ * CredentialOfferCard Component
+ *
+ * QR code and wallet link for a credential offer made from a submission.
+ * Used on the public form's success screen and in the submission detail view.
+ */
+
+import { QRCodeSVG } from 'qrcode.react';
+import type { SubmissionCredentialOffer } from '../../../types/forms';
+
+interface CredentialOfferCardProps {
+  offer: SubmissionCredentialOffer;
+}
+
+export default function CredentialOfferCard({ offer }: CredentialOfferCardProps) {
+  const isExpired = new Date(offer.expiresAt).getTime() < Date.now();
+
+  return (
+    <div className="border-2 border-blue-300 rounded-lg p-6 bg-blue-50 text-center">
+      <p className="text-sm font-medium text-blue-800 mb-3">{offer.credentialName}</p>
+      <div className={`inline-block bg-white p-3 rounded-lg shadow-sm ${isExpired ? 'opacity-40' : ''}`}>
+        <QRCodeSVG value={offer.shortUrl} size={200} level="M" />
+      </div>
+      {isExpired ? (
+        <p className="text-xs text-red-600 mt-3">This offer has expired.</p>
+      ) : (
+        <>
+          <p className="text-sm font-medium text-blue-700 mt-3">Scan with your wallet app to accept</p>
+          <p className="text-xs text-blue-600 mt-1">
+            Offer expires at {new Date(offer.expiresAt).toLocaleTimeString()}
+          </p>
+          <a href={offer.shortUrl} className="inline-block mt-2 text-xs text-blue-600 underline hover:text-blue-800">
+            Open in wallet on this device
+          </a>
+        </>
+      )}
+    </div>
+  );
+}
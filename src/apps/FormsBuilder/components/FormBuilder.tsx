@@ -11,13 +11,21 @@ import { useFormsStore } from '../../../store/formsStore';
 import {
   FormField,
   FormFieldType,
+  FormLayout,
+  IssuanceBinding,
   FormSection,
   FIELD_TYPE_LABELS,
+  FILE_UPLOAD_MAX_SIZE_MB,
+  FILE_UPLOAD_TYPES,
+  getMaxFileSizeMb,
   createEmptyField,
   createEmptySection,
 } from '../../../types/forms';
 import FormPreview from './FormPreview';
+import FormVersionHistory from './FormVersionHistory';
 import CredentialFieldConfig from './CredentialFieldConfig';
+import ConditionEditor from './ConditionEditor';
+import IssuanceBindingEditor from './IssuanceBindingEditor';
 import { useAutoSave } from '../hooks/useAutoSave';
 import {
   DndContext,
@@ -241,6 +249,11 @@ function SortableField({
                   Required
                 </span>
               )}
+              {(field.visibleWhen || field.requiredWhen) && (
+                <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded">
+                  Conditional
+                </span>
+              )}
             </div>
             <h4 className="font-medium text-gray-900">
               {field.label || 'Untitled Field'}
@@ -287,8 +300,9 @@ export default function FormBuilder() {
   const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
   const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
   const [showFormSettings, setShowFormSettings] = useState(false);
-  const [formSettingsTab, setFormSettingsTab] = useState<'info' | 'success' | 'submission' | null>(null);
+  const [formSettingsTab, setFormSettingsTab] = useState<'info' | 'success' | 'layout' | 'submission' | null>(null);
 
   // Panel widths for resizable layout
   const [sectionsPanelWidth, setSectionsPanelWidth] = useState(240);
@@ -470,6 +484,19 @@ export default function FormBuilder() {
     setHasUnsavedChanges(true);
   };
 
+  // Update section properties (e.g. conditional visibility)
+  const handleUpdateSection = (sectionId: string, updates: Partial<FormSection>) => {
+    if (!currentForm) return;
+    const newSchema = {
+      ...currentForm.schema,
+      sections: currentForm.schema.sections.map((s) =>
+        s.id === sectionId ? { ...s, ...updates } : s
+      ),
+    };
+    updateCurrentFormSchema(newSchema);
+    setHasUnsavedChanges(true);
+  };
+
   // Add a field to the selected section
   const handleAddField = (type: FormFieldType) => {
     if (!currentForm || !selectedSectionId) return;
@@ -557,6 +584,20 @@ export default function FormBuilder() {
     setHasUnsavedChanges(true);
   };
 
+  // Update layout / save-and-resume settings
+  const handleUpdateLayout = (updates: { layout?: FormLayout; saveAndResume?: boolean }) => {
+    if (!currentForm) return;
+    updateCurrentFormSchema({ ...currentForm.schema, ...updates });
+    setHasUnsavedChanges(true);
+  };
+
+  // Update the credential issuance binding (undefined turns issuance off)
+  const handleUpdateIssuance = (issuance: IssuanceBinding | undefined) => {
+    if (!currentForm) return;
+    updateCurrentFormSchema({ ...currentForm.schema, issuance });
+    setHasUnsavedChanges(true);
+  };
+
   // Get selected section
   const selectedSection = currentForm?.schema.sections.find(
     (s) => s.id === selectedSectionId
@@ -567,6 +608,9 @@ export default function FormBuilder() {
     (f) => f.id === selectedFieldId
   );
 
+  // Fields that conditional logic rules can reference
+  const allFields = currentForm?.schema.sections.flatMap((s) => s.fields) || [];
+
   if (isLoading && !currentForm) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -626,6 +670,17 @@ export default function FormBuilder() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            {currentForm.currentVersionId && (
+              <button
+                onClick={() => setShowVersions(true)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Versions
+              </button>
+            )}
             <button
               onClick={() => setShowPreview(true)}
               className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
@@ -831,6 +886,19 @@ export default function FormBuilder() {
           )}
         </div>
 
+        {/* Version History Modal */}
+        {showVersions && (
+          <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+            <div className="bg-white w-full max-w-5xl h-full max-h-[90vh] rounded-xl shadow-2xl overflow-hidden flex flex-col">
+              <FormVersionHistory
+                formId={currentForm.id}
+                currentSchema={currentForm.schema}
+                onClose={() => setShowVersions(false)}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Preview Modal */}
         {showPreview && (
           <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center">
@@ -897,6 +965,17 @@ export default function FormBuilder() {
               Auto-save failed
             </span>
           )}
+          {currentForm.currentVersionId && (
+            <button
+              onClick={() => setShowVersions(true)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Versions
+            </button>
+          )}
           <button
             onClick={() => setShowPreview(true)}
             className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
@@ -1040,6 +1119,22 @@ export default function FormBuilder() {
                     </svg>
                     Success Screen
                   </button>
+                  <button
+                    onClick={() => {
+                      setFormSettingsTab('layout');
+                      setSelectedFieldId(null);
+                    }}
+                    className={`w-full px-3 py-2 text-left text-sm rounded-lg flex items-center gap-2 transition-colors ${
+                      formSettingsTab === 'layout'
+                        ? 'bg-purple-50 text-purple-700 font-medium'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                    </svg>
+                    Layout &amp; Drafts
+                  </button>
                   <button
                     onClick={() => {
                       setFormSettingsTab('submission');
@@ -1197,6 +1292,71 @@ export default function FormBuilder() {
                 </div>
               )}
 
+              {/* Layout & Drafts Tab */}
+              {formSettingsTab === 'layout' && (
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 mb-4">
+                    <svg className="w-5 h-5 text-purple-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                    </svg>
+                    <h3 className="font-semibold text-gray-800">Layout &amp; Drafts</h3>
+                  </div>
+
+                  <div className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Layout</label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {([
+                          { value: 'single-page', label: 'Single page', description: 'All sections on one page.' },
+                          { value: 'wizard', label: 'Wizard', description: 'One section per step, with progress and Next/Back.' },
+                        ] as const).map((option) => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => handleUpdateLayout({ layout: option.value })}
+                            className={`p-3 text-left border-2 rounded-lg transition-colors ${
+                              (currentForm.schema.layout ?? 'single-page') === option.value
+                                ? 'border-purple-500 bg-purple-50'
+                                : 'border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            <p className="text-sm font-medium text-gray-800">{option.label}</p>
+                            <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-400 mt-2">
+                        Sections hidden by conditional logic are skipped in the wizard.
+                      </p>
+                    </div>
+
+                    <div className="flex items-start justify-between gap-4 pt-4 border-t">
+                      <div>
+                        <p className="text-sm font-medium text-gray-700">Save and resume</p>
+                        <p className="text-sm text-gray-500 mt-1">
+                          Let applicants save their progress and continue later from a private link. Drafts expire
+                          after 30 days.
+                        </p>
+                      </div>
+                      {/* Toggle Switch */}
+                      <button
+                        type="button"
+                        onClick={() => handleUpdateLayout({ saveAndResume: !currentForm.schema.saveAndResume })}
+                        className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 ${
+                          currentForm.schema.saveAndResume ? 'bg-purple-600' : 'bg-gray-200'
+                        }`}
+                      >
+                        <span
+                          className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                            currentForm.schema.saveAndResume ? 'translate-x-5' : 'translate-x-0'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Submission Logic Tab */}
               {formSettingsTab === 'submission' && (
                 <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -1217,7 +1377,7 @@ export default function FormBuilder() {
                       </svg>
                       <div className="text-sm text-amber-800">
                         <p className="font-medium">Governance Configuration</p>
-                        <p className="mt-1">These settings define what SHOULD happen on successful submission. Actual credential/badge issuance requires integration with an issuance service.</p>
+                        <p className="mt-1">Credentials are issued through the Orbit Issuer API configured in the Test Issuer. Badge settings define what SHOULD happen on successful submission; actual badge issuance requires integration with an issuance service.</p>
                       </div>
                     </div>
                   </div>
@@ -1232,14 +1392,13 @@ export default function FormBuilder() {
                         <h4 className="font-medium text-gray-800">Issue Credential</h4>
                       </div>
                       <p className="text-sm text-gray-500 mb-3">
-                        Issue a verifiable credential to the form submitter.
+                        Issue a verifiable credential to the form submitter, filled in from their answers.
                       </p>
-                      <div className="p-4 bg-gray-50 border border-dashed border-gray-300 rounded-lg text-center text-sm text-gray-500">
-                        <svg className="w-8 h-8 mx-auto text-gray-400 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
-                        </svg>
-                        <p>Credential issuance configuration coming soon</p>
-                      </div>
+                      <IssuanceBindingEditor
+                        binding={currentForm.schema.issuance}
+                        fields={allFields}
+                        onChange={handleUpdateIssuance}
+                      />
                     </div>
 
                     {/* Badge Issuance */}
@@ -1278,6 +1437,15 @@ export default function FormBuilder() {
                   className="text-lg font-semibold text-gray-900 bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1 -ml-1 w-full"
                   placeholder="Section Title"
                 />
+                <div className="mt-3">
+                  <ConditionEditor
+                    title="Section Logic"
+                    description="Show this section only when the rules match. Leave empty to always show it."
+                    group={selectedSection.visibleWhen}
+                    availableFields={allFields.filter((f) => !selectedSection.fields.includes(f))}
+                    onChange={(visibleWhen) => handleUpdateSection(selectedSection.id, { visibleWhen })}
+                  />
+                </div>
               </div>
 
               {/* Fields list */}
@@ -1409,22 +1577,24 @@ export default function FormBuilder() {
               </div>
 
               {/* Placeholder */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Placeholder
-                </label>
-                <input
-                  type="text"
-                  value={selectedField.placeholder || ''}
-                  onChange={(e) =>
-                    handleUpdateField(selectedSectionId!, selectedField.id, {
-                      placeholder: e.target.value,
-                    })
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Placeholder text..."
-                />
-              </div>
+              {!['file', 'address', 'signature'].includes(selectedField.type) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Placeholder
+                  </label>
+                  <input
+                    type="text"
+                    value={selectedField.placeholder || ''}
+                    onChange={(e) =>
+                      handleUpdateField(selectedSectionId!, selectedField.id, {
+                        placeholder: e.target.value,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Placeholder text..."
+                  />
+                </div>
+              )}
 
               {/* Required */}
               <div className="flex items-center gap-2">
@@ -1529,6 +1699,85 @@ export default function FormBuilder() {
                 </div>
               )}
 
+              {/* File upload limits */}
+              {selectedField.type === 'file' && (
+                <div className="border-t pt-4 space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Accepted File Types
+                    </label>
+                    <div className="space-y-1">
+                      {FILE_UPLOAD_TYPES.map((fileType) => {
+                        const accept = selectedField.fileConfig?.accept || [];
+                        return (
+                          <label key={fileType.mimeType} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={accept.includes(fileType.mimeType)}
+                              onChange={(e) =>
+                                handleUpdateField(selectedSectionId!, selectedField.id, {
+                                  fileConfig: {
+                                    ...selectedField.fileConfig,
+                                    accept: e.target.checked
+                                      ? [...accept, fileType.mimeType]
+                                      : accept.filter((mimeType) => mimeType !== fileType.mimeType),
+                                  },
+                                })
+                              }
+                              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            {fileType.label}
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">Leave all unchecked to accept any of these types.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Maximum Size (MB)
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={FILE_UPLOAD_MAX_SIZE_MB}
+                      value={getMaxFileSizeMb(selectedField)}
+                      onChange={(e) =>
+                        handleUpdateField(selectedSectionId!, selectedField.id, {
+                          fileConfig: {
+                            ...selectedField.fileConfig,
+                            maxSizeMb: Math.min(Math.max(e.target.valueAsNumber || 1, 1), FILE_UPLOAD_MAX_SIZE_MB),
+                          },
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Conditional logic */}
+              <ConditionEditor
+                title="Show If"
+                description="Show this field only when the rules match. Leave empty to always show it."
+                group={selectedField.visibleWhen}
+                availableFields={allFields.filter((f) => f.id !== selectedField.id)}
+                onChange={(visibleWhen) =>
+                  handleUpdateField(selectedSectionId!, selectedField.id, { visibleWhen })
+                }
+              />
+              {!selectedField.required && (
+                <ConditionEditor
+                  title="Required If"
+                  description="Make this field required when the rules match."
+                  group={selectedField.requiredWhen}
+                  availableFields={allFields.filter((f) => f.id !== selectedField.id)}
+                  onChange={(requiredWhen) =>
+                    handleUpdateField(selectedSectionId!, selectedField.id, { requiredWhen })
+                  }
+                />
+              )}
+
               {/* Verifiable Credential Configuration */}
               {selectedField.type === 'verifiable-credential' && (
                 <CredentialFieldConfig
@@ -1541,6 +1790,19 @@ export default function FormBuilder() {
         )}
       </div>
 
+      {/* Version History Modal */}
+      {showVersions && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-5xl h-full max-h-[90vh] rounded-xl shadow-2xl overflow-hidden flex flex-col">
+            <FormVersionHistory
+              formId={currentForm.id}
+              currentSchema={currentForm.schema}
+              onClose={() => setShowVersions(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Preview Modal */}
       {showPreview && currentForm && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
@@ -6,7 +6,19 @@
  */
 
 import { useState, useMemo } from 'react';
-import { FormSchema, FormField, FormSection } from '../../../types/forms';
+import {
+  AddressFieldValue,
+  FILE_UPLOAD_TYPES,
+  FormSchema,
+  FormField,
+  FormSection,
+  FormVisibility,
+  getAcceptedFileTypes,
+  getMaxFileSizeMb,
+  resolveFormVisibility,
+} from '../../../types/forms';
+import AddressFieldInput from './AddressFieldInput';
+import SignatureFieldInput from './SignatureFieldInput';
 
 interface FormPreviewProps {
   schema: FormSchema;
@@ -130,6 +142,34 @@ function FieldPreview({ field, value, onChange }: FieldPreviewProps) {
         </div>
       );
 
+    case 'file': {
+      // Uploads need a published form, so the preview only shows the limits
+      const acceptedTypes = getAcceptedFileTypes(field);
+      return (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+          <p className="text-sm font-medium text-blue-600">Choose a file</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {FILE_UPLOAD_TYPES.filter((t) => acceptedTypes.includes(t.mimeType))
+              .map((t) => t.label)
+              .join(', ')}{' '}
+            up to {getMaxFileSizeMb(field)}MB
+          </p>
+        </div>
+      );
+    }
+
+    case 'address':
+      return (
+        <AddressFieldInput
+          value={value as Partial<AddressFieldValue> | undefined}
+          onChange={onChange}
+          inputClassName={baseInputClasses}
+        />
+      );
+
+    case 'signature':
+      return <SignatureFieldInput value={value as string | undefined} onChange={onChange} />;
+
     case 'verifiable-credential':
       return (
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
@@ -162,10 +202,12 @@ function FieldPreview({ field, value, onChange }: FieldPreviewProps) {
 
 function SectionPreview({
   section,
+  visibility,
   values,
   onChange,
 }: {
   section: FormSection;
+  visibility: FormVisibility;
   values: Record<string, unknown>;
   onChange: (fieldName: string, value: unknown) => void;
 }) {
@@ -178,11 +220,11 @@ function SectionPreview({
         <p className="text-gray-600 mb-4">{section.description}</p>
       )}
       <div className="space-y-6">
-        {section.fields.map((field) => (
+        {section.fields.filter((field) => !visibility.hiddenFields.has(field.id)).map((field) => (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               {field.label || 'Untitled Field'}
-              {field.required && <span className="text-red-500 ml-1">*</span>}
+              {visibility.requiredFields.has(field.id) && <span className="text-red-500 ml-1">*</span>}
             </label>
             {field.description && (
               <p className="text-sm text-gray-500 mb-2">{field.description}</p>
@@ -284,6 +326,7 @@ export default function FormPreview({ schema, title, description, onClose }: For
   // Determine initial page based on whether info screen is enabled
   const initialPage = schema.infoScreen?.enabled ? 'info' : 'form';
   const [currentPage, setCurrentPage] = useState<'info' | 'form' | 'success'>(initialPage);
+  const [step, setStep] = useState(0);
 
   // Extract all verifiable-credential fields from all sections
   const credentialFields = useMemo(() => {
@@ -292,12 +335,28 @@ export default function FormPreview({ schema, title, description, onClose }: For
     );
   }, [schema.sections]);
 
+  // Conditional logic - credentials cannot be verified in preview, so credential
+  // rules evaluate as "not verified"
+  const visibility = useMemo(
+    () => resolveFormVisibility(schema, values, new Set()),
+    [schema, values]
+  );
+
+  const isWizard = schema.layout === 'wizard';
+  const steps = schema.sections.filter((section) => !visibility.hiddenSections.has(section.id));
+  const stepIndex = Math.min(step, Math.max(steps.length - 1, 0));
+  const isLastStep = stepIndex >= steps.length - 1;
+
   const handleFieldChange = (fieldName: string, value: unknown) => {
     setValues((prev) => ({ ...prev, [fieldName]: value }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isWizard && !isLastStep) {
+      setStep(stepIndex + 1);
+      return;
+    }
     // Only show success screen if enabled, otherwise just stay on form
     if (schema.successScreen?.enabled ?? true) {
       setCurrentPage('success');
@@ -379,22 +438,51 @@ export default function FormPreview({ schema, title, description, onClose }: For
         {/* Form content - scrollable */}
         <div className="flex-1 overflow-y-auto bg-gray-50">
           <div className="max-w-2xl mx-auto p-6">
+            {isWizard && steps.length > 1 && (
+              <div className="mb-6">
+                <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                  <span className="font-medium">{steps[stepIndex]?.title}</span>
+                  <span>
+                    Step {stepIndex + 1} of {steps.length}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${((stepIndex + 1) / steps.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
             <form onSubmit={handleSubmit}>
-              {schema.sections.map((section) => (
+              {(isWizard ? steps.slice(stepIndex, stepIndex + 1) : steps).map((section) => (
                 <SectionPreview
                   key={section.id}
                   section={section}
+                  visibility={visibility}
                   values={values}
                   onChange={handleFieldChange}
                 />
               ))}
 
-              <div className="flex justify-end pt-4 border-t">
+              <div className="flex items-center justify-between pt-4 border-t">
+                <div>
+                  {isWizard && stepIndex > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setStep(stepIndex - 1)}
+                      className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Back
+                    </button>
+                  )}
+                </div>
                 <button
                   type="submit"
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
                 >
-                  Submit
+                  {isWizard && !isLastStep ? 'Next' : 'Submit'}
                 </button>
               </div>
             </form>
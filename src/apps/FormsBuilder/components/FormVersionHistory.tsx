@@ -0,0 +1,206 @@
+/**
+ * FormVersionHistory Component
+ *
+ * Lists the published versions of a form and shows what changed between
+ * any two of them (or between a version and the current working copy).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { FormSchema, FormSchemaChange, FormVersion, diffFormSchemas } from '../../../types/forms';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+// Compare target: a version number, or the form as currently saved
+type CompareTarget = number | 'current';
+
+interface FormVersionHistoryProps {
+  formId: string;
+  currentSchema: FormSchema;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<FormSchemaChange['kind'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-700',
+};
+
+export default function FormVersionHistory({ formId, currentSchema, onClose }: FormVersionHistoryProps) {
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromTarget, setFromTarget] = useState<CompareTarget | null>(null);
+  const [toTarget, setToTarget] = useState<CompareTarget>('current');
+
+  useEffect(() => {
+    async function fetchVersions() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`${API_BASE}/api/forms/${formId}/versions`, {
+          credentials: 'include',
+        });
+        if (!response.ok) throw new Error('Failed to fetch versions');
+
+        const data: FormVersion[] = await response.json();
+        setVersions(data);
+        // Default: latest published version against the current form
+        if (data.length > 0) {
+          setFromTarget(data[0].version);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch versions');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchVersions();
+  }, [formId]);
+
+  const schemaFor = (target: CompareTarget | null): FormSchema | undefined =>
+    target === 'current' ? currentSchema : versions.find((v) => v.version === target)?.schema;
+
+  const fromSchema = schemaFor(fromTarget);
+  const toSchema = schemaFor(toTarget);
+
+  const changes = useMemo(
+    () => (fromSchema && toSchema ? diffFormSchemas(fromSchema, toSchema) : []),
+    [fromSchema, toSchema]
+  );
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const parseTarget = (value: string): CompareTarget => (value === 'current' ? 'current' : Number(value));
+
+  const renderTargetSelect = (value: CompareTarget | null, onChange: (target: CompareTarget) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseTarget(e.target.value))}
+      className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    >
+      <option value="current">Current form</option>
+      {versions.map((v) => (
+        <option key={v.id} value={v.version}>
+          Version {v.version}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="bg-white border-b px-6 py-4 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Version History</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              A new version is saved each time the form is published. Submissions keep the version they were made
+              against.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : error ? (
+        <div className="p-6">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-800">{error}</div>
+        </div>
+      ) : versions.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          This form has not been published yet
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* Versions list */}
+          <div className="w-64 border-r bg-gray-50 overflow-y-auto p-2">
+            {versions.map((v, index) => (
+              <button
+                key={v.id}
+                onClick={() => {
+                  setToTarget(v.version);
+                  setFromTarget(versions[index + 1]?.version ?? v.version);
+                }}
+                className={`w-full text-left p-3 rounded-lg mb-2 border ${
+                  toTarget === v.version
+                    ? 'bg-blue-100 border-blue-300'
+                    : 'bg-white border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">Version {v.version}</span>
+                  {index === 0 && (
+                    <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded">Latest</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{formatDate(v.createdAt)}</p>
+                {v.publishedBy && <p className="text-xs text-gray-400">by {v.publishedBy}</p>}
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="p-4 border-b bg-white flex items-center gap-3 text-sm text-gray-600">
+              <span>Compare</span>
+              {renderTargetSelect(fromTarget, setFromTarget)}
+              <span>with</span>
+              {renderTargetSelect(toTarget, setToTarget)}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              {changes.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No differences</p>
+              ) : (
+                <ul className="space-y-2">
+                  {changes.map((change) => (
+                    <li
+                      key={`${change.target}-${change.id}`}
+                      className="p-3 bg-white border border-gray-200 rounded-lg"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded capitalize ${CHANGE_STYLES[change.kind]}`}>
+                          {change.kind}
+                        </span>
+                        <span className="text-xs text-gray-400 capitalize">{change.target}</span>
+                        <span className="font-medium text-gray-900">{change.label}</span>
+                      </div>
+                      {change.details.length > 0 && (
+                        <ul className="mt-2 ml-1 space-y-0.5">
+                          {change.details.map((detail) => (
+                            <li key={detail} className="text-sm text-gray-600">
+                              {detail}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { useNavigate } from 'react-router-dom';
 import { useFormsStore } from '../../../store/formsStore';
 import { FormListItem } from '../../../types/forms';
 import FormsBuilderSettings from './FormsBuilderSettings';
+import NewFormModal from './NewFormModal';
 import { AppNavBar, SettingsButton, NavDivider } from '../../../components/AppNavBar';
 
 export default function FormsList() {
@@ -20,7 +21,6 @@ export default function FormsList() {
     error,
     databaseAvailable,
     fetchForms,
-    createForm,
     deleteForm,
     publishForm,
     unpublishForm,
@@ -29,9 +29,6 @@ export default function FormsList() {
   } = useFormsStore();
 
   const [showNewFormModal, setShowNewFormModal] = useState(false);
-  const [newFormTitle, setNewFormTitle] = useState('');
-  const [newFormDescription, setNewFormDescription] = useState('');
-  const [isCreating, setIsCreating] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
 
   // Fetch forms on mount
@@ -39,24 +36,6 @@ export default function FormsList() {
     fetchForms();
   }, [fetchForms]);
 
-  const handleCreateForm = async () => {
-    if (!newFormTitle.trim()) return;
-
-    setIsCreating(true);
-    try {
-      const form = await createForm(newFormTitle.trim(), newFormDescription.trim());
-      setShowNewFormModal(false);
-      setNewFormTitle('');
-      setNewFormDescription('');
-      // Navigate to editor
-      navigate(`/apps/forms-builder/edit/${form.id}`);
-    } catch (err) {
-      // Error is handled in store
-    } finally {
-      setIsCreating(false);
-    }
-  };
-
   const handleDelete = async (form: FormListItem) => {
     if (!confirm(`Are you sure you want to delete "${form.title}"?`)) return;
     try {
@@ -282,65 +261,7 @@ export default function FormsList() {
       )}
 
       {/* New Form Modal */}
-      {showNewFormModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
-            <div className="p-6 border-b">
-              <h2 className="text-xl font-semibold text-gray-900">Create New Form</h2>
-            </div>
-            <div className="p-6 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Form Title <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  value={newFormTitle}
-                  onChange={(e) => setNewFormTitle(e.target.value)}
-                  placeholder="e.g., Contact Form, Survey, Application"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  autoFocus
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Description
-                </label>
-                <textarea
-                  value={newFormDescription}
-                  onChange={(e) => setNewFormDescription(e.target.value)}
-                  placeholder="Optional description..."
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
-                />
-              </div>
-            </div>
-            <div className="p-6 border-t bg-gray-50 rounded-b-xl flex justify-end gap-3">
-              <button
-                onClick={() => {
-                  setShowNewFormModal(false);
-                  setNewFormTitle('');
-                  setNewFormDescription('');
-                }}
-                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
-                disabled={isCreating}
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleCreateForm}
-                disabled={!newFormTitle.trim() || isCreating}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-              >
-                {isCreating && (
-                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                )}
-                Create Form
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      {showNewFormModal && <NewFormModal onClose={() => setShowNewFormModal(false)} />}
 
       {/* Settings Modal */}
       <FormsBuilderSettings
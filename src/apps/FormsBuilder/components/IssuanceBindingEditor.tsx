@@ -0,0 +1,182 @@
+/**
+ * IssuanceBindingEditor Component
+ *
+ * Configures FormSchema.issuance: which issuable catalogue credential is issued
+ * from a submission, when, and which form field fills each credential attribute.
+ */
+
+import { useEffect, useState } from 'react';
+import type { CatalogueCredential } from '../../../types/catalogue';
+import { FormField, IssuanceBinding, IssuanceMode } from '../../../types/forms';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+// Field types whose answers cannot be issued as an attribute value
+const UNMAPPABLE_FIELD_TYPES: FormField['type'][] = ['verifiable-credential', 'file', 'signature'];
+
+interface IssuanceBindingEditorProps {
+  binding: IssuanceBinding | undefined;
+  fields: FormField[];
+  onChange: (binding: IssuanceBinding | undefined) => void;
+}
+
+/**
+ * Pre-fill mappings for attributes whose name matches a field name (or its last segment)
+ */
+function suggestMappings(attributes: string[], fields: FormField[]): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  for (const attribute of attributes) {
+    const match = fields.find(
+      (field) => field.name === attribute || field.name.split('.').pop() === attribute
+    );
+    if (match) mappings[attribute] = match.name;
+  }
+  return mappings;
+}
+
+export default function IssuanceBindingEditor({ binding, fields, onChange }: IssuanceBindingEditorProps) {
+  const [credentials, setCredentials] = useState<CatalogueCredential[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${API_BASE}/api/credential-catalogue/issuable`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error('Failed to load issuable credentials'))))
+      .then((data: CatalogueCredential[]) => setCredentials(data.filter((c) => c.clonedOrbitCredDefId)))
+      .catch((err) => setLoadError(err instanceof Error ? err.message : 'Failed to load issuable credentials'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const mappableFields = fields.filter((field) => field.name && !UNMAPPABLE_FIELD_TYPES.includes(field.type));
+  const credential = credentials.find((c) => c.id === binding?.catalogueCredentialId);
+  const unmapped = credential?.attributes.filter(
+    (attribute) => !mappableFields.some((field) => field.name === binding?.attributeMappings[attribute])
+  );
+
+  const handleSelectCredential = (credentialId: string) => {
+    const selected = credentials.find((c) => c.id === credentialId);
+    if (!selected) {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      catalogueCredentialId: selected.id,
+      credentialName: selected.clonedSchemaName || selected.name,
+      mode: binding?.mode || 'manual',
+      attributeMappings: suggestMappings(selected.attributes, mappableFields),
+    });
+  };
+
+  const handleMapAttribute = (attribute: string, fieldName: string) => {
+    if (!binding) return;
+    const attributeMappings = { ...binding.attributeMappings };
+    if (fieldName) {
+      attributeMappings[attribute] = fieldName;
+    } else {
+      delete attributeMappings[attribute];
+    }
+    onChange({ ...binding, attributeMappings });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading issuable credentials...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Credential</label>
+        <select
+          value={binding?.catalogueCredentialId || ''}
+          onChange={(e) => handleSelectCredential(e.target.value)}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Don't issue a credential</option>
+          {credentials.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.clonedSchemaName || c.name} {c.clonedSchemaVersion || c.version}
+            </option>
+          ))}
+          {binding && !credential && (
+            <option value={binding.catalogueCredentialId}>{binding.credentialName} (unavailable)</option>
+          )}
+        </select>
+        {credentials.length === 0 && !loadError && (
+          <p className="text-xs text-gray-500 mt-1">
+            Clone a credential in the Credential Catalogue to make it issuable.
+          </p>
+        )}
+        {binding && !credential && (
+          <p className="text-xs text-red-600 mt-1">
+            This credential is no longer issuable. Choose another one or turn issuance off.
+          </p>
+        )}
+      </div>
+
+      {binding && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">When to issue</label>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                { value: 'manual', label: 'After approval', description: 'An approver issues it from the submission.' },
+                { value: 'auto', label: 'On submit', description: 'The offer QR is shown on the success screen.' },
+              ] as { value: IssuanceMode; label: string; description: string }[]).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => onChange({ ...binding, mode: option.value })}
+                  className={`p-3 text-left border-2 rounded-lg transition-colors ${
+                    binding.mode === option.value
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-800">{option.label}</p>
+                  <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {credential && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Attribute values</label>
+              <div className="border border-gray-200 rounded-lg divide-y">
+                {credential.attributes.map((attribute) => (
+                  <div key={attribute} className="flex items-center gap-3 px-3 py-2">
+                    <span className="w-1/3 text-sm font-mono text-gray-700 truncate" title={attribute}>
+                      {attribute}
+                    </span>
+                    <select
+                      value={binding.attributeMappings[attribute] || ''}
+                      onChange={(e) => handleMapAttribute(attribute, e.target.value)}
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select a field...</option>
+                      {mappableFields.map((field) => (
+                        <option key={field.id} value={field.name}>
+                          {field.label || field.name} ({field.name})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {unmapped && unmapped.length > 0 && (
+                <p className="text-xs text-amber-700 mt-2">
+                  Every attribute needs a field before a credential can be issued. Unmapped: {unmapped.join(', ')}
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-2">
+                Unanswered optional fields are issued as empty values.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * NewFormModal Component
+ *
+ * Creates a form, either blank or generated from a proof template or a
+ * Schema Builder project (see utils/formGenerators).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useFormsStore } from '../../../store/formsStore';
+import { useSchemaStore, reloadSchemaProjects } from '../../../store/schemaStore';
+import type { ProofTemplate, ProofTemplateListItem } from '../../../types/proofTemplate';
+import {
+  GeneratedFormSchema,
+  createFormSchemaFromProofTemplate,
+  createFormSchemaFromSchemaProject,
+} from '../utils/formGenerators';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+type FormSource = 'blank' | 'proof-template' | 'schema-project';
+
+const SOURCE_LABELS: Record<FormSource, string> = {
+  blank: 'Blank form',
+  'proof-template': 'Proof template',
+  'schema-project': 'Schema project',
+};
+
+interface NewFormModalProps {
+  onClose: () => void;
+}
+
+export default function NewFormModal({ onClose }: NewFormModalProps) {
+  const navigate = useNavigate();
+  const { createForm } = useFormsStore();
+  const savedProjects = useSchemaStore((state) => state.savedProjects);
+
+  const [source, setSource] = useState<FormSource>('blank');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Proof template source
+  const [templates, setTemplates] = useState<ProofTemplateListItem[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<ProofTemplate | null>(null);
+  const [isLoadingTemplate, setIsLoadingTemplate] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+
+  // Schema project source
+  const [selectedProjectId, setSelectedProjectId] = useState('');
+
+  useEffect(() => {
+    if (source === 'proof-template' && templates.length === 0) {
+      fetch(`${API_BASE}/api/proof-templates`, { credentials: 'include' })
+        .then((response) => (response.ok ? response.json() : Promise.reject(new Error('Failed to fetch proof templates'))))
+        .then(setTemplates)
+        .catch((err) => setSourceError(err instanceof Error ? err.message : 'Failed to fetch proof templates'));
+    }
+    if (source === 'schema-project') {
+      reloadSchemaProjects();
+    }
+  }, [source]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const selectedProject = savedProjects.find((p) => p.id === selectedProjectId) || null;
+
+  const generated = useMemo<GeneratedFormSchema | null>(() => {
+    if (source === 'proof-template' && selectedTemplate) return createFormSchemaFromProofTemplate(selectedTemplate);
+    if (source === 'schema-project' && selectedProject) return createFormSchemaFromSchemaProject(selectedProject);
+    return null;
+  }, [source, selectedTemplate, selectedProject]);
+
+  const fieldCount = generated?.schema.sections.reduce((count, section) => count + section.fields.length, 0) ?? 0;
+
+  // Prefill title/description from the source unless the user has typed their own
+  const prefill = (name: string, sourceDescription?: string) => {
+    if (!title.trim()) setTitle(name);
+    if (!description.trim() && sourceDescription) setDescription(sourceDescription);
+  };
+
+  const handleSelectTemplate = async (templateId: string) => {
+    setSelectedTemplate(null);
+    setSourceError(null);
+    if (!templateId) return;
+
+    setIsLoadingTemplate(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/proof-templates/${templateId}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch proof template');
+
+      const template: ProofTemplate = await response.json();
+      setSelectedTemplate(template);
+      prefill(template.name, template.description);
+    } catch (err) {
+      setSourceError(err instanceof Error ? err.message : 'Failed to fetch proof template');
+    } finally {
+      setIsLoadingTemplate(false);
+    }
+  };
+
+  const handleSelectProject = (projectId: string) => {
+    setSelectedProjectId(projectId);
+    const project = savedProjects.find((p) => p.id === projectId);
+    if (project) {
+      prefill(project.metadata.title || project.name, project.metadata.description);
+    }
+  };
+
+  const canCreate = !!title.trim() && !isCreating && (source === 'blank' || !!generated);
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setIsCreating(true);
+    try {
+      const form = await createForm(title.trim(), description.trim(), 'simple', generated?.schema);
+      onClose();
+      // Navigate to editor
+      navigate(`/apps/forms-builder/edit/${form.id}`);
+    } catch (err) {
+      // Error is handled in store
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const selectClasses =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Create New Form</h2>
+        </div>
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start From</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(SOURCE_LABELS) as FormSource[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => {
+                    setSource(option);
+                    setSourceError(null);
+                  }}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    source === option
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 font-medium'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {SOURCE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {source === 'proof-template' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Proof Template</label>
+              <select
+                value={selectedTemplate?.id || ''}
+                onChange={(e) => handleSelectTemplate(e.target.value)}
+                disabled={isLoadingTemplate}
+                className={selectClasses}
+              >
+                <option value="">Select a proof template...</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.credentialCount} credential{template.credentialCount !== 1 ? 's' : ''})
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Each requested credential becomes a verifiable credential field, with its predicates.
+              </p>
+            </div>
+          )}
+
+          {source === 'schema-project' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Schema Project</label>
+              <select
+                value={selectedProjectId}
+                onChange={(e) => handleSelectProject(e.target.value)}
+                className={selectClasses}
+              >
+                <option value="">Select a schema project...</option>
+                {savedProjects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Each credential property becomes a typed field with matching validation.
+              </p>
+            </div>
+          )}
+
+          {sourceError && <p className="text-sm text-red-600">{sourceError}</p>}
+
+          {generated && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+              <p>
+                {fieldCount} field{fieldCount !== 1 ? 's' : ''} in {generated.schema.sections.length} section
+                {generated.schema.sections.length !== 1 ? 's' : ''} will be created.
+              </p>
+              {generated.skipped.length > 0 && (
+                <div className="mt-2 text-amber-700">
+                  <p>Not supported in forms, so skipped:</p>
+                  <ul className="list-disc ml-5">
+                    {generated.skipped.map((note) => (
+                      <li key={note} className="font-mono text-xs">
+                        {note}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Form Title <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Contact Form, Survey, Application"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional description..."
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+            />
+          </div>
+        </div>
+        <div className="p-6 border-t bg-gray-50 rounded-b-xl flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            disabled={isCreating}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isCreating && (
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+            )}
+            Create Form
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * SignatureFieldInput Component
+ *
+ * Drawn signature pad for FormField type 'signature'. The signature is
+ * stored as a PNG data URL. Used by the form preview and the public form page.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+// Internal canvas resolution; the canvas is scaled to the container width
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 180;
+
+interface SignatureFieldInputProps {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  hasError?: boolean;
+}
+
+export default function SignatureFieldInput({ value, onChange, hasError }: SignatureFieldInputProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(!value);
+
+  // Restore a previously drawn signature (e.g. from a saved draft)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !value) return;
+
+    const image = new Image();
+    image.onload = () => context.drawImage(image, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    image.src = value;
+    setIsEmpty(false);
+    // Only on mount - later values come from this canvas
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    setIsEmpty(false);
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setIsEmpty(true);
+    onChange('');
+  };
+
+  return (
+    <div>
+      <div
+        className={`relative border-2 rounded-lg bg-white ${
+          hasError ? 'border-red-300' : 'border-gray-300'
+        }`}
+      >
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="w-full h-auto touch-none cursor-crosshair"
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+        <div className="absolute left-4 right-4 bottom-6 border-b border-gray-200 pointer-events-none" />
+      </div>
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={isEmpty}
+          className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -7,7 +7,20 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import type { FormSchema } from '../../../types/forms';
+import { formatAddress, getValueByPath } from '../../../types/forms';
+import type {
+  AddressFieldValue,
+  FileFieldValue,
+  FormField,
+  FormSchema,
+  SubmissionComment,
+  SubmissionCredentialOffer,
+  SubmissionEvent,
+  SubmissionStatus,
+} from '../../../types/forms';
+import CredentialOfferCard from './CredentialOfferCard';
+import SubmissionReviewPanel, { SubmissionReviewState } from './SubmissionReviewPanel';
+import SubmissionStatusBadge from './SubmissionStatusBadge';
 
 const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
 
@@ -15,11 +28,18 @@ interface SubmissionWithForm {
   id: string;
   formId: string;
   formTitle: string;
-  formSchema: FormSchema;
+  formSchema: FormSchema; // Schema of the version the submission was made against
+  formVersion: number | null; // null for draft test submissions and pre-versioning data
+  isCurrentVersion: boolean;
   sessionId: string;
   isTest: boolean;
   fieldValues: Record<string, unknown>;
   proofPresentations: Record<string, unknown> | null;
+  credentialOffer: SubmissionCredentialOffer | null;
+  status: SubmissionStatus;
+  assignee: string | null;
+  comments: SubmissionComment[];
+  events: SubmissionEvent[]; // Newest first
   submittedAt: string;
 }
 
@@ -28,6 +48,7 @@ export default function SubmissionDetail() {
   const [submission, setSubmission] = useState<SubmissionWithForm | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isIssuing, setIsIssuing] = useState(false);
 
   useEffect(() => {
     if (!id) return;
@@ -73,13 +94,65 @@ export default function SubmissionDetail() {
     });
   };
 
-  const formatValue = (value: unknown): string => {
-    if (value === null || value === undefined) return '-';
+  const formatValue = (field: FormField, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '-';
+    if (field.type === 'file') return (value as FileFieldValue).name || '-';
+    if (field.type === 'address') return formatAddress(value as Partial<AddressFieldValue>) || '-';
+    if (field.type === 'signature') return 'Signed';
     if (Array.isArray(value)) return value.join(', ');
-    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    if (typeof value === 'object') {
+      // Checkbox answers are { [optionLabel]: boolean }
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (entries.length > 0 && entries.every(([, checked]) => typeof checked === 'boolean')) {
+        return entries.filter(([, checked]) => checked).map(([label]) => label).join(', ') || '-';
+      }
+      return JSON.stringify(value, null, 2);
+    }
     return String(value);
   };
 
+  // Uploaded files are only served to the form owner, so fetch with credentials
+  const handleDownloadFile = async (file: FileFieldValue) => {
+    if (!submission) return;
+
+    try {
+      const response = await fetch(`${API_BASE}/api/submissions/${submission.id}/files/${file.uploadId}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to download file');
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download file');
+    }
+  };
+
+  // Offer the form's bound credential; replaces any earlier offer
+  const handleIssueCredential = async () => {
+    if (!submission) return;
+
+    setIsIssuing(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/submissions/${submission.id}/issue`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to issue credential');
+
+      setSubmission({ ...submission, credentialOffer: data.offer, events: [data.event, ...submission.events] });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to issue credential');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     // Could add a toast notification here
@@ -92,6 +165,7 @@ export default function SubmissionDetail() {
       id: submission.id,
       formId: submission.formId,
       formTitle: submission.formTitle,
+      formVersion: submission.formVersion,
       submittedAt: submission.submittedAt,
       isTest: submission.isTest,
       fieldValues: submission.fieldValues,
@@ -157,6 +231,7 @@ export default function SubmissionDetail() {
             From: <span className="font-medium">{submission.formTitle}</span>
           </p>
         </div>
+        <SubmissionStatusBadge status={submission.status} />
         {submission.isTest && (
           <span className="px-3 py-1 text-sm font-medium bg-yellow-100 text-yellow-800 rounded-full">
             Test Submission
@@ -166,7 +241,7 @@ export default function SubmissionDetail() {
 
       {/* Metadata card */}
       <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
           <div>
             <span className="text-gray-500">Submitted</span>
             <p className="font-medium text-gray-900">{formatDate(submission.submittedAt)}</p>
@@ -187,15 +262,34 @@ export default function SubmissionDetail() {
             <span className="text-gray-500">Type</span>
             <p className="font-medium text-gray-900">{submission.isTest ? 'Test' : 'Live'}</p>
           </div>
+          <div>
+            <span className="text-gray-500">Form Version</span>
+            <p className="font-medium text-gray-900">
+              {submission.formVersion !== null ? `Version ${submission.formVersion}` : 'Unversioned'}
+            </p>
+          </div>
         </div>
       </div>
 
+      {!submission.isCurrentVersion && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 mb-6 text-sm text-amber-800">
+          The form has been changed since this submission. Fields are shown as they were in version{' '}
+          {submission.formVersion}.
+        </div>
+      )}
+
       {/* Field values organized by section */}
       <div className="space-y-6">
+        <SubmissionReviewPanel
+          submissionId={submission.id}
+          review={submission}
+          onChange={(review: SubmissionReviewState) => setSubmission({ ...submission, ...review })}
+        />
+
         {submission.formSchema?.sections?.map((section) => {
           // Get field values for this section
-          const sectionFields = section.fields.filter((field) =>
-            submission.fieldValues.hasOwnProperty(field.name)
+          const sectionFields = section.fields.filter(
+            (field) => getValueByPath(submission.fieldValues, field.name) !== undefined
           );
 
           if (sectionFields.length === 0) return null;
@@ -210,17 +304,37 @@ export default function SubmissionDetail() {
               </div>
               <div className="divide-y divide-gray-100">
                 {sectionFields.map((field) => {
-                  const value = submission.fieldValues[field.name];
-                  const formattedValue = formatValue(value);
+                  const value = getValueByPath(submission.fieldValues, field.name);
+                  const formattedValue = formatValue(field, value);
                   const isLongValue = formattedValue.length > 100;
 
                   return (
                     <div key={field.id} className="px-4 py-3 flex items-start gap-4">
                       <div className="flex-1 min-w-0">
                         <dt className="text-sm font-medium text-gray-700">{field.label || field.name}</dt>
-                        <dd className={`mt-1 text-gray-900 ${isLongValue ? 'whitespace-pre-wrap font-mono text-xs bg-gray-50 p-2 rounded' : ''}`}>
-                          {formattedValue}
-                        </dd>
+                        {field.type === 'signature' && typeof value === 'string' && value ? (
+                          <dd className="mt-1">
+                            <img
+                              src={value}
+                              alt={`Signature for ${field.label || field.name}`}
+                              className="max-w-xs border border-gray-200 rounded bg-white"
+                            />
+                          </dd>
+                        ) : field.type === 'file' && (value as FileFieldValue)?.uploadId ? (
+                          <dd className="mt-1 flex items-center gap-2">
+                            <span className="text-gray-900">{formattedValue}</span>
+                            <button
+                              onClick={() => handleDownloadFile(value as FileFieldValue)}
+                              className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              Download
+                            </button>
+                          </dd>
+                        ) : (
+                          <dd className={`mt-1 text-gray-900 ${isLongValue ? 'whitespace-pre-wrap font-mono text-xs bg-gray-50 p-2 rounded' : ''}`}>
+                            {formattedValue}
+                          </dd>
+                        )}
                       </div>
                       <button
                         onClick={() => copyToClipboard(formattedValue)}
@@ -239,6 +353,54 @@ export default function SubmissionDetail() {
           );
         })}
 
+        {/* Credential issuance (forms with an issuance binding) */}
+        {submission.formSchema?.issuance && (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="bg-gray-50 px-4 py-3 border-b flex items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold text-gray-900">Credential</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {submission.credentialOffer
+                    ? `Offered ${formatDate(submission.credentialOffer.createdAt)}${
+                      submission.credentialOffer.issuedBy ? ` by ${submission.credentialOffer.issuedBy}` : ' on submit'
+                    }`
+                    : `${submission.formSchema.issuance.credentialName} has not been issued for this submission.`}
+                </p>
+              </div>
+              <button
+                onClick={handleIssueCredential}
+                disabled={isIssuing}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2 flex-shrink-0"
+              >
+                {isIssuing && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                )}
+                {submission.credentialOffer ? 'Issue Again' : 'Issue'}
+              </button>
+            </div>
+            {submission.credentialOffer && (
+              <div className="p-4 space-y-3">
+                <CredentialOfferCard offer={submission.credentialOffer} />
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={submission.credentialOffer.shortUrl}
+                    className="flex-1 px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg bg-gray-50"
+                  />
+                  <button
+                    onClick={() => copyToClipboard(submission.credentialOffer!.shortUrl)}
+                    className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Copy Link
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">Send this link to the applicant to accept the credential.</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Proof presentations (if any) */}
         {submission.proofPresentations && Object.keys(submission.proofPresentations).length > 0 && (
           <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
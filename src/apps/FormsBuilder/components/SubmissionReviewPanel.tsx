@@ -0,0 +1,276 @@
+/**
+ * SubmissionReviewPanel Component
+ *
+ * Review workflow for a single submission: status, assignee, threaded
+ * internal comments and the audit trail. Comments are only visible to reviewers.
+ */
+
+import { useState } from 'react';
+import {
+  SUBMISSION_STATUSES,
+  SUBMISSION_STATUS_LABELS,
+  SubmissionComment,
+  SubmissionEvent,
+  SubmissionStatus,
+} from '../../../types/forms';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+export interface SubmissionReviewState {
+  status: SubmissionStatus;
+  assignee: string | null;
+  comments: SubmissionComment[];
+  events: SubmissionEvent[];
+}
+
+interface SubmissionReviewPanelProps {
+  submissionId: string;
+  review: SubmissionReviewState;
+  onChange: (review: SubmissionReviewState) => void;
+}
+
+const formatTimestamp = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * One-line description of an audit trail entry
+ */
+function describeEvent(event: SubmissionEvent): string {
+  const details = event.details || {};
+  switch (event.action) {
+    case 'status_changed':
+      return `changed status from ${SUBMISSION_STATUS_LABELS[details.from as SubmissionStatus] || details.from} to ${
+        SUBMISSION_STATUS_LABELS[details.to as SubmissionStatus] || details.to
+      }`;
+    case 'assigned':
+      return details.to ? `assigned @${details.to}` : `unassigned @${details.from}`;
+    case 'commented':
+      return details.reply ? 'replied to a comment' : 'commented';
+    case 'credential_issued':
+      return `offered ${details.credentialName || 'a credential'}`;
+    default:
+      return event.action;
+  }
+}
+
+export default function SubmissionReviewPanel({ submissionId, review, onChange }: SubmissionReviewPanelProps) {
+  const [assigneeInput, setAssigneeInput] = useState(review.assignee || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [commentText, setCommentText] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const threads = review.comments.filter((comment) => !comment.parentId);
+  const repliesFor = (commentId: string) => review.comments.filter((comment) => comment.parentId === commentId);
+
+  const updateReview = async (updates: { status?: SubmissionStatus; assignee?: string }) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/submissions/${submissionId}/review`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to update submission');
+
+      setAssigneeInput(data.assignee || '');
+      onChange({
+        ...review,
+        status: data.status,
+        assignee: data.assignee,
+        events: [...[...data.events].reverse(), ...review.events],
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update submission');
+      setAssigneeInput(review.assignee || '');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const postComment = async (body: string, parentId: string | null) => {
+    if (!body.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/submissions/${submissionId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ body, parentId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to add comment');
+
+      onChange({
+        ...review,
+        comments: [...review.comments, data.comment],
+        events: [data.event, ...review.events],
+      });
+      if (parentId) {
+        setReplyTo(null);
+        setReplyText('');
+      } else {
+        setCommentText('');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const renderComment = (comment: SubmissionComment) => (
+    <div key={comment.id}>
+      <p className="text-xs text-gray-500">
+        <span className="font-medium text-gray-700">@{comment.githubUsername}</span> · {formatTimestamp(comment.createdAt)}
+      </p>
+      <p className="text-sm text-gray-900 whitespace-pre-wrap mt-0.5">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="bg-gray-50 px-4 py-3 border-b">
+        <h3 className="font-semibold text-gray-900">Review</h3>
+      </div>
+
+      {/* Status and assignee */}
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 border-b">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+          <select
+            value={review.status}
+            onChange={(e) => updateReview({ status: e.target.value as SubmissionStatus })}
+            disabled={isSaving}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {SUBMISSION_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {SUBMISSION_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Assignee</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={assigneeInput}
+              onChange={(e) => setAssigneeInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && updateReview({ assignee: assigneeInput })}
+              placeholder="GitHub username"
+              disabled={isSaving}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={() => updateReview({ assignee: assigneeInput })}
+              disabled={isSaving || assigneeInput.trim().replace(/^@/, '') === (review.assignee || '')}
+              className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {assigneeInput.trim() ? 'Assign' : 'Unassign'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Comments */}
+      <div className="p-4 border-b space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Internal Comments</h4>
+        {threads.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+        {threads.map((thread) => (
+          <div key={thread.id} className="border border-gray-100 rounded-lg p-3">
+            {renderComment(thread)}
+            <div className="mt-3 pl-4 border-l-2 border-gray-100 space-y-3">
+              {repliesFor(thread.id).map(renderComment)}
+              {replyTo === thread.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={2}
+                    placeholder="Write a reply..."
+                    autoFocus
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setReplyTo(null)}
+                      className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => postComment(replyText, thread.id)}
+                      disabled={isPosting || !replyText.trim()}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      Reply
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    setReplyTo(thread.id);
+                    setReplyText('');
+                  }}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Reply
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        <div className="space-y-2">
+          <textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            rows={3}
+            placeholder="Add a comment for other reviewers..."
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() => postComment(commentText, null)}
+              disabled={isPosting || !commentText.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Comment
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Audit trail */}
+      <details>
+        <summary className="px-4 py-3 cursor-pointer hover:bg-gray-50 text-sm font-medium text-gray-700">
+          Activity ({review.events.length})
+        </summary>
+        <ul className="px-4 pb-4 space-y-2">
+          {review.events.length === 0 && <li className="text-sm text-gray-500">No activity yet.</li>}
+          {review.events.map((event) => (
+            <li key={event.id} className="text-sm text-gray-600">
+              <span className="font-medium text-gray-800">
+                {event.githubUsername ? `@${event.githubUsername}` : 'System'}
+              </span>{' '}
+              {describeEvent(event)}
+              <span className="text-xs text-gray-400 ml-2">{formatTimestamp(event.createdAt)}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * SubmissionStatusBadge Component
+ *
+ * Colored pill for a submission's review status.
+ */
+
+import { SUBMISSION_STATUS_LABELS, SubmissionStatus } from '../../../types/forms';
+
+const STATUS_CLASSES: Record<SubmissionStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  in_review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+interface SubmissionStatusBadgeProps {
+  status: SubmissionStatus;
+}
+
+export default function SubmissionStatusBadge({ status }: SubmissionStatusBadgeProps) {
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+      {SUBMISSION_STATUS_LABELS[status]}
+    </span>
+  );
+}
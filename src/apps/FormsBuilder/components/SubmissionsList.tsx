@@ -7,17 +7,24 @@
 
 import { useEffect, useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
+import { SUBMISSION_STATUSES, SUBMISSION_STATUS_LABELS, SubmissionStatus } from '../../../types/forms';
+import SubmissionStatusBadge from './SubmissionStatusBadge';
 
 const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
 
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
 interface Submission {
   id: string;
   formId: string;
   formTitle: string;
+  formVersion: number | null;
   sessionId: string;
   isTest: boolean;
   fieldValues: Record<string, unknown>;
   proofPresentations: Record<string, unknown> | null;
+  status: SubmissionStatus;
+  assignee: string | null;
   submittedAt: string;
 }
 
@@ -27,19 +34,40 @@ export default function SubmissionsList() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filterFormId, setFilterFormId] = useState<string>('all');
+  const [filterStatus, setFilterStatus] = useState<SubmissionStatus | 'all'>('all');
   const [selectedSubmissions, setSelectedSubmissions] = useState<Set<string>>(new Set());
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportType, setExportType] = useState<'all' | 'live' | 'test'>('all');
+  const [isExporting, setIsExporting] = useState(false);
 
   // Get unique forms from submissions
   const uniqueForms = Array.from(
     new Map(submissions.map((s) => [s.formId, { id: s.formId, title: s.formTitle }])).values()
   );
 
-  // Filtered submissions
-  const filteredSubmissions =
+  // Submissions of the selected form; status counts are shown for these
+  const formSubmissions =
     filterFormId === 'all'
       ? submissions
       : submissions.filter((s) => s.formId === filterFormId);
 
+  // Filtered submissions
+  const filteredSubmissions =
+    filterStatus === 'all'
+      ? formSubmissions
+      : formSubmissions.filter((s) => s.status === filterStatus);
+
+  // Table exports are per form, so one form must be selected (or be the only one)
+  const exportForm =
+    filterFormId !== 'all'
+      ? uniqueForms.find((f) => f.id === filterFormId)
+      : uniqueForms.length === 1
+        ? uniqueForms[0]
+        : undefined;
+
   useEffect(() => {
     fetchSubmissions();
   }, []);
@@ -188,6 +216,55 @@ export default function SubmissionsList() {
     URL.revokeObjectURL(url);
   };
 
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async () => {
+    if (!exportForm) return;
+    setIsExporting(true);
+
+    try {
+      const params = new URLSearchParams({ format: exportFormat === 'xlsx' ? 'table' : exportFormat });
+      if (exportFrom) params.set('from', exportFrom);
+      if (exportTo) params.set('to', exportTo);
+      if (exportType !== 'all') params.set('isTest', String(exportType === 'test'));
+
+      const response = await fetch(`${API_BASE}/api/submissions/export/${exportForm.id}?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to export submissions');
+      }
+
+      const fileName = `${exportForm.title.replace(/[^a-z0-9]/gi, '_')}_submissions`;
+
+      if (exportFormat === 'xlsx') {
+        const { columns, rows } = await response.json();
+        // Loaded on demand - the spreadsheet library is only needed for this download
+        const XLSX = await import('xlsx');
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header: columns }), 'Submissions');
+        XLSX.writeFile(workbook, `${fileName}.xlsx`);
+      } else {
+        downloadBlob(await response.blob(), `${fileName}.${exportFormat}`);
+      }
+
+      setShowExport(false);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to export submissions');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
       year: 'numeric',
@@ -263,6 +340,22 @@ export default function SubmissionsList() {
             </select>
           )}
 
+          <select
+            value={filterStatus}
+            onChange={(e) => {
+              setFilterStatus(e.target.value as SubmissionStatus | 'all');
+              setSelectedSubmissions(new Set());
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All Statuses ({formSubmissions.length})</option>
+            {SUBMISSION_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {SUBMISSION_STATUS_LABELS[status]} ({formSubmissions.filter((s) => s.status === status).length})
+              </option>
+            ))}
+          </select>
+
           {/* Download buttons */}
           {filteredSubmissions.length > 0 && (
             <>
@@ -290,6 +383,20 @@ export default function SubmissionsList() {
             </>
           )}
 
+          {exportForm && (
+            <button
+              onClick={() => setShowExport((prev) => !prev)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                showExport ? 'text-blue-700 bg-blue-100 hover:bg-blue-200' : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M14 3v18M5 21h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2z" />
+              </svg>
+              Export Table
+            </button>
+          )}
+
           {selectedSubmissions.size > 0 && (
             <button
               onClick={handleBulkDelete}
@@ -304,6 +411,67 @@ export default function SubmissionsList() {
         </div>
       </div>
 
+      {/* Export options */}
+      {showExport && exportForm && (
+        <div className="mb-4 bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (.xlsx)</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={exportFrom}
+                onChange={(e) => setExportFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={exportTo}
+                onChange={(e) => setExportTo(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Submissions</label>
+              <select
+                value={exportType}
+                onChange={(e) => setExportType(e.target.value as 'all' | 'live' | 'test')}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">Live and test</option>
+                <option value="live">Live only</option>
+                <option value="test">Test only</option>
+              </select>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            One row per submission of {exportForm.title}, one column per field. Verified credential
+            attributes are added as <code>field.attribute</code> columns.
+          </p>
+        </div>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
@@ -351,6 +519,9 @@ export default function SubmissionsList() {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Type
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Preview
                 </th>
@@ -383,6 +554,9 @@ export default function SubmissionsList() {
                     </td>
                     <td className="px-4 py-3">
                       <span className="font-medium text-gray-900">{submission.formTitle}</span>
+                      {submission.formVersion !== null && (
+                        <span className="ml-2 text-xs text-gray-400">v{submission.formVersion}</span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-500">
                       {formatDate(submission.submittedAt)}
@@ -398,6 +572,12 @@ export default function SubmissionsList() {
                         </span>
                       )}
                     </td>
+                    <td className="px-4 py-3">
+                      <SubmissionStatusBadge status={submission.status} />
+                      {submission.assignee && (
+                        <span className="block mt-1 text-xs text-gray-500">@{submission.assignee}</span>
+                      )}
+                    </td>
                     <td className="px-4 py-3 text-sm text-gray-500 max-w-xs truncate">
                       {previewText || 'No data'}
                     </td>
@@ -439,6 +619,7 @@ export default function SubmissionsList() {
         <div className="mt-4 text-sm text-gray-500">
           Showing {filteredSubmissions.length} of {submissions.length} submissions
           {filterFormId !== 'all' && ` for selected form`}
+          {filterStatus !== 'all' && ` with status ${SUBMISSION_STATUS_LABELS[filterStatus]}`}
         </div>
       )}
     </div>
@@ -0,0 +1,335 @@
+/**
+ * Form Generators
+ *
+ * Build a ready-to-edit FormSchema from an existing definition, so a form that
+ * collects the same claims as a credential does not have to be typed in by hand:
+ * - Proof templates: each RequestedCredential becomes a verifiable-credential field
+ * - Schema Builder projects: the SchemaProperty tree becomes typed fields
+ */
+
+import {
+  FormField,
+  FormSchema,
+  FormSection,
+  createDefaultFormSchema,
+  createEmptyCondition,
+  createEmptyField,
+} from '../../../types/forms';
+import { resolveCredentialGroups } from '../../../types/proofTemplate';
+import type { Predicate, ProofTemplate, RequestedCredential } from '../../../types/proofTemplate';
+import { expandDefinitions } from '../../../types/schema';
+import type { SavedSchemaProject, SchemaProperty } from '../../../types/schema';
+
+// A generated schema plus anything that could not be represented as a field
+export interface GeneratedFormSchema {
+  schema: FormSchema;
+  skipped: string[]; // Human-readable notes on skipped properties
+}
+
+/**
+ * Turn a label into a field name (JSON key)
+ */
+function toFieldName(label: string): string {
+  return (
+    label
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'field'
+  );
+}
+
+/**
+ * Make a field name unique within the form by appending _2, _3, ...
+ */
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; usedNames.has(candidate); suffix++) {
+    candidate = `${name}_${suffix}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+/**
+ * Base form schema with a single section replaced by the generated ones
+ */
+function withSections(sections: FormSection[]): FormSchema {
+  return { ...createDefaultFormSchema(), sections };
+}
+
+// ============================================================================
+// Proof templates
+// ============================================================================
+
+/**
+ * Verifiable-credential field for a requested credential requesting the given
+ * attributes, optionally carrying one predicate
+ */
+function toCredentialField(
+  credential: RequestedCredential,
+  label: string,
+  usedNames: Set<string>,
+  requiredAttributes: string[],
+  predicate?: Predicate
+): FormField {
+  const { restrictions } = credential;
+
+  return {
+    ...createEmptyField('verifiable-credential'),
+    label,
+    name: uniqueName(toFieldName(label), usedNames),
+    required: true,
+    credentialConfig: {
+      source: 'catalogue',
+      catalogueCredentialId: credential.catalogueCredentialId,
+      schemaId: restrictions.schemaId || undefined,
+      credDefId: restrictions.credentialDefinitionId || undefined,
+      requiredAttributes,
+      acceptedIssuers: restrictions.issuerDid ? [restrictions.issuerDid] : undefined,
+      ...(predicate && {
+        attributePath: predicate.attributeName,
+        predicate: { operator: predicate.operator, value: predicate.value },
+      }),
+    },
+  };
+}
+
+/**
+ * Generate a form from a proof template.
+ *
+ * A form field carries at most one predicate, so the first predicate of a credential
+ * goes on that credential's field, alongside its attributes, and each further
+ * predicate gets its own field.
+ *
+ * Members of a one-of credential group are not required outright: each becomes
+ * required only while no other member's credential is verified. Groups needing
+ * more than one member cannot be expressed as rules, so their fields are left
+ * optional and the group is noted in skipped.
+ */
+export function createFormSchemaFromProofTemplate(template: ProofTemplate): GeneratedFormSchema {
+  const usedNames = new Set<string>();
+  const fields: FormField[] = [];
+  const skipped: string[] = [];
+  // Fields generated for each requested credential; the first carries its attributes
+  const credentialFields = new Map<string, FormField[]>();
+
+  for (const credential of template.requestedCredentials) {
+    const [firstPredicate, ...otherPredicates] = credential.predicates;
+    const attributeNames = credential.requestedAttributes.map((attr) => attr.attributeName);
+    const generated = [toCredentialField(credential, credential.credentialName, usedNames, attributeNames, firstPredicate)];
+
+    for (const predicate of otherPredicates) {
+      generated.push(
+        toCredentialField(
+          credential,
+          `${credential.credentialName}: ${predicate.label || predicate.attributeName}`,
+          usedNames,
+          [],
+          predicate
+        )
+      );
+    }
+
+    credentialFields.set(credential.id, generated);
+    fields.push(...generated);
+  }
+
+  for (const { group, credentials, minimum } of resolveCredentialGroups(template).groups) {
+    if (minimum >= credentials.length) continue;
+
+    for (const credential of credentials) {
+      const others = credentials.filter((other) => other.id !== credential.id);
+      for (const field of credentialFields.get(credential.id) || []) {
+        field.required = false;
+        if (minimum === 1) {
+          field.requiredWhen = {
+            match: 'all',
+            conditions: others.map((other) => ({
+              ...createEmptyCondition(credentialFields.get(other.id)?.[0].name),
+              operator: 'credential_not_verified',
+            })),
+          };
+        }
+      }
+    }
+
+    if (minimum > 1) {
+      skipped.push(
+        `${group.name || 'Credential group'} (at least ${minimum} of ${credentials.length} credentials; the fields are optional)`
+      );
+    }
+  }
+
+  return {
+    schema: withSections([
+      {
+        id: crypto.randomUUID(),
+        title: 'Verify Your Credentials',
+        description: template.description || undefined,
+        fields,
+      },
+    ]),
+    skipped,
+  };
+}
+
+// ============================================================================
+// Schema Builder projects
+// ============================================================================
+
+// Above this length a string is collected with a multi-line input
+const TEXTAREA_MIN_LENGTH = 255;
+
+/**
+ * Convert a JSON Schema pattern to a form validation pattern. JSON Schema patterns
+ * match anywhere in the value, while form patterns must match the whole value, so
+ * only a pattern anchored at both ends (with no top-level alternatives) carries over
+ * unchanged; any other pattern is allowed surrounding text.
+ */
+function toFormPattern(pattern: string): string {
+  const anchored = pattern.startsWith('^') && /(^|[^\\])(\\\\)*\$$/.test(pattern) && !pattern.includes('|');
+  return anchored ? pattern : `[\\s\\S]*(?:${pattern})[\\s\\S]*`;
+}
+
+/**
+ * Map a scalar SchemaProperty (or an array of enum strings) to a form field.
+ * Returns null for properties with no matching field type. Constraints forms
+ * cannot enforce are noted in skipped.
+ */
+function toSchemaField(property: SchemaProperty, name: string, required: boolean, skipped: string[]): FormField | null {
+  const base: FormField = {
+    ...createEmptyField(),
+    label: property.title || property.name,
+    name,
+    description: property.description || undefined,
+    required,
+  };
+
+  switch (property.type) {
+    case 'string': {
+      if (property.enum?.length) {
+        return { ...base, type: 'select', options: property.enum.map((value) => ({ label: value, value })) };
+      }
+      const type =
+        property.format === 'email'
+          ? 'email'
+          : property.format === 'date'
+            ? 'date'
+            : (property.maxLength ?? 0) > TEXTAREA_MIN_LENGTH
+              ? 'textarea'
+              : 'text';
+      const validation = type === 'date' ? undefined : {
+        minLength: property.minLength,
+        maxLength: property.maxLength,
+        pattern: property.pattern ? toFormPattern(property.pattern) : undefined,
+      };
+      return { ...base, type, validation };
+    }
+
+    case 'integer':
+      // Form validation bounds are inclusive; exclusive integer bounds move one step in
+      return {
+        ...base,
+        type: 'number',
+        validation: {
+          min: property.minimum ?? (property.exclusiveMinimum !== undefined ? property.exclusiveMinimum + 1 : undefined),
+          max: property.maximum ?? (property.exclusiveMaximum !== undefined ? property.exclusiveMaximum - 1 : undefined),
+        },
+      };
+
+    case 'number':
+      // An exclusive bound on a decimal has no inclusive equivalent
+      if (property.minimum === undefined && property.exclusiveMinimum !== undefined) {
+        skipped.push(`${name} (exclusiveMinimum ${property.exclusiveMinimum})`);
+      }
+      if (property.maximum === undefined && property.exclusiveMaximum !== undefined) {
+        skipped.push(`${name} (exclusiveMaximum ${property.exclusiveMaximum})`);
+      }
+      return { ...base, type: 'number', validation: { min: property.minimum, max: property.maximum } };
+
+    case 'boolean':
+      return { ...base, type: 'radio', options: [{ label: 'Yes' }, { label: 'No' }] };
+
+    case 'array':
+      if (property.items?.type === 'string' && property.items.enum?.length) {
+        return { ...base, type: 'checkbox', options: property.items.enum.map((label) => ({ label })) };
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collect fields for a list of properties. Nested objects are flattened into
+ * dot-notation field names; a property is only required if its parents are.
+ */
+function collectSchemaFields(
+  properties: SchemaProperty[],
+  prefix: string,
+  parentRequired: boolean,
+  skipped: string[]
+): FormField[] {
+  const fields: FormField[] = [];
+
+  for (const property of properties) {
+    const name = prefix ? `${prefix}.${property.name}` : property.name;
+    const required = parentRequired && property.required;
+
+    if (property.type === 'object') {
+      fields.push(...collectSchemaFields(property.properties || [], name, required, skipped));
+      continue;
+    }
+
+    const field = toSchemaField(property, name, required, skipped);
+    if (field) {
+      fields.push(field);
+    } else {
+      skipped.push(`${name} (${property.type === 'array' ? `array of ${property.items?.type || 'unknown'}` : property.type})`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Generate a form from a Schema Builder project's credentialSubject properties.
+ *
+ * Top-level scalar properties go in one section; each top-level object gets its own
+ * section. Validation (length, pattern, min/max) is carried over from the schema.
+ */
+export function createFormSchemaFromSchemaProject(project: SavedSchemaProject): GeneratedFormSchema {
+  const skipped: string[] = [];
+  const sections: FormSection[] = [];
+  // Objects that reference a $defs definition are filled from it
+  const properties = expandDefinitions(project.properties, project.definitions || []);
+
+  const scalarProperties = properties.filter((p) => p.type !== 'object');
+  const scalarFields = collectSchemaFields(scalarProperties, '', true, skipped);
+  if (scalarFields.length > 0) {
+    sections.push({
+      id: crypto.randomUUID(),
+      title: project.metadata.title || project.name,
+      description: project.metadata.description || undefined,
+      fields: scalarFields,
+    });
+  }
+
+  for (const property of properties.filter((p) => p.type === 'object')) {
+    const fields = collectSchemaFields(property.properties || [], property.name, property.required, skipped);
+    if (fields.length === 0) continue;
+    sections.push({
+      id: crypto.randomUUID(),
+      title: property.title || property.name,
+      description: property.description || undefined,
+      fields,
+    });
+  }
+
+  return {
+    schema: sections.length > 0 ? withSections(sections) : createDefaultFormSchema(),
+    skipped,
+  };
+}
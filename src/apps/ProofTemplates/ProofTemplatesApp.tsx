@@ -119,7 +119,7 @@ export default function ProofTemplatesApp() {
     if (currentTemplate) {
       setHasUnsavedChanges(true);
     }
-  }, [currentTemplate?.name, currentTemplate?.description, currentTemplate?.version, currentTemplate?.requestedCredentials, currentTemplate?.metadata]);
+  }, [currentTemplate?.name, currentTemplate?.description, currentTemplate?.version, currentTemplate?.requestedCredentials, currentTemplate?.credentialGroups, currentTemplate?.metadata]);
 
   // Handle save
   const handleSave = useCallback(async () => {
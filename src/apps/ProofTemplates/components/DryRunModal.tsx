@@ -0,0 +1,201 @@
+/**
+ * Dry Run Modal
+ *
+ * Checks the current proof template against sample credentials without a
+ * wallet. Samples are edited as JSON (attribute maps shaped like the
+ * credentials a verifier receives) and evaluated as they change.
+ */
+
+import { useMemo, useState } from 'react';
+import type { ProofTemplate } from '../../../types/proofTemplate';
+import {
+  CandidateEvaluation,
+  DryRunCredential,
+  dryRunProofTemplate,
+  sampleCredentialsForTemplate,
+} from '../utils/templateDryRun';
+
+interface DryRunModalProps {
+  template: ProofTemplate;
+  onClose: () => void;
+}
+
+// Parse the samples JSON: an array of credentials, or a single one
+function parseSamples(text: string): { samples: DryRunCredential[]; error: string | null } {
+  try {
+    const parsed = JSON.parse(text);
+    const samples = Array.isArray(parsed) ? parsed : [parsed];
+    const invalid = samples.findIndex(
+      (sample) => !sample || typeof sample !== 'object' || typeof sample.attributes !== 'object'
+    );
+    if (invalid !== -1) {
+      return { samples: [], error: `Sample ${invalid + 1} needs an "attributes" object` };
+    }
+    return {
+      samples: samples.map((sample, i) => ({
+        ...sample,
+        credentialId: sample.credentialId || `sample-${i + 1}`,
+        credentialName: sample.credentialName || `Sample ${i + 1}`,
+      })),
+      error: null,
+    };
+  } catch (err) {
+    return { samples: [], error: (err as Error).message };
+  }
+}
+
+const Outcome = ({ ok }: { ok: boolean }) => (
+  <span className={`font-medium ${ok ? 'text-green-700' : 'text-red-700'}`}>{ok ? '✓' : '✗'}</span>
+);
+
+function CandidateDetails({ candidate }: { candidate: CandidateEvaluation }) {
+  return (
+    <div className="space-y-2 text-xs">
+      {candidate.restrictions.length > 0 && (
+        <ul className="space-y-0.5">
+          {candidate.restrictions.map((check) => (
+            <li key={check.field} className="flex gap-2">
+              {check.outcome === 'unknown' ? (
+                <span className="text-gray-400">?</span>
+              ) : (
+                <Outcome ok={check.outcome === 'match'} />
+              )}
+              <span className="text-gray-600">{check.field}</span>
+              <span className="font-mono text-gray-500 break-all">
+                {check.outcome === 'unknown' ? 'not in sample' : check.actual}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {candidate.attributes.length > 0 && (
+        <ul className="space-y-0.5">
+          {candidate.attributes.map((attribute) => (
+            <li key={attribute.attributeName} className="flex gap-2">
+              <Outcome ok={attribute.satisfied} />
+              <span className="text-gray-700">{attribute.attributeName}</span>
+              <span className="text-gray-500">
+                {!attribute.present
+                  ? 'missing'
+                  : attribute.disclosed
+                    ? `disclosed: ${attribute.value}`
+                    : 'possession only, not disclosed'}
+                {attribute.constraintMet === false && ' (value not accepted)'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {candidate.predicates.length > 0 && (
+        <ul className="space-y-0.5">
+          {candidate.predicates.map((predicate) => (
+            <li key={predicate.predicateId} className="flex gap-2">
+              <Outcome ok={predicate.result} />
+              <span className="text-gray-700">
+                {predicate.attributeName} {predicate.operator} {predicate.expected}
+              </span>
+              <span className="text-gray-500">
+                {predicate.reason || `value ${predicate.actual}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function DryRunModal({ template, onClose }: DryRunModalProps) {
+  const [text, setText] = useState(() => JSON.stringify(sampleCredentialsForTemplate(template), null, 2));
+
+  const { samples, error } = useMemo(() => parseSamples(text), [text]);
+  const result = useMemo(
+    () => (error ? null : dryRunProofTemplate(template, samples)),
+    [template, samples, error]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white rounded-xl shadow-2xl w-[900px] h-[640px] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Dry Run</h2>
+            <p className="text-sm text-gray-500">Check {template.name || 'this template'} against sample credentials</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Samples */}
+          <div className="w-1/2 flex flex-col border-r">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">Sample Credentials</span>
+              <button
+                onClick={() => setText(JSON.stringify(sampleCredentialsForTemplate(template), null, 2))}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Reset to passing samples
+              </button>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              className="flex-1 p-3 font-mono text-xs resize-none focus:outline-none"
+            />
+            {error && <p className="px-4 py-2 text-xs text-red-700 bg-red-50 border-t border-red-200">{error}</p>}
+          </div>
+
+          {/* Results */}
+          <div className="w-1/2 overflow-y-auto p-4 space-y-4">
+            {result && (
+              <div
+                className={`px-3 py-2 rounded text-sm font-medium ${
+                  result.satisfied ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                }`}
+              >
+                {result.satisfied ? 'The samples satisfy this template' : 'The samples do not satisfy this template'}
+              </div>
+            )}
+            {result?.groups.map((group) => (
+              <div key={group.groupId} className="text-sm text-gray-700">
+                <Outcome ok={group.satisfied} /> {group.name || 'Alternatives'}: {group.satisfiedCount} of at least{' '}
+                {group.minimum} satisfied
+              </div>
+            ))}
+            {result?.credentials.map((outcome) => (
+              <div key={outcome.requestedCredentialId} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">
+                    <Outcome ok={outcome.satisfied} /> {outcome.credentialName}
+                    {outcome.groupId && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        alternative in {result.groups.find((g) => g.groupId === outcome.groupId)?.name || 'a group'}
+                      </span>
+                    )}
+                  </span>
+                  {outcome.selected && (
+                    <span className="text-xs text-gray-500">
+                      {outcome.satisfied ? 'answered by' : 'closest'}:{' '}
+                      {samples.find((s) => s.credentialId === outcome.selected!.sampleId)?.credentialName}
+                    </span>
+                  )}
+                </div>
+                {outcome.selected ? (
+                  <CandidateDetails candidate={outcome.selected} />
+                ) : (
+                  <p className="text-xs text-gray-500">No sample credentials</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
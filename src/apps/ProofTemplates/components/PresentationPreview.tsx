@@ -2,19 +2,52 @@
  * PresentationPreview Component
  *
  * Displays the proof template JSON output in a custom format
- * designed for consumption by third-party verifier applications.
+ * designed for consumption by third-party verifier applications,
+ * or exported as an Orbit, DIF Presentation Exchange, OpenID4VP or
+ * AnonCreds proof request for verifiers that don't use Orbit.
  *
  * Uses the shared JsonViewer component for consistent dark theme styling.
  */
 
+import { useMemo, useState } from 'react';
 import { JsonViewer } from '../../../components/shared';
-import { ProofTemplate, CREDENTIAL_FORMAT_LABELS } from '../../../types/proofTemplate';
+import { ProofTemplate, CREDENTIAL_FORMAT_LABELS, resolveCredentialGroups } from '../../../types/proofTemplate';
+import {
+  PROOF_EXPORT_OPTIONS,
+  ProofExportFormat,
+  exportProofTemplate,
+  generateAnonCredsNonce,
+} from '../utils/proofRequestExport';
 
 interface PresentationPreviewProps {
   template: ProofTemplate | null;
 }
 
 export default function PresentationPreview({ template }: PresentationPreviewProps) {
+  const [selectedFormat, setExportFormat] = useState<ProofExportFormat>('template');
+
+  // One nonce per template, so the preview doesn't change on every edit
+  const [templateNonce, setTemplateNonce] = useState(() => ({
+    templateId: template?.id,
+    nonce: generateAnonCredsNonce(),
+  }));
+  if (templateNonce.templateId !== template?.id) {
+    setTemplateNonce({ templateId: template?.id, nonce: generateAnonCredsNonce() });
+  }
+  const { nonce } = templateNonce;
+
+  const exportOptions = PROOF_EXPORT_OPTIONS.filter(
+    (option) => !template || option.formats.includes(template.credentialFormat)
+  );
+
+  // Fall back to the template JSON while the credential format doesn't support the selected export
+  const exportFormat = exportOptions.some((option) => option.value === selectedFormat) ? selectedFormat : 'template';
+
+  const exported = useMemo(
+    () => (template && exportFormat !== 'template' ? exportProofTemplate(template, exportFormat, { nonce }) : null),
+    [template, exportFormat, nonce]
+  );
+
   if (!template) {
     return (
       <div className="h-full flex flex-col bg-gray-900">
@@ -56,6 +89,8 @@ export default function PresentationPreview({ template }: PresentationPreviewPro
       catalogueCredentialId: cred.catalogueCredentialId,
       credentialName: cred.credentialName,
       restrictions: cred.restrictions,
+      ...(cred.dateEncoding && { dateEncoding: cred.dateEncoding }),
+      ...(cred.groupId && { groupId: cred.groupId }),
       requestedAttributes: cred.requestedAttributes.map((attr) => ({
         attributeName: attr.attributeName,
         label: attr.label,
@@ -72,8 +107,11 @@ export default function PresentationPreview({ template }: PresentationPreviewPro
         revealResult: pred.revealResult,
       })),
     })),
+    ...(template.credentialGroups?.length && { credentialGroups: template.credentialGroups }),
     metadata: template.metadata,
     status: template.status,
+    ...(template.statusReason && { statusReason: template.statusReason }),
+    ...(template.previousVersionId && { previousVersionId: template.previousVersionId }),
     publishedToVerifier: template.publishedToVerifier,
     createdAt: template.createdAt,
     updatedAt: template.updatedAt,
@@ -89,19 +127,80 @@ export default function PresentationPreview({ template }: PresentationPreviewPro
     0
   );
 
+  // Which credentials satisfy the template, e.g. "Title AND any 1 of (Person, Licence)"
+  const { required, groups } = resolveCredentialGroups(template);
+  const policy = [
+    ...required.map((cred) => cred.credentialName),
+    ...groups.map(({ credentials, minimum }) =>
+      `${minimum === credentials.length ? 'all' : `any ${minimum}`} of (${credentials.map((cred) => cred.credentialName).join(', ')})`
+    ),
+  ].join(' AND ');
+
+  const exportLabel = PROOF_EXPORT_OPTIONS.find((option) => option.value === exportFormat)?.label;
+  const json = exported ? exported.document : templateJson;
+  const slug = template.name.toLowerCase().replace(/\s+/g, '-');
+
   return (
-    <JsonViewer
-      json={templateJson}
-      title="Proof Template Preview"
-      subtitle={`${CREDENTIAL_FORMAT_LABELS[template.credentialFormat]} format`}
-      filename={`proof-template-${template.name.toLowerCase().replace(/\s+/g, '-')}`}
-      showDownload={true}
-      stats={[
-        { label: 'Credentials', value: template.requestedCredentials.length },
-        { label: 'Attributes', value: totalAttributes },
-        { label: 'Predicates', value: totalPredicates },
-        { label: 'Size', value: `${JSON.stringify(templateJson).length} bytes` },
-      ]}
-    />
+    <div className="h-full flex flex-col bg-gray-900">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-800 border-b border-gray-700">
+        <label className="text-xs text-gray-400">Output</label>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ProofExportFormat)}
+          className="flex-1 px-2 py-1 text-xs bg-gray-700 text-gray-200 border border-gray-600 rounded"
+        >
+          {exportOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {groups.length > 0 && (
+        <div className="px-3 py-1.5 bg-gray-800 border-b border-gray-700 text-xs text-gray-300">
+          <span className="text-gray-400">Requires:</span> {policy}
+        </div>
+      )}
+
+      {exported && exported.errors.length > 0 && (
+        <ul className="px-3 py-2 bg-red-900/40 border-b border-red-700 text-xs text-red-200 space-y-0.5">
+          <li className="font-medium">This request would be refused until these are fixed:</li>
+          {exported.errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {exported && exported.warnings.length > 0 && (
+        <ul className="px-3 py-2 bg-amber-900/40 border-b border-amber-700 text-xs text-amber-200 space-y-0.5">
+          {exported.warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {exported && exported.errors.length > 0 ? (
+        <div className="flex-1 flex items-center justify-center p-6 text-sm text-gray-400">
+          No {exportLabel} is produced while the template has errors.
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0">
+          <JsonViewer
+            json={json}
+            title={exported ? exportLabel : 'Proof Template Preview'}
+            subtitle={`${CREDENTIAL_FORMAT_LABELS[template.credentialFormat]} format`}
+            filename={exported ? `${exportFormat}-${slug}` : `proof-template-${slug}`}
+            showDownload={true}
+            stats={[
+              { label: 'Credentials', value: template.requestedCredentials.length },
+              { label: 'Attributes', value: totalAttributes },
+              { label: 'Predicates', value: totalPredicates },
+              { label: 'Size', value: `${JSON.stringify(json).length} bytes` },
+            ]}
+          />
+        </div>
+      )}
+    </div>
   );
 }
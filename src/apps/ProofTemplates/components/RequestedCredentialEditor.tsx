@@ -2,18 +2,23 @@
  * RequestedCredentialEditor Component
  *
  * Editor for configuring a requested credential within a proof template.
- * Allows selecting attributes to request and adding predicates.
+ * Allows selecting attributes to request, constraining their values,
+ * adding predicates and making the credential one of a group of alternatives.
  */
 
 import { useState } from 'react';
 import { useProofTemplateStore } from '../../../store/proofTemplateStore';
 import {
+  ProofTemplate,
   RequestedCredential,
   RequestedAttribute,
   Predicate,
   PredicateOperator,
   PredicateDataType,
   PREDICATE_OPERATOR_LABELS,
+  AttributeConstraints,
+  DateEncoding,
+  DATE_ENCODING_LABELS,
 } from '../../../types/proofTemplate';
 
 interface RequestedCredentialEditorProps {
@@ -22,6 +27,8 @@ interface RequestedCredentialEditorProps {
 
 export default function RequestedCredentialEditor({ credential }: RequestedCredentialEditorProps) {
   const {
+    currentTemplate,
+    updateRequestedCredential,
     addRequestedAttribute,
     updateRequestedAttribute,
     removeRequestedAttribute,
@@ -70,6 +77,10 @@ export default function RequestedCredentialEditor({ credential }: RequestedCrede
             </div>
           )}
         </div>
+
+        {currentTemplate && (
+          <CredentialGroupSection template={currentTemplate} credential={credential} />
+        )}
       </div>
 
       {/* Tab Navigation */}
@@ -207,6 +218,29 @@ export default function RequestedCredentialEditor({ credential }: RequestedCrede
             </select>
           </div>
 
+          {/* Date encoding, for date predicates */}
+          {credential.predicates.some((pred) => pred.predicateType === 'date') && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date encoding in this credential:
+              </label>
+              <select
+                value={credential.dateEncoding || 'yyyymmdd'}
+                onChange={(e) => updateRequestedCredential(credential.id, { dateEncoding: e.target.value as DateEncoding })}
+                className="w-full text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(DATE_ENCODING_LABELS) as DateEncoding[]).map((encoding) => (
+                  <option key={encoding} value={encoding}>
+                    {DATE_ENCODING_LABELS[encoding]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Date predicates are compared as integers; this must match how the issuer encodes dates.
+              </p>
+            </div>
+          )}
+
           {/* Predicates List */}
           {credential.predicates.length === 0 ? (
             <div className="text-center py-6 text-gray-500">
@@ -244,6 +278,87 @@ export default function RequestedCredentialEditor({ credential }: RequestedCrede
   );
 }
 
+// Alternatives: which group of credentials this one belongs to
+interface CredentialGroupSectionProps {
+  template: ProofTemplate;
+  credential: RequestedCredential;
+}
+
+function CredentialGroupSection({ template, credential }: CredentialGroupSectionProps) {
+  const { addCredentialGroup, setCredentialGroup, updateCredentialGroup } = useProofTemplateStore();
+
+  const groups = template.credentialGroups || [];
+  const group = groups.find((g) => g.id === credential.groupId);
+  const members = group ? template.requestedCredentials.filter((c) => c.groupId === group.id) : [];
+
+  return (
+    <div className="mt-4 pt-3 border-t space-y-2">
+      <label className="block text-xs text-gray-500">Alternatives</label>
+      <select
+        value={group?.id || ''}
+        onChange={(e) => {
+          if (e.target.value === '__new') {
+            addCredentialGroup(credential.id);
+          } else {
+            setCredentialGroup(credential.id, e.target.value || null);
+          }
+        }}
+        className="w-full text-sm px-2 py-1.5 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="">Always required</option>
+        {groups.map((g) => (
+          <option key={g.id} value={g.id}>
+            {g.name || 'Unnamed group'}
+          </option>
+        ))}
+        <option value="__new">New group of alternatives...</option>
+      </select>
+
+      {group && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Group Name</label>
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => updateCredentialGroup(group.id, { name: e.target.value })}
+                placeholder="e.g., Proof of identity"
+                className="w-full text-sm px-2 py-1.5 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Present at least</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={members.length}
+                  value={Math.min(group.minimum, members.length)}
+                  onChange={(e) =>
+                    updateCredentialGroup(group.id, {
+                      minimum: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), members.length),
+                    })
+                  }
+                  className="w-16 text-sm px-2 py-1.5 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">of {members.length}</span>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {members.length < 2
+              ? 'Add another credential to this group to offer an alternative.'
+              : `The holder presents ${group.minimum >= members.length ? 'all' : `any ${Math.max(group.minimum, 1)}`} of: ${members
+                  .map((c) => c.credentialName)
+                  .join(', ')}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
 // Attribute configuration row
 interface AttributeConfigRowProps {
   attribute: RequestedAttribute;
@@ -306,6 +421,72 @@ function AttributeConfigRow({ attribute, onUpdate, onRemove }: AttributeConfigRo
           </label>
         </div>
       </div>
+
+      {/* Value constraint */}
+      <div className="grid grid-cols-2 gap-3 mt-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Value Constraint</label>
+          <select
+            value={attribute.constraints?.type || ''}
+            onChange={(e) =>
+              onUpdate({
+                constraints: e.target.value
+                  ? {
+                      values: [],
+                      caseSensitive: true,
+                      ...attribute.constraints,
+                      type: e.target.value as AttributeConstraints['type'],
+                    }
+                  : undefined,
+              })
+            }
+            className="w-full text-sm px-2 py-1.5 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">None</option>
+            <option value="exact-match">Exact match</option>
+            <option value="one-of">One of</option>
+          </select>
+        </div>
+        {attribute.constraints && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              {attribute.constraints.type === 'one-of' ? 'Accepted Values (comma-separated)' : 'Value'}
+            </label>
+            <input
+              type="text"
+              value={attribute.constraints.values.join(', ')}
+              onChange={(e) =>
+                onUpdate({
+                  constraints: {
+                    ...attribute.constraints!,
+                    values:
+                      attribute.constraints!.type === 'one-of'
+                        ? e.target.value.split(',').map((v) => v.trim())
+                        : [e.target.value],
+                  },
+                })
+              }
+              onBlur={() =>
+                onUpdate({
+                  constraints: { ...attribute.constraints!, values: attribute.constraints!.values.filter(Boolean) },
+                })
+              }
+              className="w-full text-sm px-2 py-1.5 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+        )}
+      </div>
+      {attribute.constraints && (
+        <label className="flex items-center gap-2 mt-2">
+          <input
+            type="checkbox"
+            checked={attribute.constraints.caseSensitive}
+            onChange={(e) => onUpdate({ constraints: { ...attribute.constraints!, caseSensitive: e.target.checked } })}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">Case sensitive</span>
+        </label>
+      )}
     </div>
   );
 }
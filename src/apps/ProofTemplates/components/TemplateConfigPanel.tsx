@@ -2,18 +2,31 @@
  * Template Config Panel
  *
  * Two-pane layout for configuring a proof template:
- * - Left pane: Template metadata, credential format, and requested credentials list
+ * - Left pane: Template metadata, credential format, requested credentials list,
+ *   and a validation report of what each output format cannot express
+ * - Version history and lifecycle (deprecate / retire) in a modal
  * - Right pane: Selected credential attribute/predicate editor
  */
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useProofTemplateStore } from '../../../store/proofTemplateStore';
 import {
   CredentialFormat,
   CREDENTIAL_FORMAT_LABELS,
+  ProofTemplateIssueSeverity,
 } from '../../../types/proofTemplate';
+import { validateProofTemplate } from '../utils/proofRequestExport';
 import CredentialPicker from './CredentialPicker';
 import RequestedCredentialEditor from './RequestedCredentialEditor';
+import DryRunModal from './DryRunModal';
+import TemplateStatusBadge from './TemplateStatusBadge';
+import VersionHistoryModal from './VersionHistoryModal';
+
+const ISSUE_STYLES: Record<ProofTemplateIssueSeverity, string> = {
+  error: 'text-red-700',
+  warning: 'text-amber-700',
+  info: 'text-gray-500',
+};
 
 export default function TemplateConfigPanel() {
   const {
@@ -35,6 +48,18 @@ export default function TemplateConfigPanel() {
   } = useProofTemplateStore();
 
   const [showCredentialPicker, setShowCredentialPicker] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showDryRun, setShowDryRun] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+
+  const report = useMemo(
+    () => (currentTemplate ? validateProofTemplate(currentTemplate) : []),
+    [currentTemplate]
+  );
+  const errorCount = report.reduce((sum, r) => sum + r.issues.filter((i) => i.severity === 'error').length, 0);
+  const warningCount = report.reduce((sum, r) => sum + r.issues.filter((i) => i.severity === 'warning').length, 0);
+
+  const groupNames = new Map((currentTemplate?.credentialGroups || []).map((g) => [g.id, g.name]));
 
   const selectedRequestedCredential = currentTemplate?.requestedCredentials.find(
     (c) => c.id === selectedCredentialId
@@ -100,6 +125,27 @@ export default function TemplateConfigPanel() {
         </div>
       )}
 
+      {/* Lifecycle banner */}
+      {(currentTemplate.status === 'deprecated' || currentTemplate.status === 'retired') && (
+        <div
+          className={`flex-shrink-0 border-b px-4 py-2 flex items-center justify-between text-sm ${
+            currentTemplate.status === 'retired'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-amber-50 border-amber-200 text-amber-800'
+          }`}
+        >
+          <span>
+            {currentTemplate.status === 'retired'
+              ? 'This version is retired and read-only.'
+              : 'This version is deprecated.'}
+            {currentTemplate.statusReason && ` ${currentTemplate.statusReason}`}
+          </span>
+          <button onClick={() => setShowVersions(true)} className="text-xs font-medium underline">
+            Versions
+          </button>
+        </div>
+      )}
+
       {/* Two-pane layout */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left pane - Template metadata and credentials list */}
@@ -117,13 +163,7 @@ export default function TemplateConfigPanel() {
                   className="flex-1 text-sm font-medium text-gray-900 border border-gray-200 rounded px-2 py-1.5 bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
                   placeholder="Template name..."
                 />
-                <span className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${
-                  currentTemplate.status === 'published'
-                    ? 'bg-green-100 text-green-800'
-                    : 'bg-gray-200 text-gray-600'
-                }`}>
-                  {currentTemplate.status === 'published' ? 'Published' : 'Draft'}
-                </span>
+                <TemplateStatusBadge status={currentTemplate.status} />
               </div>
             </div>
 
@@ -181,7 +221,16 @@ export default function TemplateConfigPanel() {
                 </select>
               </div>
               <div className="w-24">
-                <label className="block text-xs font-medium text-gray-500 mb-1">Version</label>
+                <label className="flex items-center justify-between text-xs font-medium text-gray-500 mb-1">
+                  Version
+                  <button
+                    onClick={() => setShowVersions(true)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Version history, new version and deprecation"
+                  >
+                    History
+                  </button>
+                </label>
                 <input
                   type="text"
                   value={currentTemplate.version}
@@ -198,6 +247,15 @@ export default function TemplateConfigPanel() {
               <h3 className="text-sm font-medium text-gray-700">
                 Requested Credentials ({currentTemplate.requestedCredentials.length})
               </h3>
+              {currentTemplate.requestedCredentials.length > 0 && (
+                <button
+                  onClick={() => setShowDryRun(true)}
+                  className="ml-auto mr-1 px-2 py-0.5 text-xs text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded transition-colors"
+                  title="Check the template against sample credentials"
+                >
+                  Dry run
+                </button>
+              )}
               <button
                 onClick={() => setShowCredentialPicker(true)}
                 className="p-1 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded transition-colors"
@@ -250,6 +308,14 @@ export default function TemplateConfigPanel() {
                               {cred.predicates.length} predicate{cred.predicates.length !== 1 ? 's' : ''}
                             </span>
                           )}
+                          {cred.groupId && groupNames.has(cred.groupId) && (
+                            <span
+                              className="text-xs px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded"
+                              title="One of a group of alternative credentials"
+                            >
+                              {groupNames.get(cred.groupId) || 'Alternatives'}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <button
@@ -270,6 +336,53 @@ export default function TemplateConfigPanel() {
               </div>
             )}
           </div>
+
+          {/* Validation report */}
+          {currentTemplate.requestedCredentials.length > 0 && (
+            <div className="flex-shrink-0 border-t max-h-64 overflow-y-auto">
+              <button
+                onClick={() => setShowReport(!showReport)}
+                className="w-full p-3 bg-gray-50 flex items-center justify-between text-sm font-medium text-gray-700 sticky top-0"
+              >
+                <span>Validation</span>
+                <span className="flex items-center gap-1.5">
+                  {errorCount > 0 && (
+                    <span className="text-xs px-1.5 py-0.5 bg-red-100 text-red-700 rounded">{errorCount} error{errorCount !== 1 ? 's' : ''}</span>
+                  )}
+                  {warningCount > 0 && (
+                    <span className="text-xs px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded">{warningCount} warning{warningCount !== 1 ? 's' : ''}</span>
+                  )}
+                  {errorCount === 0 && warningCount === 0 && (
+                    <span className="text-xs px-1.5 py-0.5 bg-green-100 text-green-700 rounded">OK</span>
+                  )}
+                </span>
+              </button>
+              {showReport && (
+                <div className="p-3 space-y-3">
+                  {report.map((output) => (
+                    <div key={output.format}>
+                      <h4 className="text-xs font-medium text-gray-500 mb-1">{output.label}</h4>
+                      {output.issues.length === 0 ? (
+                        <p className="text-xs text-green-700">Everything can be expressed</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {output.issues.map((issue, i) => (
+                            <li
+                              key={i}
+                              onClick={() => issue.credentialId && selectCredential(issue.credentialId)}
+                              className={`text-xs ${ISSUE_STYLES[issue.severity]} ${issue.credentialId ? 'cursor-pointer hover:underline' : ''}`}
+                            >
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Right pane - Credential editor */}
@@ -290,6 +403,13 @@ export default function TemplateConfigPanel() {
         </div>
       </div>
 
+      {/* Dry Run Modal */}
+      {showDryRun && (
+        <DryRunModal template={currentTemplate} onClose={() => setShowDryRun(false)} />
+      )}
+
+      {showVersions && <VersionHistoryModal onClose={() => setShowVersions(false)} />}
+
       {/* Credential Picker Modal */}
       {showCredentialPicker && (
         <CredentialPicker
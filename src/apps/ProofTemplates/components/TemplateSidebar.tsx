@@ -358,6 +358,12 @@ export default function TemplateSidebar({ onCreateTemplate }: TemplateSidebarPro
                                   {template.status === 'published' && (
                                     <span className="flex-shrink-0 w-2 h-2 rounded-full bg-green-500" title="Published" />
                                   )}
+                                  {template.status === 'deprecated' && (
+                                    <span className="flex-shrink-0 w-2 h-2 rounded-full bg-amber-500" title="Deprecated" />
+                                  )}
+                                  {template.status === 'retired' && (
+                                    <span className="flex-shrink-0 w-2 h-2 rounded-full bg-red-500" title="Retired" />
+                                  )}
                                   {template.publishedToVerifier && (
                                     <span className="flex-shrink-0 px-1.5 py-0.5 text-xs bg-purple-100 text-purple-700 rounded" title="Published to Test Verifier">
                                       Verifier
@@ -365,6 +371,12 @@ export default function TemplateSidebar({ onCreateTemplate }: TemplateSidebarPro
                                   )}
                                 </div>
                                 <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
+                                  {template.version && (
+                                    <>
+                                      <span>v{template.version}</span>
+                                      <span>&middot;</span>
+                                    </>
+                                  )}
                                   <span>
                                     {template.credentialCount} cred{template.credentialCount !== 1 ? 's' : ''}
                                   </span>
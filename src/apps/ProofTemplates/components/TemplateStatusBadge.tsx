@@ -0,0 +1,30 @@
+/**
+ * Template Status Badge
+ *
+ * Lifecycle status pill (draft, published, deprecated, retired).
+ */
+
+import { PROOF_TEMPLATE_STATUS_LABELS, ProofTemplateStatus } from '../../../types/proofTemplate';
+
+const STATUS_STYLES: Record<ProofTemplateStatus, string> = {
+  draft: 'bg-gray-200 text-gray-600',
+  published: 'bg-green-100 text-green-800',
+  deprecated: 'bg-amber-100 text-amber-800',
+  retired: 'bg-red-100 text-red-700',
+};
+
+interface TemplateStatusBadgeProps {
+  status: ProofTemplateStatus;
+  title?: string;
+}
+
+export default function TemplateStatusBadge({ status, title }: TemplateStatusBadgeProps) {
+  return (
+    <span
+      className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${STATUS_STYLES[status] || STATUS_STYLES.draft}`}
+      title={title}
+    >
+      {PROOF_TEMPLATE_STATUS_LABELS[status] || status}
+    </span>
+  );
+}
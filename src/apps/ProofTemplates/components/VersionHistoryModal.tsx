@@ -0,0 +1,281 @@
+/**
+ * Version History Modal
+ *
+ * Lists every version of the current template's family, creates the next
+ * version, deprecates / retires / reinstates the current one, and shows a
+ * structured diff between the current version and any other.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useProofTemplateStore } from '../../../store/proofTemplateStore';
+import type { ProofTemplate, ProofTemplateStatus, VersionBump } from '../../../types/proofTemplate';
+import { ChangeKind, FieldChange, compareVersions, diffProofTemplates } from '../utils/templateDiff';
+import TemplateStatusBadge from './TemplateStatusBadge';
+
+interface VersionHistoryModalProps {
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-800',
+};
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => (
+        <li key={`${change.kind}-${change.path}`} className="flex items-start gap-2 text-xs">
+          <span className={`px-1.5 rounded flex-shrink-0 ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+          <span className="font-mono text-gray-700 flex-shrink-0">{change.path}</span>
+          <span className="text-gray-500 break-all">
+            {change.before !== undefined && <span className="line-through">{formatValue(change.before)}</span>}
+            {change.before !== undefined && change.after !== undefined && ' → '}
+            {change.after !== undefined && formatValue(change.after)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function VersionHistoryModal({ onClose }: VersionHistoryModalProps) {
+  const {
+    currentTemplate,
+    templateVersions,
+    isSaving,
+    fetchTemplateVersions,
+    loadTemplateVersion,
+    createNewVersion,
+    updateTemplateStatus,
+    setSelectedTemplateId,
+  } = useProofTemplateStore();
+
+  const [compareId, setCompareId] = useState<string | null>(currentTemplate?.previousVersionId || null);
+  const [compareTemplate, setCompareTemplate] = useState<ProofTemplate | null>(null);
+  const [bump, setBump] = useState<VersionBump>('minor');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (currentTemplate) fetchTemplateVersions(currentTemplate.id);
+  }, [currentTemplate?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    setCompareTemplate(null);
+    if (!compareId) return;
+    let cancelled = false;
+    loadTemplateVersion(compareId)
+      .then((template) => !cancelled && setCompareTemplate(template))
+      .catch(() => !cancelled && setCompareId(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [compareId, loadTemplateVersion]);
+
+  // Always diff from the older version to the newer one
+  const diff = useMemo(() => {
+    if (!currentTemplate || !compareTemplate) return null;
+    return compareVersions(compareTemplate.version, currentTemplate.version) <= 0
+      ? diffProofTemplates(compareTemplate, currentTemplate)
+      : diffProofTemplates(currentTemplate, compareTemplate);
+  }, [currentTemplate, compareTemplate]);
+
+  if (!currentTemplate) return null;
+
+  const handleNewVersion = async () => {
+    try {
+      const created = await createNewVersion(currentTemplate.id, bump);
+      setSelectedTemplateId(created.id);
+      onClose();
+    } catch {
+      // Error handled in store
+    }
+  };
+
+  const handleStatus = async (status: ProofTemplateStatus) => {
+    if (status === 'retired' && !confirm('Retired templates are read-only and removed from the Test Verifier. Continue?')) {
+      return;
+    }
+    try {
+      await updateTemplateStatus(currentTemplate.id, status, reason.trim() || undefined);
+      setReason('');
+    } catch {
+      // Error handled in store
+    }
+  };
+
+  const { status } = currentTemplate;
+  const reinstateStatus: ProofTemplateStatus = currentTemplate.publishedAt ? 'published' : 'draft';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white rounded-xl shadow-2xl w-[900px] h-[640px] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+            <p className="text-sm text-gray-500">
+              {currentTemplate.name || 'Untitled template'} &middot; version {currentTemplate.version}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Actions and versions */}
+          <div className="w-80 flex-shrink-0 flex flex-col border-r overflow-y-auto">
+            <div className="p-4 border-b space-y-2">
+              <label className="block text-xs font-medium text-gray-500">New Version</label>
+              <div className="flex gap-2">
+                <select
+                  value={bump}
+                  onChange={(e) => setBump(e.target.value as VersionBump)}
+                  className="flex-1 text-sm px-2 py-1.5 border border-gray-200 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="patch">Patch (fixes)</option>
+                  <option value="minor">Minor (compatible changes)</option>
+                  <option value="major">Major (breaking changes)</option>
+                </select>
+                <button
+                  onClick={handleNewVersion}
+                  className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors"
+                >
+                  Create
+                </button>
+              </div>
+              <p className="text-xs text-gray-400">Copies the saved version as a new draft</p>
+            </div>
+
+            <div className="p-4 border-b space-y-2">
+              <label className="block text-xs font-medium text-gray-500">Lifecycle</label>
+              {status === 'retired' ? (
+                <p className="text-xs text-gray-500">
+                  This version is retired. Create a new version to keep using this template.
+                </p>
+              ) : (
+                <>
+                  {status !== 'deprecated' && (
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason (optional)"
+                      className="w-full text-sm px-2 py-1.5 border border-gray-200 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+                  <div className="flex gap-2">
+                    {status === 'deprecated' ? (
+                      <button
+                        onClick={() => handleStatus(reinstateStatus)}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-sm text-gray-700 border border-gray-200 hover:bg-gray-50 rounded transition-colors"
+                      >
+                        Reinstate
+                      </button>
+                    ) : status === 'published' ? (
+                      <button
+                        onClick={() => handleStatus('deprecated')}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-sm text-amber-800 border border-amber-200 hover:bg-amber-50 rounded transition-colors"
+                      >
+                        Deprecate
+                      </button>
+                    ) : null}
+                    <button
+                      onClick={() => handleStatus('retired')}
+                      disabled={isSaving}
+                      className="px-3 py-1.5 text-sm text-red-700 border border-red-200 hover:bg-red-50 rounded transition-colors"
+                    >
+                      Retire
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+              Versions ({templateVersions.length})
+            </div>
+            <div className="divide-y">
+              {templateVersions.map((version) => {
+                const isCurrent = version.id === currentTemplate.id;
+                return (
+                  <div
+                    key={version.id}
+                    onClick={() => !isCurrent && setCompareId(version.id)}
+                    className={`px-4 py-2 ${isCurrent ? 'bg-blue-50' : 'cursor-pointer hover:bg-gray-50'} ${
+                      version.id === compareId ? 'ring-1 ring-inset ring-blue-300' : ''
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{version.version}</span>
+                      <TemplateStatusBadge status={version.status} title={version.statusReason || undefined} />
+                      {isCurrent ? (
+                        <span className="ml-auto text-xs text-blue-600">Open</span>
+                      ) : (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSelectedTemplateId(version.id);
+                            onClose();
+                          }}
+                          className="ml-auto text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Open
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {new Date(version.updatedAt).toLocaleDateString()}
+                      {version.id === currentTemplate.previousVersionId && ' · previous version'}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {!compareId ? (
+              <p className="text-sm text-gray-500">Select another version to compare with {currentTemplate.version}</p>
+            ) : !diff ? (
+              <p className="text-sm text-gray-500">Loading version...</p>
+            ) : (
+              <>
+                <div className="text-sm font-medium text-gray-900">
+                  {diff.fromVersion} → {diff.toVersion}
+                  <span className="ml-2 text-gray-500 font-normal">
+                    {diff.changeCount === 0 ? 'No changes' : `${diff.changeCount} change${diff.changeCount !== 1 ? 's' : ''}`}
+                  </span>
+                </div>
+                {diff.fields.length > 0 && (
+                  <div className="border rounded-lg p-3 space-y-2">
+                    <span className="text-sm font-medium text-gray-700">Template</span>
+                    <ChangeList changes={diff.fields} />
+                  </div>
+                )}
+                {diff.credentials.map((credential) => (
+                  <div key={`${credential.kind}-${credential.credentialName}`} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-1.5 rounded text-xs ${KIND_STYLES[credential.kind]}`}>{credential.kind}</span>
+                      <span className="text-sm font-medium text-gray-700">{credential.credentialName}</span>
+                    </div>
+                    {credential.changes.length > 0 && <ChangeList changes={credential.changes} />}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,624 @@
+/**
+ * Proof Request Exporters
+ *
+ * Serialize a ProofTemplate into request formats that verifiers outside Orbit
+ * understand:
+ * - DIF Presentation Exchange v2 presentation_definition (W3C JSON-LD, SD-JWT VC, mdoc)
+ * - OpenID4VP authorization request, with a DCQL query for SD-JWT VC and mdoc
+ * - AnonCreds native proof_request
+ *
+ * Each exporter returns the document plus notes on anything in the template
+ * the format cannot express, so nothing is dropped silently. Credential groups
+ * (alternatives) become PE submission_requirements and DCQL credential_sets.
+ */
+
+import type {
+  AnonCredsProofRequest,
+  AnonCredsRestriction,
+  AttributeConstraints,
+  CredentialFormat,
+  CredentialGroup,
+  DcqlClaimsQuery,
+  DcqlCredentialQuery,
+  DcqlCredentialSetQuery,
+  DcqlQuery,
+  InputDescriptor,
+  OpenId4VpAuthorizationRequest,
+  OrbitRestriction,
+  Predicate,
+  PresentationDefinition,
+  PresentationField,
+  ProofTemplate,
+  ProofTemplateIssue,
+  RequestedCredential,
+  SubmissionRequirement,
+} from '../../../types/proofTemplate';
+import {
+  compileProofTemplate,
+  encodePredicateValue,
+  getAcceptedValues,
+  resolveCredentialGroups,
+  toOrbitProofRequest,
+} from '../../../types/proofTemplate';
+
+export type ProofExportFormat = 'template' | 'orbit' | 'presentation-exchange' | 'openid4vp' | 'anoncreds';
+
+export interface ProofExportOption {
+  value: ProofExportFormat;
+  label: string;
+  formats: CredentialFormat[];    // Credential formats the export supports
+}
+
+export const PROOF_EXPORT_OPTIONS: ProofExportOption[] = [
+  { value: 'template', label: 'Proof Template', formats: ['anoncreds', 'w3c-jsonld', 'w3c-sd-jwt', 'iso-18013-5'] },
+  { value: 'orbit', label: 'Orbit Proof Request', formats: ['anoncreds', 'w3c-jsonld', 'w3c-sd-jwt', 'iso-18013-5'] },
+  { value: 'presentation-exchange', label: 'DIF Presentation Exchange v2', formats: ['w3c-jsonld', 'w3c-sd-jwt', 'iso-18013-5'] },
+  { value: 'openid4vp', label: 'OpenID4VP Request', formats: ['w3c-jsonld', 'w3c-sd-jwt', 'iso-18013-5'] },
+  { value: 'anoncreds', label: 'AnonCreds proof_request', formats: ['anoncreds'] },
+];
+
+// An exported document and what it could not express. A document with errors
+// would be refused (the server applies the same rules to Orbit requests).
+export interface ProofExportResult {
+  document: object;
+  warnings: string[];
+  errors: string[];
+}
+
+// Left for the consuming verifier to fill in
+const CLIENT_ID_PLACEHOLDER = '<verifier client_id>';
+const RESPONSE_URI_PLACEHOLDER = '<verifier response_uri>';
+const NONCE_PLACEHOLDER = '<nonce>';
+
+// SD-JWT VC format identifier, used for both PE claim formats and DCQL queries
+const SD_JWT_FORMAT = 'dc+sd-jwt';
+
+// Default mdoc namespace, used when the doctype does not imply one
+const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+// Input descriptor group of credentials that are always required
+const REQUIRED_GROUP = 'required';
+
+// DCQL credential set options beyond this are almost certainly a mistake
+const MAX_CREDENTIAL_SET_OPTIONS = 50;
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+const slugId = (value: string, fallback: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '') || fallback;
+
+/**
+ * Reserve an identifier, suffixing "_2", "_3", ... when it is already taken
+ */
+function uniqueId(id: string, usedIds: Set<string>): string {
+  let candidate = id;
+  for (let suffix = 2; usedIds.has(candidate); suffix++) {
+    candidate = `${id}_${suffix}`;
+  }
+  usedIds.add(candidate);
+  return candidate;
+}
+
+/**
+ * Stable, distinct identifiers for requested credentials, usable as PE/DCQL
+ * ids and AnonCreds referents; credentials with the same name are suffixed
+ */
+function credentialQueryIds(credentials: RequestedCredential[]): string[] {
+  const usedIds = new Set<string>();
+  return credentials.map((credential, index) =>
+    uniqueId(slugId(credential.credentialName, `credential_${index + 1}`), usedIds)
+  );
+}
+
+/**
+ * Distinct PE input descriptor groups for credential groups
+ */
+function groupKeys(groups: CredentialGroup[]): string[] {
+  const usedKeys = new Set<string>([REQUIRED_GROUP]);
+  return groups.map((group, index) => uniqueId(`group_${slugId(group.name, String(index + 1))}`, usedKeys));
+}
+
+/**
+ * Number of ways to choose `size` of `count` items
+ */
+function countCombinations(count: number, size: number): number {
+  let total = 1;
+  for (let i = 0; i < size; i++) {
+    total = (total * (count - i)) / (i + 1);
+  }
+  return total;
+}
+
+/**
+ * Every way to choose `size` items, in order
+ */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), size - 1).map((rest) => [item, ...rest])
+  );
+}
+
+/**
+ * mdoc namespace for a doctype ("org.iso.18013.5.1.mDL" -> "org.iso.18013.5.1")
+ */
+const mdocNamespace = (doctype: string): string => {
+  const segments = doctype.split('.');
+  return segments.length > 1 ? segments.slice(0, -1).join('.') : MDL_NAMESPACE;
+};
+
+/**
+ * Path segments of an attribute for a credential format
+ */
+function claimPath(format: CredentialFormat, credential: RequestedCredential, attributeName: string): string[] {
+  const segments = attributeName.replace(/^credentialSubject\./, '').split('.');
+  switch (format) {
+    case 'w3c-jsonld':
+      return ['credentialSubject', ...segments];
+    case 'iso-18013-5':
+      return [mdocNamespace(credential.restrictions.schemaId), attributeName];
+    default:
+      return segments;
+  }
+}
+
+/**
+ * JSONPath for path segments, e.g. $.credentialSubject.given_name or $['ns']['attr']
+ */
+const toJsonPath = (format: CredentialFormat, segments: string[]): string =>
+  format === 'iso-18013-5'
+    ? '$' + segments.map((segment) => `['${segment}']`).join('')
+    : '$.' + segments.join('.');
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive JSON Schema pattern (JSON Schema regexes have no flags)
+ */
+const caseInsensitivePattern = (values: string[]): string =>
+  '^(' +
+  values
+    .map((value) =>
+      escapeRegExp(value).replace(/[a-z]/gi, (c) => `[${c.toLowerCase()}${c.toUpperCase()}]`)
+    )
+    .join('|') +
+  ')$';
+
+/**
+ * JSON Schema filter for an attribute value constraint, or undefined when it
+ * accepts no values (and so does not constrain the attribute)
+ */
+function constraintFilter(constraints: AttributeConstraints | undefined): Record<string, unknown> | undefined {
+  const values = getAcceptedValues(constraints);
+  if (!constraints || values.length === 0) return undefined;
+  if (!constraints.caseSensitive) {
+    return { type: 'string', pattern: caseInsensitivePattern(values) };
+  }
+  return constraints.type === 'exact-match'
+    ? { type: 'string', const: values[0] }
+    : { type: 'string', enum: values };
+}
+
+/**
+ * JSON Schema filter for a predicate whose value encodePredicateValue accepts
+ */
+function predicateFilter(predicate: Predicate): Record<string, unknown> {
+  const isDate = predicate.predicateType === 'date';
+  const value = isDate ? String(predicate.value).trim() : Number(predicate.value);
+  const base = isDate ? { type: 'string', format: 'date' } : { type: 'number' };
+  const keyword = (name: string) => (isDate ? `format${name[0].toUpperCase()}${name.slice(1)}` : name);
+
+  switch (predicate.operator) {
+    case '>':
+      return { ...base, [keyword('exclusiveMinimum')]: value };
+    case '>=':
+      return { ...base, [keyword('minimum')]: value };
+    case '<':
+      return { ...base, [keyword('exclusiveMaximum')]: value };
+    case '<=':
+      return { ...base, [keyword('maximum')]: value };
+    case '==':
+      return { ...base, const: value };
+    case '!=':
+      return { ...base, not: { const: value } };
+  }
+}
+
+// ============================================================================
+// DIF Presentation Exchange v2
+// ============================================================================
+
+// Claimed format designations, per the DIF claim format registry
+const PE_FORMATS: Partial<Record<CredentialFormat, PresentationDefinition['format']>> = {
+  'w3c-jsonld': {
+    ldp_vc: { proof_type: ['Ed25519Signature2020', 'DataIntegrityProof'] },
+    ldp_vp: { proof_type: ['Ed25519Signature2020', 'DataIntegrityProof'] },
+  },
+  'w3c-sd-jwt': {
+    [SD_JWT_FORMAT]: { 'sd-jwt_alg_values': ['ES256', 'EdDSA'], 'kb-jwt_alg_values': ['ES256', 'EdDSA'] },
+  },
+  'iso-18013-5': {
+    mso_mdoc: { alg: ['ES256', 'ES384', 'EdDSA'] },
+  },
+};
+
+/**
+ * Fields identifying the credential (type/schema and issuer)
+ */
+function restrictionFields(format: CredentialFormat, credential: RequestedCredential): PresentationField[] {
+  const { schemaId, issuerDid } = credential.restrictions;
+  const fields: PresentationField[] = [];
+  if (schemaId && format === 'w3c-sd-jwt') {
+    fields.push({ path: ['$.vct'], filter: { type: 'string', const: schemaId } });
+  } else if (schemaId && format === 'w3c-jsonld') {
+    fields.push({ path: ['$.credentialSchema.id', '$.credentialSchema[*].id'], filter: { type: 'string', const: schemaId } });
+  }
+  if (issuerDid && format !== 'iso-18013-5') {
+    fields.push({
+      path: format === 'w3c-sd-jwt' ? ['$.iss'] : ['$.issuer', '$.issuer.id'],
+      filter: { type: 'string', const: issuerDid },
+    });
+  }
+  return fields;
+}
+
+/**
+ * DIF Presentation Exchange v2 presentation_definition for a template
+ */
+export function toPresentationDefinition(template: ProofTemplate): ProofExportResult & { document: PresentationDefinition } {
+  const format = template.credentialFormat;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  if (format === 'anoncreds') {
+    warnings.push('AnonCreds has no Presentation Exchange claim format; use the AnonCreds proof_request export');
+  }
+
+  // Descriptor groups, only needed when the template has alternatives
+  const { required, groups } = resolveCredentialGroups(template);
+  const keys = groupKeys(groups.map(({ group }) => group));
+  const descriptorGroup = new Map<string, string>();
+  groups.forEach(({ credentials }, index) =>
+    credentials.forEach((credential) => descriptorGroup.set(credential.id, keys[index]))
+  );
+  required.forEach((credential) => descriptorGroup.set(credential.id, REQUIRED_GROUP));
+  const queryIds = credentialQueryIds(template.requestedCredentials);
+
+  const input_descriptors: InputDescriptor[] = template.requestedCredentials.map((credential, index) => {
+    const name = credential.credentialName || `Credential ${index + 1}`;
+    const fields = restrictionFields(format, credential);
+    if (format === 'iso-18013-5' && credential.restrictions.issuerDid) {
+      warnings.push(`${name}: mdoc issuers are identified by certificate, so the issuer DID restriction is omitted`);
+    }
+
+    for (const attribute of credential.requestedAttributes) {
+      const filter = constraintFilter(attribute.constraints);
+      const field: PresentationField = {
+        id: attribute.id,
+        name: attribute.label || attribute.attributeName,
+        path: [toJsonPath(format, claimPath(format, credential, attribute.attributeName))],
+        ...(filter && { filter }),
+        ...(!attribute.required && { optional: true }),
+      };
+      if (!attribute.selectiveDisclosure.revealValue) {
+        // Possession only: ask for the result of the filter instead of the value
+        if (filter) {
+          field.predicate = 'required';
+        } else {
+          warnings.push(`${name}: "${attribute.attributeName}" is requested as possession only, which Presentation Exchange cannot express; the value will be disclosed`);
+        }
+      }
+      fields.push(field);
+    }
+
+    for (const predicate of credential.predicates) {
+      // Same checks as the compiled requests, so PE never compares against NaN or an impossible date
+      const { error } = encodePredicateValue(predicate.value, predicate.predicateType, credential.dateEncoding);
+      if (error !== undefined) {
+        errors.push(`${name}: predicate "${predicate.attributeName} ${predicate.operator} ${predicate.value ?? ''}" ${error}`);
+        continue;
+      }
+      fields.push({
+        id: predicate.id,
+        name: predicate.label || predicate.attributeName,
+        path: [toJsonPath(format, claimPath(format, credential, predicate.attributeName))],
+        filter: predicateFilter(predicate),
+        predicate: 'required',
+      });
+      if (format !== 'w3c-jsonld') {
+        warnings.push(`${name}: ${format === 'w3c-sd-jwt' ? 'SD-JWT' : 'mdoc'} credentials cannot prove predicates, so "${predicate.attributeName}" will be disclosed for the verifier to compare`);
+      }
+    }
+
+    return {
+      id: queryIds[index],
+      name,
+      ...(groups.length > 0 && { group: [descriptorGroup.get(credential.id)!] }),
+      constraints: {
+        ...(format !== 'w3c-jsonld' && { limit_disclosure: 'required' as const }),
+        fields,
+      },
+    };
+  });
+
+  const submission_requirements: SubmissionRequirement[] = [
+    ...(required.length > 0 ? [{ name: 'Required credentials', rule: 'all' as const, from: REQUIRED_GROUP }] : []),
+    ...groups.map(({ group, minimum }, index): SubmissionRequirement => ({
+      name: group.name || `Alternatives ${index + 1}`,
+      rule: 'pick',
+      min: minimum,
+      from: keys[index],
+    })),
+  ];
+
+  return {
+    document: {
+      id: template.id,
+      name: template.name,
+      ...(template.description && { purpose: template.description }),
+      ...(PE_FORMATS[format] && { format: PE_FORMATS[format] }),
+      ...(groups.length > 0 && { submission_requirements }),
+      input_descriptors,
+    },
+    warnings,
+    errors,
+  };
+}
+
+// ============================================================================
+// OpenID4VP / DCQL
+// ============================================================================
+
+/**
+ * DCQL query for a template. Predicates become plain claim requests, since
+ * DCQL can only match values. A group of n-of alternatives becomes a
+ * credential set with one option per combination of n members, up to
+ * MAX_CREDENTIAL_SET_OPTIONS.
+ */
+export function toDcqlQuery(template: ProofTemplate): ProofExportResult & { document: DcqlQuery } {
+  const format = template.credentialFormat;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const queryIds = credentialQueryIds(template.requestedCredentials);
+
+  const credentials = template.requestedCredentials.map((credential, index): DcqlCredentialQuery => {
+    const name = credential.credentialName || `Credential ${index + 1}`;
+    const { schemaId, issuerDid } = credential.restrictions;
+    const claims: DcqlClaimsQuery[] = [];
+    const claimIds = new Map<string, string>();   // Attribute name -> claim id
+    const usedIds = new Set<string>();
+    const requiredIds: string[] = [];
+
+    // One claim per attribute; a later required request of it makes it required
+    const addClaim = (attributeName: string, values?: (string | number)[], required = true) => {
+      let id = claimIds.get(attributeName);
+      if (!id) {
+        id = uniqueId(attributeName.replace(/[^A-Za-z0-9_-]/g, '_'), usedIds);
+        claimIds.set(attributeName, id);
+        claims.push({ id, path: claimPath(format, credential, attributeName), ...(values && { values }) });
+      }
+      if (required && !requiredIds.includes(id)) requiredIds.push(id);
+    };
+
+    for (const attribute of credential.requestedAttributes) {
+      const { constraints } = attribute;
+      const values = getAcceptedValues(constraints);
+      if (constraints && values.length > 0 && !constraints.caseSensitive) {
+        warnings.push(`${name}: DCQL values match exactly; "${attribute.attributeName}" is matched case-sensitively`);
+      }
+      if (!attribute.selectiveDisclosure.revealValue) {
+        warnings.push(`${name}: "${attribute.attributeName}" is requested as possession only, which DCQL cannot express; the value will be disclosed`);
+      }
+      addClaim(attribute.attributeName, values.length > 0 ? values : undefined, attribute.required);
+    }
+    for (const predicate of credential.predicates) {
+      warnings.push(`${name}: DCQL has no predicates; "${predicate.attributeName}" ${predicate.operator} ${predicate.value} is requested as the value for the verifier to compare`);
+      addClaim(predicate.attributeName);
+    }
+
+    if (issuerDid) {
+      warnings.push(`${name}: DCQL trusted_authorities do not cover DIDs; the issuer ${issuerDid} must be checked by the verifier`);
+    }
+
+    let query: DcqlCredentialQuery;
+    if (format === 'iso-18013-5') {
+      query = { id: queryIds[index], format: 'mso_mdoc', meta: { doctype_value: schemaId } };
+    } else if (format === 'w3c-jsonld') {
+      warnings.push(`${name}: ldp_vc queries match on credential type; set type_values to the credential's types`);
+      query = { id: queryIds[index], format: 'ldp_vc', meta: { type_values: [['VerifiableCredential']] } };
+    } else {
+      if (!schemaId) {
+        warnings.push(`${name}: no credential type (vct) is set; add meta.vct_values before using the query`);
+      }
+      query = { id: queryIds[index], format: SD_JWT_FORMAT, meta: schemaId ? { vct_values: [schemaId] } : {} };
+    }
+
+    // Optional attributes: accept the full set, or just the required ones.
+    // Claim sets cannot be empty, so with no required claims all are requested.
+    const allIds = claims.map((claim) => claim.id!);
+    if (requiredIds.length === 0 && allIds.length > 0) {
+      warnings.push(`${name}: DCQL cannot make every claim optional; all attributes are requested`);
+    }
+
+    return {
+      ...query,
+      ...(claims.length > 0 && { claims }),
+      ...(requiredIds.length > 0 && requiredIds.length < allIds.length && { claim_sets: [allIds, requiredIds] }),
+    };
+  });
+
+  const { required, groups } = resolveCredentialGroups(template);
+  const queryId = (credential: RequestedCredential) =>
+    queryIds[template.requestedCredentials.indexOf(credential)];
+  const credential_sets: DcqlCredentialSetQuery[] = [
+    ...(required.length > 0 ? [{ options: [required.map(queryId)] }] : []),
+    ...groups.map(({ group, credentials: members, minimum }, index): DcqlCredentialSetQuery => {
+      const optionCount = countCombinations(members.length, minimum);
+      if (optionCount > MAX_CREDENTIAL_SET_OPTIONS) {
+        errors.push(
+          `${group.name || `Alternatives ${index + 1}`}: choosing ${minimum} of ${members.length} credentials produces ${optionCount} credential set options; at most ${MAX_CREDENTIAL_SET_OPTIONS} are supported`
+        );
+      }
+      return {
+        options: optionCount > MAX_CREDENTIAL_SET_OPTIONS ? [] : combinations(members.map(queryId), minimum),
+        ...(group.name && { purpose: group.name }),
+      };
+    }),
+  ];
+
+  return {
+    document: { credentials, ...(groups.length > 0 && { credential_sets }) },
+    warnings,
+    errors,
+  };
+}
+
+/**
+ * OpenID4VP authorization request: DCQL for SD-JWT VC and mdoc, a
+ * presentation_definition for JSON-LD credentials
+ */
+export function toOpenId4VpRequest(template: ProofTemplate): ProofExportResult & { document: OpenId4VpAuthorizationRequest } {
+  const useDcql = template.credentialFormat !== 'w3c-jsonld';
+  const query = useDcql ? toDcqlQuery(template) : toPresentationDefinition(template);
+
+  return {
+    document: {
+      response_type: 'vp_token',
+      client_id: CLIENT_ID_PLACEHOLDER,
+      response_mode: 'direct_post',
+      response_uri: RESPONSE_URI_PLACEHOLDER,
+      nonce: NONCE_PLACEHOLDER,
+      ...(useDcql
+        ? { dcql_query: query.document as DcqlQuery }
+        : { presentation_definition: query.document as PresentationDefinition }),
+    },
+    warnings: query.warnings,
+    errors: query.errors,
+  };
+}
+
+// ============================================================================
+// AnonCreds
+// ============================================================================
+
+/**
+ * Random 80-bit decimal nonce, as AnonCreds requires
+ */
+export function generateAnonCredsNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  return bytes.reduce((n, byte) => n * 256n + BigInt(byte), 0n).toString();
+}
+
+// Orbit restriction keys in AnonCreds spelling; attr::<name>::value keys are shared
+function toAnonCredsRestriction(restriction: OrbitRestriction): AnonCredsRestriction {
+  const { schemaId, credentialDefinitionId, issuerDid, ...attributeValues } = restriction;
+  return {
+    ...(schemaId && { schema_id: schemaId }),
+    ...(credentialDefinitionId && { cred_def_id: credentialDefinitionId }),
+    ...(issuerDid && { issuer_did: issuerDid }),
+    ...attributeValues,
+  };
+}
+
+/**
+ * AnonCreds proof_request, built from the compiled template. Attributes of
+ * one credential are grouped in a single referent so they must come from the
+ * same credential.
+ */
+export function toAnonCredsProofRequest(
+  template: ProofTemplate,
+  nonce: string = generateAnonCredsNonce()
+): ProofExportResult & { document: AnonCredsProofRequest } {
+  const { credentials, issues } = compileProofTemplate(template);
+  const warnings = issues.filter((issue) => issue.severity === 'warning').map((issue) => issue.message);
+  const errors = issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message);
+  if (template.credentialFormat !== 'anoncreds') {
+    warnings.unshift(`${template.credentialFormat} credentials cannot answer an AnonCreds proof request`);
+  }
+
+  const request: AnonCredsProofRequest = {
+    name: template.name,
+    version: template.version || '1.0',
+    nonce,
+    requested_attributes: {},
+    requested_predicates: {},
+  };
+
+  const referents = credentialQueryIds(credentials.map((compiled) => compiled.credential));
+  credentials.forEach((compiled, index) => {
+    const referent = referents[index];
+    const restrictions = compiled.restrictions.map(toAnonCredsRestriction);
+
+    if (compiled.attributes.length > 0) {
+      request.requested_attributes[`${referent}_attributes`] = { names: compiled.attributes, restrictions };
+    }
+    compiled.predicates.forEach((predicate, p) => {
+      request.requested_predicates[`${referent}_predicate_${p + 1}`] = {
+        name: predicate.attributeName,
+        p_type: predicate.pType,
+        p_value: predicate.pValue,
+        restrictions,
+      };
+    });
+  });
+
+  return { document: request, warnings, errors };
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Export a template in the chosen format. The 'template' format is the
+ * template's own JSON, produced by the caller.
+ */
+export function exportProofTemplate(
+  template: ProofTemplate,
+  format: Exclude<ProofExportFormat, 'template'>,
+  options: { nonce?: string } = {}
+): ProofExportResult {
+  switch (format) {
+    case 'orbit': {
+      const { issues } = compileProofTemplate(template);
+      return {
+        document: toOrbitProofRequest(template),
+        warnings: issues.filter((issue) => issue.severity === 'warning').map((issue) => issue.message),
+        errors: issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message),
+      };
+    }
+    case 'presentation-exchange':
+      return toPresentationDefinition(template);
+    case 'openid4vp':
+      return toOpenId4VpRequest(template);
+    case 'anoncreds':
+      return toAnonCredsProofRequest(template, options.nonce);
+  }
+}
+
+/**
+ * What each output the template can be exported to cannot express, for the
+ * validation report. Orbit requests are compiled like AnonCreds requests.
+ */
+export function validateProofTemplate(template: ProofTemplate): { format: ProofExportFormat; label: string; issues: ProofTemplateIssue[] }[] {
+  return PROOF_EXPORT_OPTIONS.filter(
+    (option) => option.value !== 'template' && option.formats.includes(template.credentialFormat)
+  ).map((option) => {
+    if (option.value === 'orbit' || option.value === 'anoncreds') {
+      return { format: option.value, label: option.label, issues: compileProofTemplate(template).issues };
+    }
+    const { warnings, errors } = exportProofTemplate(template, option.value as Exclude<ProofExportFormat, 'template'>);
+    return {
+      format: option.value,
+      label: option.label,
+      issues: [
+        ...errors.map((message): ProofTemplateIssue => ({ severity: 'error', message })),
+        ...warnings.map((message): ProofTemplateIssue => ({ severity: 'warning', message })),
+      ],
+    };
+  });
+}
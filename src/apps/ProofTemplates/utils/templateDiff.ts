@@ -0,0 +1,201 @@
+/**
+ * Proof Template Diff
+ *
+ * Structured comparison of two versions of a proof template: template fields,
+ * and requested credentials added, removed or changed down to individual
+ * attributes and predicates. Credentials and predicates are matched by ID
+ * (new versions keep the IDs of their predecessor), falling back to the
+ * catalogue credential / attribute and operator; attributes by name.
+ */
+
+import type {
+  Predicate,
+  ProofTemplate,
+  RequestedAttribute,
+  RequestedCredential,
+} from '../../../types/proofTemplate';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  kind: ChangeKind;
+  path: string;                   // e.g. "metadata.tags", "attributes.birthdate.required"
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface CredentialDiff {
+  kind: ChangeKind;
+  credentialName: string;
+  changes: FieldChange[];         // Field-level changes, only for 'changed'
+}
+
+export interface ProofTemplateDiff {
+  fromVersion: string;
+  toVersion: string;
+  fields: FieldChange[];          // Template-level changes
+  credentials: CredentialDiff[];
+  changeCount: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isSame = (a: unknown, b: unknown) =>
+  (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Compare values read from both sides; unset-to-set is 'added', set-to-unset 'removed'
+ */
+function compareValues(
+  entries: [path: string, before: unknown, after: unknown][]
+): FieldChange[] {
+  return entries
+    .filter(([, before, after]) => !isSame(before, after))
+    .map(([path, before, after]): FieldChange => ({
+      kind: isEmpty(before) ? 'added' : isEmpty(after) ? 'removed' : 'changed',
+      path,
+      ...(!isEmpty(before) && { before }),
+      ...(!isEmpty(after) && { after }),
+    }));
+}
+
+/**
+ * Pair items from two lists by key, in the order of the newer list
+ */
+function pairBy<T>(
+  before: T[],
+  after: T[],
+  keys: ((item: T) => string)[]
+): { removed: T[]; added: T[]; matched: [T, T][] } {
+  const remaining = [...before];
+  const matched: [T, T][] = [];
+  const added: T[] = [];
+
+  for (const item of after) {
+    let index = -1;
+    for (const key of keys) {
+      index = remaining.findIndex((candidate) => key(candidate) === key(item));
+      if (index !== -1) break;
+    }
+    if (index === -1) {
+      added.push(item);
+    } else {
+      matched.push([remaining[index], item]);
+      remaining.splice(index, 1);
+    }
+  }
+
+  return { removed: remaining, added, matched };
+}
+
+/**
+ * Order "major.minor.patch" versions; missing or non-numeric parts count as 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const parts = (version || '').split('.');
+    return [0, 1, 2].map((i) => parseInt(parts[i], 10) || 0);
+  };
+  const [left, right] = [parse(a), parse(b)];
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+}
+
+const predicateLabel = (predicate: Predicate) =>
+  `${predicate.attributeName} ${predicate.operator} ${predicate.value}`;
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function diffAttribute(before: RequestedAttribute, after: RequestedAttribute): FieldChange[] {
+  const prefix = `attributes.${after.attributeName}`;
+  return compareValues([
+    [`${prefix}.label`, before.label, after.label],
+    [`${prefix}.required`, before.required, after.required],
+    [`${prefix}.revealValue`, before.selectiveDisclosure.revealValue, after.selectiveDisclosure.revealValue],
+    [`${prefix}.constraints`, before.constraints, after.constraints],
+  ]);
+}
+
+function diffPredicate(before: Predicate, after: Predicate): FieldChange[] {
+  const prefix = `predicates.${after.attributeName}`;
+  return compareValues([
+    [`${prefix}.label`, before.label, after.label],
+    [`${prefix}.predicateType`, before.predicateType, after.predicateType],
+    [`${prefix}.operator`, before.operator, after.operator],
+    [`${prefix}.value`, before.value, after.value],
+    [`${prefix}.revealResult`, before.revealResult, after.revealResult],
+  ]);
+}
+
+function diffCredential(before: RequestedCredential, after: RequestedCredential): FieldChange[] {
+  const changes = compareValues([
+    ['credentialName', before.credentialName, after.credentialName],
+    ['restrictions.schemaId', before.restrictions.schemaId, after.restrictions.schemaId],
+    ['restrictions.credentialDefinitionId', before.restrictions.credentialDefinitionId, after.restrictions.credentialDefinitionId],
+    ['restrictions.issuerDid', before.restrictions.issuerDid, after.restrictions.issuerDid],
+    ['dateEncoding', before.dateEncoding || 'yyyymmdd', after.dateEncoding || 'yyyymmdd'],
+    ['groupId', before.groupId, after.groupId],
+  ]);
+
+  const attributes = pairBy(before.requestedAttributes, after.requestedAttributes, [(a) => a.attributeName]);
+  changes.push(
+    ...attributes.removed.map((a): FieldChange => ({ kind: 'removed', path: `attributes.${a.attributeName}`, before: a.label })),
+    ...attributes.added.map((a): FieldChange => ({ kind: 'added', path: `attributes.${a.attributeName}`, after: a.label })),
+    ...attributes.matched.flatMap(([b, a]) => diffAttribute(b, a))
+  );
+
+  const predicates = pairBy(before.predicates, after.predicates, [
+    (p) => p.id,
+    (p) => `${p.attributeName} ${p.operator}`,
+  ]);
+  changes.push(
+    ...predicates.removed.map((p): FieldChange => ({ kind: 'removed', path: `predicates.${p.attributeName}`, before: predicateLabel(p) })),
+    ...predicates.added.map((p): FieldChange => ({ kind: 'added', path: `predicates.${p.attributeName}`, after: predicateLabel(p) })),
+    ...predicates.matched.flatMap(([b, a]) => diffPredicate(b, a))
+  );
+
+  return changes;
+}
+
+/**
+ * Changes from one template version to another (usually its predecessor to it)
+ */
+export function diffProofTemplates(from: ProofTemplate, to: ProofTemplate): ProofTemplateDiff {
+  const fields = compareValues([
+    ['name', from.name, to.name],
+    ['description', from.description, to.description],
+    ['credentialFormat', from.credentialFormat, to.credentialFormat],
+    ['metadata.ecosystemTag', from.metadata.ecosystemTag, to.metadata.ecosystemTag],
+    ['metadata.category', from.metadata.category, to.metadata.category],
+    ['metadata.tags', from.metadata.tags, to.metadata.tags],
+    ['credentialGroups', from.credentialGroups, to.credentialGroups],
+  ]);
+
+  const paired = pairBy(from.requestedCredentials, to.requestedCredentials, [
+    (c) => c.id,
+    (c) => c.catalogueCredentialId,
+  ]);
+  const credentials: CredentialDiff[] = [
+    ...paired.removed.map((c): CredentialDiff => ({ kind: 'removed', credentialName: c.credentialName, changes: [] })),
+    ...paired.added.map((c): CredentialDiff => ({ kind: 'added', credentialName: c.credentialName, changes: [] })),
+    ...paired.matched
+      .map(([b, a]): CredentialDiff => ({ kind: 'changed', credentialName: a.credentialName, changes: diffCredential(b, a) }))
+      .filter((diff) => diff.changes.length > 0),
+  ];
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    fields,
+    credentials,
+    changeCount:
+      fields.length +
+      credentials.reduce((sum, diff) => sum + (diff.kind === 'changed' ? diff.changes.length : 1), 0),
+  };
+}
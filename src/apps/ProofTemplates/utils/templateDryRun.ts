@@ -0,0 +1,297 @@
+/**
+ * Proof Template Dry Run
+ *
+ * Evaluates a ProofTemplate against sample credentials locally, without a
+ * wallet: for each RequestedCredential, which sample would be presented,
+ * whether its restrictions and value constraints match, which attributes
+ * would be disclosed, and the outcome of each predicate. Credential groups are
+ * satisfied by their minimum number of members. Pure functions, so templates
+ * can also be checked from automated tests.
+ */
+
+import type { PresentedCredential } from '../../../types/verifier';
+import type {
+  DateEncoding,
+  Predicate,
+  ProofTemplate,
+  RequestedAttribute,
+  RequestedCredential,
+} from '../../../types/proofTemplate';
+import { encodeDate, getAcceptedValues, resolveCredentialGroups } from '../../../types/proofTemplate';
+
+/**
+ * A sample credential: the attributes a wallet would present, plus the
+ * identifiers restrictions are checked against
+ */
+export interface DryRunCredential extends PresentedCredential {
+  schemaId?: string;
+  credentialDefinitionId?: string;
+}
+
+// 'unknown' when the sample does not say, so attribute-only samples still evaluate
+export type RestrictionOutcome = 'match' | 'mismatch' | 'unknown';
+
+export interface RestrictionCheck {
+  field: 'schemaId' | 'credentialDefinitionId' | 'issuerDid';
+  expected: string;
+  actual?: string;
+  outcome: RestrictionOutcome;
+}
+
+export interface AttributeOutcome {
+  attributeName: string;
+  present: boolean;
+  disclosed: boolean;             // Value revealed to the verifier
+  value?: string;
+  constraintMet?: boolean;        // Only for attributes with value constraints
+  satisfied: boolean;
+}
+
+export interface PredicateOutcome {
+  predicateId: string;
+  attributeName: string;
+  operator: Predicate['operator'];
+  expected: number | string;
+  actual?: string;
+  result: boolean;
+  reason?: string;
+}
+
+export interface CandidateEvaluation {
+  sampleId: string;
+  satisfied: boolean;
+  restrictions: RestrictionCheck[];
+  attributes: AttributeOutcome[];
+  predicates: PredicateOutcome[];
+}
+
+export interface RequestedCredentialOutcome {
+  requestedCredentialId: string;
+  credentialName: string;
+  groupId?: string;                  // Set when the credential is one of a group of alternatives
+  satisfied: boolean;
+  selected?: CandidateEvaluation;    // The satisfying sample, or the closest one
+  candidates: CandidateEvaluation[];
+}
+
+export interface CredentialGroupOutcome {
+  groupId: string;
+  name: string;
+  minimum: number;
+  satisfiedCount: number;
+  satisfied: boolean;
+}
+
+export interface DryRunResult {
+  satisfied: boolean;
+  credentials: RequestedCredentialOutcome[];
+  groups: CredentialGroupOutcome[];
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function checkRestrictions(requested: RequestedCredential, sample: DryRunCredential): RestrictionCheck[] {
+  const checks: RestrictionCheck[] = [];
+  const actualValues = {
+    schemaId: sample.schemaId,
+    credentialDefinitionId: sample.credentialDefinitionId,
+    issuerDid: sample.issuerDid,
+  };
+  for (const field of ['schemaId', 'credentialDefinitionId', 'issuerDid'] as const) {
+    const expected = requested.restrictions[field];
+    if (!expected) continue;
+    const actual = actualValues[field];
+    checks.push({
+      field,
+      expected,
+      actual,
+      outcome: actual === undefined ? 'unknown' : actual === expected ? 'match' : 'mismatch',
+    });
+  }
+  return checks;
+}
+
+/**
+ * Check an attribute against its value constraints. With exactMatch, values are
+ * compared as the compiled attr::<name>::value restrictions compare them,
+ * whatever the constraint's caseSensitive setting.
+ */
+function checkAttribute(attribute: RequestedAttribute, sample: DryRunCredential, exactMatch: boolean): AttributeOutcome {
+  const value = sample.attributes[attribute.attributeName];
+  const present = value !== undefined && value !== null && value !== '';
+  let constraintMet: boolean | undefined;
+
+  const accepted = getAcceptedValues(attribute.constraints);
+  if (attribute.constraints && accepted.length > 0) {
+    const caseSensitive = exactMatch || attribute.constraints.caseSensitive;
+    const normalize = (v: string) => (caseSensitive ? v : v.toLowerCase());
+    constraintMet = present && accepted.map(normalize).includes(normalize(String(value)));
+  }
+
+  return {
+    attributeName: attribute.attributeName,
+    present,
+    disclosed: present && attribute.selectiveDisclosure.revealValue,
+    ...(present && { value: String(value) }),
+    ...(constraintMet !== undefined && { constraintMet }),
+    satisfied: (present || !attribute.required) && constraintMet !== false,
+  };
+}
+
+/**
+ * Numeric value of a date, whether the sample holds an ISO date or an
+ * already-encoded integer
+ */
+const dateValue = (value: string, encoding: DateEncoding | undefined): number | null =>
+  /^-?\d+$/.test(value.trim()) ? Number(value) : encodeDate(value, encoding);
+
+function checkPredicate(predicate: Predicate, sample: DryRunCredential, encoding: DateEncoding | undefined): PredicateOutcome {
+  const base = {
+    predicateId: predicate.id,
+    attributeName: predicate.attributeName,
+    operator: predicate.operator,
+    expected: predicate.value,
+  };
+  const raw = sample.attributes[predicate.attributeName];
+  if (raw === undefined || raw === null || raw === '') {
+    return { ...base, result: false, reason: 'Attribute not in the credential' };
+  }
+
+  const isDate = predicate.predicateType === 'date';
+  const actual = isDate ? dateValue(String(raw), encoding) : Number(raw);
+  const expected = isDate ? dateValue(String(predicate.value), encoding) : Number(predicate.value);
+  if (actual === null || Number.isNaN(actual)) {
+    return { ...base, actual: String(raw), result: false, reason: isDate ? 'Not a date' : 'Not a number' };
+  }
+  if (expected === null || Number.isNaN(expected)) {
+    return { ...base, actual: String(raw), result: false, reason: 'The predicate value is invalid' };
+  }
+
+  const result = {
+    '>': actual > expected,
+    '>=': actual >= expected,
+    '<': actual < expected,
+    '<=': actual <= expected,
+    '==': actual === expected,
+    '!=': actual !== expected,
+  }[predicate.operator];
+
+  return { ...base, actual: String(raw), result };
+}
+
+function evaluateCandidate(requested: RequestedCredential, sample: DryRunCredential, exactMatch: boolean): CandidateEvaluation {
+  const restrictions = checkRestrictions(requested, sample);
+  const attributes = requested.requestedAttributes.map((attribute) => checkAttribute(attribute, sample, exactMatch));
+  const predicates = requested.predicates.map((predicate) => checkPredicate(predicate, sample, requested.dateEncoding));
+
+  return {
+    sampleId: sample.credentialId,
+    satisfied:
+      restrictions.every((check) => check.outcome !== 'mismatch') &&
+      attributes.every((attribute) => attribute.satisfied) &&
+      predicates.every((predicate) => predicate.result),
+    restrictions,
+    attributes,
+    predicates,
+  };
+}
+
+// Fewer failed checks is closer; used to pick the sample to report when none satisfies
+const failureCount = (candidate: CandidateEvaluation): number =>
+  candidate.restrictions.filter((check) => check.outcome === 'mismatch').length * 100 +
+  candidate.attributes.filter((attribute) => !attribute.satisfied).length +
+  candidate.predicates.filter((predicate) => !predicate.result).length;
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate a template against sample credentials. A sample may answer more
+ * than one requested credential, as a wallet may present it for several.
+ * AnonCreds value constraints are matched exactly, as the compiled request
+ * matches them; other formats honour the constraint's caseSensitive setting.
+ */
+export function dryRunProofTemplate(template: ProofTemplate, samples: DryRunCredential[]): DryRunResult {
+  const { required, groups: resolvedGroups } = resolveCredentialGroups(template);
+  const groupIds = new Set(resolvedGroups.map(({ group }) => group.id));
+  const exactMatch = template.credentialFormat === 'anoncreds';
+
+  const credentials = template.requestedCredentials.map((requested, index): RequestedCredentialOutcome => {
+    const candidates = samples.map((sample) => evaluateCandidate(requested, sample, exactMatch));
+    const selected =
+      candidates.find((candidate) => candidate.satisfied) ||
+      [...candidates].sort((a, b) => failureCount(a) - failureCount(b))[0];
+
+    return {
+      requestedCredentialId: requested.id,
+      credentialName: requested.credentialName || `Credential ${index + 1}`,
+      ...(requested.groupId && groupIds.has(requested.groupId) && { groupId: requested.groupId }),
+      satisfied: !!selected?.satisfied,
+      selected,
+      candidates,
+    };
+  });
+
+  const isSatisfied = (id: string) => credentials.some((c) => c.requestedCredentialId === id && c.satisfied);
+  const groups = resolvedGroups.map(({ group, credentials: members, minimum }): CredentialGroupOutcome => {
+    const satisfiedCount = members.filter((member) => isSatisfied(member.id)).length;
+    return { groupId: group.id, name: group.name, minimum, satisfiedCount, satisfied: satisfiedCount >= minimum };
+  });
+
+  return {
+    satisfied: required.every((credential) => isSatisfied(credential.id)) && groups.every((group) => group.satisfied),
+    credentials,
+    groups,
+  };
+}
+
+// ============================================================================
+// Samples
+// ============================================================================
+
+// Step from the predicate value to a value that passes it
+const PASSING_OFFSET: Record<Predicate['operator'], number> = { '>': 1, '>=': 0, '<': -1, '<=': 0, '==': 0, '!=': 1 };
+
+/**
+ * A value that passes a predicate (ISO dates stay ISO dates)
+ */
+function passingPredicateValue(predicate: Predicate): string {
+  const offset = PASSING_OFFSET[predicate.operator];
+  if (predicate.predicateType === 'date') {
+    const date = new Date(`${predicate.value}T00:00:00Z`);
+    if (Number.isNaN(date.getTime())) return String(predicate.value);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return date.toISOString().slice(0, 10);
+  }
+  return String((Number(predicate.value) || 0) + offset);
+}
+
+/**
+ * One sample credential per requested credential that satisfies the
+ * template, as a starting point for editing
+ */
+export function sampleCredentialsForTemplate(template: ProofTemplate): DryRunCredential[] {
+  return template.requestedCredentials.map((requested, index) => {
+    const attributes: Record<string, string> = {};
+    for (const attribute of requested.requestedAttributes) {
+      attributes[attribute.attributeName] =
+        getAcceptedValues(attribute.constraints)[0] || `sample ${attribute.attributeName}`;
+    }
+    for (const predicate of requested.predicates) {
+      attributes[predicate.attributeName] = passingPredicateValue(predicate);
+    }
+
+    const { schemaId, credentialDefinitionId, issuerDid } = requested.restrictions;
+    return {
+      credentialId: `sample-${index + 1}`,
+      credentialName: requested.credentialName,
+      attributes,
+      ...(schemaId && { schemaId }),
+      ...(credentialDefinitionId && { credentialDefinitionId }),
+      ...(issuerDid && { issuerDid }),
+    };
+  });
+}
@@ -5,10 +5,12 @@ import SchemaToolbar from './components/SchemaToolbar';
 import SchemaInfoTab from './components/SchemaInfoTab';
 import PropertiesTab from './components/PropertiesTab';
 import SchemaJsonPreview from './components/SchemaJsonPreview';
+import SampleValidatorPanel from './components/SampleValidatorPanel';
 import NewSchemaModal from './components/NewSchemaModal';
 import SchemaList from './components/SchemaList';
 
 type SchemaTab = 'info' | 'properties';
+type PreviewTab = 'json' | 'sample';
 
 // Resizable divider component
 function ResizableDivider({ onDrag }: { onDrag: (delta: number) => void }) {
@@ -60,6 +62,7 @@ export default function SchemaBuilderApp() {
   useAppTracking('schema-builder', 'Schema Builder');
 
   const [activeTab, setActiveTab] = useState<SchemaTab>('info');
+  const [previewTab, setPreviewTab] = useState<PreviewTab>('json');
   const [showNewModal, setShowNewModal] = useState(false);
 
   // Panel width for resizable layout (in pixels)
@@ -168,13 +171,24 @@ export default function SchemaBuilderApp() {
 
       {/* Right Panel - JSON Preview */}
       <div className="flex-1 bg-gray-900 flex flex-col overflow-hidden">
-        <div className="bg-gray-800 px-4 py-2 border-b border-gray-700">
-          <h2 className="text-white font-medium text-sm">
-            JSON Schema Preview
-          </h2>
+        <div className="bg-gray-800 px-4 py-2 border-b border-gray-700 flex items-center gap-4">
+          {([
+            { id: 'json', label: 'JSON Schema Preview' },
+            { id: 'sample', label: 'Validate Sample' },
+          ] as { id: PreviewTab; label: string }[]).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setPreviewTab(tab.id)}
+              className={`font-medium text-sm transition-colors ${
+                previewTab === tab.id ? 'text-white' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
         <div className="flex-1 overflow-hidden">
-          <SchemaJsonPreview />
+          {previewTab === 'json' ? <SchemaJsonPreview /> : <SampleValidatorPanel />}
         </div>
       </div>
     </>
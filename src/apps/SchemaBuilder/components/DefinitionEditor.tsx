@@ -0,0 +1,110 @@
+/**
+ * DefinitionEditor Component
+ *
+ * Edits a reusable definition: its $defs key, title and description.
+ * Its properties are edited through the tree like any other property.
+ */
+
+import { useSchemaStore } from '../../../store/schemaStore';
+import { SchemaProperty, toDefinitionName } from '../../../types/schema';
+
+interface DefinitionEditorProps {
+  definitionId: string;
+}
+
+// Count properties (at any depth) that reference the definition
+const countReferences = (props: SchemaProperty[], definitionId: string): number =>
+  props.reduce(
+    (total, prop) =>
+      total +
+      (prop.definitionId === definitionId ? 1 : 0) +
+      countReferences(prop.properties || [], definitionId) +
+      (prop.items ? countReferences([prop.items], definitionId) : 0),
+    0
+  );
+
+export default function DefinitionEditor({ definitionId }: DefinitionEditorProps) {
+  const { properties, definitions, updateDefinition, addProperty } = useSchemaStore();
+
+  const definition = definitions.find((def) => def.id === definitionId);
+  if (!definition) return null;
+
+  const usage =
+    countReferences(properties, definition.id) +
+    definitions.reduce((total, def) => total + countReferences(def.properties, definition.id), 0);
+  const isDuplicateName = definitions.some((def) => def.id !== definition.id && def.name === definition.name);
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Name */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Definition Name ($defs key)
+        </label>
+        <input
+          type="text"
+          value={definition.name}
+          onChange={(e) => updateDefinition(definition.id, { name: toDefinitionName(e.target.value) })}
+          placeholder="e.g., PostalAddress"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+        />
+        {(!definition.name || isDuplicateName) && (
+          <p className="text-xs text-red-600 mt-1">
+            {definition.name ? 'Another definition already uses this name.' : 'A name is required.'}
+          </p>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          Referenced as <code>#/$defs/{definition.name || '…'}</code>
+        </p>
+      </div>
+
+      {/* Title */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Title
+        </label>
+        <input
+          type="text"
+          value={definition.title}
+          onChange={(e) => updateDefinition(definition.id, { title: e.target.value })}
+          placeholder="e.g., Postal Address"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Description */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Description
+        </label>
+        <textarea
+          value={definition.description || ''}
+          onChange={(e) => updateDefinition(definition.id, { description: e.target.value })}
+          placeholder="Describe this definition..."
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+        />
+      </div>
+
+      <div className="border-t pt-4">
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Properties</h4>
+        <div className="bg-gray-50 p-3 rounded-md space-y-1">
+          <p className="text-sm text-gray-600">
+            {definition.properties.length} properties · used by {usage} propert{usage === 1 ? 'y' : 'ies'}
+          </p>
+          {definition.vocabTypeId && (
+            <p className="text-xs text-purple-600">
+              Created from Data Dictionary type <code>{definition.vocabTypeId}</code>
+            </p>
+          )}
+          <button
+            onClick={() => addProperty(definition.id)}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            + Add property
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * ImportSchemaModal Component
+ *
+ * Imports an external schema into a new Schema Builder project: a pasted or
+ * uploaded JSON Schema (draft-07 / 2020-12), OCA bundle or AnonCreds schema,
+ * or an AnonCreds credential from the Credential Catalogue. Shows what was
+ * imported and which constructs could not be represented before applying it.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSchemaStore } from '../../../store/schemaStore';
+import type { CatalogueCredential } from '../../../types/catalogue';
+import {
+  detectImportFormat,
+  importAnonCredsSchema,
+  importCatalogueCredential,
+  importJsonSchema,
+  importOcaBundle,
+  ImportFormat,
+  IMPORT_FORMAT_LABELS,
+  SchemaImportResult,
+} from '../utils/schemaImporters';
+
+interface ImportSchemaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportSource = 'document' | 'catalogue';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+const IMPORTERS: Record<ImportFormat, (doc: unknown) => SchemaImportResult> = {
+  'json-schema': importJsonSchema,
+  oca: importOcaBundle,
+  anoncreds: importAnonCredsSchema,
+};
+
+export default function ImportSchemaModal({ isOpen, onClose }: ImportSchemaModalProps) {
+  const [source, setSource] = useState<ImportSource>('document');
+  const [documentText, setDocumentText] = useState('');
+  const [formatOverride, setFormatOverride] = useState<ImportFormat | ''>('');
+  const [credentials, setCredentials] = useState<CatalogueCredential[]>([]);
+  const [credentialsError, setCredentialsError] = useState<string | null>(null);
+  const [selectedCredentialId, setSelectedCredentialId] = useState('');
+
+  const isDirty = useSchemaStore((state) => state.isDirty);
+  const loadImportedSchema = useSchemaStore((state) => state.loadImportedSchema);
+
+  useEffect(() => {
+    if (!isOpen || source !== 'catalogue' || credentials.length > 0) return;
+    fetch(`${API_BASE}/api/credential-catalogue`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error('Failed to load the Credential Catalogue'))))
+      .then((data: CatalogueCredential[]) => setCredentials(data.filter((c) => c.credentialFormat === 'anoncreds')))
+      .catch((err) => setCredentialsError(err instanceof Error ? err.message : 'Failed to load the Credential Catalogue'));
+  }, [isOpen, source, credentials.length]);
+
+  // Parse on every change so the report updates while pasting
+  const preview = useMemo<{ result?: SchemaImportResult; error?: string; detected?: ImportFormat }>(() => {
+    try {
+      if (source === 'catalogue') {
+        const credential = credentials.find((c) => c.id === selectedCredentialId);
+        return credential ? { result: importCatalogueCredential(credential) } : {};
+      }
+      if (!documentText.trim()) return {};
+      const doc = JSON.parse(documentText);
+      const detected = detectImportFormat(doc);
+      return { result: IMPORTERS[formatOverride || detected](doc), detected };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [source, documentText, formatOverride, credentials, selectedCredentialId]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setDocumentText(await file.text());
+    setFormatOverride('');
+  };
+
+  const handleClose = () => {
+    setDocumentText('');
+    setFormatOverride('');
+    setSelectedCredentialId('');
+    onClose();
+  };
+
+  const handleImport = () => {
+    const result = preview.result;
+    if (!result) return;
+    if (isDirty && !confirm('You have unsaved changes. Import anyway?')) return;
+    loadImportedSchema(result.metadata, result.properties, result.metadata.title || 'Imported');
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  const countProperties = (props: SchemaImportResult['properties']): number =>
+    props.reduce((total, prop) => total + 1 + countProperties(prop.properties || []), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[640px] max-w-[90vw] max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Import Schema</h3>
+            <p className="text-sm text-gray-500">Start a new project from an existing schema</p>
+          </div>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-700">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {/* Source */}
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { value: 'document', label: 'Paste or upload', description: 'JSON Schema, OCA bundle or AnonCreds schema' },
+              { value: 'catalogue', label: 'Credential Catalogue', description: 'AnonCreds attribute list' },
+            ] as { value: ImportSource; label: string; description: string }[]).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setSource(option.value)}
+                className={`p-3 text-left border-2 rounded-lg transition-colors ${
+                  source === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <p className="text-sm font-medium text-gray-800">{option.label}</p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {source === 'document' ? (
+            <div className="space-y-2">
+              <textarea
+                value={documentText}
+                onChange={(e) => setDocumentText(e.target.value)}
+                rows={10}
+                placeholder="Paste a JSON document..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono"
+                spellCheck={false}
+              />
+              <div className="flex items-center gap-3">
+                <label className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 cursor-pointer">
+                  Upload file
+                  <input
+                    type="file"
+                    accept=".json,.jsonld,application/json"
+                    className="hidden"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                  />
+                </label>
+                <select
+                  value={formatOverride}
+                  onChange={(e) => setFormatOverride(e.target.value as ImportFormat | '')}
+                  className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">
+                    Detect format{preview.detected ? ` (${IMPORT_FORMAT_LABELS[preview.detected]})` : ''}
+                  </option>
+                  {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map((format) => (
+                    <option key={format} value={format}>{IMPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <div>
+              {credentialsError && <p className="text-sm text-red-600 mb-2">{credentialsError}</p>}
+              <select
+                value={selectedCredentialId}
+                onChange={(e) => setSelectedCredentialId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+              >
+                <option value="">Select a credential...</option>
+                {credentials.map((credential) => (
+                  <option key={credential.id} value={credential.id}>
+                    {credential.name} {credential.version} ({credential.attributes.length} attributes)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Report */}
+          {preview.error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{preview.error}</p>
+            </div>
+          )}
+          {preview.result && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm space-y-2">
+              <p className="text-gray-700">
+                <span className="font-medium">{IMPORT_FORMAT_LABELS[preview.result.format]}</span>
+                {preview.result.metadata.title && <> · {preview.result.metadata.title}</>} ·{' '}
+                {countProperties(preview.result.properties)} properties
+              </p>
+              {preview.result.unsupported.length === 0 ? (
+                <p className="text-green-700 text-xs">Everything in this document can be represented.</p>
+              ) : (
+                <div>
+                  <p className="text-amber-700 text-xs font-medium mb-1">
+                    {preview.result.unsupported.length} construct{preview.result.unsupported.length !== 1 ? 's' : ''} could not be represented:
+                  </p>
+                  <ul className="text-xs text-gray-600 space-y-0.5 max-h-40 overflow-y-auto font-mono">
+                    {preview.result.unsupported.map((message, i) => (
+                      <li key={i}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview.result}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,16 +4,21 @@
  * Tab 2 of the Schema Builder - contains property management:
  * - PropertyTree (list of credential properties) - LEFT column
  * - PropertyEditor (edit selected property) - RIGHT column
+ *   or DefinitionEditor when a $defs definition is selected
  *
  * Two-column layout with clear visual hierarchy.
  */
 
 import PropertyTree from './PropertyTree';
 import PropertyEditor from './PropertyEditor';
+import DefinitionEditor from './DefinitionEditor';
 import { useSchemaStore } from '../../../store/schemaStore';
 
 export default function PropertiesTab() {
   const selectedPropertyId = useSchemaStore((state) => state.selectedPropertyId);
+  const isDefinitionSelected = useSchemaStore((state) =>
+    state.definitions.some((def) => def.id === state.selectedPropertyId)
+  );
 
   return (
     <div className="h-full flex flex-col overflow-hidden">
@@ -32,10 +37,14 @@ export default function PropertiesTab() {
         {/* Right Column - Property Editor */}
         <div className="w-1/2 flex flex-col overflow-hidden bg-white">
           <div className="px-3 py-2 bg-gray-50 border-b border-gray-200">
-            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Property Details</h3>
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+              {isDefinitionSelected ? 'Definition Details' : 'Property Details'}
+            </h3>
           </div>
           <div className="flex-1 overflow-y-auto">
-            {selectedPropertyId ? (
+            {selectedPropertyId && isDefinitionSelected ? (
+              <DefinitionEditor definitionId={selectedPropertyId} />
+            ) : selectedPropertyId ? (
               <PropertyEditor />
             ) : (
               <div className="h-full flex items-center justify-center p-4 text-center text-gray-500">
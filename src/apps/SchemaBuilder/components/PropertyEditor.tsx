@@ -6,7 +6,7 @@ import {
 } from '../../../types/schema';
 
 export default function PropertyEditor() {
-  const { properties, selectedPropertyId, updateProperty } = useSchemaStore();
+  const { properties, definitions, selectedPropertyId, updateProperty, extractDefinition, selectProperty } = useSchemaStore();
 
   // Find selected property recursively
   const findProperty = (props: SchemaProperty[], id: string): SchemaProperty | null => {
@@ -24,8 +24,11 @@ export default function PropertyEditor() {
     return null;
   };
 
+  // Definition properties are edited here too
   const selectedProperty = selectedPropertyId
-    ? findProperty(properties, selectedPropertyId)
+    ? findProperty(properties, selectedPropertyId) ||
+      definitions.map((def) => findProperty(def.properties, selectedPropertyId)).find(Boolean) ||
+      null
     : null;
 
   if (!selectedProperty) {
@@ -45,6 +48,67 @@ export default function PropertyEditor() {
     updateProperty(selectedProperty.id, updates);
   };
 
+  // Switch an object shape between inline properties and a definition reference
+  const handleStructureChange = (shape: SchemaProperty, definitionId: string, apply: (updated: SchemaProperty) => void) => {
+    if (definitionId && (shape.properties?.length || 0) > 0 &&
+        !confirm('Replace the inline properties with the definition? Use "Save as definition" to keep them.')) {
+      return;
+    }
+    apply({ ...shape, definitionId: definitionId || undefined, properties: definitionId ? [] : shape.properties || [] });
+  };
+
+  const renderStructure = (shape: SchemaProperty, apply: (updated: SchemaProperty) => void) => {
+    const definition = definitions.find((def) => def.id === shape.definitionId);
+    return (
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Structure</label>
+          <select
+            value={shape.definitionId || ''}
+            onChange={(e) => handleStructureChange(shape, e.target.value, apply)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="">Inline properties</option>
+            {definitions.map((def) => (
+              <option key={def.id} value={def.id}>
+                $ref: {def.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {definition ? (
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-gray-600">
+              Uses <code className="text-purple-700">#/$defs/{definition.name}</code> ({definition.properties.length} properties)
+            </p>
+            <button
+              onClick={() => selectProperty(definition.id)}
+              className="text-xs text-purple-600 hover:text-purple-800 mt-1"
+            >
+              Edit definition
+            </button>
+          </div>
+        ) : (
+          <div className="bg-gray-50 p-3 rounded-md">
+            <p className="text-sm text-gray-600">
+              {shape.properties?.length || 0} nested properties
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Add and configure nested properties using the tree view
+            </p>
+            <button
+              onClick={() => extractDefinition(selectedProperty.id)}
+              className="text-xs text-purple-600 hover:text-purple-800 mt-1"
+              title="Move these properties into a reusable $defs definition"
+            >
+              Save as definition
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="p-4 space-y-4">
       {/* Property Name */}
@@ -126,13 +190,39 @@ export default function PropertyEditor() {
         <div className="border-t pt-4">
           <h4 className="text-sm font-semibold text-gray-700 mb-2">Array Items</h4>
           <div className="bg-gray-50 p-3 rounded-md">
-            <p className="text-sm text-gray-600">
-              Array items type: <strong>{PROPERTY_TYPE_LABELS[selectedProperty.items.type]}</strong>
-            </p>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Array items type</label>
+            <select
+              value={selectedProperty.items.type}
+              onChange={(e) => {
+                const type = e.target.value as SchemaPropertyType;
+                handleUpdate({
+                  items: {
+                    ...selectedProperty.items!,
+                    type,
+                    properties: type === 'object' ? selectedProperty.items!.properties || [] : undefined,
+                    definitionId: type === 'object' ? selectedProperty.items!.definitionId : undefined,
+                  },
+                });
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              {Object.entries(PROPERTY_TYPE_LABELS)
+                .filter(([value]) => value !== 'array')
+                .map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+            </select>
             <p className="text-xs text-gray-500 mt-1">
               Configure item properties in the tree view
             </p>
           </div>
+          {selectedProperty.items.type === 'object' && (
+            <div className="mt-3">
+              {renderStructure(selectedProperty.items, (items) => handleUpdate({ items }))}
+            </div>
+          )}
         </div>
       )}
 
@@ -140,14 +230,7 @@ export default function PropertyEditor() {
       {selectedProperty.type === 'object' && (
         <div className="border-t pt-4">
           <h4 className="text-sm font-semibold text-gray-700 mb-2">Object Properties</h4>
-          <div className="bg-gray-50 p-3 rounded-md">
-            <p className="text-sm text-gray-600">
-              {selectedProperty.properties?.length || 0} nested properties
-            </p>
-            <p className="text-xs text-gray-500 mt-1">
-              Add and configure nested properties using the tree view
-            </p>
-          </div>
+          {renderStructure(selectedProperty, ({ definitionId, properties }) => handleUpdate({ definitionId, properties }))}
         </div>
       )}
     </div>
@@ -1,5 +1,7 @@
+import { useState } from 'react';
 import { useSchemaStore } from '../../../store/schemaStore';
-import { SchemaProperty, PROPERTY_TYPE_LABELS } from '../../../types/schema';
+import { SchemaDefinition, SchemaProperty, PROPERTY_TYPE_LABELS } from '../../../types/schema';
+import VocabPropertySelector from './VocabPropertySelector';
 import {
   DndContext,
   closestCenter,
@@ -22,10 +24,16 @@ interface PropertyNodeProps {
   depth: number;
 }
 
+// True if any nested property has sample validation issues (shown on collapsed parents)
+const hasNestedIssues = (property: SchemaProperty, issues: Record<string, string[]>): boolean =>
+  (property.properties || []).some((child) => issues[child.id] || hasNestedIssues(child, issues));
+
 function SortablePropertyNode({ property, depth }: PropertyNodeProps) {
   const {
+    definitions,
     selectedPropertyId,
     expandedNodes,
+    sampleIssues,
     selectProperty,
     toggleExpanded,
     deleteProperty,
@@ -50,11 +58,20 @@ function SortablePropertyNode({ property, depth }: PropertyNodeProps) {
 
   const isSelected = selectedPropertyId === property.id;
   const isExpanded = expandedNodes.has(property.id);
+  // Objects linked to a definition are edited through the definition, not inline
+  const definition = property.type === 'object' && property.definitionId
+    ? definitions.find((def) => def.id === property.definitionId)
+    : undefined;
+  const itemsDefinition = property.type === 'array' && property.items?.definitionId
+    ? definitions.find((def) => def.id === property.items?.definitionId)
+    : undefined;
   const hasChildren =
-    (property.type === 'object' && property.properties && property.properties.length > 0) ||
+    (property.type === 'object' && !definition && property.properties && property.properties.length > 0) ||
     (property.type === 'array' && property.items);
 
-  const canExpand = property.type === 'object' || property.type === 'array';
+  const canExpand = (property.type === 'object' && !definition) || property.type === 'array';
+  const issues = sampleIssues[property.id];
+  const showNestedIssues = !isExpanded && hasNestedIssues(property, sampleIssues);
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -154,15 +171,38 @@ function SortablePropertyNode({ property, depth }: PropertyNodeProps) {
           {property.name || 'untitled'}
         </span>
 
+        {/* Sample validation issues */}
+        {(issues || showNestedIssues) && (
+          <span
+            className={`text-xs font-bold ${issues ? 'text-red-600' : 'text-red-400'}`}
+            title={issues ? issues.join('\n') : 'Nested properties have validation errors'}
+          >
+            !
+          </span>
+        )}
+
         {/* Required Badge */}
         {property.required && (
           <span className="text-xs text-red-500 font-medium">*</span>
         )}
 
         {/* Type Badge */}
-        <span className="text-xs text-gray-400">
-          {PROPERTY_TYPE_LABELS[property.type]}
-        </span>
+        {definition ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              selectProperty(definition.id);
+            }}
+            className="text-xs font-mono text-purple-600 hover:underline"
+            title="Edit definition"
+          >
+            $ref {definition.name}
+          </button>
+        ) : (
+          <span className="text-xs text-gray-400">
+            {PROPERTY_TYPE_LABELS[property.type]}
+          </span>
+        )}
 
         {/* Actions (shown on hover) */}
         <div className="hidden group-hover:flex items-center gap-1">
@@ -215,7 +255,9 @@ function SortablePropertyNode({ property, depth }: PropertyNodeProps) {
             >
               <span className="w-4" />
               <span className="text-xs font-mono w-6">[ ]</span>
-              <span>items: {PROPERTY_TYPE_LABELS[property.items.type]}</span>
+              <span>
+                items: {itemsDefinition ? <span className="font-mono text-purple-500">$ref {itemsDefinition.name}</span> : PROPERTY_TYPE_LABELS[property.items.type]}
+              </span>
             </div>
           )}
         </div>
@@ -224,10 +266,133 @@ function SortablePropertyNode({ property, depth }: PropertyNodeProps) {
   );
 }
 
+interface DefinitionNodeProps {
+  definition: SchemaDefinition;
+}
+
+function DefinitionNode({ definition }: DefinitionNodeProps) {
+  const {
+    selectedPropertyId,
+    expandedNodes,
+    selectProperty,
+    toggleExpanded,
+    addProperty,
+    deleteDefinition,
+    reorderProperties,
+  } = useSchemaStore();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      reorderProperties(active.id as string, over.id as string);
+    }
+  };
+
+  const isSelected = selectedPropertyId === definition.id;
+  const isExpanded = expandedNodes.has(definition.id);
+
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (confirm(`Delete definition "${definition.name}"? Properties using it keep a copy of its properties.`)) {
+      deleteDefinition(definition.id);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        onClick={() => selectProperty(definition.id)}
+        className={`flex items-center gap-1 px-2 py-1.5 cursor-pointer group ${
+          isSelected ? 'bg-purple-100 text-purple-900' : 'hover:bg-gray-100'
+        }`}
+      >
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleExpanded(definition.id);
+          }}
+          className="p-0.5 hover:bg-gray-200 rounded"
+        >
+          <svg
+            className={`w-3 h-3 text-gray-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+        <span className="text-xs font-mono text-purple-400 w-6">$def</span>
+        <span className="flex-1 text-sm font-mono truncate">{definition.name}</span>
+        {definition.vocabTypeId && (
+          <span className="text-xs text-purple-500" title="Created from the Data Dictionary">
+            dict
+          </span>
+        )}
+        <span className="text-xs text-gray-400">{definition.properties.length}</span>
+        <div className="hidden group-hover:flex items-center gap-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              addProperty(definition.id);
+            }}
+            className="p-0.5 hover:bg-blue-100 rounded text-blue-600"
+            title="Add property to definition"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+          <button
+            onClick={handleDelete}
+            className="p-0.5 hover:bg-red-100 rounded text-red-500"
+            title="Delete definition"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && definition.properties.length > 0 && (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={definition.properties.map(p => p.id)}
+            strategy={verticalListSortingStrategy}
+          >
+            {definition.properties.map((child) => (
+              <SortablePropertyNode key={child.id} property={child} depth={1} />
+            ))}
+          </SortableContext>
+        </DndContext>
+      )}
+    </div>
+  );
+}
+
 export default function PropertyTree() {
+  const [showDictionary, setShowDictionary] = useState(false);
   const {
     properties,
+    definitions,
     addProperty,
+    addDefinition,
     expandAll,
     collapseAll,
     reorderProperties,
@@ -316,7 +481,43 @@ export default function PropertyTree() {
             </SortableContext>
           </DndContext>
         )}
+
+        {/* Definitions ($defs) */}
+        <div className="mt-2 border-t border-gray-100">
+          <div className="px-2 py-1.5 flex items-center gap-1">
+            <span className="flex-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+              Definitions
+            </span>
+            <button
+              onClick={() => setShowDictionary(true)}
+              className="px-1.5 py-0.5 hover:bg-purple-100 rounded text-purple-600 text-xs"
+              title="Create a definition from a Data Dictionary type"
+            >
+              From Dictionary
+            </button>
+            <button
+              onClick={() => addDefinition()}
+              className="p-1 hover:bg-blue-100 rounded text-blue-600"
+              title="Add definition"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          </div>
+          {definitions.length === 0 ? (
+            <p className="px-3 pb-2 text-xs text-gray-400">
+              Reusable object shapes, emitted as $defs and referenced with $ref.
+            </p>
+          ) : (
+            definitions.map((definition) => (
+              <DefinitionNode key={definition.id} definition={definition} />
+            ))
+          )}
+        </div>
       </div>
+
+      <VocabPropertySelector isOpen={showDictionary} onClose={() => setShowDictionary(false)} />
     </div>
   );
 }
@@ -0,0 +1,154 @@
+/**
+ * SampleValidatorPanel Component
+ *
+ * Paste or generate a sample credentialSubject and validate it against the
+ * schema being built. Errors are listed here and flagged on PropertyTree nodes.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSchemaStore } from '../../../store/schemaStore';
+import { expandDefinitions, toJsonSchema } from '../../../types/schema';
+import { validateJsonSchema } from '../utils/jsonSchemaValidator';
+import { generateSampleSubject, mapIssuesToProperties, MappedSampleIssues } from '../utils/sampleCredential';
+
+type ValidationOutcome =
+  | { kind: 'parse-error'; message: string }
+  | { kind: 'result'; errorCount: number; issues: MappedSampleIssues };
+
+export default function SampleValidatorPanel() {
+  const [sampleText, setSampleText] = useState('');
+  const [hasValidated, setHasValidated] = useState(false);
+
+  const metadata = useSchemaStore((state) => state.metadata);
+  const properties = useSchemaStore((state) => state.properties);
+  const definitions = useSchemaStore((state) => state.definitions);
+  const selectProperty = useSchemaStore((state) => state.selectProperty);
+  const setSampleIssues = useSchemaStore((state) => state.setSampleIssues);
+
+  // Definition references inlined, so generation and error mapping can walk one tree
+  const expandedProperties = useMemo(() => expandDefinitions(properties, definitions), [properties, definitions]);
+
+  // Re-validates as the schema or sample changes once the user has asked for validation
+  const outcome = useMemo<ValidationOutcome | null>(() => {
+    if (!hasValidated) return null;
+
+    let sample: unknown;
+    try {
+      sample = JSON.parse(sampleText);
+    } catch (e) {
+      return { kind: 'parse-error', message: (e as Error).message };
+    }
+
+    // Accept either a bare credentialSubject or a whole credential
+    const credential =
+      typeof sample === 'object' && sample !== null && 'credentialSubject' in sample
+        ? sample
+        : { credentialSubject: sample };
+
+    const errors = validateJsonSchema(toJsonSchema(metadata, properties, definitions), credential);
+    return { kind: 'result', errorCount: errors.length, issues: mapIssuesToProperties(errors, expandedProperties) };
+  }, [hasValidated, sampleText, metadata, properties, definitions, expandedProperties]);
+
+  useEffect(() => {
+    setSampleIssues(outcome?.kind === 'result' ? outcome.issues.byProperty : {});
+  }, [outcome, setSampleIssues]);
+
+  const findPropertyName = (id: string) => {
+    const search = (props: typeof properties): string | null => {
+      for (const prop of props) {
+        if (prop.id === id) return prop.name;
+        const nested = search(prop.properties || []);
+        if (nested) return `${prop.name}.${nested}`;
+      }
+      return null;
+    };
+    return search(expandedProperties) || id;
+  };
+
+  const handleGenerate = () => {
+    setSampleText(JSON.stringify(generateSampleSubject(expandedProperties), null, 2));
+    setHasValidated(true);
+  };
+
+  const handleClear = () => {
+    setSampleText('');
+    setHasValidated(false);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Action buttons */}
+      <div className="flex gap-2 p-2 bg-gray-800 border-b border-gray-700 items-center">
+        <button
+          onClick={handleGenerate}
+          disabled={properties.length === 0}
+          className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded disabled:opacity-50"
+          title="Fill with fake data matching the schema"
+        >
+          Generate Sample
+        </button>
+        <button
+          onClick={() => setHasValidated(true)}
+          disabled={!sampleText.trim()}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white hover:bg-blue-700 rounded disabled:opacity-50"
+        >
+          Validate
+        </button>
+        {sampleText && (
+          <button
+            onClick={handleClear}
+            className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded"
+          >
+            Clear
+          </button>
+        )}
+        <span className="text-xs text-gray-500 ml-auto">JSON Schema 2020-12</span>
+      </div>
+
+      {/* Sample editor */}
+      <textarea
+        value={sampleText}
+        onChange={(e) => setSampleText(e.target.value)}
+        placeholder={'Paste a credentialSubject (or a whole credential) here, or generate one.\n\n{\n  "name": "..."\n}'}
+        className="flex-1 min-h-0 p-4 bg-gray-900 text-gray-100 placeholder-gray-600 font-mono text-xs leading-relaxed resize-none focus:outline-none"
+        style={{ tabSize: 2 }}
+        spellCheck={false}
+      />
+
+      {/* Results */}
+      {outcome && (
+        <div className="max-h-[40%] overflow-y-auto border-t border-gray-700 bg-gray-800 text-xs">
+          {outcome.kind === 'parse-error' ? (
+            <p className="px-3 py-2 text-red-300">
+              <span className="font-semibold">JSON Error:</span> {outcome.message}
+            </p>
+          ) : outcome.errorCount === 0 ? (
+            <p className="px-3 py-2 text-green-400">Sample is valid against the schema.</p>
+          ) : (
+            <div className="px-3 py-2 space-y-2">
+              <p className="text-red-300 font-semibold">
+                {outcome.errorCount} validation error{outcome.errorCount !== 1 ? 's' : ''}
+              </p>
+              {Object.entries(outcome.issues.byProperty).map(([propertyId, messages]) => (
+                <button
+                  key={propertyId}
+                  onClick={() => selectProperty(propertyId)}
+                  className="block w-full text-left rounded px-2 py-1 hover:bg-gray-700"
+                  title="Select property"
+                >
+                  <span className="font-mono text-cyan-400">{findPropertyName(propertyId)}</span>
+                  {messages.map((message, i) => (
+                    <span key={i} className="block text-gray-300">{message}</span>
+                  ))}
+                </button>
+              ))}
+              {outcome.issues.unmapped.map((message, i) => (
+                <p key={i} className="px-2 text-gray-300">{message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
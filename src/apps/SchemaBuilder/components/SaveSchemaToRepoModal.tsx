@@ -3,12 +3,16 @@
  *
  * Modal for creating a GitHub PR to save the JSON Schema to the repository.
  * Schemas are saved to credentials/schemas/ folder.
+ * In jsonld-context mode the generated @context is added to credentials/contexts/ in the same PR.
  * Uses VDR namespace convention: {category}-{credential-name}.schema.json
+ * When the file is already published, the changes are classified as breaking or
+ * compatible against the published version and summarised in the PR.
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useSchemaStore } from '../../../store/schemaStore';
 import { generateArtifactName } from '../../../types/schema';
+import { CHANGE_KIND_LABELS, diffJsonSchemas, formatSchemaDiffMarkdown, VersionBump } from '../utils/schemaDiff';
 
 interface SaveSchemaToRepoModalProps {
   isOpen: boolean;
@@ -17,17 +21,34 @@ interface SaveSchemaToRepoModalProps {
 
 const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
 
+type PublishedSchema =
+  | { status: 'loading' }
+  | { status: 'new' }
+  | { status: 'found'; content: Record<string, unknown>; uri: string }
+  | { status: 'error'; message: string };
+
+const BUMP_STYLES: Record<VersionBump, string> = {
+  major: 'bg-red-100 text-red-800',
+  minor: 'bg-green-100 text-green-800',
+  patch: 'bg-gray-100 text-gray-700',
+  none: 'bg-gray-100 text-gray-500',
+};
+
 export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToRepoModalProps) {
   const [filename, setFilename] = useState('');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<{ prUrl: string; prNumber: number; uri: string } | null>(null);
+  const [success, setSuccess] = useState<{ prUrl: string; prNumber: number; uri: string; contextUri?: string } | null>(null);
+  const [published, setPublished] = useState<PublishedSchema>({ status: 'loading' });
 
   const metadata = useSchemaStore((state) => state.metadata);
   const currentProjectName = useSchemaStore((state) => state.currentProjectName);
   const exportSchema = useSchemaStore((state) => state.exportSchema);
+  const exportContext = useSchemaStore((state) => state.exportContext);
+
+  const includeContext = metadata.mode === 'jsonld-context';
 
   const typeLabel = 'JSON Schema';
   const fileExtension = '.schema.json';
@@ -41,6 +62,42 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
   }, [metadata.category, metadata.credentialName, currentProjectName]);
 
   const hasNamespace = !!(metadata.category && metadata.credentialName);
+  const effectiveFilename = filename || defaultFilename;
+
+  // Look up the published version of this file (debounced while the filename is typed)
+  useEffect(() => {
+    if (!isOpen || !effectiveFilename) return;
+    setPublished({ status: 'loading' });
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/github/schema/${encodeURIComponent(effectiveFilename)}`, {
+          credentials: 'include',
+        });
+        if (cancelled) return;
+        if (response.status === 404) {
+          setPublished({ status: 'new' });
+          return;
+        }
+        if (!response.ok) throw new Error('Failed to fetch the published schema');
+        const data = await response.json();
+        if (!cancelled) setPublished({ status: 'found', content: data.content, uri: data.uri });
+      } catch (err) {
+        if (!cancelled) {
+          setPublished({ status: 'error', message: err instanceof Error ? err.message : 'Failed to fetch the published schema' });
+        }
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, effectiveFilename]);
+
+  const diffReport = useMemo(
+    () => (published.status === 'found' ? diffJsonSchemas(published.content, JSON.parse(exportSchema())) : null),
+    [published, exportSchema]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -50,6 +107,7 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
 
     try {
       const content = exportSchema();
+      const context = includeContext ? JSON.parse(exportContext()) : undefined;
 
       const response = await fetch(`${API_BASE}/api/github/schema`, {
         method: 'POST',
@@ -58,11 +116,13 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
         },
         credentials: 'include',
         body: JSON.stringify({
-          filename: filename || defaultFilename,
+          filename: effectiveFilename,
           content: JSON.parse(content), // Parse back to object for proper handling
           title: title || `Add ${typeLabel}: ${metadata.title || currentProjectName}`,
           description,
           mode: 'json-schema', // Always use json-schema mode for schemas
+          context,
+          changeSummary: diffReport ? formatSchemaDiffMarkdown(diffReport) : undefined,
         }),
       });
 
@@ -72,7 +132,7 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
       }
 
       const data = await response.json();
-      setSuccess({ prUrl: data.pr.url, prNumber: data.pr.number, uri: data.uri });
+      setSuccess({ prUrl: data.pr.url, prNumber: data.pr.number, uri: data.uri, contextUri: data.contextUri });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save to repository');
     } finally {
@@ -127,6 +187,16 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
               <code className="text-xs bg-gray-100 px-2 py-1 rounded mt-1 inline-block break-all">
                 {success.uri}
               </code>
+              {success.contextUri && (
+                <>
+                  <br />
+                  and its JSON-LD context at:
+                  <br />
+                  <code className="text-xs bg-gray-100 px-2 py-1 rounded mt-1 inline-block break-all">
+                    {success.contextUri}
+                  </code>
+                </>
+              )}
             </p>
             <a
               href={success.prUrl}
@@ -156,6 +226,11 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
               <p className="text-xs mt-1 text-blue-600">
                 File will be saved to: <code>credentials/schemas/</code>
               </p>
+              {includeContext && (
+                <p className="text-xs mt-1 text-blue-600">
+                  JSON-LD context will be saved to: <code>credentials/contexts/</code>
+                </p>
+              )}
             </div>
 
             {/* Namespace warning */}
@@ -219,6 +294,58 @@ export default function SaveSchemaToRepoModal({ isOpen, onClose }: SaveSchemaToR
               />
             </div>
 
+            {/* Changes against the published version */}
+            <div className="p-3 border border-gray-200 rounded-md">
+              {published.status === 'loading' ? (
+                <p className="text-xs text-gray-500">Checking for a published version...</p>
+              ) : published.status === 'new' ? (
+                <p className="text-xs text-gray-600">Not published yet - this PR adds a new schema.</p>
+              ) : published.status === 'error' ? (
+                <p className="text-xs text-amber-700">{published.message}. Changes can't be compared.</p>
+              ) : diffReport && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-700">Changes since the published version</p>
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded ${BUMP_STYLES[diffReport.recommendedBump]}`}>
+                      {diffReport.recommendedBump === 'none' ? 'No changes' : `Bump: ${diffReport.recommendedBump}`}
+                    </span>
+                  </div>
+                  {diffReport.changes.length > 0 && (
+                    <>
+                      <p className="text-xs text-gray-500">
+                        {diffReport.breaking} breaking · {diffReport.compatible} compatible
+                      </p>
+                      <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+                        {diffReport.changes.map((change, i) => (
+                          <li key={i} className="flex gap-2">
+                            <span
+                              className={`shrink-0 w-16 font-medium ${
+                                change.severity === 'breaking'
+                                  ? 'text-red-600'
+                                  : change.severity === 'compatible'
+                                    ? 'text-green-600'
+                                    : 'text-gray-400'
+                              }`}
+                            >
+                              {change.severity}
+                            </span>
+                            <span className="text-gray-700">
+                              <code className="text-gray-900">{change.path}</code> - {CHANGE_KIND_LABELS[change.kind]}: {change.message}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      {diffReport.breaking > 0 && (
+                        <p className="text-xs text-red-700">
+                          Credentials issued against the published version may fail validation. Consider publishing under a new filename.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-600">{error}</p>
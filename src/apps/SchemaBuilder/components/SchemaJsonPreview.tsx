@@ -141,28 +141,32 @@ export default function SchemaJsonPreview() {
   const [isFocused, setIsFocused] = useState(false);
   const [parseError, setParseError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'edit' | 'tree'>('edit');
+  const [artifact, setArtifact] = useState<'schema' | 'context'>('schema');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
 
   // Subscribe to store state
   const metadata = useSchemaStore((state) => state.metadata);
   const properties = useSchemaStore((state) => state.properties);
+  const definitions = useSchemaStore((state) => state.definitions);
   const currentProjectName = useSchemaStore((state) => state.currentProjectName);
   const importSchema = useSchemaStore((state) => state.importSchema);
   const getSelectedVocab = useVocabularyStore((state) => state.getSelectedVocab);
 
   const isJsonLdMode = metadata.mode === 'jsonld-context';
+  // The @context is generated from the schema and vocabulary, so it is preview-only
+  const isContextView = isJsonLdMode && artifact === 'context';
 
-  // Generate JSON Schema or JSON-LD Context based on mode
+  // Generate JSON Schema, or the JSON-LD Context when viewing it in jsonld-context mode
   const storeJsonString = useMemo(() => {
-    if (isJsonLdMode) {
+    if (isContextView) {
       const vocabulary = getSelectedVocab();
-      const context = toJsonLdContext(metadata, properties, vocabulary);
+      const context = toJsonLdContext(metadata, properties, vocabulary, definitions);
       return JSON.stringify(context, null, 2);
     }
-    const schema = toJsonSchema(metadata, properties);
+    const schema = toJsonSchema(metadata, properties, definitions);
     return JSON.stringify(schema, null, 2);
-  }, [metadata, properties, isJsonLdMode, getSelectedVocab]);
+  }, [metadata, properties, definitions, isContextView, getSelectedVocab]);
 
   // Sync local JSON with store when not focused (external changes)
   useEffect(() => {
@@ -192,43 +196,29 @@ export default function SchemaJsonPreview() {
   const handleBlur = useCallback(() => {
     setIsFocused(false);
 
-    // Don't apply if there's a parse error
-    if (parseError) {
+    // Don't apply if there's a parse error or the view is read-only
+    if (parseError || isContextView) {
       return;
     }
 
     try {
       const parsed = JSON.parse(localJson);
 
-      // Mode-specific validation
-      if (isJsonLdMode) {
-        // JSON-LD Credential Schema validation - must have credentialSubject with properties
-        if (!parsed.properties?.credentialSubject) {
-          setParseError('Invalid schema: missing credentialSubject');
-          return;
-        }
-        // Only update if JSON actually changed
-        if (localJson !== storeJsonString) {
-          importSchema(localJson);
-        }
-        setParseError(null);
-      } else {
-        // JSON Schema validation - must have required structure
-        if (!parsed.properties?.credentialSubject) {
-          setParseError('Invalid schema: missing credentialSubject');
-          return;
-        }
-
-        // Only update if JSON actually changed
-        if (localJson !== storeJsonString) {
-          importSchema(localJson);
-        }
-        setParseError(null);
+      // JSON Schema validation - must have required structure
+      if (!parsed.properties?.credentialSubject) {
+        setParseError('Invalid schema: missing credentialSubject');
+        return;
       }
+
+      // Only update if JSON actually changed
+      if (localJson !== storeJsonString) {
+        importSchema(localJson);
+      }
+      setParseError(null);
     } catch (e) {
       setParseError((e as Error).message);
     }
-  }, [localJson, storeJsonString, parseError, isJsonLdMode, importSchema]);
+  }, [localJson, storeJsonString, parseError, isContextView, importSchema]);
 
   // Reset to store version
   const handleReset = useCallback(() => {
@@ -255,7 +245,7 @@ export default function SchemaJsonPreview() {
     const artifactName = generateArtifactName(metadata.category, metadata.credentialName);
     const baseName = artifactName || currentProjectName.replace(/\s+/g, '-').toLowerCase() || 'schema';
 
-    if (isJsonLdMode) {
+    if (isContextView) {
       return `${baseName}.context.jsonld`;
     }
     return `${baseName}.schema.json`;
@@ -323,6 +313,26 @@ export default function SchemaJsonPreview() {
           </button>
         )}
 
+        {/* Artifact toggle - jsonld-context mode publishes a schema and a context */}
+        {isJsonLdMode && (
+          <div className="flex items-center gap-1 ml-2">
+            {(['schema', 'context'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setArtifact(option)}
+                className={`px-2 py-1 text-xs rounded transition-colors ${
+                  artifact === option
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                }`}
+                title={option === 'schema' ? 'JSON Schema for credentialSubject' : 'Generated JSON-LD @context (read-only)'}
+              >
+                {option === 'schema' ? 'Schema' : '@context'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* View mode toggle */}
         <div className="flex items-center gap-1 ml-2">
           <button
@@ -390,6 +400,7 @@ export default function SchemaJsonPreview() {
               onFocus={handleFocus}
               onBlur={handleBlur}
               onScroll={handleScroll}
+              readOnly={isContextView}
               className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-white font-mono text-xs leading-relaxed resize-none focus:outline-none"
               style={{ tabSize: 2 }}
               spellCheck={false}
@@ -3,6 +3,7 @@ import { useSchemaStore } from '../../../store/schemaStore';
 import { useAuthStore } from '../../../store/authStore';
 import SaveSchemaToRepoModal from './SaveSchemaToRepoModal';
 import NewSchemaModal from './NewSchemaModal';
+import ImportSchemaModal from './ImportSchemaModal';
 import {
   AppNavBar,
   SaveButton,
@@ -17,6 +18,7 @@ export default function SchemaToolbar() {
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
   const [showSaveToRepoModal, setShowSaveToRepoModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [saveName, setSaveName] = useState('');
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
 
@@ -115,6 +117,18 @@ export default function SchemaToolbar() {
               Open
             </button>
 
+            {/* Import */}
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 flex items-center gap-1"
+              title="Import a JSON Schema, OCA bundle or AnonCreds schema"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Import
+            </button>
+
             {/* Format Badge */}
             <NavDivider />
             <span className="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-700 border border-blue-200">
@@ -211,6 +225,12 @@ export default function SchemaToolbar() {
         onClose={() => setShowSaveToRepoModal(false)}
       />
 
+      {/* Import Schema Modal */}
+      <ImportSchemaModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+      />
+
       {/* New Schema Modal */}
       <NewSchemaModal
         isOpen={showNewModal}
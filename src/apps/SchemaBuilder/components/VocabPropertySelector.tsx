@@ -3,11 +3,13 @@
  *
  * Allows users to browse and select properties from the Data Dictionary vocabulary.
  * Properties are organized by VocabType (vocabulary terms) with domain filtering.
+ * The selection can also become a reusable definition ($defs) linked to its VocabType.
  */
 
 import { useState, useEffect } from 'react';
 import { fetchDataTypes, fetchDomains, cataloguePropertyToSchemaProperty, DataType, DataTypeDomain } from '../../../services/catalogueApi';
 import { useSchemaStore } from '../../../store/schemaStore';
+import type { SchemaProperty } from '../../../types/schema';
 
 // Domain colors for badges
 const DOMAIN_COLORS: Record<string, string> = {
@@ -34,6 +36,7 @@ export default function VocabPropertySelector({ isOpen, onClose }: VocabProperty
   const [error, setError] = useState<string | null>(null);
 
   const addPropertyWithData = useSchemaStore((state) => state.addPropertyWithData);
+  const addDefinition = useSchemaStore((state) => state.addDefinition);
 
   // Get domain color
   const getDomainColor = (domainId: string) => {
@@ -142,6 +145,34 @@ export default function VocabPropertySelector({ isOpen, onClose }: VocabProperty
     onClose();
   };
 
+  // Create a definition named after the data type, holding the selected properties
+  const handleAddDefinition = () => {
+    if (!selectedDataType) return;
+
+    const properties: SchemaProperty[] = selectedDataType.properties
+      .filter(p => selectedProperties.has(p.id))
+      .map((prop, index) => {
+        const schemaProperty = cataloguePropertyToSchemaProperty(prop, index);
+        return {
+          ...schemaProperty,
+          id: crypto.randomUUID(),
+          type: schemaProperty.type as SchemaProperty['type'],
+          jsonLd: { vocabTermId: prop.name },
+        };
+      });
+
+    addDefinition({
+      title: selectedDataType.name,
+      description: selectedDataType.description || undefined,
+      vocabTypeId: selectedDataType.id,
+      properties,
+    });
+
+    setSelectedProperties(new Set());
+    setSelectedDataType(null);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -381,6 +412,14 @@ export default function VocabPropertySelector({ isOpen, onClose }: VocabProperty
           >
             Cancel
           </button>
+          <button
+            onClick={handleAddDefinition}
+            disabled={selectedProperties.size === 0}
+            className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 border border-purple-200 rounded-md hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Create a reusable $defs definition from the selected properties"
+          >
+            Add as Definition
+          </button>
           <button
             onClick={handleAddProperties}
             disabled={selectedProperties.size === 0}
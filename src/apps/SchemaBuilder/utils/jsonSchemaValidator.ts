@@ -0,0 +1,90 @@
+/**
+ * JSON Schema Validator
+ *
+ * Checks sample credentials against the schema produced by toJsonSchema using
+ * Ajv's Draft 2020-12 build (with ajv-formats for format assertions), and
+ * reports failures in the shape the Sample Validator panel maps onto the
+ * property tree.
+ */
+
+import Ajv2020, { type ErrorObject } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+
+export type InstancePath = (string | number)[];
+
+export interface SchemaValidationError {
+  path: InstancePath;        // Location in the data, e.g. ['credentialSubject', 'address', 'street']
+  keyword: string;           // Failing keyword, e.g. 'required', 'type'
+  message: string;
+  property?: string;         // Child property named by required/additionalProperties errors
+}
+
+// Errors inside a failing anyOf/oneOf branch only repeat the combinator's own error
+const BRANCH_ERROR = /\/(anyOf|oneOf)\/\d+\//;
+
+/**
+ * Turn an Ajv instance path (JSON Pointer) into path segments, using numbers
+ * for array indices
+ */
+const toInstancePath = (pointer: string, data: unknown): InstancePath => {
+  const path: InstancePath = [];
+  let target: unknown = data;
+  for (const rawSegment of pointer.split('/').slice(1)) {
+    const segment = rawSegment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(target)) {
+      path.push(Number(segment));
+      target = target[Number(segment)];
+    } else {
+      path.push(segment);
+      target = typeof target === 'object' && target !== null ? (target as Record<string, unknown>)[segment] : undefined;
+    }
+  }
+  return path;
+};
+
+/**
+ * The child property an error is about, for keywords that name one
+ */
+const toProperty = (error: ErrorObject): string | undefined => {
+  const params = error.params as Record<string, unknown>;
+  const property = params.missingProperty ?? params.additionalProperty ?? params.unevaluatedProperty ?? params.propertyName;
+  return typeof property === 'string' ? property : undefined;
+};
+
+/**
+ * Validate data against a JSON Schema (Draft 2020-12)
+ * Returns every failing keyword, with the data path it applies to
+ */
+export function validateJsonSchema(schema: object | boolean, data: unknown): SchemaValidationError[] {
+  // A fresh instance per call: schemas are rebuilt on every edit and Ajv caches each one it compiles
+  const ajv = new Ajv2020({ allErrors: true, strict: false, logger: false });
+  addFormats(ajv);
+
+  let validate;
+  try {
+    validate = ajv.compile(schema);
+  } catch (e) {
+    // Invalid patterns, unresolvable $refs and the like
+    return [{ path: [], keyword: 'schema', message: `schema is invalid: ${(e as Error).message}` }];
+  }
+
+  if (validate(data)) return [];
+
+  return (validate.errors || [])
+    .filter((error) => !BRANCH_ERROR.test(error.schemaPath))
+    .map((error) => {
+      const property = toProperty(error);
+      return {
+        path: toInstancePath(error.instancePath, data),
+        keyword: error.keyword,
+        message: error.message || `fails ${error.keyword}`,
+        ...(property !== undefined ? { property } : {}),
+      };
+    });
+}
+
+/**
+ * Format a data path as a JSON Pointer for display
+ */
+export const formatInstancePath = (path: InstancePath): string =>
+  path.length === 0 ? '/' : '/' + path.map((segment) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
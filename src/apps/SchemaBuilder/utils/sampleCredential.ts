@@ -0,0 +1,192 @@
+/**
+ * Sample Credential Helpers
+ *
+ * Generates fake credentialSubject data from the Schema Builder's properties
+ * and maps validation errors back onto the property tree.
+ */
+
+import { faker } from '@faker-js/faker';
+import type { SchemaProperty } from '../../../types/schema';
+import { formatInstancePath, SchemaValidationError } from './jsonSchemaValidator';
+
+/**
+ * Generate a string that honours the property's format, enum, pattern and length constraints
+ */
+const generateString = (prop: SchemaProperty): string => {
+  if (prop.enum && prop.enum.length > 0) return faker.helpers.arrayElement(prop.enum);
+
+  switch (prop.format) {
+    case 'email':
+      return faker.internet.email();
+    case 'uri':
+      return faker.internet.url();
+    case 'date':
+      return faker.date.past({ years: 10 }).toISOString().split('T')[0];
+    case 'date-time':
+      return faker.date.recent({ days: 30 }).toISOString();
+    case 'uuid':
+      return faker.string.uuid();
+    case 'hostname':
+      return faker.internet.domainName();
+    case 'ipv4':
+      return faker.internet.ipv4();
+    case 'ipv6':
+      return faker.internet.ipv6();
+  }
+
+  if (prop.pattern) {
+    try {
+      // fromRegExp emits anchors literally and has no shorthand character classes
+      const source = prop.pattern
+        .replace(/^\^/, '')
+        .replace(/(?<!\\)\$$/, '')
+        .replace(/\\d/g, '[0-9]')
+        .replace(/\\w/g, '[a-zA-Z0-9_]');
+      const value = faker.helpers.fromRegExp(source);
+      if (new RegExp(prop.pattern, 'u').test(value)) return value;
+    } catch {
+      // Fall through - not every pattern can be reversed
+    }
+  }
+
+  const normalized = prop.name.toLowerCase().replace(/[_-]/g, '');
+  let value: string;
+  if (normalized.includes('firstname') || normalized.includes('givenname')) {
+    value = faker.person.firstName();
+  } else if (normalized.includes('lastname') || normalized.includes('familyname') || normalized.includes('surname')) {
+    value = faker.person.lastName();
+  } else if (normalized.includes('name')) {
+    value = faker.person.fullName();
+  } else if (normalized.includes('address') || normalized.includes('street')) {
+    value = faker.location.streetAddress();
+  } else if (normalized.includes('city')) {
+    value = faker.location.city();
+  } else if (normalized.includes('province') || normalized.includes('state')) {
+    value = faker.location.state();
+  } else if (normalized.includes('postal') || normalized.includes('zip')) {
+    value = faker.location.zipCode();
+  } else if (normalized.includes('country')) {
+    value = faker.location.country();
+  } else if (normalized.includes('phone')) {
+    value = faker.phone.number();
+  } else if (normalized.includes('number') || normalized.endsWith('id')) {
+    value = faker.string.alphanumeric({ length: 10, casing: 'upper' });
+  } else {
+    value = faker.lorem.words(2);
+  }
+
+  if (prop.minLength !== undefined && value.length < prop.minLength) {
+    value = value.padEnd(prop.minLength, 'x');
+  }
+  if (prop.maxLength !== undefined && value.length > prop.maxLength) {
+    value = value.slice(0, prop.maxLength);
+  }
+  return value;
+};
+
+const generateNumber = (prop: SchemaProperty): number => {
+  const isInteger = prop.type === 'integer';
+  const step = isInteger ? 1 : 0.01;
+  let min = prop.minimum ?? (prop.exclusiveMinimum !== undefined ? prop.exclusiveMinimum + step : 0);
+  let max = prop.maximum ?? (prop.exclusiveMaximum !== undefined ? prop.exclusiveMaximum - step : min + 1000);
+  if (prop.exclusiveMinimum !== undefined) min = Math.max(min, prop.exclusiveMinimum + step);
+  if (prop.exclusiveMaximum !== undefined) max = Math.min(max, prop.exclusiveMaximum - step);
+  if (max < min) max = min;
+
+  return isInteger
+    ? faker.number.int({ min: Math.ceil(min), max: Math.floor(max) })
+    : faker.number.float({ min, max, fractionDigits: 2 });
+};
+
+/**
+ * Generate a fake value for a single property
+ */
+export const generateSampleValue = (prop: SchemaProperty): unknown => {
+  switch (prop.type) {
+    case 'string':
+      return generateString(prop);
+    case 'integer':
+    case 'number':
+      return generateNumber(prop);
+    case 'boolean':
+      return faker.datatype.boolean();
+    case 'object':
+      return generateSampleSubject(prop.properties || []);
+    case 'array': {
+      if (!prop.items) return [];
+      const count = faker.number.int({
+        min: prop.minItems ?? 1,
+        max: Math.max(prop.minItems ?? 1, prop.maxItems ?? 3),
+      });
+      const items: unknown[] = [];
+      // uniqueItems: retry a few times before accepting a shorter array
+      for (let attempt = 0; items.length < count && attempt < count * 5; attempt++) {
+        const item = generateSampleValue(prop.items);
+        if (!prop.uniqueItems || !items.some((other) => JSON.stringify(other) === JSON.stringify(item))) {
+          items.push(item);
+        }
+      }
+      return items;
+    }
+  }
+};
+
+/**
+ * Generate a fake credentialSubject covering every named property
+ */
+export const generateSampleSubject = (properties: SchemaProperty[]): Record<string, unknown> => {
+  const subject: Record<string, unknown> = {};
+  for (const prop of properties) {
+    if (prop.name) subject[prop.name] = generateSampleValue(prop);
+  }
+  return subject;
+};
+
+export interface MappedSampleIssues {
+  byProperty: Record<string, string[]>;   // Property ID -> messages
+  unmapped: string[];                      // Errors with no matching property (e.g. extra keys at the root)
+}
+
+/**
+ * Map validation errors onto the deepest property tree node they concern.
+ * Array item errors land on the array property, which is how the tree shows items.
+ */
+export const mapIssuesToProperties = (
+  errors: SchemaValidationError[],
+  properties: SchemaProperty[]
+): MappedSampleIssues => {
+  const mapped: MappedSampleIssues = { byProperty: {}, unmapped: [] };
+
+  for (const error of errors) {
+    const path = error.path[0] === 'credentialSubject' ? error.path.slice(1) : error.path;
+    // required/additionalProperties errors name the child they are about
+    const segments = error.property !== undefined ? [...path, error.property] : path;
+
+    let level: SchemaProperty[] | undefined = properties;
+    let owner: SchemaProperty | null = null;
+    let insideItems = false;
+
+    for (const segment of segments) {
+      if (typeof segment === 'number') {
+        if (owner?.type === 'array' && owner.items) {
+          insideItems = true;
+          level = owner.items.properties;
+        }
+        continue;
+      }
+      const match: SchemaProperty | undefined = level?.find((prop) => prop.name === segment);
+      if (!match) break;
+      level = match.type === 'array' ? undefined : match.properties;
+      if (!insideItems) owner = match;
+    }
+
+    const message = `${formatInstancePath(error.path)}: ${error.message}`;
+    if (owner) {
+      (mapped.byProperty[owner.id] ||= []).push(message);
+    } else {
+      mapped.unmapped.push(message);
+    }
+  }
+
+  return mapped;
+};
@@ -0,0 +1,282 @@
+/**
+ * Schema Diff
+ *
+ * Compares two versions of a credential JSON Schema (as produced by toJsonSchema)
+ * and classifies each change as breaking or compatible. A change is breaking when a
+ * credential valid under the previous version can be invalid under the next one,
+ * or when a claim verifiers may rely on disappears.
+ */
+
+export type SchemaChangeKind =
+  | 'property-added'
+  | 'required-property-added'
+  | 'property-removed'
+  | 'type-changed'
+  | 'made-required'
+  | 'made-optional'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'constraint-tightened'
+  | 'constraint-relaxed'
+  | 'additional-properties-restricted'
+  | 'additional-properties-allowed'
+  | 'annotation-changed';
+
+export type SchemaChangeSeverity = 'breaking' | 'compatible' | 'annotation';
+
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  severity: SchemaChangeSeverity;
+  path: string;                  // Dotted credentialSubject path, "[]" for array items
+  message: string;
+}
+
+export interface SchemaDiffReport {
+  changes: SchemaChange[];
+  breaking: number;
+  compatible: number;
+  recommendedBump: VersionBump;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const SEVERITY: Record<SchemaChangeKind, SchemaChangeSeverity> = {
+  'property-added': 'compatible',
+  'required-property-added': 'breaking',
+  'property-removed': 'breaking',
+  'type-changed': 'breaking',
+  'made-required': 'breaking',
+  'made-optional': 'compatible',
+  'enum-narrowed': 'breaking',
+  'enum-widened': 'compatible',
+  'constraint-tightened': 'breaking',
+  'constraint-relaxed': 'compatible',
+  'additional-properties-restricted': 'breaking',
+  'additional-properties-allowed': 'compatible',
+  'annotation-changed': 'annotation',
+};
+
+export const CHANGE_KIND_LABELS: Record<SchemaChangeKind, string> = {
+  'property-added': 'Optional property added',
+  'required-property-added': 'Required property added',
+  'property-removed': 'Property removed',
+  'type-changed': 'Type changed',
+  'made-required': 'Made required',
+  'made-optional': 'Made optional',
+  'enum-narrowed': 'Allowed values narrowed',
+  'enum-widened': 'Allowed values widened',
+  'constraint-tightened': 'Constraint tightened',
+  'constraint-relaxed': 'Constraint relaxed',
+  'additional-properties-restricted': 'Extra properties rejected',
+  'additional-properties-allowed': 'Extra properties allowed',
+  'annotation-changed': 'Title or description changed',
+};
+
+// Lower bounds tighten when they go up, upper bounds when they go down
+const LOWER_BOUNDS = ['minLength', 'minimum', 'exclusiveMinimum', 'minItems'] as const;
+const UPPER_BOUNDS = ['maxLength', 'maximum', 'exclusiveMaximum', 'maxItems'] as const;
+
+const isObject = (value: unknown): value is JsonSchema =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Follow a local $ref into $defs/definitions; sibling keywords win.
+ * Recursive references are not followed a second time.
+ */
+const resolve = (schema: unknown, root: JsonSchema, seen: string[]): { schema: JsonSchema; seen: string[] } => {
+  if (!isObject(schema)) return { schema: {}, seen };
+  const ref = schema.$ref;
+  if (typeof ref !== 'string' || seen.includes(ref)) return { schema, seen };
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  const container = match ? root[match[1]] : undefined;
+  const target = isObject(container) ? container[decodeURIComponent(match![2])] : undefined;
+  if (!isObject(target)) return { schema, seen };
+  const { $ref: _ref, ...siblings } = schema;
+  return resolve({ ...target, ...siblings }, root, [...seen, ref]);
+};
+
+// const is how toJsonSchema emits single-value enums
+const allowedValues = (schema: JsonSchema): unknown[] | undefined => {
+  if ('const' in schema) return [schema.const];
+  return Array.isArray(schema.enum) ? schema.enum : undefined;
+};
+
+const typesOf = (schema: JsonSchema): string[] => {
+  const type = schema.type;
+  return Array.isArray(type) ? (type as string[]) : typeof type === 'string' ? [type] : [];
+};
+
+// Whether a type list accepts every value of the given type (number includes integer)
+const acceptsType = (types: string[], type: string): boolean =>
+  types.includes(type) || (type === 'integer' && types.includes('number'));
+
+const formatValues = (values: unknown[]): string => values.map((value) => JSON.stringify(value)).join(', ');
+
+/**
+ * Compare two JSON Schemas and classify every change under credentialSubject
+ */
+export const diffJsonSchemas = (previous: JsonSchema, next: JsonSchema): SchemaDiffReport => {
+  const changes: SchemaChange[] = [];
+
+  const add = (kind: SchemaChangeKind, path: string, message: string) => {
+    changes.push({ kind, severity: SEVERITY[kind], path, message });
+  };
+
+  const compare = (
+    rawPrev: unknown,
+    rawNext: unknown,
+    path: string,
+    prevSeen: string[],
+    nextSeen: string[]
+  ) => {
+    const { schema: prev, seen: prevRefs } = resolve(rawPrev, previous, prevSeen);
+    const { schema: nextSchema, seen: nextRefs } = resolve(rawNext, next, nextSeen);
+    const label = path || 'credentialSubject';
+
+    // Both sides reached a recursive reference - compared at its first occurrence
+    if (prevRefs === prevSeen && nextRefs === nextSeen && prev.$ref && nextSchema.$ref) return;
+
+    // Type
+    const prevTypes = typesOf(prev);
+    const nextTypes = typesOf(nextSchema);
+    // Compared as sets: ["string", "null"] and ["null", "string"] are the same type
+    const sameTypes =
+      prevTypes.length === nextTypes.length && prevTypes.every((type) => nextTypes.includes(type));
+    if (!sameTypes) {
+      const widened = prevTypes.length > 0 && prevTypes.every((type) => acceptsType(nextTypes, type));
+      if (widened || nextTypes.length === 0) {
+        add('constraint-relaxed', label, `type ${prevTypes.join(' | ')} → ${nextTypes.join(' | ') || 'any'}`);
+      } else {
+        add('type-changed', label, `type ${prevTypes.join(' | ') || 'any'} → ${nextTypes.join(' | ')}`);
+        return; // Nested comparisons are meaningless across types
+      }
+    }
+
+    // Annotations
+    if ((prev.title ?? '') !== (nextSchema.title ?? '') && path) {
+      add('annotation-changed', label, `title "${prev.title ?? ''}" → "${nextSchema.title ?? ''}"`);
+    }
+    if ((prev.description ?? '') !== (nextSchema.description ?? '') && path) {
+      add('annotation-changed', label, 'description changed');
+    }
+
+    // Enumerations
+    const prevValues = allowedValues(prev);
+    const nextValues = allowedValues(nextSchema);
+    if (prevValues && !nextValues) {
+      add('enum-widened', label, 'no longer restricted to a fixed set of values');
+    } else if (!prevValues && nextValues) {
+      add('enum-narrowed', label, `now restricted to ${formatValues(nextValues)}`);
+    } else if (prevValues && nextValues) {
+      const key = (value: unknown) => JSON.stringify(value);
+      const removed = prevValues.filter((value) => !nextValues.some((other) => key(other) === key(value)));
+      const added = nextValues.filter((value) => !prevValues.some((other) => key(other) === key(value)));
+      if (removed.length > 0) add('enum-narrowed', label, `no longer allows ${formatValues(removed)}`);
+      if (added.length > 0) add('enum-widened', label, `now also allows ${formatValues(added)}`);
+    }
+
+    // Numeric bounds
+    for (const keyword of LOWER_BOUNDS) {
+      const before = prev[keyword] as number | undefined;
+      const after = nextSchema[keyword] as number | undefined;
+      if (before === after) continue;
+      const tightened = after !== undefined && (before === undefined || after > before);
+      add(tightened ? 'constraint-tightened' : 'constraint-relaxed', label, `${keyword} ${before ?? 'none'} → ${after ?? 'none'}`);
+    }
+    for (const keyword of UPPER_BOUNDS) {
+      const before = prev[keyword] as number | undefined;
+      const after = nextSchema[keyword] as number | undefined;
+      if (before === after) continue;
+      const tightened = after !== undefined && (before === undefined || after < before);
+      add(tightened ? 'constraint-tightened' : 'constraint-relaxed', label, `${keyword} ${before ?? 'none'} → ${after ?? 'none'}`);
+    }
+
+    // Pattern, format and uniqueItems only ever narrow what is accepted when added or changed
+    for (const keyword of ['pattern', 'format'] as const) {
+      const before = prev[keyword] as string | undefined;
+      const after = nextSchema[keyword] as string | undefined;
+      if (before === after) continue;
+      add(after === undefined ? 'constraint-relaxed' : 'constraint-tightened', label, `${keyword} ${before ?? 'none'} → ${after ?? 'none'}`);
+    }
+    if (!!prev.uniqueItems !== !!nextSchema.uniqueItems) {
+      add(nextSchema.uniqueItems ? 'constraint-tightened' : 'constraint-relaxed', label, `uniqueItems ${!!prev.uniqueItems} → ${!!nextSchema.uniqueItems}`);
+    }
+
+    // Array items
+    if (prev.items !== undefined || nextSchema.items !== undefined) {
+      compare(prev.items, nextSchema.items, `${path}[]`, prevRefs, nextRefs);
+    }
+
+    // Object properties
+    const prevProps = isObject(prev.properties) ? prev.properties : {};
+    const nextProps = isObject(nextSchema.properties) ? nextSchema.properties : {};
+    const prevRequired = new Set(Array.isArray(prev.required) ? (prev.required as string[]) : []);
+    const nextRequired = new Set(Array.isArray(nextSchema.required) ? (nextSchema.required as string[]) : []);
+    const childPath = (name: string) => (path ? `${path}.${name}` : name);
+
+    for (const name of Object.keys(prevProps)) {
+      if (!(name in nextProps)) {
+        add('property-removed', childPath(name), 'property removed');
+      }
+    }
+    for (const [name, nextProp] of Object.entries(nextProps)) {
+      if (!(name in prevProps)) {
+        if (nextRequired.has(name)) {
+          add('required-property-added', childPath(name), 'new required property');
+        } else {
+          add('property-added', childPath(name), 'new optional property');
+        }
+        continue;
+      }
+      if (!prevRequired.has(name) && nextRequired.has(name)) {
+        add('made-required', childPath(name), 'optional → required');
+      } else if (prevRequired.has(name) && !nextRequired.has(name)) {
+        add('made-optional', childPath(name), 'required → optional');
+      }
+      compare(prevProps[name], nextProp, childPath(name), prevRefs, nextRefs);
+    }
+
+    // additionalProperties: false only matters where properties are declared
+    if (prev.additionalProperties === false && nextSchema.additionalProperties !== false) {
+      add('additional-properties-allowed', label, 'undeclared properties are now accepted');
+    } else if (prev.additionalProperties !== false && nextSchema.additionalProperties === false) {
+      add('additional-properties-restricted', label, 'undeclared properties are now rejected');
+    }
+  };
+
+  const credentialSubject = (schema: JsonSchema) =>
+    isObject(schema.properties) ? schema.properties.credentialSubject : undefined;
+  compare(credentialSubject(previous), credentialSubject(next), '', [], []);
+
+  const breaking = changes.filter((change) => change.severity === 'breaking').length;
+  const compatible = changes.filter((change) => change.severity === 'compatible').length;
+  const recommendedBump: VersionBump =
+    breaking > 0 ? 'major' : compatible > 0 ? 'minor' : changes.length > 0 ? 'patch' : 'none';
+
+  return { changes, breaking, compatible, recommendedBump };
+};
+
+/**
+ * Markdown summary for the pull request body
+ */
+export const formatSchemaDiffMarkdown = (report: SchemaDiffReport): string => {
+  if (report.changes.length === 0) {
+    return '### Schema changes\n\nNo changes to credentialSubject validation.';
+  }
+
+  const lines = [
+    '### Schema changes',
+    '',
+    `**Recommended version bump: ${report.recommendedBump}** — ${report.breaking} breaking, ${report.compatible} compatible.`,
+    '',
+    '| | Path | Change | Detail |',
+    '|---|---|---|---|',
+  ];
+  const icon: Record<SchemaChangeSeverity, string> = { breaking: '🔴', compatible: '🟢', annotation: '⚪' };
+  for (const change of report.changes) {
+    lines.push(`| ${icon[change.severity]} | \`${change.path}\` | ${CHANGE_KIND_LABELS[change.kind]} | ${change.message.replace(/\|/g, '\\|')} |`);
+  }
+  return lines.join('\n');
+};
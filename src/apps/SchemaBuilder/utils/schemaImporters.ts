@@ -0,0 +1,453 @@
+/**
+ * Schema Importers
+ *
+ * Convert external schema formats into the Schema Builder's SchemaProperty tree:
+ * - JSON Schema draft-07 / 2020-12 documents (local $ref, definitions and $defs are inlined)
+ * - Overlays Capture Architecture (OCA) bundles
+ * - AnonCreds attribute lists (ledger schemas or Credential Catalogue entries)
+ *
+ * Anything that cannot be represented is collected in the result's `unsupported` report.
+ */
+
+import type { CatalogueCredential } from '../../../types/catalogue';
+import type { SchemaMetadata, SchemaProperty, SchemaPropertyType, StringFormat } from '../../../types/schema';
+
+export type ImportFormat = 'json-schema' | 'oca' | 'anoncreds';
+
+export interface SchemaImportResult {
+  format: ImportFormat;
+  metadata: Partial<SchemaMetadata>;
+  properties: SchemaProperty[];
+  unsupported: string[];   // "<location>: <what was dropped>"
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'json-schema': 'JSON Schema',
+  oca: 'OCA Bundle',
+  anoncreds: 'AnonCreds Schema',
+};
+
+type JsonObject = Record<string, unknown>;
+
+const PROPERTY_TYPES: SchemaPropertyType[] = ['string', 'integer', 'number', 'boolean', 'object', 'array'];
+const STRING_FORMATS: StringFormat[] = ['email', 'uri', 'date', 'date-time', 'uuid', 'hostname', 'ipv4', 'ipv6'];
+
+// Keywords SchemaProperty has a home for (or that only carry annotations we can drop silently)
+const HANDLED_KEYWORDS = new Set([
+  '$schema', '$id', '$ref', '$defs', 'definitions', '$comment', 'title', 'description', 'type', 'required',
+  'properties', 'items', 'minLength', 'maxLength', 'format', 'pattern', 'enum', 'const',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minItems', 'maxItems', 'uniqueItems',
+  'allOf', 'additionalProperties', 'default', 'examples', 'readOnly', 'writeOnly', 'deprecated',
+]);
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const generateId = () => crypto.randomUUID();
+
+const titleFromName = (name: string): string =>
+  name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim();
+
+/**
+ * Detect which importer a pasted document needs
+ */
+export const detectImportFormat = (doc: unknown): ImportFormat => {
+  const candidate = Array.isArray(doc) ? doc[0] : doc;
+  if (isObject(candidate) && (candidate.capture_base || candidate.captureBase || candidate.type === 'spec/capture_base/1.0')) {
+    return 'oca';
+  }
+  if (isObject(candidate) && Array.isArray(candidate.attrNames ?? candidate.attr_names)) {
+    return 'anoncreds';
+  }
+  return 'json-schema';
+};
+
+// ============================================
+// JSON Schema (draft-07 / 2020-12)
+// ============================================
+
+/**
+ * Import a JSON Schema document. Schemas with properties.credentialSubject
+ * (W3C VC JSON Schema, including our own exports) import the subject; any
+ * other object schema is treated as the subject itself.
+ */
+export const importJsonSchema = (doc: unknown): SchemaImportResult => {
+  if (!isObject(doc)) throw new Error('JSON Schema must be an object');
+
+  const unsupported: string[] = [];
+  const report = (location: string, message: string) => unsupported.push(`${location || '/'}: ${message}`);
+
+  const resolveRef = (ref: string): JsonObject | undefined => {
+    if (!ref.startsWith('#')) return undefined;
+    let target: unknown = doc;
+    for (const raw of ref.slice(1).split('/').slice(1)) {
+      const segment = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isObject(target) ? target[segment] : Array.isArray(target) ? target[Number(segment)] : undefined;
+    }
+    return isObject(target) ? target : undefined;
+  };
+
+  /**
+   * Inline $ref and merge allOf so property parsing sees one flat schema.
+   * refStack collects every expanded $ref so recursive definitions stop at the next level.
+   */
+  const flatten = (schema: JsonObject, location: string, refStack: string[]): JsonObject => {
+    let flat: JsonObject = { ...schema };
+
+    if (typeof schema.$ref === 'string') {
+      const ref = schema.$ref;
+      const target = resolveRef(ref);
+      delete flat.$ref;
+      if (!target) {
+        report(location, `external or unresolvable $ref "${ref}" was dropped`);
+      } else if (refStack.includes(ref)) {
+        report(location, `recursive $ref "${ref}" cannot be expanded`);
+        if (flat.type === undefined && target.type !== undefined) flat.type = target.type;
+      } else {
+        // Sibling keywords override the referenced definition
+        refStack.push(ref);
+        flat = { ...flatten(target, location, refStack), ...flat };
+      }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      delete flat.allOf;
+      for (const part of schema.allOf) {
+        if (!isObject(part)) continue;
+        const merged = flatten(part, location, refStack);
+        flat = {
+          ...merged,
+          ...flat,
+          properties: { ...(isObject(merged.properties) ? merged.properties : {}), ...(isObject(flat.properties) ? flat.properties : {}) },
+          required: [...new Set([...((merged.required as string[]) || []), ...((flat.required as string[]) || [])])],
+        };
+      }
+    }
+
+    return flat;
+  };
+
+  const resolveType = (schema: JsonObject, location: string): SchemaPropertyType => {
+    let type = schema.type;
+    if (Array.isArray(type)) {
+      const nonNull = type.filter((t) => t !== 'null');
+      if (nonNull.length !== type.length) report(location, 'null is not a supported type; imported as non-nullable');
+      if (nonNull.length > 1) report(location, `union type [${nonNull.join(', ')}] reduced to ${nonNull[0]}`);
+      type = nonNull[0];
+    }
+    if (typeof type === 'string' && PROPERTY_TYPES.includes(type as SchemaPropertyType)) {
+      return type as SchemaPropertyType;
+    }
+    if (type !== undefined) report(location, `type "${String(type)}" imported as string`);
+    // Untyped schemas: infer from the keywords present
+    if (isObject(schema.properties)) return 'object';
+    if (schema.items !== undefined || schema.prefixItems !== undefined) return 'array';
+    if (typeof schema.const === 'number' || typeof schema.minimum === 'number' || typeof schema.maximum === 'number') {
+      return 'number';
+    }
+    return 'string';
+  };
+
+  const parseProperty = (name: string, raw: unknown, required: boolean, location: string, refStack: string[]): SchemaProperty => {
+    const property: SchemaProperty = { id: generateId(), name, title: titleFromName(name), type: 'string', required };
+    if (raw === true || raw === undefined) return property;
+    if (!isObject(raw)) {
+      report(location, 'boolean false schema imported as an unconstrained string');
+      return property;
+    }
+
+    const childStack = [...refStack];
+    const schema = flatten(raw, location, childStack);
+    const type = resolveType(schema, location);
+    property.type = type;
+    if (typeof schema.title === 'string') property.title = schema.title;
+    if (typeof schema.description === 'string') property.description = schema.description;
+
+    for (const keyword of Object.keys(schema)) {
+      if (!HANDLED_KEYWORDS.has(keyword) && keyword !== 'prefixItems') {
+        report(location, `${keyword} is not supported and was dropped`);
+      }
+    }
+
+    if (type === 'string') {
+      if (typeof schema.minLength === 'number') property.minLength = schema.minLength;
+      if (typeof schema.maxLength === 'number') property.maxLength = schema.maxLength;
+      if (typeof schema.pattern === 'string') property.pattern = schema.pattern;
+      if (typeof schema.format === 'string') {
+        if (STRING_FORMATS.includes(schema.format as StringFormat)) {
+          property.format = schema.format as StringFormat;
+        } else {
+          report(location, `format "${schema.format}" is not supported and was dropped`);
+        }
+      }
+    }
+
+    // const is represented as a single-value enum, like toJsonSchema emits it
+    const values = schema.const !== undefined ? [schema.const] : Array.isArray(schema.enum) ? schema.enum : undefined;
+    if (values) {
+      if (type === 'string') {
+        property.enum = values.map(String);
+        if (values.some((value) => typeof value !== 'string')) report(location, 'non-string enum values were converted to strings');
+      } else {
+        report(location, `enum/const on a ${type} property is not supported and was dropped`);
+      }
+    }
+
+    if (type === 'integer' || type === 'number') {
+      if (typeof schema.minimum === 'number') property.minimum = schema.minimum;
+      if (typeof schema.maximum === 'number') property.maximum = schema.maximum;
+      // draft-04 style boolean exclusive bounds are not valid in draft-07 or later
+      if (typeof schema.exclusiveMinimum === 'number') property.exclusiveMinimum = schema.exclusiveMinimum;
+      if (typeof schema.exclusiveMaximum === 'number') property.exclusiveMaximum = schema.exclusiveMaximum;
+    }
+
+    if (type === 'array') {
+      if (typeof schema.minItems === 'number') property.minItems = schema.minItems;
+      if (typeof schema.maxItems === 'number') property.maxItems = schema.maxItems;
+      if (schema.uniqueItems === true) property.uniqueItems = true;
+
+      // draft-07 tuple "items": [...] and 2020-12 prefixItems both collapse to their first item
+      const tuple = Array.isArray(schema.items) ? schema.items : Array.isArray(schema.prefixItems) ? schema.prefixItems : null;
+      if (tuple) {
+        report(location, 'tuple validation is not supported; the first item schema applies to all items');
+        if (tuple.length > 0) property.items = parseProperty('item', tuple[0], false, `${location}/items/0`, childStack);
+      } else if (schema.items !== undefined) {
+        property.items = parseProperty('item', schema.items, false, `${location}/items`, childStack);
+      }
+    }
+
+    if (type === 'object') {
+      property.properties = parseObjectProperties(schema, location, childStack);
+    }
+
+    return property;
+  };
+
+  const parseObjectProperties = (schema: JsonObject, location: string, refStack: string[]): SchemaProperty[] => {
+    if (isObject(schema.additionalProperties)) {
+      report(location, 'additionalProperties with a schema is not supported and was dropped');
+    }
+    const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    for (const name of required) {
+      if (!(name in properties)) report(location, `required property "${name}" has no definition and was dropped`);
+    }
+    return Object.entries(properties).map(([name, child]) =>
+      parseProperty(name, child, required.has(name), `${location}/properties/${name}`, refStack)
+    );
+  };
+
+  // Locate the credential subject
+  const subjectStack: string[] = [];
+  const root = flatten(doc, '', subjectStack);
+  const rootProperties = isObject(root.properties) ? root.properties : {};
+  const hasSubject = isObject(rootProperties.credentialSubject);
+  const subjectLocation = hasSubject ? '/properties/credentialSubject' : '';
+  const subject = hasSubject ? flatten(rootProperties.credentialSubject as JsonObject, subjectLocation, subjectStack) : root;
+
+  if (hasSubject) {
+    const envelope = Object.keys(rootProperties).filter((name) => name !== 'credentialSubject');
+    if (envelope.length > 0) {
+      report('/properties', `credential envelope properties (${envelope.join(', ')}) are not part of the Schema Builder model`);
+    }
+  } else if (subject.type !== undefined && subject.type !== 'object') {
+    report('', 'root schema is not an object; no properties imported');
+  }
+
+  const draft = typeof doc.$schema === 'string' && doc.$schema.includes('draft-07') ? 'draft-07' : '2020-12';
+  if (typeof doc.$schema === 'string' && !/draft-07|2020-12|2019-09/.test(doc.$schema)) {
+    report('/$schema', `${doc.$schema} is not draft-07 or 2020-12; imported as ${draft}`);
+  }
+
+  return {
+    format: 'json-schema',
+    metadata: {
+      schemaId: typeof doc.$id === 'string' ? doc.$id : '',
+      title: typeof doc.title === 'string' ? doc.title : '',
+      description: typeof doc.description === 'string' ? doc.description : '',
+      additionalProperties: subject.additionalProperties === false ? false : true,
+    },
+    properties: parseObjectProperties(subject, subjectLocation, subjectStack),
+    unsupported,
+  };
+};
+
+// ============================================
+// OCA bundles
+// ============================================
+
+/**
+ * Collect overlays from a bundle. Handles the Aries array form
+ * ({ capture_base, overlays: [...] }) and the OCA 1.x keyed form
+ * ({ overlays: { label: [...], meta: {...} } }).
+ */
+const collectOverlays = (bundle: JsonObject): JsonObject[] => {
+  const overlays = bundle.overlays;
+  if (Array.isArray(overlays)) return overlays.filter(isObject);
+  if (isObject(overlays)) {
+    return Object.entries(overlays).flatMap(([key, value]) =>
+      (Array.isArray(value) ? value : [value]).filter(isObject).map((overlay) => ({ type: key, ...overlay }))
+    );
+  }
+  return [];
+};
+
+const overlayKind = (overlay: JsonObject): string => {
+  const type = String(overlay.type || '');
+  // "spec/overlays/label/1.0" -> "label", "aries/overlays/branding/1.0" -> "branding"
+  const match = type.match(/overlays\/([a-z_]+)\//);
+  return (match ? match[1] : type).toLowerCase();
+};
+
+// Prefer English overlays when several languages are present
+const pickLanguage = (overlays: JsonObject[]): JsonObject | undefined =>
+  overlays.find((o) => String(o.language || o.lang || '').toLowerCase().startsWith('en')) || overlays[0];
+
+const OCA_DATE_FORMATS: Record<string, StringFormat> = {
+  'YYYY-MM-DD': 'date',
+  'YYYY-MM-DDThh:mm:ssZ': 'date-time',
+  'YYYY-MM-DDTHH:mm:ssZ': 'date-time',
+};
+
+export const importOcaBundle = (doc: unknown): SchemaImportResult => {
+  const bundle = Array.isArray(doc) ? doc[0] : doc;
+  if (!isObject(bundle)) throw new Error('OCA bundle must be an object');
+
+  const unsupported: string[] = [];
+  if (Array.isArray(doc) && doc.length > 1) {
+    unsupported.push(`/: bundle contains ${doc.length} capture bases; only the first was imported`);
+  }
+
+  const captureBase = (bundle.capture_base || bundle.captureBase || bundle) as JsonObject;
+  const attributes = isObject(captureBase.attributes) ? (captureBase.attributes as Record<string, string>) : {};
+  const overlays = collectOverlays(bundle);
+  const byKind = (kind: string) => overlays.filter((overlay) => overlayKind(overlay) === kind);
+
+  const meta = pickLanguage(byKind('meta'));
+  const labels = (pickLanguage(byKind('label'))?.attribute_labels || {}) as Record<string, string>;
+  const information = (pickLanguage(byKind('information'))?.attribute_information || {}) as Record<string, string>;
+  const formats = (byKind('format')[0]?.attribute_formats || {}) as Record<string, string>;
+  const conformance = (byKind('conformance')[0]?.attribute_conformance || {}) as Record<string, string>;
+  const entryCodes = (byKind('entry_code')[0]?.attribute_entry_codes || {}) as Record<string, unknown>;
+
+  const handledKinds = new Set(['meta', 'label', 'information', 'format', 'conformance', 'entry_code', 'entry', 'character_encoding']);
+  for (const kind of new Set(overlays.map(overlayKind))) {
+    if (!handledKinds.has(kind)) unsupported.push(`/overlays/${kind}: overlay is not supported and was dropped`);
+  }
+  if (Array.isArray(captureBase.flagged_attributes) && captureBase.flagged_attributes.length > 0) {
+    unsupported.push(
+      `/capture_base/flagged_attributes: PII flags on ${(captureBase.flagged_attributes as string[]).join(', ')} are not represented`
+    );
+  }
+
+  const parseAttribute = (name: string, ocaType: string): SchemaProperty => {
+    const location = `/capture_base/attributes/${name}`;
+    const property: SchemaProperty = {
+      id: generateId(),
+      name,
+      title: labels[name] || titleFromName(name),
+      type: 'string',
+      required: conformance[name] === 'M',
+    };
+    if (information[name]) property.description = information[name];
+
+    const arrayMatch = ocaType.match(/^Array\[(.+)\]$/);
+    const baseType = arrayMatch ? arrayMatch[1] : ocaType;
+    const format = formats[name];
+    const item: SchemaProperty = arrayMatch ? { id: generateId(), name: 'item', title: 'Item', type: 'string', required: false } : property;
+
+    switch (baseType) {
+      case 'Numeric':
+        // AnonCreds-style dateint formats (YYYYMMDD) are integers
+        item.type = format && /^[YMD]+$/.test(format) ? 'integer' : 'number';
+        break;
+      case 'Boolean':
+        item.type = 'boolean';
+        break;
+      case 'DateTime':
+        item.format = (format && OCA_DATE_FORMATS[format]) || 'date-time';
+        if (format && !OCA_DATE_FORMATS[format]) unsupported.push(`${location}: DateTime format "${format}" imported as date-time`);
+        break;
+      case 'Text':
+        // Text formats are regular expressions in OCA
+        if (format) item.pattern = format;
+        break;
+      default:
+        unsupported.push(`${location}: OCA type "${ocaType}" imported as string`);
+    }
+
+    const codes = entryCodes[name];
+    if (Array.isArray(codes) && item.type === 'string') {
+      item.enum = codes.map(String);
+    } else if (typeof codes === 'string') {
+      unsupported.push(`${location}: entry codes referenced by SAID (${codes}) cannot be resolved`);
+    }
+
+    if (arrayMatch) {
+      property.type = 'array';
+      property.items = item;
+    }
+    return property;
+  };
+
+  return {
+    format: 'oca',
+    metadata: {
+      title: (meta?.name as string) || '',
+      description: (meta?.description as string) || '',
+    },
+    properties: Object.entries(attributes).map(([name, type]) => parseAttribute(name, String(type))),
+    unsupported,
+  };
+};
+
+// ============================================
+// AnonCreds
+// ============================================
+
+/**
+ * Import an AnonCreds attribute list. AnonCreds values are untyped strings,
+ * so every attribute becomes a required string except the common *_dateint
+ * convention, which is an integer for predicate proofs.
+ */
+export const importAnonCredsAttributes = (attributes: string[], name: string): SchemaImportResult => {
+  return {
+    format: 'anoncreds',
+    metadata: { title: name, description: '' },
+    properties: attributes.map((attribute) => ({
+      id: generateId(),
+      name: attribute,
+      title: titleFromName(attribute),
+      type: attribute.endsWith('_dateint') ? 'integer' : 'string',
+      required: true,
+    })),
+    unsupported: [],
+  };
+};
+
+export const importAnonCredsSchema = (doc: unknown): SchemaImportResult => {
+  if (!isObject(doc)) throw new Error('AnonCreds schema must be an object');
+  const attributes = (doc.attrNames ?? doc.attr_names) as string[];
+  return importAnonCredsAttributes(attributes.map(String), String(doc.name || ''));
+};
+
+export const importCatalogueCredential = (credential: CatalogueCredential): SchemaImportResult =>
+  importAnonCredsAttributes(credential.attributes, credential.name);
+
+/**
+ * Import a pasted document in any supported format
+ */
+export const importDocument = (doc: unknown): SchemaImportResult => {
+  switch (detectImportFormat(doc)) {
+    case 'oca':
+      return importOcaBundle(doc);
+    case 'anoncreds':
+      return importAnonCredsSchema(doc);
+    default:
+      return importJsonSchema(doc);
+  }
+};
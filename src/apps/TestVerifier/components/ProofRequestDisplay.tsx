@@ -156,6 +156,17 @@ export default function ProofRequestDisplay() {
           <p className="text-purple-100 text-sm mt-1">{currentProofRequest.templateName}</p>
         </div>
 
+        {/* Template parts the request could not express */}
+        {currentProofRequest.warnings && currentProofRequest.warnings.length > 0 && (
+          <div className="px-6 py-3 bg-amber-50 border-b border-amber-200">
+            <ul className="text-sm text-amber-800 list-disc list-inside space-y-1">
+              {currentProofRequest.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* QR Code */}
         <div className="p-8 flex flex-col items-center">
           {currentProofRequest.status === 'generated' && currentProofRequest.shortUrl ? (
@@ -187,6 +187,17 @@ export default function VerifierCatalog({ socketSessionId: _socketSessionId }: V
                   <span className="px-2 py-0.5 text-xs font-medium bg-purple-100 text-purple-700 rounded">
                     {CREDENTIAL_FORMAT_LABELS[template.credentialFormat]}
                   </span>
+                  <span className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded">
+                    v{template.version}
+                  </span>
+                  {template.status === 'deprecated' && (
+                    <span
+                      className="px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded"
+                      title={template.statusReason || undefined}
+                    >
+                      Deprecated
+                    </span>
+                  )}
                   <span className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded">
                     {template.requestedCredentials.length} credential{template.requestedCredentials.length !== 1 ? 's' : ''}
                   </span>
@@ -11,9 +11,13 @@ import JsonPreview from '../../components/JsonPanel/JsonPreview';
 import CredentialPreview from '../../components/PreviewPanel/CredentialPreview';
 import Toolbar from '../../components/Toolbar/Toolbar';
 import VctList from './components/VctList';
+import SdJwtSamplePanel from './components/SdJwtSamplePanel';
+import SvgTemplatePanel from './components/SvgTemplatePanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
 
 type FormSection = 'metadata' | 'display' | 'front' | 'back' | 'claims';
 type MobilePanel = 'form' | 'json' | 'preview';
+type JsonPanelView = 'vct' | 'svg' | 'a11y' | 'sd-jwt';
 
 // Resizable divider component
 function ResizableDivider({ onDrag }: { onDrag: (delta: number) => void }) {
@@ -84,6 +88,7 @@ export default function VctBuilderApp() {
   const [showJsonPanel, setShowJsonPanel] = useState(true);
   const [showPreviewPanel, setShowPreviewPanel] = useState(true);
   const [mobileActivePanel, setMobileActivePanel] = useState<MobilePanel>('preview');
+  const [jsonPanelView, setJsonPanelView] = useState<JsonPanelView>('vct');
 
   // Panel widths for resizable panels (in pixels)
   const [formPanelWidth, setFormPanelWidth] = useState(384); // 24rem = 384px
@@ -104,6 +109,13 @@ export default function VctBuilderApp() {
   const currentVct = useVctStore((state) => state.currentVct);
   const isEditing = useVctStore((state) => state.isEditing);
   const newProject = useVctStore((state) => state.newProject);
+  const resolveExtends = useVctStore((state) => state.resolveExtends);
+
+  // Resolve the parent chain when extends changes (debounced while typing a URL)
+  useEffect(() => {
+    const timer = setTimeout(() => resolveExtends(), 400);
+    return () => clearTimeout(timer);
+  }, [currentVct.vct, currentVct.extends, currentVct['extends#integrity'], resolveExtends]);
 
   // Get available locales from the current VCT display configuration
   const availableLocales = currentVct.display.map((d) => d.locale);
@@ -302,10 +314,31 @@ export default function VctBuilderApp() {
             `}
             style={{ width: mobileActivePanel === 'json' ? '100%' : (!showPreviewPanel ? undefined : `${jsonPanelWidth}px`) }}
           >
-            <div className="sticky top-0 bg-gray-800 px-4 py-2 border-b border-gray-700 flex-shrink-0">
-              <h2 className="text-white font-medium">VCT JSON</h2>
+            <div className="sticky top-0 bg-gray-800 px-4 py-2 border-b border-gray-700 flex-shrink-0 flex items-center gap-4">
+              {([
+                { value: 'vct', label: 'VCT JSON' },
+                { value: 'svg', label: 'SVG Templates' },
+                { value: 'a11y', label: 'Accessibility' },
+                ...(currentVct.format === 'sd-jwt' ? [{ value: 'sd-jwt', label: 'SD-JWT Sample' }] : []),
+              ] as { value: JsonPanelView; label: string }[]).map((tab) => (
+                <button
+                  key={tab.value}
+                  onClick={() => setJsonPanelView(tab.value)}
+                  className={`font-medium ${jsonPanelView === tab.value ? 'text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </div>
-            <JsonPreview />
+            {jsonPanelView === 'svg' ? (
+              <SvgTemplatePanel />
+            ) : jsonPanelView === 'a11y' ? (
+              <AccessibilityPanel />
+            ) : currentVct.format === 'sd-jwt' && jsonPanelView === 'sd-jwt' ? (
+              <SdJwtSamplePanel />
+            ) : (
+              <JsonPreview />
+            )}
           </div>
         )}
 
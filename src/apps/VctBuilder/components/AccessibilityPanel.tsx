@@ -0,0 +1,257 @@
+/**
+ * AccessibilityPanel Component
+ *
+ * Runs the card accessibility checks for every display of the VCT: text
+ * contrast on the card colour and background image, logo alt text, text
+ * overflow in zones, and dark / high-contrast SVG template variants. Offers
+ * colour variants derived from the card that can be applied to a display or
+ * downloaded as SVG templates.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useVctStore } from '../../../store/vctStore';
+import { useZoneTemplateStore } from '../../../store/zoneTemplateStore';
+import type { VCT, ZoneTemplate } from '../../../types/vct';
+import {
+  AccessibilitySeverity,
+  BackgroundSamples,
+  ColorVariant,
+  checkCardAccessibility,
+  contrastRatio,
+  suggestColorVariants,
+  toHexColor,
+} from '../utils/cardAccessibility';
+import { generateSvgTemplate } from '../utils/svgTemplateGenerator';
+
+const SEVERITY_STYLES: Record<AccessibilitySeverity, string> = {
+  error: 'bg-red-900/40 border-red-700 text-red-200',
+  warning: 'bg-amber-900/40 border-amber-700 text-amber-200',
+  info: 'bg-gray-800 border-gray-700 text-gray-300',
+};
+
+/**
+ * Average colour of the background image, overall and under each zone.
+ * Resolves to undefined when the image cannot be read (e.g. no CORS headers).
+ */
+function sampleBackgroundImage(uri: string, template: ZoneTemplate | null): Promise<BackgroundSamples | undefined> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onerror = () => resolve(undefined);
+    image.onload = () => {
+      try {
+        const width = 170;
+        const height = Math.round(width * (image.naturalHeight / image.naturalWidth)) || 107;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) return resolve(undefined);
+        context.drawImage(image, 0, 0, width, height);
+
+        const average = (x: number, y: number, w: number, h: number): string => {
+          const data = context.getImageData(
+            Math.floor(x),
+            Math.floor(y),
+            Math.max(1, Math.round(w)),
+            Math.max(1, Math.round(h))
+          ).data;
+          const sum = [0, 0, 0];
+          for (let i = 0; i < data.length; i += 4) {
+            sum[0] += data[i];
+            sum[1] += data[i + 1];
+            sum[2] += data[i + 2];
+          }
+          const pixels = data.length / 4;
+          return toHexColor([sum[0] / pixels, sum[1] / pixels, sum[2] / pixels]);
+        };
+
+        const zones: Record<string, string> = {};
+        for (const zone of [...(template?.front.zones || []), ...(template?.back.zones || [])]) {
+          zones[zone.id] = average(
+            (zone.position.x / 100) * width,
+            (zone.position.y / 100) * height,
+            (zone.position.width / 100) * width,
+            (zone.position.height / 100) * height
+          );
+        }
+        resolve({ average: average(0, 0, width, height), zones });
+      } catch {
+        // Tainted canvas: the image has no CORS headers
+        resolve(undefined);
+      }
+    };
+    image.src = uri;
+  });
+}
+
+export default function AccessibilityPanel() {
+  const currentVct = useVctStore((state) => state.currentVct);
+  const sampleData = useVctStore((state) => state.sampleData);
+  const updateDisplay = useVctStore((state) => state.updateDisplay);
+
+  const selectedTemplateId = useZoneTemplateStore((state) => state.selectedTemplateId);
+  const getTemplate = useZoneTemplateStore((state) => state.getTemplate);
+  const template = selectedTemplateId ? getTemplate(selectedTemplateId) ?? null : null;
+
+  // Sampled background images, by URI
+  const [samples, setSamples] = useState<Record<string, BackgroundSamples | undefined>>({});
+
+  // Keyed by value so editing other display fields does not re-sample the images
+  const imageUriKey = currentVct.display
+    .map((display) => display.rendering?.simple?.background_image?.uri)
+    .filter(Boolean)
+    .join('\n');
+  const imageUris = useMemo(() => (imageUriKey ? imageUriKey.split('\n') : []), [imageUriKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(imageUris.map(async (uri) => [uri, await sampleBackgroundImage(uri, template)] as const)).then(
+      (entries) => {
+        if (!cancelled) setSamples(Object.fromEntries(entries));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUris, template]);
+
+  const displays = useMemo(
+    () =>
+      currentVct.display.map((display, index) => {
+        const simple = display.rendering?.simple;
+        const imageUri = simple?.background_image?.uri;
+        // Check each display on its own so the image samples apply to it only
+        const vct: VCT = { ...currentVct, display: [display] };
+        return {
+          index,
+          locale: display.locale,
+          simple,
+          ratio: contrastRatio(simple?.text_color || '#FFFFFF', simple?.background_color || '#1E3A5F'),
+          issues: checkCardAccessibility(vct, template, sampleData, imageUri ? samples[imageUri] : undefined),
+          variants: suggestColorVariants(simple),
+        };
+      }),
+    [currentVct, template, sampleData, samples]
+  );
+
+  const applyVariant = (index: number, variant: ColorVariant) => {
+    const display = currentVct.display[index];
+    updateDisplay(index, {
+      rendering: {
+        ...display.rendering,
+        simple: {
+          ...display.rendering?.simple,
+          background_color: variant.background_color,
+          text_color: variant.text_color,
+        },
+      },
+    });
+  };
+
+  // SVG templates for a variant, with the variant's colour_scheme/contrast properties
+  const downloadVariant = (index: number, variant: ColorVariant) => {
+    if (!template) return;
+    const display = currentVct.display[index];
+    const vct: VCT = {
+      ...currentVct,
+      display: currentVct.display.map((d, i) =>
+        i !== index
+          ? d
+          : {
+              ...d,
+              rendering: {
+                ...d.rendering,
+                simple: { ...d.rendering?.simple, background_color: variant.background_color, text_color: variant.text_color },
+              },
+            }
+      ),
+    };
+    const slug = (currentVct.name || 'credential').toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    const faces = template.frontOnly ? (['front'] as const) : (['front', 'back'] as const);
+    for (const face of faces) {
+      const generated = generateSvgTemplate(vct, template, face, { displayIndex: index });
+      const blob = new Blob([generated.svg], { type: 'image/svg+xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${slug}-${display.locale}-${variant.color_scheme}${variant.contrast === 'high' ? '-high-contrast' : ''}-${face}.svg`;
+      a.click();
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-3 space-y-5 text-gray-100">
+      {!template && (
+        <p className="text-xs text-gray-400">
+          Select a zone template in the Display tab to also check text overflow and contrast per zone.
+        </p>
+      )}
+
+      {displays.map((display) => (
+        <div key={display.index} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{display.locale}</h4>
+            {display.ratio !== null && (
+              <span className="text-xs text-gray-400">
+                Card contrast <span className="font-mono text-gray-200">{display.ratio}:1</span>
+              </span>
+            )}
+          </div>
+
+          {display.issues.length === 0 ? (
+            <p className="text-xs text-green-300">No accessibility issues found.</p>
+          ) : (
+            <ul className="space-y-1">
+              {display.issues.map((issue, i) => (
+                <li key={i} className={`text-xs border rounded px-2 py-1 ${SEVERITY_STYLES[issue.severity]}`}>
+                  <span className="font-medium">{issue.target}:</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Suggested variants */}
+          <div className="space-y-1">
+            <p className="text-xs text-gray-400">Suggested variants</p>
+            {display.variants.map((variant) => (
+              <div
+                key={`${variant.color_scheme}-${variant.contrast}`}
+                className="flex items-center gap-2 bg-gray-800 rounded px-2 py-1.5"
+              >
+                <span
+                  className="px-2 py-0.5 rounded text-xs font-medium"
+                  style={{ backgroundColor: variant.background_color, color: variant.text_color }}
+                >
+                  Aa
+                </span>
+                <span className="text-xs text-gray-300 flex-1">
+                  {variant.contrast === 'high' ? 'High contrast' : 'Dark'}{' '}
+                  <span className="font-mono text-gray-400">
+                    {variant.text_color} on {variant.background_color} · {variant.ratio}:1
+                  </span>
+                </span>
+                <button
+                  onClick={() => applyVariant(display.index, variant)}
+                  className="px-2 py-1 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded"
+                  title="Use these colours for this display"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => downloadVariant(display.index, variant)}
+                  disabled={!template}
+                  className="px-2 py-1 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded disabled:opacity-50"
+                  title="Download SVG templates in these colours"
+                >
+                  SVG
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * SdJwtSamplePanel Component
+ *
+ * Issues a sample SD-JWT VC for the VCT being edited, using the linked schema,
+ * the sample data entered in the Claims tab and each claim's sd setting.
+ * Keys are throwaway ES256 test keys generated in the browser.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useVctStore } from '../../../store/vctStore';
+import { highlightJson } from '../../../utils/jsonHighlight';
+import {
+  buildClaimSet,
+  createSdJwtSample,
+  generateTestKeys,
+  SdJwtSample,
+  SdJwtTestKeys,
+} from '../utils/sdJwtSample';
+
+export default function SdJwtSamplePanel() {
+  const currentVct = useVctStore((state) => state.currentVct);
+  const schemaProperties = useVctStore((state) => state.schemaProperties);
+  const sampleData = useVctStore((state) => state.sampleData);
+
+  const [keys, setKeys] = useState<SdJwtTestKeys | null>(null);
+  const [sample, setSample] = useState<SdJwtSample | null>(null);
+  const [discloseAllowed, setDiscloseAllowed] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  // Keys of the sample on screen, reused when it is regenerated after an edit
+  const sampleKeys = useRef<SdJwtTestKeys | null>(null);
+
+  const canGenerate = Boolean(currentVct.vct && schemaProperties);
+
+  const generate = useCallback(async (reuseKeys: SdJwtTestKeys | null) => {
+    if (!schemaProperties) return;
+    setError(null);
+    try {
+      const testKeys = reuseKeys || (await generateTestKeys());
+      setKeys(testKeys);
+      const claims = buildClaimSet(schemaProperties.properties, sampleData);
+      setSample(await createSdJwtSample(currentVct, claims, testKeys, { discloseAllowed }));
+      sampleKeys.current = testKeys;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate the sample');
+    }
+  }, [currentVct, schemaProperties, sampleData, discloseAllowed]);
+
+  // Keep an existing sample in step with VCT edits, reusing its keys
+  useEffect(() => {
+    if (sampleKeys.current) generate(sampleKeys.current);
+  }, [generate]);
+
+  const handleCopy = async (label: string, text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleDownload = () => {
+    if (!sample) return;
+    const blob = new Blob([sample.compact], { type: 'application/dc+sd-jwt' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${currentVct.name ? currentVct.name.toLowerCase().replace(/\s+/g, '-') : 'sample'}.sd-jwt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderJson = (label: string, value: unknown) => {
+    const json = JSON.stringify(value, null, 2);
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{label}</h4>
+          <button onClick={() => handleCopy(label, json)} className="text-xs text-gray-400 hover:text-white">
+            {copied === label ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+        <pre
+          className="text-xs font-mono leading-relaxed whitespace-pre-wrap break-all bg-gray-950 rounded p-2"
+          dangerouslySetInnerHTML={{ __html: highlightJson(json) }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-800 border-b border-gray-700">
+        <button
+          onClick={() => generate(keys)}
+          disabled={!canGenerate}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white hover:bg-blue-700 rounded disabled:opacity-50"
+          title={canGenerate ? 'Issue a sample credential' : 'Set a VCT identifier and select a schema first'}
+        >
+          {sample ? 'Regenerate' : 'Generate SD-JWT VC'}
+        </button>
+        {sample && (
+          <>
+            <button
+              onClick={() => generate(null)}
+              className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded"
+              title="Generate new issuer and holder test keys"
+            >
+              New Keys
+            </button>
+            <button
+              onClick={handleDownload}
+              className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded"
+            >
+              Download
+            </button>
+          </>
+        )}
+        <label className="flex items-center gap-1.5 text-xs text-gray-300 ml-auto">
+          <input
+            type="checkbox"
+            checked={discloseAllowed}
+            onChange={(e) => setDiscloseAllowed(e.target.checked)}
+          />
+          Disclose "allowed" claims
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4 text-gray-100">
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        {!sample ? (
+          <div className="text-center text-gray-500 text-sm py-8 px-4">
+            <p>Issue a test SD-JWT VC for this type.</p>
+            <p className="text-xs mt-2">
+              Claims with sd "always" (and "allowed", unless unticked) become disclosures. Values come from the sample data in the Claims tab.
+              {!schemaProperties && ' Select a schema in Metadata to start.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-amber-300">
+              Signed with a throwaway test key. Not a real credential.
+            </p>
+
+            {/* Compact serialization */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">SD-JWT VC</h4>
+                <button
+                  onClick={() => handleCopy('compact', sample.compact)}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  {copied === 'compact' ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs font-mono break-all bg-gray-950 rounded p-2">
+                {sample.compact.split('~').map((part, i) => (
+                  <span key={i}>
+                    {i > 0 && <span className="text-gray-500">~</span>}
+                    <span className={i === 0 ? 'text-cyan-400' : 'text-green-400'}>{part}</span>
+                  </span>
+                ))}
+              </p>
+            </div>
+
+            {renderJson('Header', sample.header)}
+            {renderJson('Payload', sample.payload)}
+
+            {/* Disclosures */}
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                Disclosures ({sample.disclosures.length})
+              </h4>
+              {sample.disclosures.length === 0 ? (
+                <p className="text-xs text-gray-500">No claims are selectively disclosable.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {sample.disclosures.map((disclosure) => (
+                    <li key={disclosure.digest} className="text-xs bg-gray-950 rounded p-2">
+                      <p className="font-mono text-cyan-400">{disclosure.path}</p>
+                      <p className="font-mono text-green-400 break-all">{JSON.stringify(disclosure.value)}</p>
+                      <p className="font-mono text-gray-500 break-all" title="SHA-256 digest in _sd">
+                        {disclosure.digest}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {keys && renderJson('Issuer Public Key (JWK)', keys.issuerPublicJwk)}
+            {keys && renderJson('Holder Private Key (JWK, for test wallets)', keys.holderPrivateJwk)}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * SvgTemplatePanel Component
+ *
+ * Generates SD-JWT VC SVG rendering templates from the selected zone template
+ * and the card elements configured on the Front/Back tabs, previews them with
+ * sample data, and publishes them as credential assets. Publishing links the
+ * templates in display[0].rendering.svg_templates with their integrity hashes
+ * and writes any svg_ids it assigned back to the claims.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useVctStore } from '../../../store/vctStore';
+import { useZoneTemplateStore } from '../../../store/zoneTemplateStore';
+import { resolveAssetCriteria } from '../../../services/assetResolver';
+import type { DynamicCardElement, AssetCriteria } from '../../../types/vct';
+import {
+  bindClaimSvgIds,
+  CardFace,
+  fillSvgPlaceholders,
+  generateSvgTemplate,
+} from '../utils/svgTemplateGenerator';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+const DISPLAY_INDEX = 0;
+
+interface PublishedFace {
+  face: CardFace;
+  uri: string;
+  prUrl: string;
+}
+
+export default function SvgTemplatePanel() {
+  const currentVct = useVctStore((state) => state.currentVct);
+  const sampleData = useVctStore((state) => state.sampleData);
+  const updateVctField = useVctStore((state) => state.updateVctField);
+  const updateSvgTemplateByFace = useVctStore((state) => state.updateSvgTemplateByFace);
+
+  const selectedTemplateId = useZoneTemplateStore((state) => state.selectedTemplateId);
+  const getTemplate = useZoneTemplateStore((state) => state.getTemplate);
+  const template = selectedTemplateId ? getTemplate(selectedTemplateId) : null;
+
+  const [face, setFace] = useState<CardFace>('front');
+  const [showSample, setShowSample] = useState(true);
+  const [resolvedImages, setResolvedImages] = useState<Record<string, string | null>>({});
+  const [publishing, setPublishing] = useState(false);
+  const [published, setPublished] = useState<PublishedFace[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const frontOnly = !!template?.frontOnly;
+  const faces = useMemo<CardFace[]>(() => (frontOnly ? ['front'] : ['front', 'back']), [frontOnly]);
+  const display = currentVct.display[DISPLAY_INDEX];
+
+  // Criteria-based images are fixed to one matching asset at export time
+  useEffect(() => {
+    const elements = display?.dynamic_card_elements;
+    const criteriaElements = [...(elements?.front || []), ...(elements?.back || [])].filter(
+      (el): el is DynamicCardElement & { asset_criteria: AssetCriteria } =>
+        el.content_type === 'image' && !!el.asset_criteria
+    );
+    if (criteriaElements.length === 0) return;
+
+    Promise.all(
+      criteriaElements.map(async (el) => {
+        try {
+          return [el.zone_id, await resolveAssetCriteria(el.asset_criteria)] as const;
+        } catch {
+          return [el.zone_id, null] as const;
+        }
+      })
+    ).then((entries) => setResolvedImages(Object.fromEntries(entries)));
+  }, [display?.dynamic_card_elements]);
+
+  // Claims shown on the card get an svg_id so they can be placeholders
+  const binding = useMemo(() => bindClaimSvgIds(currentVct, DISPLAY_INDEX), [currentVct]);
+
+  const generated = useMemo(() => {
+    if (!template) return null;
+    const vct = { ...currentVct, claims: binding.claims };
+    return faces.map((f) => generateSvgTemplate(vct, template, f, { displayIndex: DISPLAY_INDEX, resolvedImages }));
+  }, [currentVct, binding, template, faces, resolvedImages]);
+
+  const current = generated?.find((g) => g.face === face) || generated?.[0];
+
+  // Sample values by svg_id, keyed like the preview's sample data
+  const sampleValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    for (const claim of binding.claims) {
+      if (!claim.svg_id) continue;
+      const key = claim.path.filter((p) => typeof p === 'string' && p !== 'credentialSubject').join('.');
+      values[claim.svg_id] = sampleData[key] || claim.display[0]?.label || claim.svg_id;
+    }
+    return values;
+  }, [binding, sampleData]);
+
+  const currentTemplates = display?.rendering?.svg_templates;
+  const linkedUri = (f: CardFace) =>
+    currentTemplates && !Array.isArray(currentTemplates) ? currentTemplates[f]?.uri : undefined;
+
+  const slug = (currentVct.name || 'credential').toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+  const handleDownload = () => {
+    if (!current) return;
+    const blob = new Blob([current.svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slug}-${current.face}.svg`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Upload each face as a credential asset, open a PR for it and link it in the VCT
+  const handlePublish = async () => {
+    if (!generated) return;
+    setPublishing(true);
+    setError(null);
+    setPublished([]);
+
+    try {
+      if (binding.changed) {
+        updateVctField('claims', binding.claims);
+      }
+
+      const results: PublishedFace[] = [];
+      for (const result of generated) {
+        const name = `${slug}-${result.face}`;
+        const formData = new FormData();
+        formData.append('file', new Blob([result.svg], { type: 'image/svg+xml' }), `${name}.svg`);
+        formData.append('name', name);
+        formData.append('type', 'credential-svg-template');
+
+        const uploadResponse = await fetch(`${API_BASE}/api/assets`, {
+          method: 'POST',
+          credentials: 'include',
+          body: formData,
+        });
+        if (!uploadResponse.ok) {
+          const data = await uploadResponse.json();
+          throw new Error(data.error || `Failed to upload the ${result.face} template`);
+        }
+        const asset = await uploadResponse.json();
+
+        const publishResponse = await fetch(`${API_BASE}/api/github/asset`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            filename: asset.filename,
+            localUri: asset.localUri,
+            assetType: 'credential-svg-template',
+            name,
+            title: `Add SVG template: ${currentVct.name || name} (${result.face})`,
+          }),
+        });
+        if (!publishResponse.ok) {
+          const data = await publishResponse.json();
+          throw new Error(data.error || `Failed to publish the ${result.face} template`);
+        }
+        const data = await publishResponse.json();
+
+        // The upload hash covers the exact bytes that were published
+        updateSvgTemplateByFace(DISPLAY_INDEX, result.face, {
+          uri: data.uri,
+          'uri#integrity': asset.hash,
+          properties: result.properties,
+        });
+        results.push({ face: result.face, uri: data.uri, prUrl: data.pr.url });
+      }
+      setPublished(results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish the SVG templates');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (!template) {
+    return (
+      <div className="text-center text-gray-500 text-sm py-8 px-4">
+        <p>Select a zone template in the Display tab to generate SVG templates.</p>
+      </div>
+    );
+  }
+
+  const assignedCount = binding.claims.filter((claim, i) => claim.svg_id !== currentVct.claims[i]?.svg_id).length;
+  const previewSvg = current ? (showSample ? fillSvgPlaceholders(current.svg, sampleValues) : current.svg) : '';
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-800 border-b border-gray-700">
+        {faces.length > 1 && (
+          <div className="flex rounded overflow-hidden">
+            {faces.map((f) => (
+              <button
+                key={f}
+                onClick={() => setFace(f)}
+                className={`px-3 py-1.5 text-xs capitalize ${face === f ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={handleDownload}
+          className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 rounded"
+        >
+          Download
+        </button>
+        <button
+          onClick={handlePublish}
+          disabled={publishing}
+          className="px-3 py-1.5 text-xs bg-green-600 text-white hover:bg-green-700 rounded disabled:opacity-50"
+          title="Upload as credential assets, open pull requests and link them in svg_templates"
+        >
+          {publishing ? 'Publishing...' : 'Publish & Link'}
+        </button>
+        <label className="flex items-center gap-1.5 text-xs text-gray-300 ml-auto">
+          <input type="checkbox" checked={showSample} onChange={(e) => setShowSample(e.target.checked)} />
+          Sample values
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4 text-gray-100">
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        {published.length > 0 && (
+          <div className="text-xs bg-green-900/40 border border-green-700 rounded p-2 space-y-1">
+            {published.map((p) => (
+              <p key={p.face}>
+                <span className="capitalize">{p.face}</span> linked to{' '}
+                <span className="font-mono break-all">{p.uri}</span> ·{' '}
+                <a href={p.prUrl} target="_blank" rel="noopener noreferrer" className="underline">pull request</a>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="flex justify-center bg-gray-950 rounded p-3">
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(previewSvg)}`}
+            alt={`${face} SVG template`}
+            className="max-w-full"
+          />
+        </div>
+
+        {current && current.placeholders.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">Placeholders</h4>
+            <p className="text-xs font-mono text-cyan-400">
+              {current.placeholders.map((id) => `{{${id}}}`).join(' ')}
+            </p>
+          </div>
+        )}
+        {assignedCount > 0 && (
+          <p className="text-xs text-amber-300">
+            {assignedCount} claim{assignedCount !== 1 ? 's' : ''} shown on the card will get an svg_id when published.
+          </p>
+        )}
+        {current && current.warnings.length > 0 && (
+          <ul className="text-xs text-amber-300 space-y-0.5">
+            {current.warnings.map((warning, i) => (
+              <li key={i}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {/* Currently linked */}
+        <div>
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">Linked in VCT</h4>
+          {faces.map((f) => (
+            <p key={f} className="text-xs text-gray-400">
+              <span className="capitalize">{f}</span>:{' '}
+              <span className="font-mono break-all">{linkedUri(f) || 'none'}</span>
+            </p>
+          ))}
+        </div>
+
+        {/* Source */}
+        {current && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">SVG</h4>
+            <pre className="text-xs font-mono leading-relaxed whitespace-pre-wrap break-all bg-gray-950 rounded p-2 text-gray-300">
+              {current.svg}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
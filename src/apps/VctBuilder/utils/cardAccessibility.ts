@@ -0,0 +1,338 @@
+/**
+ * Card Accessibility Checks
+ *
+ * Checks a VCT's card designs for readability: WCAG 2.x contrast of the text
+ * colour on the card background (and on sampled background image regions),
+ * logo alt text, text that will not fit its zone at CARD_WIDTH×CARD_HEIGHT,
+ * and whether dark / high-contrast SVG template variants exist. Also derives
+ * colour pairs for suggested dark and high-contrast variants.
+ *
+ * @see https://www.w3.org/TR/WCAG21/#contrast-minimum
+ */
+
+import type {
+  DynamicCardElement,
+  SampleData,
+  VCT,
+  VCTSimpleRendering,
+  VCTSvgTemplate,
+  ZoneTemplate,
+} from '../../../types/vct';
+import { CARD_HEIGHT, CARD_WIDTH, isFrontBackFormat } from '../../../types/vct';
+
+export type AccessibilitySeverity = 'error' | 'warning' | 'info';
+
+export interface AccessibilityIssue {
+  severity: AccessibilitySeverity;
+  locale: string;
+  target: string;                 // "Card", a zone name, "Logo", "SVG templates"
+  message: string;
+  ratio?: number;                 // Contrast ratio, for contrast findings
+}
+
+export interface ColorVariant {
+  color_scheme: 'light' | 'dark';
+  contrast: 'normal' | 'high';
+  background_color: string;
+  text_color: string;
+  ratio: number;
+}
+
+// Average colours of the background image, overall and per zone
+export interface BackgroundSamples {
+  average?: string;
+  zones: Record<string, string>;
+}
+
+// WCAG thresholds
+const AA_NORMAL = 4.5;
+const AA_LARGE = 3;
+const AAA_NORMAL = 7;
+const LARGE_TEXT_PX = 24;         // 18pt regular
+
+// Matches the preview: text is 16px × scale and shrinks down to 8px to fit
+const BASE_FONT_PX = 16;
+const MIN_FONT_PX = 8;
+const MIN_READABLE_PX = 10;
+const AVERAGE_GLYPH_WIDTH = 0.55; // Of the font size, for proportional sans-serif fonts
+const LINE_HEIGHT = 1.2;
+
+// ============================================
+// COLOUR
+// ============================================
+
+/**
+ * Parse #RGB / #RRGGBB into 0-255 channels
+ */
+export const parseHexColor = (hex: string | undefined): [number, number, number] | null => {
+  const match = hex?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = match[1].length === 3 ? match[1].split('').map((c) => c + c).join('') : match[1];
+  return [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+export const toHexColor = ([r, g, b]: [number, number, number]): string =>
+  '#' + [r, g, b].map((c) => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/**
+ * WCAG relative luminance of a #RGB / #RRGGBB colour, 0 (black) to 1 (white),
+ * or null when the colour cannot be parsed
+ */
+export const relativeLuminance = (hex: string | undefined): number | null => {
+  const rgb = parseHexColor(hex);
+  if (!rgb) return null;
+  const [lr, lg, lb] = rgb.map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+/**
+ * WCAG contrast ratio between two colours, 1 to 21
+ */
+export const contrastRatio = (foreground: string, background: string): number | null => {
+  const fg = relativeLuminance(foreground);
+  const bg = relativeLuminance(background);
+  if (fg === null || bg === null) return null;
+  const [light, dark] = [fg, bg].sort((a, b) => b - a);
+  return Math.round(((light + 0.05) / (dark + 0.05)) * 100) / 100;
+};
+
+const mix = (color: [number, number, number], target: [number, number, number], amount: number) =>
+  color.map((c, i) => c + (target[i] - c) * amount) as [number, number, number];
+
+const BLACK: [number, number, number] = [0, 0, 0];
+const WHITE: [number, number, number] = [255, 255, 255];
+
+/**
+ * Move a background towards black or white (whichever the text contrasts
+ * with) until the pair reaches the target ratio, keeping the hue
+ */
+const adjustBackground = (background: string, text: string, target: number): string => {
+  const bg = parseHexColor(background) || BLACK;
+  const towards = (relativeLuminance(text) ?? 1) > 0.5 ? BLACK : WHITE;
+  for (let amount = 0; amount <= 1; amount += 0.05) {
+    const candidate = toHexColor(mix(bg, towards, amount));
+    if ((contrastRatio(text, candidate) ?? 0) >= target) return candidate;
+  }
+  return toHexColor(towards);
+};
+
+/**
+ * Readable text colour for a background: black or white, whichever contrasts more
+ */
+export const suggestTextColor = (background: string): string =>
+  (contrastRatio('#000000', background) ?? 0) >= (contrastRatio('#FFFFFF', background) ?? 0) ? '#000000' : '#FFFFFF';
+
+/**
+ * Dark and high-contrast variants derived from the card's colours
+ */
+export function suggestColorVariants(simple: VCTSimpleRendering | undefined): ColorVariant[] {
+  const background = simple?.background_color || '#1E3A5F';
+  const text = simple?.text_color || '#FFFFFF';
+  const bg = parseHexColor(background) || BLACK;
+
+  // Dark: the card hue, deepened, under light text
+  const darkBackground = toHexColor(mix(bg, BLACK, 0.7));
+  const darkText = '#FFFFFF';
+  // High contrast: the current text colour on a background pushed to AAA
+  const highText = (contrastRatio(text, background) ?? 0) >= AA_LARGE ? text : suggestTextColor(background);
+  const highBackground = adjustBackground(background, highText, AAA_NORMAL);
+  const isDark = (relativeLuminance(highBackground) ?? 0) < 0.5;
+
+  return [
+    {
+      color_scheme: 'dark',
+      contrast: 'normal',
+      background_color: darkBackground,
+      text_color: darkText,
+      ratio: contrastRatio(darkText, darkBackground) ?? 0,
+    },
+    {
+      color_scheme: isDark ? 'dark' : 'light',
+      contrast: 'high',
+      background_color: highBackground,
+      text_color: highText,
+      ratio: contrastRatio(highText, highBackground) ?? 0,
+    },
+  ];
+}
+
+// ============================================
+// ZONE TEXT
+// ============================================
+
+/**
+ * Text a zone shows in the preview: sample data for claims, otherwise the
+ * static value or label
+ */
+export const zoneSampleText = (element: DynamicCardElement, vct: VCT, sampleData: SampleData): string => {
+  if (element.claim_path?.startsWith('__dynamic:')) {
+    const key = element.claim_path.slice('__dynamic:'.length);
+    if (key === 'credential_name') return vct.name || 'Credential Name';
+    if (key === 'issuer_name') return vct.issuer?.name || 'Issuer Name';
+    return new Date().toLocaleDateString();
+  }
+  if (element.claim_path) {
+    const key = element.claim_path
+      .replace(/^\$\./, '')
+      .replace(/^credentialSubject\./, '')
+      .split('.')
+      .filter((segment) => !/^\d+$/.test(segment))
+      .join('.');
+    return sampleData[key] || element.label || 'Claim';
+  }
+  return element.static_value || '';
+};
+
+/**
+ * Estimate whether text fits a zone. Single-line text shrinks to fit, so it
+ * only overflows below the minimum font size; wrapped text overflows when its
+ * lines are taller than the zone.
+ */
+export const estimateTextFit = (
+  text: string,
+  zoneWidth: number,
+  zoneHeight: number,
+  scale: number,
+  wrap: boolean
+): { fits: boolean; fontSize: number } => {
+  const fontSize = BASE_FONT_PX * scale;
+  const textWidth = text.length * fontSize * AVERAGE_GLYPH_WIDTH;
+  if (wrap) {
+    const lines = Math.max(1, Math.ceil(textWidth / zoneWidth));
+    return { fits: lines * fontSize * LINE_HEIGHT <= zoneHeight, fontSize };
+  }
+  const fitted = Math.min(
+    fontSize,
+    textWidth > 0 ? (zoneWidth / textWidth) * fontSize : fontSize,
+    zoneHeight / LINE_HEIGHT
+  );
+  return { fits: fitted >= MIN_FONT_PX, fontSize: Math.round(fitted * 10) / 10 };
+};
+
+// ============================================
+// CHECKS
+// ============================================
+
+const contrastIssue = (
+  locale: string,
+  target: string,
+  text: string,
+  background: string,
+  fontSize: number,
+  against: string
+): AccessibilityIssue | null => {
+  const ratio = contrastRatio(text, background);
+  if (ratio === null) return null;
+  const large = fontSize >= LARGE_TEXT_PX;
+  const required = large ? AA_LARGE : AA_NORMAL;
+  if (ratio >= required) return null;
+  return {
+    severity: ratio < AA_LARGE ? 'error' : 'warning',
+    locale,
+    target,
+    message: `Text contrast ${ratio}:1 on ${against} is below WCAG AA (${required}:1${large ? ' for large text' : ''})`,
+    ratio,
+  };
+};
+
+/**
+ * Run every check for each display of the VCT
+ */
+export function checkCardAccessibility(
+  vct: VCT,
+  template: ZoneTemplate | null,
+  sampleData: SampleData,
+  backgroundSamples?: BackgroundSamples
+): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  vct.display.forEach((display) => {
+    const locale = display.locale;
+    const simple = display.rendering?.simple;
+    const background = simple?.background_color || '#1E3A5F';
+    const text = simple?.text_color || '#FFFFFF';
+    const hasImage = Boolean(simple?.background_image?.uri);
+
+    // Card colours
+    const cardIssue = contrastIssue(locale, 'Card', text, background, BASE_FONT_PX, 'the background colour');
+    if (cardIssue) issues.push(cardIssue);
+    if (hasImage) {
+      if (backgroundSamples?.average) {
+        const imageIssue = contrastIssue(locale, 'Card', text, backgroundSamples.average, BASE_FONT_PX, 'the background image (average)');
+        if (imageIssue) issues.push(imageIssue);
+      } else {
+        issues.push({ severity: 'info', locale, target: 'Card', message: 'The background image could not be sampled; check text contrast on it by eye' });
+      }
+    }
+
+    // Logo
+    if (simple?.logo?.uri && !simple.logo.alt_text?.trim()) {
+      issues.push({ severity: 'error', locale, target: 'Logo', message: 'The logo has no alt_text for screen readers' });
+    }
+
+    // Zones
+    if (template) {
+      (['front', 'back'] as const).forEach((face) => {
+        if (face === 'back' && template.frontOnly) return;
+        const elements = display.dynamic_card_elements?.[face] || [];
+        for (const zone of template[face].zones) {
+          const element = elements.find((el) => el.zone_id === zone.id);
+          if (!element) continue;
+          const target = `${zone.name} (${face})`;
+
+          if (element.content_type === 'image') {
+            if (!element.label?.trim()) {
+              issues.push({ severity: 'warning', locale, target, message: 'The image has no label to use as alternative text' });
+            }
+            continue;
+          }
+
+          const content = zoneSampleText(element, vct, sampleData);
+          const zoneWidth = (zone.position.width / 100) * CARD_WIDTH;
+          const zoneHeight = (zone.position.height / 100) * CARD_HEIGHT;
+          const scale = element.scale || 1;
+          const fit = estimateTextFit(content, zoneWidth, zoneHeight, scale, !!element.textWrap);
+          if (!fit.fits) {
+            issues.push({
+              severity: 'warning',
+              locale,
+              target,
+              message: element.textWrap
+                ? `"${content}" likely overflows the zone height when wrapped`
+                : `"${content}" would need to shrink below ${MIN_FONT_PX}px to fit`,
+            });
+          } else if (fit.fontSize < MIN_READABLE_PX) {
+            issues.push({ severity: 'info', locale, target, message: `"${content}" shrinks to about ${fit.fontSize}px, which is hard to read` });
+          }
+
+          const zoneBackground = hasImage ? backgroundSamples?.zones[zone.id] : undefined;
+          if (zoneBackground) {
+            const zoneIssue = contrastIssue(locale, target, text, zoneBackground, fit.fontSize, 'the background image behind it');
+            if (zoneIssue) issues.push(zoneIssue);
+          }
+        }
+      });
+    }
+
+    // SVG template variants
+    const templates = display.rendering?.svg_templates;
+    const variants: VCTSvgTemplate[] = !templates
+      ? []
+      : isFrontBackFormat(templates)
+        ? [templates.front, templates.back].filter((t): t is VCTSvgTemplate => !!t)
+        : templates;
+    if (variants.length > 0) {
+      if (!variants.some((t) => t.properties?.contrast === 'high')) {
+        issues.push({ severity: 'info', locale, target: 'SVG templates', message: 'No high-contrast (contrast: "high") variant is provided' });
+      }
+      if (!variants.some((t) => t.properties?.color_scheme === 'dark')) {
+        issues.push({ severity: 'info', locale, target: 'SVG templates', message: 'No dark (color_scheme: "dark") variant is provided' });
+      }
+    }
+  });
+
+  return issues;
+}
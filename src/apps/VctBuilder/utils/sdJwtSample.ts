@@ -0,0 +1,276 @@
+/**
+ * SD-JWT VC Sample Generator
+ *
+ * Builds a structurally complete SD-JWT VC from the VCT being edited and its
+ * linked schema: an issuer-signed JWT whose payload carries `_sd` digests,
+ * the matching disclosures, `vct` and a `cnf` holder key. Signing uses ES256
+ * test keys generated in the browser, so wallet and verifier teams can test
+ * against a type definition without a real issuer.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-oauth-sd-jwt-vc/
+ * @see https://datatracker.ietf.org/doc/draft-ietf-oauth-selective-disclosure-jwt/
+ */
+
+import type { ParsedSchemaProperty, SampleData, VCT, VCTClaim } from '../../../types/vct';
+import { formatPropertyPath } from '../../../types/vct';
+
+type ClaimValue = string | number | boolean | null | ClaimValue[] | { [key: string]: ClaimValue };
+type ClaimPath = (string | number)[];
+
+export interface SdJwtTestKeys {
+  issuer: CryptoKeyPair;
+  holder: CryptoKeyPair;
+  issuerPublicJwk: JsonWebKey;
+  holderPublicJwk: JsonWebKey;
+  holderPrivateJwk: JsonWebKey;   // Exported so the sample can be presented from a test wallet
+}
+
+export interface SdJwtDisclosure {
+  path: string;                   // Dotted claim path, numeric segments for array elements
+  name?: string;                  // Absent for array element disclosures
+  value: ClaimValue;
+  encoded: string;                // base64url disclosure as it appears after "~"
+  digest: string;                 // base64url SHA-256 of the encoded disclosure
+}
+
+export interface SdJwtSample {
+  compact: string;                // <issuer-jwt>~<disclosure>~...~
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  disclosures: SdJwtDisclosure[];
+}
+
+export interface SdJwtSampleOptions {
+  issuer?: string;
+  validForDays?: number;
+  discloseAllowed?: boolean;      // Make VCT claims with sd "allowed" (or unset) disclosable too
+}
+
+// ============================================
+// ENCODING HELPERS
+// ============================================
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlEncodeJson = (value: unknown): string =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const sha256Base64Url = async (input: string): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return base64UrlEncode(new Uint8Array(hash));
+};
+
+// 128-bit salts, as recommended by the SD-JWT draft
+const generateSalt = (): string => base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+
+// Only the public members of an exported EC key
+const toPublicJwk = ({ kty, crv, x, y }: JsonWebKey): JsonWebKey => ({ kty, crv, x, y });
+
+// ============================================
+// TEST KEYS
+// ============================================
+
+const EC_KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+/**
+ * Generate throwaway ES256 issuer and holder key pairs
+ */
+export const generateTestKeys = async (): Promise<SdJwtTestKeys> => {
+  const issuer = await crypto.subtle.generateKey(EC_KEY_PARAMS, true, ['sign', 'verify']);
+  const holder = await crypto.subtle.generateKey(EC_KEY_PARAMS, true, ['sign', 'verify']);
+  const holderPrivateJwk = await crypto.subtle.exportKey('jwk', holder.privateKey);
+  return {
+    issuer,
+    holder,
+    issuerPublicJwk: toPublicJwk(await crypto.subtle.exportKey('jwk', issuer.publicKey)),
+    holderPublicJwk: toPublicJwk(holderPrivateJwk),
+    holderPrivateJwk,
+  };
+};
+
+// ============================================
+// CLAIM VALUES
+// ============================================
+
+const convertSampleValue = (prop: ParsedSchemaProperty, raw: string): ClaimValue => {
+  if (prop.type === 'integer') return Number.isNaN(parseInt(raw, 10)) ? 0 : parseInt(raw, 10);
+  if (prop.type === 'number') return Number.isNaN(parseFloat(raw)) ? 0 : parseFloat(raw);
+  if (prop.type === 'boolean') return raw.trim().toLowerCase() === 'true';
+  return raw;
+};
+
+// Placeholder for properties without sample data, shaped by type and format
+const placeholderValue = (prop: ParsedSchemaProperty): ClaimValue => {
+  switch (prop.type) {
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+  }
+  switch (prop.format) {
+    case 'date':
+      return new Date().toISOString().split('T')[0];
+    case 'date-time':
+      return new Date().toISOString();
+    case 'email':
+      return 'holder@example.com';
+    case 'uri':
+      return 'https://example.com';
+  }
+  return `Sample ${prop.title || prop.name}`;
+};
+
+const buildPropertyValue = (prop: ParsedSchemaProperty, sampleData: SampleData): ClaimValue => {
+  if (prop.type === 'object') {
+    return buildClaimSet(prop.children || [], sampleData);
+  }
+  if (prop.type === 'array') {
+    // One element: an object built from the item properties, or a scalar sample
+    if (prop.children && prop.children.length > 0) return [buildClaimSet(prop.children, sampleData)];
+    const raw = sampleData[formatPropertyPath(prop.path)];
+    return raw ? raw.split(',').map((item) => item.trim()) : [`Sample ${prop.title || prop.name}`];
+  }
+  const raw = sampleData[formatPropertyPath(prop.path)];
+  return raw ? convertSampleValue(prop, raw) : placeholderValue(prop);
+};
+
+/**
+ * Build the credentialSubject claims from the schema, using the VCT Builder's
+ * sample data where present
+ */
+export const buildClaimSet = (
+  properties: ParsedSchemaProperty[],
+  sampleData: SampleData
+): { [key: string]: ClaimValue } => {
+  const claims: { [key: string]: ClaimValue } = {};
+  for (const prop of properties) {
+    claims[prop.name] = buildPropertyValue(prop, sampleData);
+  }
+  return claims;
+};
+
+// ============================================
+// SELECTIVE DISCLOSURE
+// ============================================
+
+// A VCT claim path matches when every segment does; null selects all array elements
+const findClaim = (claims: VCTClaim[], path: ClaimPath): VCTClaim | undefined =>
+  claims.find(
+    (claim) =>
+      claim.path.length === path.length &&
+      claim.path.every((segment, i) =>
+        segment === null ? typeof path[i] === 'number' : segment === path[i]
+      )
+  );
+
+/**
+ * Replace disclosable claims with digests, innermost first, so nested
+ * disclosures are only revealed together with their parents
+ */
+const applyDisclosures = async (
+  value: ClaimValue,
+  path: ClaimPath,
+  isDisclosable: (path: ClaimPath) => boolean,
+  disclosures: SdJwtDisclosure[]
+): Promise<ClaimValue> => {
+  if (Array.isArray(value)) {
+    const elements: ClaimValue[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const elementPath = [...path, i];
+      const element = await applyDisclosures(value[i], elementPath, isDisclosable, disclosures);
+      if (isDisclosable(elementPath)) {
+        const encoded = base64UrlEncodeJson([generateSalt(), element]);
+        const digest = await sha256Base64Url(encoded);
+        disclosures.push({ path: elementPath.join('.'), value: element, encoded, digest });
+        elements.push({ '...': digest });
+      } else {
+        elements.push(element);
+      }
+    }
+    return elements;
+  }
+
+  if (value === null || typeof value !== 'object') return value;
+
+  const result: { [key: string]: ClaimValue } = {};
+  const digests: string[] = [];
+  for (const [name, child] of Object.entries(value)) {
+    const childPath = [...path, name];
+    const processed = await applyDisclosures(child, childPath, isDisclosable, disclosures);
+    if (isDisclosable(childPath)) {
+      const encoded = base64UrlEncodeJson([generateSalt(), name, processed]);
+      const digest = await sha256Base64Url(encoded);
+      disclosures.push({ path: childPath.join('.'), name, value: processed, encoded, digest });
+      digests.push(digest);
+    } else {
+      result[name] = processed;
+    }
+  }
+  // Sorted so digest order does not reveal claim order
+  if (digests.length > 0) result._sd = digests.sort();
+  return result;
+};
+
+// ============================================
+// ISSUANCE
+// ============================================
+
+/**
+ * Issue a sample SD-JWT VC for the VCT, signed with the test issuer key
+ */
+export const createSdJwtSample = async (
+  vct: VCT,
+  claims: { [key: string]: ClaimValue },
+  keys: SdJwtTestKeys,
+  options: SdJwtSampleOptions = {}
+): Promise<SdJwtSample> => {
+  const discloseAllowed = options.discloseAllowed ?? true;
+  const isDisclosable = (path: ClaimPath): boolean => {
+    const claim = findClaim(vct.claims, path);
+    // Claims the VCT says nothing about stay in the clear
+    if (!claim || claim.sd === 'never') return false;
+    // sd defaults to "allowed" in SD-JWT VC type metadata
+    return claim.sd === 'always' || discloseAllowed;
+  };
+
+  const disclosures: SdJwtDisclosure[] = [];
+  const credentialSubject = await applyDisclosures(
+    claims,
+    ['credentialSubject'],
+    isDisclosable,
+    disclosures
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: Record<string, unknown> = {
+    iss: options.issuer || vct.issuer?.uri || 'https://issuer.example.com',
+    iat: now,
+    exp: now + (options.validForDays ?? 365) * 24 * 60 * 60,
+    vct: vct.vct,
+    cnf: { jwk: keys.holderPublicJwk },
+    credentialSubject,
+    _sd_alg: 'sha-256',
+  };
+
+  const header = { alg: 'ES256', typ: 'dc+sd-jwt' };
+  const signingInput = `${base64UrlEncodeJson(header)}.${base64UrlEncodeJson(payload)}`;
+  // WebCrypto ECDSA signatures are already in the raw r||s form JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    keys.issuer.privateKey,
+    new TextEncoder().encode(signingInput)
+  );
+  const jwt = `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+
+  return {
+    compact: `${jwt}~${disclosures.map((d) => `${d.encoded}~`).join('')}`,
+    header,
+    payload,
+    disclosures,
+  };
+};
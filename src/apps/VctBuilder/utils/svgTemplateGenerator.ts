@@ -0,0 +1,241 @@
+/**
+ * SVG Template Generator
+ *
+ * Renders a zone template and the VCT's dynamic card elements into SVG
+ * rendering templates as defined by SD-JWT VC type metadata. Zones bound to
+ * a claim become `{{svg_id}}` placeholders, where svg_id is the claim's
+ * `svg_id`; wallets substitute the claim values when displaying the card.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-oauth-sd-jwt-vc/ (SVG Rendering)
+ */
+
+import type {
+  DynamicCardElement,
+  VCT,
+  VCTClaim,
+  VCTSvgTemplateProperties,
+  ZoneTemplate,
+} from '../../../types/vct';
+import { CARD_HEIGHT, CARD_WIDTH } from '../../../types/vct';
+import { relativeLuminance } from './cardAccessibility';
+
+export type CardFace = 'front' | 'back';
+
+export interface GeneratedSvgTemplate {
+  face: CardFace;
+  svg: string;
+  properties: VCTSvgTemplateProperties;
+  placeholders: string[];          // svg_ids used, in zone order
+  warnings: string[];
+}
+
+export interface SvgTemplateOptions {
+  displayIndex?: number;
+  resolvedImages?: Record<string, string | null>;   // Zone ID -> URL for asset_criteria images
+}
+
+const DEFAULT_FONT_SIZE = 16;
+const CORNER_RADIUS = 12;
+
+// svg_id must be alphanumeric/underscore and must not start with a digit
+const SVG_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const isValidSvgId = (svgId: string): boolean => SVG_ID_PATTERN.test(svgId);
+
+// Same form CardZonesForm stores in claim_path
+const toClaimPathRef = (claim: VCTClaim): string =>
+  '$.' + claim.path.filter((p) => p !== null && p !== undefined).join('.');
+
+// Two decimals keep the markup readable; sub-pixel precision is irrelevant
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * svg_id for a claim path, e.g. ["credentialSubject", "address", "city"] -> "address_city"
+ */
+export const deriveSvgId = (path: VCTClaim['path']): string => {
+  const segments = path.filter((p) => p !== null && p !== undefined && p !== 'credentialSubject');
+  const id = segments.join('_').replace(/[^A-Za-z0-9_]/g, '_') || 'claim';
+  return /^[0-9]/.test(id) ? `_${id}` : id;
+};
+
+// Dynamic card elements on both faces of a display
+const boundElements = (vct: VCT, displayIndex: number): DynamicCardElement[] => {
+  const elements = vct.display[displayIndex]?.dynamic_card_elements;
+  return [...(elements?.front || []), ...(elements?.back || [])];
+};
+
+/**
+ * Give every claim shown on the card an svg_id, keeping existing ones.
+ * Returns the updated claims and whether anything changed.
+ */
+export function bindClaimSvgIds(vct: VCT, displayIndex = 0): { claims: VCTClaim[]; changed: boolean } {
+  const referenced = new Set(
+    boundElements(vct, displayIndex)
+      .filter((el) => el.content_type === 'text' && el.claim_path && !el.claim_path.startsWith('__dynamic:'))
+      .map((el) => el.claim_path)
+  );
+  const used = new Set(vct.claims.map((c) => c.svg_id).filter(Boolean));
+  let changed = false;
+
+  const claims = vct.claims.map((claim) => {
+    if (claim.svg_id || !referenced.has(toClaimPathRef(claim))) return claim;
+    const base = deriveSvgId(claim.path);
+    let svgId = base;
+    for (let n = 2; used.has(svgId); n++) svgId = `${base}_${n}`;
+    used.add(svgId);
+    changed = true;
+    return { ...claim, svg_id: svgId };
+  });
+
+  return { claims, changed };
+}
+
+/**
+ * Render one face of the card as an SVG template
+ */
+export function generateSvgTemplate(
+  vct: VCT,
+  template: ZoneTemplate,
+  face: CardFace,
+  options: SvgTemplateOptions = {}
+): GeneratedSvgTemplate {
+  const displayIndex = options.displayIndex ?? 0;
+  const display = vct.display[displayIndex];
+  const simple = display?.rendering?.simple;
+  const width = template.card_width || CARD_WIDTH;
+  const height = template.card_height || CARD_HEIGHT;
+  const background = simple?.background_color || '#1E3A5F';
+  const textColor = simple?.text_color || '#FFFFFF';
+  const fontFamily = simple?.font_family ? `${simple.font_family}, sans-serif` : 'sans-serif';
+  const elements = display?.dynamic_card_elements?.[face] || [];
+  const zones = template[face].zones;
+
+  const warnings: string[] = [];
+  const placeholders: string[] = [];
+  const defs: string[] = [
+    `<clipPath id="card"><rect width="${width}" height="${height}" rx="${CORNER_RADIUS}"/></clipPath>`,
+  ];
+  const body: string[] = [`<rect width="${width}" height="${height}" fill="${escapeXml(background)}"/>`];
+
+  if (simple?.background_image?.uri) {
+    body.push(
+      `<image href="${escapeXml(simple.background_image.uri)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>`
+    );
+  }
+
+  // Text value for an element: a placeholder for claims, literal text otherwise
+  const textFor = (element: DynamicCardElement, zoneName: string): string | null => {
+    if (element.claim_path?.startsWith('__dynamic:')) {
+      const key = element.claim_path.slice('__dynamic:'.length);
+      if (key === 'credential_name') return vct.name;
+      if (key === 'issuer_name') return vct.issuer?.name || '';
+      warnings.push(`${zoneName}: "${key}" has no claim to bind to; rendered as its label`);
+      return element.label || null;
+    }
+    if (element.claim_path) {
+      const claim = vct.claims.find((c) => toClaimPathRef(c) === element.claim_path);
+      if (!claim) {
+        warnings.push(`${zoneName}: ${element.claim_path} is not a claim of this VCT`);
+        return null;
+      }
+      if (!claim.svg_id || !isValidSvgId(claim.svg_id)) {
+        warnings.push(`${zoneName}: claim ${element.claim_path} needs a valid svg_id`);
+        return null;
+      }
+      placeholders.push(claim.svg_id);
+      return `{{${claim.svg_id}}}`;
+    }
+    return element.static_value || null;
+  };
+
+  // Image URL for an element
+  const imageFor = (element: DynamicCardElement, zoneId: string, zoneName: string): string | null => {
+    if (element.claim_path === '__dynamic:issuer_logo') return vct.issuer?.logoUri || null;
+    if (element.asset_criteria) {
+      const resolved = options.resolvedImages?.[zoneId];
+      if (!resolved) warnings.push(`${zoneName}: no asset matches the zone's asset criteria`);
+      else warnings.push(`${zoneName}: asset criteria resolved to a fixed image at export time`);
+      return resolved || null;
+    }
+    return element.logo_uri || null;
+  };
+
+  zones.forEach((zone, index) => {
+    const element = elements.find((el) => el.zone_id === zone.id);
+    if (!element) return;
+
+    const x = round((zone.position.x / 100) * width);
+    const y = round((zone.position.y / 100) * height);
+    const w = round((zone.position.width / 100) * width);
+    const h = round((zone.position.height / 100) * height);
+    const scale = element.scale || 1;
+    const alignment = element.alignment || 'center';
+    const verticalAlignment = element.verticalAlignment || 'middle';
+    const clipId = `zone-${index}`;
+    defs.push(`<clipPath id="${clipId}"><rect x="${x}" y="${y}" width="${w}" height="${h}"/></clipPath>`);
+
+    if (element.content_type === 'image') {
+      const href = imageFor(element, zone.id, zone.name);
+      if (!href) return;
+      // Scale around the aligned edge, as the preview does
+      const iw = round(Math.min(w, w * scale));
+      const ih = round(Math.min(h, h * scale));
+      const ix = round(alignment === 'left' ? x : alignment === 'right' ? x + w - iw : x + (w - iw) / 2);
+      const iy = round(y + (h - ih) / 2);
+      const align = `x${alignment === 'left' ? 'Min' : alignment === 'right' ? 'Max' : 'Mid'}YMid`;
+      body.push(
+        `<image href="${escapeXml(href)}" x="${ix}" y="${iy}" width="${iw}" height="${ih}" preserveAspectRatio="${align} meet" clip-path="url(#${clipId})"/>`
+      );
+      return;
+    }
+
+    const text = textFor(element, zone.name);
+    if (!text) return;
+    if (element.textWrap) {
+      warnings.push(`${zone.name}: SVG text does not wrap; the value is rendered on one line`);
+    }
+    const fontSize = round(Math.min(DEFAULT_FONT_SIZE * scale, h * 0.8));
+    const tx = round(alignment === 'left' ? x : alignment === 'right' ? x + w : x + w / 2);
+    const anchor = alignment === 'left' ? 'start' : alignment === 'right' ? 'end' : 'middle';
+    const ty = round(verticalAlignment === 'top' ? y : verticalAlignment === 'bottom' ? y + h : y + h / 2);
+    const baseline = verticalAlignment === 'top' ? 'hanging' : verticalAlignment === 'bottom' ? 'alphabetic' : 'central';
+    body.push(
+      `<text x="${tx}" y="${ty}" font-size="${fontSize}" text-anchor="${anchor}" dominant-baseline="${baseline}" clip-path="url(#${clipId})">${escapeXml(text)}</text>`
+    );
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}" fill="${escapeXml(textColor)}">`,
+    `<title>${escapeXml(`${vct.name || 'Credential'} (${face})`)}</title>`,
+    `<defs>${defs.join('')}</defs>`,
+    `<g clip-path="url(#card)">`,
+    ...body.map((line) => `  ${line}`),
+    `</g>`,
+    `</svg>`,
+  ].join('\n');
+
+  return {
+    face,
+    svg,
+    properties: {
+      orientation: width >= height ? 'landscape' : 'portrait',
+      color_scheme: (relativeLuminance(background) ?? 0) < 0.5 ? 'dark' : 'light',
+      contrast: 'normal',
+    },
+    placeholders,
+    warnings,
+  };
+}
+
+/**
+ * Fill placeholders with sample values, to preview the template as a wallet would
+ */
+export const fillSvgPlaceholders = (svg: string, values: Record<string, string>): string =>
+  svg.replace(/\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}/g, (_, svgId: string) => escapeXml(values[svgId] ?? ''));
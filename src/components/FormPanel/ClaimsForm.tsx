@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useVctStore } from '../../store/vctStore';
 import {
   VCTClaim,
@@ -8,6 +8,7 @@ import {
   propertyPathToClaimPath,
   formatPropertyPath,
 } from '../../types/vct';
+import { mergeVctInheritance } from '../../services/vctInheritance';
 
 // Track which properties are selected as claims (for SD-JWT mode)
 interface SelectedClaims {
@@ -23,6 +24,9 @@ export default function ClaimsForm() {
   const updateClaim = useVctStore((state) => state.updateClaim);
   const sampleData = useVctStore((state) => state.sampleData);
   const updateSampleDataField = useVctStore((state) => state.updateSampleDataField);
+  const vctAncestors = useVctStore((state) => state.vctAncestors);
+  const isResolvingExtends = useVctStore((state) => state.isResolvingExtends);
+  const extendsError = useVctStore((state) => state.extendsError);
 
   // Use Zustand's set method to directly update claims
   const setClaimsDirectly = (claims: VCTClaim[]) => {
@@ -39,6 +43,13 @@ export default function ClaimsForm() {
   const locales = currentVct.display.map((d) => d.locale);
   const isJsonLd = currentVct.format === 'json-ld';
 
+  // Claims with the extends chain applied, to tell inherited claims apart
+  const merged = useMemo(() => mergeVctInheritance(currentVct, vctAncestors), [currentVct, vctAncestors]);
+  const getMergedClaim = (pathKey: string) =>
+    merged.claims.find((c) => c.path.filter(Boolean).join('.') === pathKey);
+  const getAncestorName = (uri: string) =>
+    vctAncestors.find((ancestor) => ancestor.vct === uri)?.document.name || uri;
+
   // Load schema properties when schema_uri changes
   useEffect(() => {
     if (currentVct.schema_uri) {
@@ -92,8 +103,14 @@ export default function ClaimsForm() {
           (c) => c.path.filter(Boolean).join('.') === pathKey
         );
 
+        const inheritedClaim = getMergedClaim(pathKey);
+
         if (existingClaim) {
           newClaims.push(existingClaim);
+        } else if (inheritedClaim?.inheritedFrom) {
+          // Overriding an inherited claim starts from the parent's metadata
+          const { inheritedFrom: _inheritedFrom, overrides: _overrides, ...claim } = inheritedClaim;
+          newClaims.push(claim);
         } else {
           // Create new claim with proper display for each locale
           newClaims.push({
@@ -180,6 +197,7 @@ export default function ClaimsForm() {
     const pathKey = prop.path.join('.');
     const isSelected = selectedClaims[pathKey];
     const claim = getClaimByPath(pathKey);
+    const mergedClaim = getMergedClaim(pathKey);
     const isExpanded = expandedClaim === pathKey;
 
     return (
@@ -219,6 +237,22 @@ export default function ClaimsForm() {
               {prop.required && (
                 <span className="text-xs text-red-500">required</span>
               )}
+              {mergedClaim?.inheritedFrom && (
+                <span
+                  className="text-xs px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700"
+                  title={`Defined by ${mergedClaim.inheritedFrom}. Select it to override.`}
+                >
+                  Inherited from {getAncestorName(mergedClaim.inheritedFrom)}
+                </span>
+              )}
+              {mergedClaim?.overrides && (
+                <span
+                  className="text-xs px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 border border-indigo-200"
+                  title={`Replaces the claim metadata from ${mergedClaim.overrides}`}
+                >
+                  Overrides {getAncestorName(mergedClaim.overrides)}
+                </span>
+              )}
             </div>
             {prop.description && (
               <p className="text-xs text-gray-500 truncate">{prop.description}</p>
@@ -459,6 +493,7 @@ export default function ClaimsForm() {
 
   // Count selected claims
   const selectedCount = Object.values(selectedClaims).filter(Boolean).length;
+  const inheritedCount = merged.claims.filter((c) => c.inheritedFrom).length;
 
   return (
     <div className="space-y-4">
@@ -498,6 +533,30 @@ export default function ClaimsForm() {
         </div>
       </div>
 
+      {/* Inheritance */}
+      {currentVct.extends && (
+        <div className="mx-4 p-3 rounded-lg text-sm bg-indigo-50 border border-indigo-200 text-indigo-700 space-y-1">
+          {isResolvingExtends ? (
+            <p>Resolving parent types...</p>
+          ) : extendsError ? (
+            <p className="text-red-600">{extendsError}</p>
+          ) : (
+            <>
+              <p>
+                <span className="font-medium">Extends</span>{' '}
+                {vctAncestors.map((ancestor) => ancestor.document.name || ancestor.vct).join(' → ')}
+                <span className="text-xs opacity-75">
+                  {' '}— {inheritedCount} inherited claim{inheritedCount !== 1 ? 's' : ''}
+                </span>
+              </p>
+              {merged.warnings.map((warning, i) => (
+                <p key={i} className="text-xs text-amber-700">{warning}</p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Property List */}
       <div className="border border-gray-200 rounded-lg overflow-hidden">
         {/* Column Headers */}
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useVctStore } from '../../store/vctStore';
+import { fetchVctDocument } from '../../services/vctDocuments';
+import { computeIntegrity } from '../../services/vctIntegrity';
 
 interface SchemaFile {
   name: string;
@@ -9,6 +11,13 @@ interface SchemaFile {
   uri: string;
 }
 
+interface VctFile {
+  name: string;
+  path: string;
+  sha: string;
+  download_url: string;
+}
+
 interface Config {
   vctBaseUrl: string;
   schemaBaseUrl: string;
@@ -23,6 +32,9 @@ export default function MetadataForm() {
   const currentProjectName = useVctStore((state) => state.currentProjectName);
   const updateProjectName = useVctStore((state) => state.updateProjectName);
   const isDirty = useVctStore((state) => state.isDirty);
+  const vctAncestors = useVctStore((state) => state.vctAncestors);
+  const isResolvingExtends = useVctStore((state) => state.isResolvingExtends);
+  const extendsError = useVctStore((state) => state.extendsError);
 
   const [config, setConfig] = useState<Config | null>(null);
   const [schemas, setSchemas] = useState<SchemaFile[]>([]);
@@ -31,6 +43,9 @@ export default function MetadataForm() {
   const [checkingAvailability, setCheckingAvailability] = useState(false);
   const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
   const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+  const [vctFiles, setVctFiles] = useState<VctFile[]>([]);
+  const [hashingParent, setHashingParent] = useState(false);
+  const [parentHashError, setParentHashError] = useState<string | null>(null);
 
   // Fetch config on mount
   useEffect(() => {
@@ -71,6 +86,24 @@ export default function MetadataForm() {
     fetchSchemas();
   }, []);
 
+  // Fetch VCT library on mount (candidate parent types)
+  useEffect(() => {
+    const fetchVctFiles = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/github/vct-library`, {
+          credentials: 'include',
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setVctFiles(data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch VCT library:', error);
+      }
+    };
+    fetchVctFiles();
+  }, []);
+
   // Extract filename from current VCT URI on load
   useEffect(() => {
     if (config && currentVct.vct && currentVct.vct.startsWith(config.vctBaseUrl)) {
@@ -161,6 +194,35 @@ export default function MetadataForm() {
     }
   };
 
+  // Set the parent type and pin it with an integrity hash
+  const handleExtendsChange = async (uri: string) => {
+    setParentHashError(null);
+    updateVctField('extends', uri || undefined);
+    updateVctField('extends#integrity', undefined);
+    if (!uri) return;
+
+    setHashingParent(true);
+    try {
+      const { raw } = await fetchVctDocument(uri);
+      // The user may have picked another parent meanwhile
+      if (useVctStore.getState().currentVct.extends === uri) {
+        updateVctField('extends#integrity', await computeIntegrity(raw));
+      }
+    } catch (error) {
+      setParentHashError(error instanceof Error ? error.message : 'Failed to generate hash');
+    } finally {
+      setHashingParent(false);
+    }
+  };
+
+  // Library files other than this VCT itself
+  const parentOptions = vctFiles.filter(
+    (file) => !config || `${config.vctBaseUrl}${file.name}` !== currentVct.vct
+  );
+  const isLibraryParent = Boolean(
+    config && currentVct.extends && parentOptions.some((file) => `${config.vctBaseUrl}${file.name}` === currentVct.extends)
+  );
+
   // Get selected schema name from URI
   const getSelectedSchemaName = () => {
     if (!currentVct.schema_uri) return '';
@@ -352,6 +414,75 @@ export default function MetadataForm() {
         )}
       </div>
 
+      {/* Extends - optional parent type */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <label className="block text-sm font-medium text-gray-800 mb-1">
+          Extends
+          <span className="ml-2 text-xs font-normal text-gray-500">(optional parent type)</span>
+        </label>
+        <select
+          value={isLibraryParent ? currentVct.extends : currentVct.extends ? '__url' : ''}
+          onChange={(e) => {
+            if (e.target.value === '__url') {
+              updateVctField('extends', currentVct.extends || 'https://');
+              updateVctField('extends#integrity', undefined);
+            } else {
+              handleExtendsChange(e.target.value);
+            }
+          }}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm bg-white"
+        >
+          <option value="">Does not extend another type</option>
+          {config && parentOptions.map((file) => (
+            <option key={file.sha} value={`${config.vctBaseUrl}${file.name}`}>
+              {file.name.replace('.json', '')}
+            </option>
+          ))}
+          <option value="__url">Other URL...</option>
+        </select>
+        {currentVct.extends && !isLibraryParent && (
+          <div className="flex items-center gap-2">
+            <input
+              type="url"
+              value={currentVct.extends}
+              onChange={(e) => {
+                updateVctField('extends', e.target.value);
+                updateVctField('extends#integrity', undefined);
+              }}
+              placeholder="https://example.com/vct/parent.json"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => handleExtendsChange(currentVct.extends || '')}
+              disabled={hashingParent}
+              className="px-3 py-2 text-xs bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              title="Fetch the parent and pin it with an integrity hash"
+            >
+              {hashingParent ? 'Hashing...' : 'Compute hash'}
+            </button>
+          </div>
+        )}
+        {currentVct['extends#integrity'] && (
+          <p className="text-xs text-gray-600 font-mono truncate" title={currentVct['extends#integrity']}>
+            Hash: {currentVct['extends#integrity']}
+          </p>
+        )}
+        {parentHashError && <p className="text-xs text-yellow-600">{parentHashError}</p>}
+        {currentVct.extends && (
+          isResolvingExtends ? (
+            <p className="text-xs text-gray-500">Resolving parent types...</p>
+          ) : extendsError ? (
+            <p className="text-xs text-red-600">{extendsError}</p>
+          ) : vctAncestors.length > 0 ? (
+            <p className="text-xs text-green-700">
+              Inherits from {vctAncestors.map((ancestor) => ancestor.document.name || ancestor.vct).join(' → ')}
+              {vctAncestors[0].integrityValid && ' · integrity verified'}
+            </p>
+          ) : null
+        )}
+      </div>
+
     </div>
   );
 }
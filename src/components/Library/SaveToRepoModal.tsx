@@ -3,11 +3,20 @@
  *
  * Allows users to create a pull request to save a VCT to the governance repository.
  * Uses VDR paths from tenant configuration to determine the destination folder.
+ * Every #integrity hash is re-verified first; publishing is blocked while a
+ * referenced resource does not match its hash, or has a hash but cannot be
+ * fetched. Unreachable resources without a hash have nothing to verify.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useVctStore } from '../../store/vctStore';
 import { useVdrPaths } from '../../hooks/useVdrPaths';
+import {
+  applyIntegrityHashes,
+  checkVctIntegrity,
+  IntegrityCheckResult,
+  IntegrityStatus,
+} from '../../services/vctIntegrity';
 
 interface SaveToRepoModalProps {
   isOpen: boolean;
@@ -16,6 +25,13 @@ interface SaveToRepoModalProps {
 
 const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
 
+const STATUS_STYLES: Record<IntegrityStatus, { label: string; className: string }> = {
+  valid: { label: 'Verified', className: 'bg-green-100 text-green-700' },
+  missing: { label: 'No hash', className: 'bg-yellow-100 text-yellow-700' },
+  mismatch: { label: 'Mismatch', className: 'bg-red-100 text-red-700' },
+  unreachable: { label: 'Unreachable', className: 'bg-red-100 text-red-700' },
+};
+
 export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProps) {
   const [filename, setFilename] = useState('');
   const [title, setTitle] = useState('');
@@ -26,6 +42,10 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
 
   const currentVct = useVctStore((state) => state.currentVct);
   const currentProjectName = useVctStore((state) => state.currentProjectName);
+  const setVct = useVctStore((state) => state.setVct);
+
+  const [integrityResults, setIntegrityResults] = useState<IntegrityCheckResult[] | null>(null);
+  const [checkingIntegrity, setCheckingIntegrity] = useState(false);
 
   // Get VDR paths from tenant configuration
   const { getPath, getFullUrl, getBasePath, ensureConfigLoaded } = useVdrPaths();
@@ -37,6 +57,35 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
     }
   }, [isOpen, ensureConfigLoaded]);
 
+  const runIntegrityCheck = useCallback(async () => {
+    setCheckingIntegrity(true);
+    try {
+      setIntegrityResults(await checkVctIntegrity(useVctStore.getState().currentVct));
+    } finally {
+      setCheckingIntegrity(false);
+    }
+  }, []);
+
+  // Re-verify every referenced resource when the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      runIntegrityCheck();
+    }
+  }, [isOpen, runIntegrityCheck]);
+
+  const handleUpdateHashes = async () => {
+    if (!integrityResults) return;
+    setVct(applyIntegrityHashes(currentVct, integrityResults));
+    await runIntegrityCheck();
+  };
+
+  const integrityBlocked = !integrityResults || integrityResults.some(
+    (result) => result.status === 'mismatch' || (result.status === 'unreachable' && !!result.integrity)
+  );
+  const hasFixableHashes = integrityResults?.some(
+    (result) => result.computed && result.status !== 'valid'
+  );
+
   // Get the computed filename and path
   const computedFilename = filename || currentProjectName.toLowerCase().replace(/\s+/g, '-');
   const fullPath = getPath('vct', `${computedFilename}.json`);
@@ -44,6 +93,7 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (integrityBlocked) return;
     setLoading(true);
     setError(null);
     setSuccess(null);
@@ -84,6 +134,7 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
     setDescription('');
     setError(null);
     setSuccess(null);
+    setIntegrityResults(null);
     onClose();
   };
 
@@ -187,6 +238,63 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
               />
             </div>
 
+            {/* Integrity */}
+            <div className="border border-gray-200 rounded-md">
+              <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="text-sm font-medium text-gray-700">Integrity</span>
+                <div className="flex items-center gap-2">
+                  {hasFixableHashes && !checkingIntegrity && (
+                    <button
+                      type="button"
+                      onClick={handleUpdateHashes}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                      title="Replace missing and mismatched hashes with the current ones"
+                    >
+                      Update hashes
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={runIntegrityCheck}
+                    disabled={checkingIntegrity}
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    {checkingIntegrity ? 'Checking...' : 'Re-check'}
+                  </button>
+                </div>
+              </div>
+              {!integrityResults ? (
+                <p className="px-3 py-2 text-xs text-gray-500">Verifying referenced resources...</p>
+              ) : integrityResults.length === 0 ? (
+                <p className="px-3 py-2 text-xs text-gray-500">This VCT references no external resources.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {integrityResults.map((result) => (
+                    <li key={`${result.path.join('.')}.${result.uriKey}`} className="px-3 py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-medium text-gray-700">{result.label}</span>
+                        <span className={`text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[result.status].className}`}>
+                          {STATUS_STYLES[result.status].label}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-400 font-mono truncate" title={result.uri}>{result.uri}</p>
+                      {result.status === 'mismatch' && (
+                        <p className="text-xs text-red-600 font-mono truncate" title={result.computed}>
+                          Now {result.computed}
+                        </p>
+                      )}
+                      {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {integrityResults && integrityBlocked && (
+              <p className="text-xs text-red-600">
+                Publishing is blocked until every referenced resource matches its hash. Update the hashes if the change is expected.
+              </p>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-600">{error}</p>
@@ -205,7 +313,7 @@ export default function SaveToRepoModal({ isOpen, onClose }: SaveToRepoModalProp
               <button
                 type="submit"
                 className="px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-md flex items-center gap-2 disabled:opacity-50"
-                disabled={loading}
+                disabled={loading || checkingIntegrity || integrityBlocked}
               >
                 {loading ? (
                   <>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useLayoutEffect, useCallback } from 'react';
+import { useState, useEffect, useRef, useLayoutEffect, useCallback, useMemo } from 'react';
 import { useVctStore } from '../../store/vctStore';
 import { useZoneTemplateStore } from '../../store/zoneTemplateStore';
 import { useZoneSelectionStore } from '../../store/zoneSelectionStore';
@@ -12,6 +12,7 @@ import {
   AssetCriteria,
 } from '../../types/vct';
 import { resolveAssetCriteria } from '../../services/assetResolver';
+import { mergeVctInheritance } from '../../services/vctInheritance';
 
 interface CredentialPreviewProps {
   locale: string;
@@ -156,6 +157,7 @@ type PreviewMode = 'zones' | 'labels' | 'clean';
 export default function CredentialPreview({ locale, cardSide, onZoneSelect }: CredentialPreviewProps) {
   const currentVct = useVctStore((state) => state.currentVct);
   const sampleData = useVctStore((state) => state.sampleData);
+  const vctAncestors = useVctStore((state) => state.vctAncestors);
   const [isFlipped, setIsFlipped] = useState(false);
   const [previewMode, setPreviewMode] = useState<PreviewMode>('zones');
 
@@ -168,7 +170,9 @@ export default function CredentialPreview({ locale, cardSide, onZoneSelect }: Cr
   const [resolvedAssets, setResolvedAssets] = useState<Record<string, string | null>>({});
 
   // Resolve all criteria-based assets when VCT changes
-  const display = currentVct.display.find((d) => d.locale === locale) || currentVct.display[0];
+  // Display and claims with anything inherited through extends applied
+  const merged = useMemo(() => mergeVctInheritance(currentVct, vctAncestors), [currentVct, vctAncestors]);
+  const display = merged.display.find((d) => d.locale === locale) || merged.display[0];
   useEffect(() => {
     const resolveCriteriaAssets = async () => {
       if (!display?.dynamic_card_elements) return;
@@ -721,13 +725,13 @@ export default function CredentialPreview({ locale, cardSide, onZoneSelect }: Cr
       </div>
 
       {/* Claims with Sample Data */}
-      {currentVct.claims.length > 0 && (
+      {merged.claims.length > 0 && (
         <div className="mt-6 p-4 bg-white rounded-lg border border-gray-200">
           <h4 className="text-sm font-medium text-gray-700 mb-3">
             Credential Claims
           </h4>
           <div className="space-y-2">
-            {currentVct.claims.map((claim, index) => {
+            {merged.claims.map((claim, index) => {
               const pathString = claim.path.filter(Boolean).join('.');
               const claimDisplay = claim.display.find((d) => d.locale === effectiveLocale) || claim.display[0];
               const value = sampleData[pathString];
@@ -0,0 +1,111 @@
+// @ts-check
+/**
+ * Canadian provinces, territories and postal codes.
+ *
+ * Plain JavaScript so the server can enforce the same address rules as the
+ * public form page (see src/lib/formRules.js). Typed with JSDoc and checked by tsc.
+ */
+
+// Canadian provinces and territories
+export const CANADIAN_REGIONS = /** @type {const} */ ([
+  { code: 'AB', name: 'Alberta' },
+  { code: 'BC', name: 'British Columbia' },
+  { code: 'MB', name: 'Manitoba' },
+  { code: 'NB', name: 'New Brunswick' },
+  { code: 'NL', name: 'Newfoundland and Labrador' },
+  { code: 'NS', name: 'Nova Scotia' },
+  { code: 'NT', name: 'Northwest Territories' },
+  { code: 'NU', name: 'Nunavut' },
+  { code: 'ON', name: 'Ontario' },
+  { code: 'PE', name: 'Prince Edward Island' },
+  { code: 'QC', name: 'Quebec' },
+  { code: 'SK', name: 'Saskatchewan' },
+  { code: 'YT', name: 'Yukon' },
+]);
+
+/** @typedef {typeof CANADIAN_REGIONS[number]['code']} RegionCode */
+
+export const REGION_CODES = CANADIAN_REGIONS.map(r => r.code);
+
+/**
+ * Get region name by code
+ * @param {string} code
+ * @returns {string}
+ */
+export function getRegionName(code) {
+  const region = CANADIAN_REGIONS.find(r => r.code === code.toUpperCase());
+  return region?.name || code;
+}
+
+/**
+ * Normalize region code to standard 2-letter format (e.g., "CA-BC" -> "BC", "ca-bc" -> "BC")
+ * @param {string} region
+ * @returns {string}
+ */
+export function normalizeRegion(region) {
+  const upper = region.toUpperCase();
+  if (upper.startsWith('CA-')) {
+    return upper.slice(3);
+  }
+  return upper;
+}
+
+/**
+ * Normalize all regions in an array to standard format
+ * @param {string[] | undefined} regions
+ * @returns {string[]}
+ */
+export function normalizeRegions(regions) {
+  if (!regions) return [];
+  const normalized = new Set(regions.map(normalizeRegion));
+  return Array.from(normalized).filter(r => REGION_CODES.includes(/** @type {RegionCode} */ (r)));
+}
+
+// Canadian postal code (A1A 1A1) - D, F, I, O, Q and U are never used, W and Z never lead
+export const POSTAL_CODE_REGEX = /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i;
+
+/**
+ * First letter of a postal code -> the regions it is assigned to
+ * @type {Record<string, RegionCode[]>}
+ */
+const POSTAL_CODE_REGIONS = {
+  A: ['NL'],
+  B: ['NS'],
+  C: ['PE'],
+  E: ['NB'],
+  G: ['QC'],
+  H: ['QC'],
+  J: ['QC'],
+  K: ['ON'],
+  L: ['ON'],
+  M: ['ON'],
+  N: ['ON'],
+  P: ['ON'],
+  R: ['MB'],
+  S: ['SK'],
+  T: ['AB'],
+  V: ['BC'],
+  X: ['NT', 'NU'],
+  Y: ['YT'],
+};
+
+/**
+ * Normalize a postal code to "A1A 1A1"
+ * @param {string} postalCode
+ * @returns {string}
+ */
+export function formatPostalCode(postalCode) {
+  const compact = postalCode.replace(/\s+/g, '').toUpperCase();
+  return compact.length === 6 ? `${compact.slice(0, 3)} ${compact.slice(3)}` : postalCode.trim().toUpperCase();
+}
+
+/**
+ * Whether a (valid) postal code belongs to the given region
+ * @param {string} postalCode
+ * @param {string} region
+ * @returns {boolean}
+ */
+export function postalCodeMatchesRegion(postalCode, region) {
+  const regions = POSTAL_CODE_REGIONS[postalCode.trim().charAt(0).toUpperCase()];
+  return !!regions && regions.includes(/** @type {RegionCode} */ (normalizeRegion(region)));
+}
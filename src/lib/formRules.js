@@ -0,0 +1,569 @@
+// @ts-check
+/**
+ * Form Rules
+ *
+ * Conditional logic, value validation and dot-notation flattening for FormSchema,
+ * shared by the public form page and the submissions API so applicants see the
+ * same errors before and after submitting, plus the upload limits, address
+ * formatting and submission statuses both sides need. Plain JavaScript so server/ can import
+ * it directly; typed with JSDoc and checked by tsc.
+ */
+
+/**
+ * @typedef {import('../types/forms').AddressFieldValue} AddressFieldValue
+ * @typedef {import('../types/forms').ConditionContext} ConditionContext
+ * @typedef {import('../types/forms').ConditionGroup} ConditionGroup
+ * @typedef {import('../types/forms').FieldCondition} FieldCondition
+ * @typedef {import('../types/forms').FormField} FormField
+ * @typedef {import('../types/forms').FormSchema} FormSchema
+ * @typedef {import('../types/forms').FormVisibility} FormVisibility
+ */
+
+import { REGION_CODES, POSTAL_CODE_REGEX, postalCodeMatchesRegion } from '../constants/regions.js';
+
+// Review workflow statuses of a submission
+export const SUBMISSION_STATUSES = /** @type {const} */ (['new', 'in_review', 'approved', 'rejected']);
+
+/**
+ * File types applicants may upload (SVG and HTML are deliberately excluded)
+ * @type {{ mimeType: string; label: string; extensions: string[] }[]}
+ */
+export const FILE_UPLOAD_TYPES = [
+  { mimeType: 'application/pdf', label: 'PDF', extensions: ['.pdf'] },
+  { mimeType: 'image/png', label: 'PNG', extensions: ['.png'] },
+  { mimeType: 'image/jpeg', label: 'JPEG', extensions: ['.jpg', '.jpeg'] },
+  { mimeType: 'image/webp', label: 'WebP', extensions: ['.webp'] },
+  { mimeType: 'application/msword', label: 'Word (.doc)', extensions: ['.doc'] },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    label: 'Word (.docx)',
+    extensions: ['.docx'],
+  },
+];
+
+export const FILE_UPLOAD_MAX_SIZE_MB = 10;
+export const DEFAULT_FILE_MAX_SIZE_MB = 5;
+
+/**
+ * MIME types a file field accepts
+ * @param {FormField} field
+ * @returns {string[]}
+ */
+export function getAcceptedFileTypes(field) {
+  const allowed = FILE_UPLOAD_TYPES.map((t) => t.mimeType);
+  const accept = (field.fileConfig?.accept || []).filter((mimeType) => allowed.includes(mimeType));
+  return accept.length > 0 ? accept : allowed;
+}
+
+/**
+ * Maximum upload size for a file field, in MB
+ * @param {FormField} field
+ * @returns {number}
+ */
+export function getMaxFileSizeMb(field) {
+  const maxSizeMb = field.fileConfig?.maxSizeMb;
+  return maxSizeMb && maxSizeMb > 0 ? Math.min(maxSizeMb, FILE_UPLOAD_MAX_SIZE_MB) : DEFAULT_FILE_MAX_SIZE_MB;
+}
+
+/**
+ * Format an address value on one line
+ * @param {Partial<AddressFieldValue>} address
+ * @returns {string}
+ */
+export function formatAddress(address) {
+  const street = [address.unit, address.street].filter(Boolean).join('-');
+  const region = [address.province, address.postalCode].filter(Boolean).join(' ');
+  return [street, address.city, region].filter(Boolean).join(', ');
+}
+
+// Signature fields hold the drawn signature as a PNG data URL
+export const SIGNATURE_DATA_URL_PREFIX = 'data:image/png;base64,';
+export const SIGNATURE_MAX_LENGTH = 100_000;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^\+?[0-9\s().-]{7,20}$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const ADDRESS_PARTS = ['street', 'unit', 'city', 'province', 'postalCode'];
+
+/**
+ * Read a value from nested submission data by dot-notation field name
+ * ("eligibility.residency_proof" -> fieldValues.eligibility.residency_proof)
+ * @param {Record<string, unknown>} data
+ * @param {string} name
+ * @returns {unknown}
+ */
+export function getValueByPath(data, name) {
+  /** @type {any} */
+  let current = data;
+  for (const key of name.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Unflatten a flat object with dot-notation keys into a nested object.
+ * Example: { "eligibility.residency_proof": true } => { eligibility: { residency_proof: true } }
+ * @param {Record<string, unknown>} flatData
+ * @returns {Record<string, unknown>}
+ */
+export function unflattenFormData(flatData) {
+  /** @type {Record<string, any>} */
+  const result = {};
+
+  for (const [key, value] of Object.entries(flatData)) {
+    const keys = key.split('.');
+    let current = result;
+
+    for (let i = 0; i < keys.length - 1; i++) {
+      const k = keys[i];
+      if (!(k in current) || typeof current[k] !== 'object' || current[k] === null) {
+        current[k] = {};
+      }
+      current = current[k];
+    }
+
+    current[keys[keys.length - 1]] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Flatten a nested object into dot-notation keys.
+ * Example: { eligibility: { residency_proof: true } } => { "eligibility.residency_proof": true }
+ * @param {Record<string, unknown>} nestedData
+ * @param {string} [prefix]
+ * @returns {Record<string, unknown>}
+ */
+export function flattenFormData(nestedData, prefix = '') {
+  /** @type {Record<string, unknown>} */
+  const result = {};
+
+  for (const [key, value] of Object.entries(nestedData || {})) {
+    const newKey = prefix ? `${prefix}.${key}` : key;
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenFormData(/** @type {Record<string, unknown>} */ (value), newKey));
+    } else {
+      result[newKey] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build flat values keyed by field name from nested submission data
+ * @param {FormSchema} schema
+ * @param {Record<string, unknown>} fieldValues
+ * @returns {Record<string, unknown>}
+ */
+export function toFlatFieldValues(schema, fieldValues) {
+  /** @type {Record<string, unknown>} */
+  const values = {};
+  for (const section of schema?.sections || []) {
+    for (const field of section.fields || []) {
+      if (!field.name) continue;
+      const value = getValueByPath(fieldValues, field.name);
+      if (value !== undefined) {
+        values[field.name] = value;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+function isEmptyValue(value) {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') {
+    // Checkbox values are { [optionLabel]: boolean }
+    return !Object.values(value).some(Boolean);
+  }
+  return false;
+}
+
+/**
+ * @param {unknown} value
+ * @param {string} expected
+ * @returns {boolean}
+ */
+function valueContains(value, expected) {
+  if (Array.isArray(value)) return value.map(String).includes(expected);
+  if (value !== null && typeof value === 'object') return Boolean(/** @type {Record<string, unknown>} */ (value)[expected]);
+  return String(value ?? '').toLowerCase().includes(expected.toLowerCase());
+}
+
+/**
+ * @param {unknown} value
+ * @param {string} expected
+ * @returns {number | null}
+ */
+function compareValues(value, expected) {
+  if (isEmptyValue(value)) return null;
+  const actualNumber = Number(value);
+  const expectedNumber = Number(expected);
+  if (!Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)) {
+    return actualNumber - expectedNumber;
+  }
+  // ISO dates compare correctly as strings
+  return String(value).localeCompare(expected);
+}
+
+/**
+ * Evaluate a single condition against the current context
+ * @param {FieldCondition} condition
+ * @param {ConditionContext} context
+ * @returns {boolean}
+ */
+export function evaluateCondition(condition, context) {
+  const value = context.values[condition.fieldName];
+  const expected = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'equals':
+      return !isEmptyValue(value) && String(value) === expected;
+    case 'not_equals':
+      return isEmptyValue(value) || String(value) !== expected;
+    case 'contains':
+      return valueContains(value, expected);
+    case 'not_contains':
+      return !valueContains(value, expected);
+    case 'is_empty':
+      return isEmptyValue(value);
+    case 'is_not_empty':
+      return !isEmptyValue(value);
+    case 'greater_than': {
+      const diff = compareValues(value, expected);
+      return diff !== null && diff > 0;
+    }
+    case 'less_than': {
+      const diff = compareValues(value, expected);
+      return diff !== null && diff < 0;
+    }
+    case 'credential_verified':
+      return context.verifiedCredentials.has(condition.fieldName);
+    case 'credential_not_verified':
+      return !context.verifiedCredentials.has(condition.fieldName);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition group. An absent or empty group always matches.
+ * @param {ConditionGroup | undefined} group
+ * @param {ConditionContext} context
+ * @returns {boolean}
+ */
+export function evaluateConditionGroup(group, context) {
+  if (!group || !Array.isArray(group.conditions) || group.conditions.length === 0) return true;
+  return group.match === 'any'
+    ? group.conditions.some((condition) => evaluateCondition(condition, context))
+    : group.conditions.every((condition) => evaluateCondition(condition, context));
+}
+
+/**
+ * Resolve which sections/fields are visible and required.
+ *
+ * Values and credentials of hidden fields are ignored when evaluating other rules,
+ * so a chain of conditions collapses consistently. This is resolved to a fixpoint.
+ * @param {FormSchema} schema
+ * @param {Record<string, unknown>} values
+ * @param {Set<string>} verifiedCredentials
+ * @returns {FormVisibility}
+ */
+export function resolveFormVisibility(schema, values, verifiedCredentials) {
+  const sections = schema?.sections || [];
+  const allFields = sections.flatMap((section) => section.fields || []);
+
+  /**
+   * Context with everything belonging to hidden fields removed
+   * @param {Set<string>} hiddenFields
+   * @returns {ConditionContext}
+   */
+  const buildContext = (hiddenFields) => {
+    const hiddenNames = new Set(allFields.filter((f) => hiddenFields.has(f.id)).map((f) => f.name));
+    return {
+      values: Object.fromEntries(Object.entries(values).filter(([name]) => !hiddenNames.has(name))),
+      verifiedCredentials: new Set([...verifiedCredentials].filter((name) => !hiddenNames.has(name))),
+    };
+  };
+
+  /** @type {Set<string>} */
+  let hiddenSections = new Set();
+  /** @type {Set<string>} */
+  let hiddenFields = new Set();
+
+  // Each pass can only hide fields whose rules depend on fields hidden in the previous
+  // pass, so the number of fields bounds the passes (rules that oscillate stop there)
+  for (let pass = 0; pass <= allFields.length; pass++) {
+    const context = buildContext(hiddenFields);
+    /** @type {Set<string>} */
+    const nextHiddenSections = new Set();
+    /** @type {Set<string>} */
+    const nextHiddenFields = new Set();
+
+    for (const section of sections) {
+      const sectionVisible = evaluateConditionGroup(section.visibleWhen, context);
+      if (!sectionVisible) nextHiddenSections.add(section.id);
+      for (const field of section.fields || []) {
+        if (!sectionVisible || !evaluateConditionGroup(field.visibleWhen, context)) {
+          nextHiddenFields.add(field.id);
+        }
+      }
+    }
+
+    const stable =
+      nextHiddenFields.size === hiddenFields.size && [...nextHiddenFields].every((id) => hiddenFields.has(id));
+    hiddenSections = nextHiddenSections;
+    hiddenFields = nextHiddenFields;
+    if (stable) break;
+  }
+
+  const context = buildContext(hiddenFields);
+  /** @type {Set<string>} */
+  const requiredFields = new Set();
+  for (const field of allFields) {
+    if (hiddenFields.has(field.id)) continue;
+    const requiredByRule = !!field.requiredWhen?.conditions?.length && evaluateConditionGroup(field.requiredWhen, context);
+    if (field.required || requiredByRule) {
+      requiredFields.add(field.id);
+    }
+  }
+
+  return { hiddenSections, hiddenFields, requiredFields };
+}
+
+/**
+ * Check a single non-empty value against its field definition.
+ * Returns an error message or null.
+ * @param {FormField} field
+ * @param {any} value
+ * @returns {string | null}
+ */
+export function validateFieldValue(field, value) {
+  const rules = field.validation || {};
+  const optionValues = (field.options || []).map((o) => o.value || o.label);
+  const optionLabels = (field.options || []).map((o) => o.label);
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'email':
+    case 'phone': {
+      if (typeof value !== 'string') return 'Please enter text';
+      if (rules.minLength && value.length < rules.minLength) {
+        return `Minimum ${rules.minLength} characters required`;
+      }
+      if (rules.maxLength && value.length > rules.maxLength) {
+        return `Maximum ${rules.maxLength} characters allowed`;
+      }
+      if (rules.pattern) {
+        let pattern = null;
+        try {
+          pattern = new RegExp(`^(?:${rules.pattern})$`);
+        } catch {
+          // Invalid patterns are ignored rather than blocking every submission
+        }
+        if (pattern && !pattern.test(value)) return 'Please match the requested format';
+      }
+      if (field.type === 'email' && !EMAIL_REGEX.test(value)) {
+        return 'Please enter a valid email address';
+      }
+      if (field.type === 'phone' && !PHONE_REGEX.test(value)) {
+        return 'Please enter a valid phone number';
+      }
+      return null;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Please enter a number';
+      if (rules.min !== undefined && value < rules.min) return `Minimum value is ${rules.min}`;
+      if (rules.max !== undefined && value > rules.max) return `Maximum value is ${rules.max}`;
+      return null;
+    }
+
+    case 'date':
+      if (typeof value !== 'string' || !DATE_REGEX.test(value) || Number.isNaN(Date.parse(value))) {
+        return 'Please enter a valid date';
+      }
+      return null;
+
+    case 'select':
+      return optionValues.includes(value) ? null : 'Please select one of the listed options';
+
+    case 'radio':
+      return optionLabels.includes(value) ? null : 'Please select one of the listed options';
+
+    case 'checkbox': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return 'Please select from the listed options';
+      }
+      const valid = Object.entries(value).every(
+        ([label, checked]) => optionLabels.includes(label) && typeof checked === 'boolean'
+      );
+      return valid ? null : 'Please select from the listed options';
+    }
+
+    case 'file':
+      if (value === null || typeof value !== 'object' || Array.isArray(value)
+        || typeof value.uploadId !== 'string' || typeof value.name !== 'string') {
+        return 'Please upload a file';
+      }
+      return null;
+
+    case 'address': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return 'Please enter a valid address';
+      const validParts = Object.entries(value).every(
+        ([part, partValue]) => ADDRESS_PARTS.includes(part) && typeof partValue === 'string'
+      );
+      if (!validParts) return 'Please enter a valid address';
+
+      const { street, city, province, postalCode } = value;
+      if (!street?.trim() || !city?.trim() || !province || !postalCode?.trim()) {
+        return 'Please complete the address';
+      }
+      if (!REGION_CODES.includes(province)) return 'Please select a province or territory';
+      if (!POSTAL_CODE_REGEX.test(postalCode.trim())) return 'Please enter a valid postal code (e.g. A1A 1A1)';
+      if (!postalCodeMatchesRegion(postalCode, province)) {
+        return 'Postal code does not match the selected province or territory';
+      }
+      return null;
+    }
+
+    case 'signature':
+      if (typeof value !== 'string' || !value.startsWith(SIGNATURE_DATA_URL_PREFIX)) return 'Please sign in the box';
+      if (value.length > SIGNATURE_MAX_LENGTH) return 'Signature is too large - please clear it and sign again';
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate flat form values (keyed by field name).
+ *
+ * Hidden fields are skipped; required verifiable-credential fields need a verified proof.
+ * @param {FormSchema} schema
+ * @param {Record<string, unknown>} values
+ * @param {FormVisibility} visibility
+ * @param {Set<string>} verifiedCredentials
+ * @returns {Record<string, string>}
+ */
+export function validateFormValues(schema, values, visibility, verifiedCredentials) {
+  /** @type {Record<string, string>} */
+  const errors = {};
+
+  for (const field of (schema?.sections || []).flatMap((section) => section.fields || [])) {
+    if (!field.name || visibility.hiddenFields.has(field.id)) continue;
+    const isRequired = visibility.requiredFields.has(field.id);
+
+    if (field.type === 'verifiable-credential') {
+      if (isRequired && !verifiedCredentials.has(field.name)) {
+        errors[field.name] = 'Please verify your credential';
+      }
+      continue;
+    }
+
+    const value = values[field.name];
+
+    if (isEmptyValue(value)) {
+      if (isRequired) {
+        errors[field.name] = field.type === 'checkbox' ? 'Please select at least one option' : 'This field is required';
+      }
+      continue;
+    }
+
+    const error = validateFieldValue(field, value);
+    if (error) {
+      errors[field.name] = error;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Collect submitted keys that do not correspond to any field name.
+ * Descends into nested objects only along dot-notation field name prefixes,
+ * so checkbox answers ({ [optionLabel]: boolean }) are treated as one value.
+ * @param {Record<string, unknown>} fieldValues
+ * @param {Set<string>} fieldNames
+ * @param {string} [prefix]
+ * @returns {string[]}
+ */
+function findUnknownKeys(fieldValues, fieldNames, prefix = '') {
+  /** @type {string[]} */
+  const unknown = [];
+  for (const [key, value] of Object.entries(fieldValues || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (fieldNames.has(path)) continue;
+
+    const isPrefix = [...fieldNames].some((name) => name.startsWith(`${path}.`));
+    if (isPrefix && value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      unknown.push(...findUnknownKeys(/** @type {Record<string, unknown>} */ (value), fieldNames, path));
+    } else {
+      unknown.push(path);
+    }
+  }
+  return unknown;
+}
+
+/**
+ * Validate a submitted form on the server: validateFormValues plus rejection of
+ * unknown keys and of values or proofs submitted for hidden fields.
+ *
+ * @param {FormSchema} formSchema
+ * @param {Record<string, unknown>} fieldValues - Nested submitted values (dot-notation names unflattened)
+ * @param {Object} options
+ * @param {Set<string>} options.verifiedCredentials - Names of verified verifiable-credential fields
+ * @param {Record<string, unknown>} [options.proofPresentations] - Submitted proof request IDs keyed by field name
+ * @param {boolean} [options.requireCredentials=true] - Whether required credential fields must be verified
+ * @returns {Record<string, string>} Errors keyed by field name (empty when valid)
+ */
+export function validateSubmission(formSchema, fieldValues, options) {
+  const { verifiedCredentials, requireCredentials = true } = options;
+  const proofPresentations = options.proofPresentations && typeof options.proofPresentations === 'object'
+    ? options.proofPresentations
+    : {};
+  const allFields = (formSchema?.sections || []).flatMap((section) => section.fields || []);
+  const fieldNames = new Set(allFields.filter((f) => f.name).map((f) => f.name));
+  /** @type {Record<string, string>} */
+  const fieldErrors = {};
+
+  for (const key of findUnknownKeys(fieldValues, fieldNames)) {
+    fieldErrors[key] = 'Unknown field';
+  }
+  for (const key of Object.keys(proofPresentations)) {
+    const field = allFields.find((f) => f.name === key);
+    if (!field || field.type !== 'verifiable-credential') {
+      fieldErrors[key] = 'Unknown field';
+    }
+  }
+
+  const values = toFlatFieldValues(formSchema, fieldValues);
+  const visibility = resolveFormVisibility(formSchema, values, verifiedCredentials);
+
+  for (const field of allFields) {
+    if (!field.name || !visibility.hiddenFields.has(field.id)) continue;
+    const submitted = field.type === 'verifiable-credential' ? proofPresentations[field.name] : values[field.name];
+    if (submitted !== undefined) {
+      fieldErrors[field.name] = 'This field does not apply';
+    }
+  }
+
+  // Without requireCredentials every credential field counts as verified
+  const credentialsToCheck = requireCredentials
+    ? verifiedCredentials
+    : new Set(allFields.filter((f) => f.type === 'verifiable-credential').map((f) => f.name));
+
+  return { ...fieldErrors, ...validateFormValues(formSchema, values, visibility, credentialsToCheck) };
+}
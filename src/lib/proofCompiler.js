@@ -0,0 +1,269 @@
+// @ts-check
+/**
+ * Proof Compiler
+ *
+ * Compiles proof templates into what AnonCreds-style proof requests can express
+ * and builds the Orbit request claims from the result, shared by the Proof
+ * Templates Builder (previews, exports, dry runs) and the Test Verifier API so
+ * both refuse the same templates for the same reasons. Plain JavaScript so
+ * server/ can import it directly; typed with JSDoc and checked by tsc.
+ */
+
+/**
+ * @typedef {import('../types/proofTemplate').AttributeConstraints} AttributeConstraints
+ * @typedef {import('../types/proofTemplate').CompiledCredentialRequest} CompiledCredentialRequest
+ * @typedef {import('../types/proofTemplate').CompiledProofTemplate} CompiledProofTemplate
+ * @typedef {import('../types/proofTemplate').CredentialFormat} CredentialFormat
+ * @typedef {import('../types/proofTemplate').CredentialRestrictions} CredentialRestrictions
+ * @typedef {import('../types/proofTemplate').DateEncoding} DateEncoding
+ * @typedef {import('../types/proofTemplate').OrbitProofRequestBody} OrbitProofRequestBody
+ * @typedef {import('../types/proofTemplate').OrbitRequestedAttribute} OrbitRequestedAttribute
+ * @typedef {import('../types/proofTemplate').OrbitRequestedPredicate} OrbitRequestedPredicate
+ * @typedef {import('../types/proofTemplate').OrbitRestriction} OrbitRestriction
+ * @typedef {import('../types/proofTemplate').PredicateDataType} PredicateDataType
+ * @typedef {import('../types/proofTemplate').ProofTemplate} ProofTemplate
+ * @typedef {import('../types/proofTemplate').ProofTemplateIssue} ProofTemplateIssue
+ * @typedef {import('../types/proofTemplate').ProofTemplateIssueSeverity} ProofTemplateIssueSeverity
+ * @typedef {import('../types/proofTemplate').RequestedCredential} RequestedCredential
+ * @typedef {import('../types/proofTemplate').ResolvedCredentialGroup} ResolvedCredentialGroup
+ */
+
+/**
+ * Orbit API format mapping
+ * @type {Record<CredentialFormat, { proofCredFormat: OrbitProofRequestBody['proofCredFormat']; messageProtocol: OrbitProofRequestBody['messageProtocol'] }>}
+ */
+export const ORBIT_FORMAT_MAP = {
+  'anoncreds': { proofCredFormat: 'ANONCREDS', messageProtocol: 'AIP2_0' },
+  'w3c-jsonld': { proofCredFormat: 'JSONLD', messageProtocol: 'OID4VC' },
+  'w3c-sd-jwt': { proofCredFormat: 'OID4VC', messageProtocol: 'OID4VC' },
+  'iso-18013-5': { proofCredFormat: 'ISO_18013_5', messageProtocol: 'OID4VC' }, // TBD - may need adjustment
+};
+
+// Restriction alternatives beyond this are almost certainly a mistake
+export const MAX_RESTRICTION_ALTERNATIVES = 50;
+
+/**
+ * Split requested credentials into always-required ones and groups of
+ * alternatives. Groups without members are dropped; credentials pointing at
+ * a missing group count as required.
+ * @param {ProofTemplate} template
+ * @returns {{ required: RequestedCredential[]; groups: ResolvedCredentialGroup[] }}
+ */
+export function resolveCredentialGroups(template) {
+  const requestedCredentials = template.requestedCredentials || [];
+  const groups = (template.credentialGroups || [])
+    .map((group) => {
+      const credentials = requestedCredentials.filter((cred) => cred.groupId === group.id);
+      return { group, credentials, minimum: Math.min(Math.max(group.minimum || 1, 1), credentials.length) };
+    })
+    .filter((resolved) => resolved.credentials.length > 0);
+  const grouped = new Set(groups.flatMap((resolved) => resolved.credentials.map((cred) => cred.id)));
+
+  return {
+    required: requestedCredentials.filter((cred) => !grouped.has(cred.id)),
+    groups,
+  };
+}
+
+/**
+ * Values an attribute constraint accepts: blank values are ignored and an
+ * exact match accepts only the first value
+ * @param {AttributeConstraints | undefined} constraints
+ * @returns {string[]}
+ */
+export function getAcceptedValues(constraints) {
+  const values = constraints?.values.filter(Boolean) || [];
+  return constraints?.type === 'exact-match' ? values.slice(0, 1) : values;
+}
+
+/**
+ * Encode an ISO date (YYYY-MM-DD) as an integer, or null when it is not a date
+ * @param {string} value
+ * @param {DateEncoding} [encoding]
+ * @returns {number | null}
+ */
+export function encodeDate(value, encoding = 'yyyymmdd') {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return encoding === 'days-since-epoch' ? Math.floor(time / 86400000) : year * 10000 + month * 100 + day;
+}
+
+/**
+ * Encode a predicate value as the integer a proof compares against: dates in the
+ * credential's date encoding, everything else as an integer. Returns the reason
+ * instead when the value cannot be encoded.
+ * @param {number | string | null | undefined} value
+ * @param {PredicateDataType} predicateType
+ * @param {DateEncoding} [dateEncoding]
+ * @returns {{ pValue: number; error?: undefined } | { pValue?: undefined; error: string }}
+ */
+export function encodePredicateValue(value, predicateType, dateEncoding) {
+  // Number('') is 0, so an empty value would silently become "attr >= 0"
+  if (value === null || value === undefined || String(value).trim() === '') {
+    return { error: 'has no value' };
+  }
+  if (predicateType === 'date') {
+    const pValue = encodeDate(String(value), dateEncoding);
+    return pValue === null ? { error: 'needs a valid date (YYYY-MM-DD)' } : { pValue };
+  }
+  const pValue = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(pValue) ? { pValue } : { error: 'needs an integer value' };
+}
+
+/**
+ * Restriction alternatives for a credential's catalogue restrictions: one per
+ * accepted issuer, and none when nothing restricts the credential
+ * @param {CredentialRestrictions | undefined} restrictions
+ * @returns {OrbitRestriction[]}
+ */
+function toOrbitRestrictions(restrictions) {
+  /** @type {OrbitRestriction} */
+  const result = {};
+  if (restrictions?.schemaId) result.schemaId = restrictions.schemaId;
+  if (restrictions?.credentialDefinitionId) result.credentialDefinitionId = restrictions.credentialDefinitionId;
+  if (restrictions?.issuerDid) result.issuerDid = restrictions.issuerDid;
+
+  if (restrictions?.issuerDids?.length) {
+    return restrictions.issuerDids.map((issuerDid) => ({ ...result, issuerDid }));
+  }
+  return Object.keys(result).length > 0 ? [result] : [];
+}
+
+/**
+ * Compile a template into what AnonCreds-style requests can express:
+ * - date predicates become integers in the credential's date encoding
+ * - exact-match / one-of constraints and "==" predicates become
+ *   attr::<name>::value restrictions (one alternative per accepted value)
+ * - possession-only attributes are requested; the holder decides whether to reveal them
+ * - credential groups cannot offer alternatives, so every member is requested
+ * Anything that cannot be expressed is reported as an 'error' issue. A template with
+ * errors cannot be turned into a request; the Test Verifier API refuses it.
+ * @param {ProofTemplate} template
+ * @returns {CompiledProofTemplate}
+ */
+export function compileProofTemplate(template) {
+  /** @type {ProofTemplateIssue[]} */
+  const issues = [];
+
+  for (const { group, credentials, minimum } of resolveCredentialGroups(template).groups) {
+    if (minimum < credentials.length) {
+      issues.push({
+        severity: 'warning',
+        message: `${group.name || 'Credential group'}: proof requests cannot offer alternatives, so all ${credentials.length} credentials are requested instead of ${minimum}`,
+      });
+    }
+  }
+
+  const credentials = (template.requestedCredentials || []).map((cred, index) => {
+    const name = cred.credentialName || `Credential ${index + 1}`;
+    /**
+     * @param {ProofTemplateIssueSeverity} severity
+     * @param {string} message
+     */
+    const report = (severity, message) =>
+      issues.push({ severity, credentialId: cred.id, message: `${name}: ${message}` });
+
+    /** @type {string[]} */
+    const attributes = [];
+    /** @type {CompiledCredentialRequest['predicates']} */
+    const predicates = [];
+    // Accepted values per attribute; each attribute must match one of its values
+    /** @type {Map<string, string[]>} */
+    const valueConstraints = new Map();
+
+    for (const attr of cred.requestedAttributes || []) {
+      if (!attributes.includes(attr.attributeName)) attributes.push(attr.attributeName);
+      if (!attr.required) {
+        report('warning', `"${attr.attributeName}" is optional, but AnonCreds requests every attribute; it is requested as required`);
+      }
+      if (attr.selectiveDisclosure?.revealValue === false) {
+        report('info', `"${attr.attributeName}" is requested for possession only; the holder chooses whether to reveal it`);
+      }
+      const accepted = getAcceptedValues(attr.constraints);
+      if (attr.constraints && accepted.length > 0) {
+        if (!attr.constraints.caseSensitive) {
+          report('warning', `value restrictions match exactly, so "${attr.attributeName}" is matched case-sensitively`);
+        }
+        valueConstraints.set(attr.attributeName, accepted);
+      }
+    }
+
+    for (const pred of cred.predicates || []) {
+      const label = `predicate "${pred.attributeName} ${pred.operator} ${pred.value ?? ''}"`;
+      const { pValue, error } = encodePredicateValue(pred.value, pred.predicateType, cred.dateEncoding);
+      if (error !== undefined) {
+        report('error', `${label} ${error}`);
+        continue;
+      }
+
+      if (pred.operator === '!=') {
+        report('error', `${label} cannot be expressed: predicates only support <, <=, > and >=`);
+        continue;
+      }
+      if (pred.operator === '==') {
+        // Equality is a value restriction on a revealed attribute
+        const value = String(pValue);
+        const existing = valueConstraints.get(pred.attributeName);
+        valueConstraints.set(pred.attributeName, existing ? existing.filter((v) => v === value) : [value]);
+        if (!attributes.includes(pred.attributeName)) attributes.push(pred.attributeName);
+        report('warning', `${label} becomes a value restriction, which reveals "${pred.attributeName}"`);
+        continue;
+      }
+
+      predicates.push({ attributeName: pred.attributeName, pType: pred.operator, pValue });
+    }
+
+    // One restriction per combination of accepted values
+    let restrictions = toOrbitRestrictions(cred.restrictions);
+    for (const [attributeName, values] of valueConstraints) {
+      if (values.length === 0) {
+        report('error', `the constraints on "${attributeName}" accept no value`);
+        continue;
+      }
+      restrictions = (restrictions.length > 0 ? restrictions : [{}]).flatMap((restriction) =>
+        values.map((value) => ({ ...restriction, [`attr::${attributeName}::value`]: value }))
+      );
+    }
+    if (restrictions.length > MAX_RESTRICTION_ALTERNATIVES) {
+      report('error', `value constraints produce ${restrictions.length} restriction alternatives; at most ${MAX_RESTRICTION_ALTERNATIVES} are supported`);
+    }
+
+    return { credential: cred, attributes, predicates, restrictions };
+  });
+
+  return { credentials, issues };
+}
+
+/**
+ * Orbit requested attributes and predicates for compiled credentials: one
+ * attribute group per credential, each predicate carrying its credential's restrictions
+ * @param {CompiledCredentialRequest[]} credentials
+ * @returns {{ requestedAttributes: OrbitRequestedAttribute[]; requestedPredicates: OrbitRequestedPredicate[] }}
+ */
+export function toOrbitRequestedClaims(credentials) {
+  /** @type {OrbitRequestedAttribute[]} */
+  const requestedAttributes = [];
+  /** @type {OrbitRequestedPredicate[]} */
+  const requestedPredicates = [];
+
+  for (const compiled of credentials) {
+    if (compiled.attributes.length > 0) {
+      requestedAttributes.push({
+        attributes: compiled.attributes,
+        restrictions: compiled.restrictions,
+      });
+    }
+
+    for (const pred of compiled.predicates) {
+      requestedPredicates.push({ ...pred, restrictions: compiled.restrictions });
+    }
+  }
+
+  return { requestedAttributes, requestedPredicates };
+}
@@ -5,12 +5,299 @@
  * No authentication required - this is a public-facing page.
  */
 
-import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { Form, FormField, FormSection, unflattenFormData } from '../types/forms';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  AddressFieldValue,
+  FileFieldValue,
+  FILE_UPLOAD_TYPES,
+  Form,
+  FormDraft,
+  FormField,
+  FormSection,
+  FormVisibility,
+  getAcceptedFileTypes,
+  getMaxFileSizeMb,
+  resolveFormVisibility,
+  SubmissionCredentialOffer,
+  unflattenFormData,
+  validateFormValues,
+} from '../types/forms';
+import type { ProofRequestStatus } from '../types/verifier';
+import AddressFieldInput from '../apps/FormsBuilder/components/AddressFieldInput';
+import SignatureFieldInput from '../apps/FormsBuilder/components/SignatureFieldInput';
+import CredentialOfferCard from '../apps/FormsBuilder/components/CredentialOfferCard';
 
 const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
 
+// Statuses after which a proof request stops changing
+const TERMINAL_PROOF_STATUSES: ProofRequestStatus[] = ['verified', 'failed', 'expired'];
+
+interface FormProofRequest {
+  id: string;
+  shortUrl: string;
+  status: ProofRequestStatus;
+  errorMessage?: string | null;
+}
+
+interface CredentialVerificationProps {
+  formId: string;
+  sessionId: string;
+  field: FormField;
+  isVerified: boolean; // A verified proof is already held for this field (e.g. restored from a draft)
+  onVerified: (proofRequestId: string | null) => void;
+  error?: string;
+}
+
+/**
+ * Verifiable credential field: requests a proof for the field's credential config,
+ * shows the QR code and polls the verifier until the wallet responds.
+ */
+function CredentialVerification({ formId, sessionId, field, isVerified, onVerified, error }: CredentialVerificationProps) {
+  const [proofRequest, setProofRequest] = useState<FormProofRequest | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const pollIntervalRef = useRef<ReturnType<typeof setInterval>>();
+  const onVerifiedRef = useRef(onVerified);
+  onVerifiedRef.current = onVerified;
+
+  const createProofRequest = async () => {
+    setIsCreating(true);
+    setRequestError(null);
+    onVerifiedRef.current(null);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/test-verifier/forms/${formId}/proof-request`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fieldId: field.id, sessionId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || 'Failed to create proof request');
+      }
+
+      setProofRequest(await response.json());
+    } catch (err) {
+      setRequestError(err instanceof Error ? err.message : 'Failed to create proof request');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Poll for status updates until the request settles
+  useEffect(() => {
+    if (!proofRequest || TERMINAL_PROOF_STATUSES.includes(proofRequest.status)) return;
+
+    pollIntervalRef.current = setInterval(async () => {
+      try {
+        const response = await fetch(
+          `${API_BASE}/api/test-verifier/status/${proofRequest.id}?sessionId=${encodeURIComponent(sessionId)}`
+        );
+        if (!response.ok) return;
+
+        const status = await response.json();
+        setProofRequest((prev) => (prev ? { ...prev, status: status.status, errorMessage: status.errorMessage } : prev));
+        if (status.status === 'verified') {
+          onVerifiedRef.current(proofRequest.id);
+        }
+      } catch {
+        // Silently ignore polling errors
+      }
+    }, 3000);
+
+    return () => {
+      if (pollIntervalRef.current) {
+        clearInterval(pollIntervalRef.current);
+      }
+    };
+  }, [proofRequest?.id, proofRequest?.status, sessionId]);
+
+  const config = field.credentialConfig;
+  const borderClasses = error ? 'border-red-300 bg-red-50' : 'border-blue-300 bg-blue-50';
+
+  if (proofRequest?.status === 'verified' || (isVerified && !proofRequest)) {
+    return (
+      <div className="border-2 border-green-300 rounded-lg p-4 bg-green-50 flex items-center gap-3">
+        <svg className="w-8 h-8 text-green-600 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <div>
+          <p className="text-sm font-medium text-green-800">Credential verified</p>
+          <p className="text-xs text-green-700">Your presentation will be included with this submission.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (proofRequest && !TERMINAL_PROOF_STATUSES.includes(proofRequest.status)) {
+    return (
+      <div className={`border-2 rounded-lg p-6 text-center ${borderClasses}`}>
+        <div className="inline-block bg-white p-3 rounded-lg shadow-sm">
+          <QRCodeSVG value={proofRequest.shortUrl} size={200} level="M" />
+        </div>
+        <p className="text-sm font-medium text-blue-700 mt-3">Scan with your wallet app</p>
+        <p className="text-xs text-blue-600 mt-1">
+          {proofRequest.status === 'generated' ? 'Waiting for scan...' : 'Verifying presentation...'}
+        </p>
+        <a
+          href={proofRequest.shortUrl}
+          className="inline-block mt-2 text-xs text-blue-600 underline hover:text-blue-800"
+        >
+          Open in wallet on this device
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`border-2 border-dashed rounded-lg p-6 text-center ${borderClasses}`}>
+      <svg
+        className="w-10 h-10 mx-auto text-blue-500 mb-3"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+        />
+      </svg>
+      <p className="text-sm font-medium text-blue-700">Verifiable Credential Required</p>
+      <p className="text-xs text-blue-600 mt-1">
+        {config?.predicate
+          ? `Proof: ${config.attributePath || 'attribute'} ${config.predicate.operator} ${config.predicate.value}`
+          : 'Scan QR code to verify'}
+      </p>
+      {(requestError || proofRequest?.status === 'failed' || proofRequest?.status === 'expired') && (
+        <p className="text-xs text-red-600 mt-2">
+          {requestError ||
+            (proofRequest?.status === 'expired'
+              ? 'The verification request expired. Please try again.'
+              : proofRequest?.errorMessage || 'Verification failed. Please try again.')}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={createProofRequest}
+        disabled={isCreating}
+        className="mt-3 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isCreating ? 'Preparing...' : proofRequest ? 'Try Again' : 'Verify Credential'}
+      </button>
+    </div>
+  );
+}
+
+interface FileUploadProps {
+  formId: string;
+  sessionId: string;
+  field: FormField;
+  value: FileFieldValue | undefined;
+  onChange: (value: FileFieldValue | '') => void;
+  error?: string;
+}
+
+/**
+ * File field: uploads the chosen file straight away and keeps the returned
+ * upload reference as the field value.
+ */
+function FileUpload({ formId, sessionId, field, value, onChange, error }: FileUploadProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const acceptedTypes = getAcceptedFileTypes(field);
+  const maxSizeMb = getMaxFileSizeMb(field);
+  const typeLabels = FILE_UPLOAD_TYPES.filter((t) => acceptedTypes.includes(t.mimeType)).map((t) => t.label);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploadError(null);
+    if (!acceptedTypes.includes(file.type)) {
+      setUploadError(`Please choose a ${typeLabels.join(', ')} file`);
+      return;
+    }
+    if (file.size > maxSizeMb * 1024 * 1024) {
+      setUploadError(`File too large. Maximum size is ${maxSizeMb}MB.`);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const params = new URLSearchParams({ fieldId: field.id, sessionId });
+      const response = await fetch(`${API_BASE}/api/forms/${formId}/uploads?${params}`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to upload file');
+      }
+
+      onChange(await response.json());
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (value?.uploadId) {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 border border-gray-300 rounded-lg bg-gray-50">
+        <div className="flex items-center gap-2 min-w-0">
+          <svg className="w-5 h-5 text-gray-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          <span className="text-sm text-gray-800 truncate">{value.name}</span>
+          <span className="text-xs text-gray-500 flex-shrink-0">{(value.size / 1024).toFixed(0)} KB</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="text-sm text-gray-500 hover:text-red-600"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label
+        className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+          error || uploadError ? 'border-red-300 bg-red-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <input
+          type="file"
+          accept={acceptedTypes.join(',')}
+          onChange={handleFileChange}
+          disabled={isUploading}
+          className="sr-only"
+        />
+        <span className="text-sm font-medium text-blue-600">
+          {isUploading ? 'Uploading...' : 'Choose a file'}
+        </span>
+        <span className="text-xs text-gray-500 mt-1">
+          {typeLabels.join(', ')} up to {maxSizeMb}MB
+        </span>
+      </label>
+      {uploadError && <p className="text-sm text-red-600 mt-1">{uploadError}</p>}
+    </div>
+  );
+}
+
 interface FieldInputProps {
   field: FormField;
   value: unknown;
@@ -44,7 +331,7 @@ function FieldInput({ field, value, onChange, error }: FieldInputProps) {
         <input
           type="number"
           value={(value as number) ?? ''}
-          onChange={(e) => onChange(e.target.valueAsNumber || '')}
+          onChange={(e) => onChange(Number.isNaN(e.target.valueAsNumber) ? '' : e.target.valueAsNumber)}
           placeholder={field.placeholder}
           min={field.validation?.min}
           max={field.validation?.max}
@@ -135,37 +422,18 @@ function FieldInput({ field, value, onChange, error }: FieldInputProps) {
       );
     }
 
-    case 'verifiable-credential':
+    case 'address':
       return (
-        <div className="border-2 border-dashed border-blue-300 rounded-lg p-6 text-center bg-blue-50">
-          <svg
-            className="w-10 h-10 mx-auto text-blue-500 mb-3"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
-            />
-          </svg>
-          <p className="text-sm font-medium text-blue-700">Verifiable Credential Required</p>
-          <p className="text-xs text-blue-600 mt-1">
-            {field.credentialConfig?.predicate
-              ? `Proof: ${field.credentialConfig.attributePath || 'attribute'} ${field.credentialConfig.predicate.operator} ${field.credentialConfig.predicate.value}`
-              : 'Scan QR code to verify'}
-          </p>
-          <button
-            type="button"
-            className="mt-3 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
-          >
-            Verify Credential
-          </button>
-        </div>
+        <AddressFieldInput
+          value={(value as Partial<AddressFieldValue>) || undefined}
+          onChange={onChange}
+          inputClassName={inputClasses}
+        />
       );
 
+    case 'signature':
+      return <SignatureFieldInput value={(value as string) || undefined} onChange={onChange} hasError={!!error} />;
+
     default:
       return (
         <div className="text-sm text-gray-500">
@@ -177,14 +445,24 @@ function FieldInput({ field, value, onChange, error }: FieldInputProps) {
 
 function SectionRenderer({
   section,
+  formId,
+  sessionId,
+  visibility,
   values,
+  proofs,
   errors,
   onChange,
+  onProofChange,
 }: {
   section: FormSection;
+  formId: string;
+  sessionId: string;
+  visibility: FormVisibility;
   values: Record<string, unknown>;
+  proofs: Record<string, string>;
   errors: Record<string, string>;
   onChange: (fieldName: string, value: unknown) => void;
+  onProofChange: (fieldName: string, proofRequestId: string | null) => void;
 }) {
   return (
     <div className="mb-8">
@@ -195,21 +473,41 @@ function SectionRenderer({
         <p className="text-gray-600 mb-4">{section.description}</p>
       )}
       <div className="space-y-6">
-        {section.fields.map((field) => (
+        {section.fields.filter((field) => !visibility.hiddenFields.has(field.id)).map((field) => (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               {field.label || 'Untitled Field'}
-              {field.required && <span className="text-red-500 ml-1">*</span>}
+              {visibility.requiredFields.has(field.id) && <span className="text-red-500 ml-1">*</span>}
             </label>
             {field.description && (
               <p className="text-sm text-gray-500 mb-2">{field.description}</p>
             )}
-            <FieldInput
-              field={field}
-              value={values[field.name] ?? ''}
-              onChange={(value) => onChange(field.name, value)}
-              error={errors[field.name]}
-            />
+            {field.type === 'verifiable-credential' ? (
+              <CredentialVerification
+                formId={formId}
+                sessionId={sessionId}
+                field={field}
+                isVerified={!!proofs[field.name]}
+                onVerified={(proofRequestId) => onProofChange(field.name, proofRequestId)}
+                error={errors[field.name]}
+              />
+            ) : field.type === 'file' ? (
+              <FileUpload
+                formId={formId}
+                sessionId={sessionId}
+                field={field}
+                value={(values[field.name] as FileFieldValue) || undefined}
+                onChange={(value) => onChange(field.name, value)}
+                error={errors[field.name]}
+              />
+            ) : (
+              <FieldInput
+                field={field}
+                value={values[field.name] ?? ''}
+                onChange={(value) => onChange(field.name, value)}
+                error={errors[field.name]}
+              />
+            )}
             {errors[field.name] && (
               <p className="text-sm text-red-600 mt-1">{errors[field.name]}</p>
             )}
@@ -222,13 +520,27 @@ function SectionRenderer({
 
 export default function PublicFormPage() {
   const { slug } = useParams<{ slug: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [form, setForm] = useState<Form | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [values, setValues] = useState<Record<string, unknown>>({});
+  // Verified proof request IDs for verifiable-credential fields, keyed by field name
+  const [proofs, setProofs] = useState<Record<string, string>>({});
+  // One applicant session per page load (or per resumed draft); proof requests are scoped to it
+  const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID());
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [currentScreen, setCurrentScreen] = useState<'info' | 'form' | 'success'>('form');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Offer for a credential issued on submit (forms with an auto issuance binding)
+  const [credentialOffer, setCredentialOffer] = useState<SubmissionCredentialOffer | null>(null);
+  // Wizard layout - index into the visible sections
+  const [step, setStep] = useState(0);
+  // Save and resume
+  const [resumeToken, setResumeToken] = useState<string | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [showResumeLink, setShowResumeLink] = useState(false);
 
   useEffect(() => {
     async function fetchForm() {
@@ -253,6 +565,25 @@ export default function PublicFormPage() {
         const formData = await response.json();
         setForm(formData);
 
+        // Resuming a saved draft skips the info screen
+        const token = searchParams.get('resume');
+        if (token && formData.schema?.saveAndResume) {
+          const draftResponse = await fetch(
+            `${API_BASE}/api/forms/${formData.id}/drafts/${encodeURIComponent(token)}`
+          );
+          if (draftResponse.ok) {
+            const draft: FormDraft = await draftResponse.json();
+            setValues(draft.fieldValues);
+            setProofs(draft.proofPresentations);
+            setSessionId(draft.sessionId);
+            setStep(draft.currentStep);
+            setResumeToken(draft.resumeToken);
+            setDraftSavedAt(draft.updatedAt);
+            return;
+          }
+          setErrors({ _form: 'Your saved progress could not be found or has expired. Please start again.' });
+        }
+
         // If form has an info screen that is enabled, show it first
         if (formData.schema?.infoScreen?.enabled) {
           setCurrentScreen('info');
@@ -265,7 +596,23 @@ export default function PublicFormPage() {
     }
 
     fetchForm();
-  }, [slug]);
+    // Only the resume token present on first load is used
+  }, [slug]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Conditional logic - recomputed as answers and credential verifications change
+  const visibility = useMemo<FormVisibility>(
+    () =>
+      form?.schema
+        ? resolveFormVisibility(form.schema, values, new Set(Object.keys(proofs)))
+        : { hiddenSections: new Set(), hiddenFields: new Set(), requiredFields: new Set() },
+    [form?.schema, values, proofs]
+  );
+
+  const isWizard = form?.schema.layout === 'wizard';
+  // Steps follow conditional logic, so hidden sections are skipped
+  const steps = form?.schema.sections.filter((section) => !visibility.hiddenSections.has(section.id)) || [];
+  const stepIndex = Math.min(step, Math.max(steps.length - 1, 0));
+  const isLastStep = stepIndex >= steps.length - 1;
 
   const handleFieldChange = (fieldName: string, value: unknown) => {
     setValues((prev) => ({ ...prev, [fieldName]: value }));
@@ -279,86 +626,178 @@ export default function PublicFormPage() {
     }
   };
 
+  const handleProofChange = (fieldName: string, proofRequestId: string | null) => {
+    setProofs((prev) => {
+      const next = { ...prev };
+      if (proofRequestId) {
+        next[fieldName] = proofRequestId;
+      } else {
+        delete next[fieldName];
+      }
+      return next;
+    });
+    if (proofRequestId && errors[fieldName]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[fieldName];
+        return next;
+      });
+    }
+  };
+
+  // In wizard mode, go to the first step with an error
+  const showErrors = (newErrors: Record<string, string>) => {
+    setErrors(newErrors);
+    if (isWizard) {
+      const errorStep = steps.findIndex((section) => section.fields.some((field) => newErrors[field.name]));
+      if (errorStep !== -1) setStep(errorStep);
+    }
+  };
+
   const validateForm = (): boolean => {
     if (!form?.schema) return false;
 
-    const newErrors: Record<string, string> = {};
+    const newErrors = validateFormValues(form.schema, values, visibility, new Set(Object.keys(proofs)));
+    showErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
 
-    for (const section of form.schema.sections) {
-      for (const field of section.fields) {
-        const value = values[field.name];
+  // Validate only the fields on the current wizard step
+  const validateStep = (): boolean => {
+    if (!form?.schema || !steps[stepIndex]) return false;
 
-        if (field.required) {
-          if (value === undefined || value === null || value === '') {
-            newErrors[field.name] = 'This field is required';
-            continue;
-          }
-          if (Array.isArray(value) && value.length === 0) {
-            newErrors[field.name] = 'Please select at least one option';
-            continue;
-          }
-        }
+    const stepFieldNames = new Set(steps[stepIndex].fields.map((field) => field.name));
+    const newErrors = Object.fromEntries(
+      Object.entries(validateFormValues(form.schema, values, visibility, new Set(Object.keys(proofs)))).filter(
+        ([name]) => stepFieldNames.has(name)
+      )
+    );
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
 
-        // Type-specific validation
-        if (value && field.validation) {
-          if (field.validation.minLength && typeof value === 'string' && value.length < field.validation.minLength) {
-            newErrors[field.name] = `Minimum ${field.validation.minLength} characters required`;
-          }
-          if (field.validation.maxLength && typeof value === 'string' && value.length > field.validation.maxLength) {
-            newErrors[field.name] = `Maximum ${field.validation.maxLength} characters allowed`;
-          }
-          if (field.validation.min !== undefined && typeof value === 'number' && value < field.validation.min) {
-            newErrors[field.name] = `Minimum value is ${field.validation.min}`;
-          }
-          if (field.validation.max !== undefined && typeof value === 'number' && value > field.validation.max) {
-            newErrors[field.name] = `Maximum value is ${field.validation.max}`;
-          }
-        }
+  const saveDraft = async (currentStep: number): Promise<string | null> => {
+    if (!form) return null;
+    setIsSavingDraft(true);
 
-        // Email validation
-        if (field.type === 'email' && value) {
-          const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-          if (!emailRegex.test(value as string)) {
-            newErrors[field.name] = 'Please enter a valid email address';
-          }
-        }
+    try {
+      const response = await fetch(`${API_BASE}/api/forms/${form.id}/drafts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fieldValues: values,
+          proofPresentations: proofs,
+          currentStep,
+          sessionId,
+          resumeToken,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save your progress');
       }
+
+      const draft: FormDraft = await response.json();
+      setResumeToken(draft.resumeToken);
+      setDraftSavedAt(draft.updatedAt);
+      // Keep the token in the URL so a refresh resumes the draft
+      setSearchParams({ resume: draft.resumeToken }, { replace: true });
+      return draft.resumeToken;
+    } catch (err) {
+      setErrors((prev) => ({ ...prev, _form: err instanceof Error ? err.message : 'Failed to save your progress' }));
+      return null;
+    } finally {
+      setIsSavingDraft(false);
     }
+  };
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const handleSaveAndExit = async () => {
+    if (await saveDraft(stepIndex)) {
+      setShowResumeLink(true);
+    }
+  };
+
+  const handleNext = () => {
+    if (!validateStep()) return;
+    const nextStep = stepIndex + 1;
+    setStep(nextStep);
+    window.scrollTo({ top: 0 });
+    // Keep an existing draft up to date as the applicant progresses
+    if (resumeToken) {
+      saveDraft(nextStep);
+    }
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStep(Math.max(stepIndex - 1, 0));
+    window.scrollTo({ top: 0 });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Enter on an earlier wizard step moves forward rather than submitting
+    if (isWizard && !isLastStep) {
+      handleNext();
+      return;
+    }
+
     if (!validateForm() || !form) return;
 
     setIsSubmitting(true);
 
     try {
+      // Answers to hidden questions are dropped (the server rejects them)
+      const hiddenNames = new Set(
+        form.schema.sections
+          .flatMap((section) => section.fields)
+          .filter((field) => visibility.hiddenFields.has(field.id))
+          .map((field) => field.name)
+      );
+      const visibleValues = Object.fromEntries(Object.entries(values).filter(([name]) => !hiddenNames.has(name)));
+      const visibleProofs = Object.fromEntries(Object.entries(proofs).filter(([name]) => !hiddenNames.has(name)));
+
       // Unflatten the form data for nested JSON structure
-      const nestedData = unflattenFormData(values);
+      const nestedData = unflattenFormData(visibleValues);
 
       const response = await fetch(`${API_BASE}/api/forms/${form.id}/submissions`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           fieldValues: nestedData,
-          sessionId: crypto.randomUUID(),
+          sessionId,
+          proofPresentations: visibleProofs,
+          resumeToken,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to submit form');
+        const errorData = await response.json().catch(() => ({}));
+        // Server-side validation errors are keyed by field name, like client-side ones
+        if (errorData.fieldErrors) {
+          showErrors({ ...errorData.fieldErrors, _form: errorData.message || 'Please correct the highlighted fields.' });
+          return;
+        }
+        throw new Error(errorData.message || 'Failed to submit form. Please try again.');
       }
 
-      // Only show success screen if enabled, otherwise stay on form
-      if (form.schema.successScreen?.enabled ?? true) {
+      // The draft is deleted server-side once submitted
+      if (resumeToken) {
+        setResumeToken(null);
+        setSearchParams({}, { replace: true });
+      }
+
+      const result = await response.json().catch(() => ({}));
+      setCredentialOffer(result.credentialOffer || null);
+
+      // Only show success screen if enabled (or there is a credential to accept), otherwise stay on form
+      if ((form.schema.successScreen?.enabled ?? true) || result.credentialOffer) {
         setCurrentScreen('success');
       }
     } catch (err) {
-      setErrors({ _form: 'Failed to submit form. Please try again.' });
+      setErrors({ _form: err instanceof Error ? err.message : 'Failed to submit form. Please try again.' });
     } finally {
       setIsSubmitting(false);
     }
@@ -424,7 +863,7 @@ export default function PublicFormPage() {
   }
 
   // Success screen (only shown if enabled)
-  if (currentScreen === 'success' && (form.schema.successScreen?.enabled ?? true)) {
+  if (currentScreen === 'success') {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
@@ -439,6 +878,11 @@ export default function PublicFormPage() {
           <p className="text-gray-600 whitespace-pre-wrap">
             {form.schema.successScreen?.content || 'Your form has been submitted.'}
           </p>
+          {credentialOffer && (
+            <div className="mt-6">
+              <CredentialOfferCard offer={credentialOffer} />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -464,25 +908,110 @@ export default function PublicFormPage() {
             </div>
           )}
 
+          {showResumeLink && resumeToken && (
+            <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+              <p className="font-medium text-blue-900 mb-1">Your progress has been saved</p>
+              <p className="text-blue-800 mb-3">
+                Use this link to continue later. Anyone with the link can see your answers, so keep it private.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={`${window.location.origin}/f/${slug}?resume=${resumeToken}`}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 text-xs font-mono bg-white border border-blue-200 rounded-lg"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    navigator.clipboard.writeText(`${window.location.origin}/f/${slug}?resume=${resumeToken}`)
+                  }
+                  className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isWizard && steps.length > 1 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                <span className="font-medium">{steps[stepIndex]?.title}</span>
+                <span>
+                  Step {stepIndex + 1} of {steps.length}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${((stepIndex + 1) / steps.length) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit}>
-            {form.schema.sections.map((section) => (
+            {(isWizard ? steps.slice(stepIndex, stepIndex + 1) : steps).map((section) => (
               <SectionRenderer
                 key={section.id}
                 section={section}
+                formId={form.id}
+                sessionId={sessionId}
+                visibility={visibility}
                 values={values}
+                proofs={proofs}
                 errors={errors}
                 onChange={handleFieldChange}
+                onProofChange={handleProofChange}
               />
             ))}
 
-            <div className="flex justify-end pt-4 border-t mt-6">
-              <button
-                type="submit"
-                disabled={isSubmitting}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                {isSubmitting ? 'Submitting...' : 'Submit'}
-              </button>
+            <div className="flex items-center justify-between gap-3 pt-4 border-t mt-6">
+              <div className="flex items-center gap-3">
+                {isWizard && stepIndex > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleBack}
+                    className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    Back
+                  </button>
+                )}
+                {form.schema.saveAndResume && (
+                  <button
+                    type="button"
+                    onClick={handleSaveAndExit}
+                    disabled={isSavingDraft}
+                    className="px-4 py-2 text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50"
+                  >
+                    {isSavingDraft ? 'Saving...' : 'Save and continue later'}
+                  </button>
+                )}
+                {draftSavedAt && !isSavingDraft && (
+                  <span className="text-xs text-gray-400">
+                    Saved {new Date(draftSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                )}
+              </div>
+              {isWizard && !isLastStep ? (
+                <button
+                  type="button"
+                  onClick={handleNext}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+                >
+                  Next
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isSubmitting ? 'Submitting...' : 'Submit'}
+                </button>
+              )}
             </div>
           </form>
         </div>
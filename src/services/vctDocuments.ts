@@ -0,0 +1,59 @@
+/**
+ * VCT Documents
+ *
+ * Fetches VCT documents by URI for inheritance resolution and integrity
+ * checks, preferring the VCT library for URIs that point into it.
+ */
+
+import type { VCT } from '../types/vct';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+export interface FetchedVct {
+  document: VCT;
+  raw: string;
+  source: 'library' | 'url';
+}
+
+// VCT base URL of the library, fetched once
+let vctBaseUrlPromise: Promise<string | null> | null = null;
+
+function getVctBaseUrl(): Promise<string | null> {
+  if (!vctBaseUrlPromise) {
+    vctBaseUrlPromise = fetch(`${API_BASE}/api/github/config`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((config) => config?.vctBaseUrl || null)
+      .catch(() => null);
+  }
+  return vctBaseUrlPromise;
+}
+
+/**
+ * Fetch a VCT document by URI, from the VCT library when the URI is one of
+ * ours (so unpublished branches resolve), otherwise from the URI itself
+ */
+export async function fetchVctDocument(uri: string): Promise<FetchedVct> {
+  const baseUrl = await getVctBaseUrl();
+  if (baseUrl && uri.startsWith(baseUrl)) {
+    const filename = uri.slice(baseUrl.length);
+    const response = await fetch(
+      `${API_BASE}/api/github/vct/${encodeURIComponent(filename)}`,
+      { credentials: 'include' }
+    );
+    if (response.ok) {
+      const data = await response.json();
+      return { document: data.content, raw: data.raw, source: 'library' };
+    }
+  }
+
+  const response = await fetch(uri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${uri}: ${response.status}`);
+  }
+  const raw = await response.text();
+  try {
+    return { document: JSON.parse(raw), raw, source: 'url' };
+  } catch {
+    throw new Error(`${uri} is not a JSON document`);
+  }
+}
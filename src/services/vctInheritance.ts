@@ -0,0 +1,143 @@
+/**
+ * VCT Inheritance Service
+ *
+ * Resolves the `extends` chain of a VCT from the VCT library or the parent's
+ * URL, verifies `extends#integrity` and merges inherited display and claim
+ * metadata following the SD-JWT VC type metadata extension rules.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-oauth-sd-jwt-vc/
+ */
+
+import type {
+  InheritedVCTClaim,
+  MergedVCT,
+  VCT,
+  VCTAncestor,
+  VCTClaim,
+  VCTClaimDisplay,
+  VCTDisplay,
+} from '../types/vct';
+import { fetchVctDocument } from './vctDocuments';
+import { verifyIntegrity } from './vctIntegrity';
+
+// Guards against runaway chains that are not cycles
+const MAX_CHAIN_LENGTH = 10;
+
+// ============================================
+// CHAIN RESOLUTION
+// ============================================
+
+/**
+ * Resolve the ancestors of a VCT, nearest parent first. Fails on a cycle,
+ * an unreachable parent or an integrity mismatch.
+ */
+export async function resolveVctAncestors(vct: VCT): Promise<VCTAncestor[]> {
+  const ancestors: VCTAncestor[] = [];
+  const visited = vct.vct ? [vct.vct] : [];
+  let child: VCT = vct;
+
+  while (child.extends) {
+    const uri = child.extends;
+    if (visited.includes(uri)) {
+      throw new Error(`Circular extends: ${[...visited, uri].join(' → ')}`);
+    }
+    if (ancestors.length >= MAX_CHAIN_LENGTH) {
+      throw new Error(`The extends chain is longer than ${MAX_CHAIN_LENGTH} types`);
+    }
+    visited.push(uri);
+
+    const { document, raw, source } = await fetchVctDocument(uri);
+    const integrity = child['extends#integrity'];
+    const integrityValid = integrity ? await verifyIntegrity(raw, integrity) : null;
+    if (integrityValid === false) {
+      throw new Error(`Integrity check failed for ${uri}: ${integrity} does not match the document`);
+    }
+
+    ancestors.push({ vct: uri, document, source, integrityValid });
+    child = document;
+  }
+
+  return ancestors;
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+const claimKey = (path: VCTClaim['path']): string => JSON.stringify(path);
+
+const describePath = (path: VCTClaim['path']): string =>
+  path.map((segment) => (segment === null ? '[]' : String(segment))).join('.');
+
+// Locales defined by the child replace the parent's; the others are inherited
+function mergeByLocale<T extends { locale: string }>(parent: T[], child: T[]): T[] {
+  return [...child, ...parent.filter((entry) => !child.some((own) => own.locale === entry.locale))];
+}
+
+/**
+ * Apply child claims on top of inherited ones. A child may add claims and
+ * override claim metadata, but a parent's sd "always"/"never" and
+ * mandatory: true cannot be relaxed.
+ */
+function mergeClaims(
+  inherited: InheritedVCTClaim[],
+  own: VCTClaim[],
+  source: string | undefined,
+  warnings: string[]
+): InheritedVCTClaim[] {
+  const merged = [...inherited];
+  const childName = source || 'This VCT';
+
+  for (const claim of own || []) {
+    const index = merged.findIndex((parent) => claimKey(parent.path) === claimKey(claim.path));
+    if (index === -1) {
+      merged.push({ ...claim, inheritedFrom: source });
+      continue;
+    }
+
+    const parent = merged[index];
+    const path = describePath(claim.path);
+    let sd = claim.sd;
+    if ((parent.sd === 'always' || parent.sd === 'never') && (claim.sd || 'allowed') !== parent.sd) {
+      warnings.push(`${childName} sets sd "${claim.sd || 'allowed'}" on ${path}, but ${parent.inheritedFrom} fixes it to "${parent.sd}"`);
+      sd = parent.sd;
+    }
+    let mandatory = claim.mandatory;
+    if (parent.mandatory && !claim.mandatory) {
+      warnings.push(`${childName} makes ${path} optional, but ${parent.inheritedFrom} requires it`);
+      mandatory = true;
+    }
+
+    merged[index] = {
+      ...claim,
+      sd,
+      mandatory,
+      display: mergeByLocale<VCTClaimDisplay>(parent.display, claim.display || []),
+      inheritedFrom: source,
+      overrides: source ? undefined : parent.inheritedFrom,
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Effective display and claims of a VCT, applying its ancestors from the
+ * root of the chain down
+ */
+export function mergeVctInheritance(vct: VCT, ancestors: VCTAncestor[]): MergedVCT {
+  const warnings: string[] = [];
+  let display: VCTDisplay[] = [];
+  let claims: InheritedVCTClaim[] = [];
+
+  for (const ancestor of [...ancestors].reverse()) {
+    display = mergeByLocale(display, ancestor.document.display || []);
+    claims = mergeClaims(claims, ancestor.document.claims, ancestor.vct, warnings);
+  }
+
+  return {
+    display: mergeByLocale(display, vct.display),
+    claims: mergeClaims(claims, vct.claims, undefined, warnings),
+    warnings,
+  };
+}
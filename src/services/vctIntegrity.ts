@@ -0,0 +1,221 @@
+/**
+ * VCT Integrity Service
+ *
+ * Computes and verifies Subresource Integrity hashes for everything a VCT
+ * references: the schema, the parent type, logos, background images and SVG
+ * templates. Remote resources are hashed by the proxy's /hash route (images
+ * rarely allow cross-origin reads); parent VCTs are hashed in the browser so
+ * library types resolve before they are published.
+ *
+ * @see https://www.w3.org/TR/SRI/
+ */
+
+import type { VCT } from '../types/vct';
+import { fetchVctDocument } from './vctDocuments';
+
+const API_BASE = import.meta.env.PROD ? '' : 'http://localhost:5174';
+
+const SRI_ALGORITHMS = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+} as const;
+
+export type IntegrityAlgorithm = keyof typeof SRI_ALGORITHMS;
+
+export type IntegrityStatus = 'valid' | 'missing' | 'mismatch' | 'unreachable';
+
+export interface IntegrityReference {
+  label: string;                    // Human-readable location, e.g. "Logo (en-CA)"
+  path: (string | number)[];        // Path in the VCT to the object holding the URI
+  uriKey: string;
+  integrityKey: string;
+  uri: string;
+  integrity?: string;
+  isVct: boolean;                   // Parent types are hashed from their raw JSON
+}
+
+export interface IntegrityCheckResult extends IntegrityReference {
+  status: IntegrityStatus;
+  computed?: string;                // Fresh hash, in the algorithm the VCT uses
+  error?: string;
+}
+
+// ============================================
+// SRI HELPERS
+// ============================================
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * Subresource Integrity string for a document, e.g. "sha256-..."
+ */
+export async function computeIntegrity(
+  raw: string,
+  algorithm: IntegrityAlgorithm = 'sha256'
+): Promise<string> {
+  const hash = await crypto.subtle.digest(SRI_ALGORITHMS[algorithm], new TextEncoder().encode(raw));
+  return `${algorithm}-${toBase64(hash)}`;
+}
+
+// Hashes in an integrity string, restricted to the strongest algorithm as SRI requires
+const strongestHashes = (integrity: string): string[] => {
+  const hashes = integrity
+    .trim()
+    .split(/\s+/)
+    .map((token) => token.match(/^(sha256|sha384|sha512)-[A-Za-z0-9+/]+={0,2}/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+  const order = Object.keys(SRI_ALGORITHMS);
+  const strongest = Math.max(...hashes.map((match) => order.indexOf(match[1])));
+  return hashes.filter((match) => order.indexOf(match[1]) === strongest).map((match) => match[0]);
+};
+
+/**
+ * Algorithm an integrity string uses, so re-hashing keeps it
+ */
+export const integrityAlgorithm = (integrity: string | undefined): IntegrityAlgorithm => {
+  const hashes = integrity ? strongestHashes(integrity) : [];
+  return hashes.length > 0 ? (hashes[0].split('-')[0] as IntegrityAlgorithm) : 'sha256';
+};
+
+/**
+ * Check a fresh hash against an integrity string; any of the
+ * strongest-algorithm hashes may match
+ */
+export const integrityMatches = (integrity: string, computed: string): boolean =>
+  strongestHashes(integrity).includes(computed);
+
+/**
+ * Check a document against an integrity string
+ */
+export async function verifyIntegrity(raw: string, integrity: string): Promise<boolean> {
+  const hashes = strongestHashes(integrity);
+  if (hashes.length === 0) return false;
+  return integrityMatches(integrity, await computeIntegrity(raw, integrityAlgorithm(integrity)));
+}
+
+/**
+ * Hash a remote resource through the proxy
+ */
+export async function hashResource(uri: string, algorithm: IntegrityAlgorithm = 'sha256'): Promise<string> {
+  const response = await fetch(
+    `${API_BASE}/hash?url=${encodeURIComponent(uri)}&alg=${algorithm}`
+  );
+  const data = await response.json();
+  if (!response.ok || !data.hash) {
+    throw new Error(data.error || `Failed to hash ${uri}`);
+  }
+  return data.hash;
+}
+
+// ============================================
+// VCT REFERENCES
+// ============================================
+
+/**
+ * Every resource the VCT points at that carries (or should carry) an
+ * integrity hash
+ */
+export function collectIntegrityReferences(vct: VCT): IntegrityReference[] {
+  const references: IntegrityReference[] = [];
+  const add = (
+    label: string,
+    path: (string | number)[],
+    holder: Record<string, unknown> | undefined,
+    uriKey = 'uri',
+    isVct = false
+  ) => {
+    const uri = holder?.[uriKey];
+    if (typeof uri !== 'string' || !uri) return;
+    const integrityKey = `${uriKey}#integrity`;
+    const integrity = holder?.[integrityKey];
+    references.push({
+      label,
+      path,
+      uriKey,
+      integrityKey,
+      uri,
+      integrity: typeof integrity === 'string' && integrity ? integrity : undefined,
+      isVct,
+    });
+  };
+
+  const root = vct as unknown as Record<string, unknown>;
+  add('Schema', [], root, 'schema_uri');
+  add('Parent type (extends)', [], root, 'extends', true);
+
+  vct.display.forEach((display, i) => {
+    const simple = display.rendering?.simple;
+    const base = ['display', i, 'rendering'];
+    add(`Logo (${display.locale})`, [...base, 'simple', 'logo'], simple?.logo as unknown as Record<string, unknown>);
+    add(
+      `Background image (${display.locale})`,
+      [...base, 'simple', 'background_image'],
+      simple?.background_image as unknown as Record<string, unknown>
+    );
+
+    const templates = display.rendering?.svg_templates;
+    if (Array.isArray(templates)) {
+      templates.forEach((template, t) =>
+        add(`SVG template ${t + 1} (${display.locale})`, [...base, 'svg_templates', t], template as unknown as Record<string, unknown>)
+      );
+    } else if (templates) {
+      (['front', 'back'] as const).forEach((face) =>
+        add(`SVG template ${face} (${display.locale})`, [...base, 'svg_templates', face], templates[face] as unknown as Record<string, unknown>)
+      );
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Re-hash every reference and compare with the stored integrity
+ */
+export async function checkVctIntegrity(vct: VCT): Promise<IntegrityCheckResult[]> {
+  return Promise.all(
+    collectIntegrityReferences(vct).map(async (reference): Promise<IntegrityCheckResult> => {
+      const algorithm = integrityAlgorithm(reference.integrity);
+      try {
+        const computed = reference.isVct
+          ? await computeIntegrity((await fetchVctDocument(reference.uri)).raw, algorithm)
+          : await hashResource(reference.uri, algorithm);
+        const status: IntegrityStatus = !reference.integrity
+          ? 'missing'
+          : integrityMatches(reference.integrity, computed)
+            ? 'valid'
+            : 'mismatch';
+        return { ...reference, status, computed };
+      } catch (error) {
+        return {
+          ...reference,
+          status: 'unreachable',
+          error: error instanceof Error ? error.message : 'Failed to fetch the resource',
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Write freshly computed hashes into the VCT for missing and mismatched references
+ */
+export function applyIntegrityHashes(vct: VCT, results: IntegrityCheckResult[]): VCT {
+  const updated = JSON.parse(JSON.stringify(vct)) as VCT;
+  for (const result of results) {
+    if (!result.computed || result.status === 'valid') continue;
+    let holder = updated as unknown as Record<string | number, unknown>;
+    for (const segment of result.path) {
+      holder = holder?.[segment] as Record<string | number, unknown>;
+    }
+    // Skip references whose URI changed since the check
+    if (holder && holder[result.uriKey] === result.uri) {
+      holder[result.integrityKey] = result.computed;
+    }
+  }
+  return updated;
+}
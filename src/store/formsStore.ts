@@ -146,7 +146,7 @@ interface FormsState {
   fetchForms: () => Promise<void>;
   fetchForm: (id: string) => Promise<void>;
   fetchFormBySlug: (slug: string) => Promise<void>;
-  createForm: (title: string, description?: string, mode?: FormMode) => Promise<Form>;
+  createForm: (title: string, description?: string, mode?: FormMode, schema?: FormSchema) => Promise<Form>;
   updateForm: (id: string, data: UpdateFormRequest) => Promise<void>;
   deleteForm: (id: string) => Promise<void>;
   publishForm: (id: string) => Promise<PublishFormResponse>;
@@ -206,13 +206,13 @@ export const useFormsStore = create<FormsState>((set) => ({
   },
 
   // Create a new form
-  createForm: async (title: string, description?: string, mode: FormMode = 'simple') => {
+  createForm: async (title: string, description?: string, mode: FormMode = 'simple', schema?: FormSchema) => {
     set({ isLoading: true, error: null });
     try {
       const form = await formsApi.create({
         title,
         description,
-        schema: createDefaultFormSchema(),
+        schema: schema || createDefaultFormSchema(),
         mode,
       });
       // Add to list
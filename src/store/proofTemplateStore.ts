@@ -15,12 +15,16 @@ import {
   ProofTemplate,
   ProofTemplateListItem,
   ProofTemplateMetadata,
+  ProofTemplateStatus,
   RequestedCredential,
+  CredentialGroup,
   RequestedAttribute,
   Predicate,
   CredentialFormat,
   CreateProofTemplateRequest,
   UpdateProofTemplateRequest,
+  UpdateProofTemplateStatusRequest,
+  VersionBump,
   ProofTemplateType,
   DEFAULT_PROOF_TEMPLATE_CATEGORIES,
   DEFAULT_REQUESTED_CREDENTIAL,
@@ -36,6 +40,36 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Drop credential groups that no longer have members
+function pruneCredentialGroups(template: ProofTemplate): ProofTemplate {
+  if (!template.credentialGroups?.length) return template;
+  return {
+    ...template,
+    credentialGroups: template.credentialGroups.filter((group) =>
+      template.requestedCredentials.some((cred) => cred.groupId === group.id)
+    ),
+  };
+}
+
+// Summarize a full template as a sidebar list item
+function toListItem(template: ProofTemplate): ProofTemplateListItem {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description || '',
+    version: template.version,
+    familyId: template.familyId,
+    previousVersionId: template.previousVersionId,
+    credentialFormat: template.credentialFormat,
+    status: template.status,
+    statusReason: template.statusReason,
+    credentialCount: template.requestedCredentials.length,
+    publishedToVerifier: template.publishedToVerifier,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
 // API client for proof templates
 const proofTemplatesApi = {
   async list(): Promise<ProofTemplateListItem[]> {
@@ -113,6 +147,44 @@ const proofTemplatesApi = {
     return response.json();
   },
 
+  async versions(id: string): Promise<ProofTemplateListItem[]> {
+    const response = await fetch(`${API_BASE}/api/proof-templates/${id}/versions`, {
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch template versions');
+    }
+    return response.json();
+  },
+
+  async newVersion(id: string, bump: VersionBump): Promise<ProofTemplate> {
+    const response = await fetch(`${API_BASE}/api/proof-templates/${id}/new-version`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ bump }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to create new version');
+    }
+    return response.json();
+  },
+
+  async updateStatus(id: string, data: UpdateProofTemplateStatusRequest): Promise<ProofTemplate> {
+    const response = await fetch(`${API_BASE}/api/proof-templates/${id}/status`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to update template status');
+    }
+    return response.json();
+  },
+
   async publishToVerifier(id: string, enabled: boolean): Promise<void> {
     const response = await fetch(`${API_BASE}/api/proof-templates/${id}/publish-to-verifier`, {
       method: 'PATCH',
@@ -168,6 +240,7 @@ interface ProofTemplateState {
   // Data
   templates: ProofTemplateListItem[];
   currentTemplate: ProofTemplate | null;
+  templateVersions: ProofTemplateListItem[];   // Version history of the current template's family
   databaseAvailable: boolean;
 
   // Catalogue integration
@@ -198,6 +271,12 @@ interface ProofTemplateState {
   cloneTemplate: (id: string) => Promise<ProofTemplate>;
   publishToVerifier: (id: string, enabled: boolean) => Promise<void>;
 
+  // Actions - Versions and lifecycle
+  fetchTemplateVersions: (id: string) => Promise<void>;
+  loadTemplateVersion: (id: string) => Promise<ProofTemplate>;
+  createNewVersion: (id: string, bump: VersionBump) => Promise<ProofTemplate>;
+  updateTemplateStatus: (id: string, status: ProofTemplateStatus, reason?: string) => Promise<void>;
+
   // Actions - Local editing
   updateTemplateName: (name: string) => void;
   updateTemplateDescription: (description: string) => void;
@@ -211,6 +290,11 @@ interface ProofTemplateState {
   removeRequestedCredential: (credentialId: string) => void;
   selectCredential: (credentialId: string | null) => void;
 
+  // Actions - Credential Groups (alternatives)
+  addCredentialGroup: (credentialId: string) => void;
+  setCredentialGroup: (credentialId: string, groupId: string | null) => void;
+  updateCredentialGroup: (groupId: string, updates: Partial<CredentialGroup>) => void;
+
   // Actions - Requested Attributes
   addRequestedAttribute: (credentialId: string, attributeName: string) => void;
   updateRequestedAttribute: (credentialId: string, attributeId: string, updates: Partial<RequestedAttribute>) => void;
@@ -247,6 +331,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
   // Initial state
   templates: [],
   currentTemplate: null,
+  templateVersions: [],
   databaseAvailable: true,
   catalogueCredentials: [],
   filteredCatalogueCredentials: [],
@@ -317,20 +402,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
         ecosystemTag,
       });
       set((state) => ({
-        templates: [
-          {
-            id: template.id,
-            name: template.name,
-            description: template.description || '',
-            credentialFormat: template.credentialFormat,
-            status: template.status,
-            credentialCount: template.requestedCredentials.length,
-            publishedToVerifier: template.publishedToVerifier,
-            createdAt: template.createdAt,
-            updatedAt: template.updatedAt,
-          },
-          ...state.templates,
-        ],
+        templates: [toListItem(template), ...state.templates],
         currentTemplate: template,
         isLoading: false,
       }));
@@ -356,6 +428,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
         description: currentTemplate.description,
         version: currentTemplate.version,
         requestedCredentials: currentTemplate.requestedCredentials,
+        credentialGroups: currentTemplate.credentialGroups || [],
         metadata: currentTemplate.metadata,
         publishedToVerifier: currentTemplate.publishedToVerifier,
       });
@@ -366,6 +439,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
                 ...t,
                 name: updated.name,
                 description: updated.description,
+                version: updated.version,
                 credentialFormat: updated.credentialFormat,
                 credentialCount: updated.requestedCredentials.length,
                 publishedToVerifier: updated.publishedToVerifier,
@@ -406,20 +480,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
     try {
       const clonedTemplate = await proofTemplatesApi.clone(id);
       set((state) => ({
-        templates: [
-          {
-            id: clonedTemplate.id,
-            name: clonedTemplate.name,
-            description: clonedTemplate.description,
-            credentialFormat: clonedTemplate.credentialFormat,
-            status: clonedTemplate.status,
-            credentialCount: clonedTemplate.requestedCredentials.length,
-            publishedToVerifier: clonedTemplate.publishedToVerifier,
-            createdAt: clonedTemplate.createdAt,
-            updatedAt: clonedTemplate.updatedAt,
-          },
-          ...state.templates,
-        ],
+        templates: [toListItem(clonedTemplate), ...state.templates],
         isLoading: false,
       }));
       return clonedTemplate;
@@ -451,6 +512,66 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
     }
   },
 
+  // Fetch the version history of a template's family
+  fetchTemplateVersions: async (id: string) => {
+    try {
+      const templateVersions = await proofTemplatesApi.versions(id);
+      set({ templateVersions });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch template versions';
+      set({ error: message, templateVersions: [] });
+    }
+  },
+
+  // Fetch another version without making it the current template (for comparing)
+  loadTemplateVersion: async (id: string) => proofTemplatesApi.get(id),
+
+  // Create the next version of a template (a draft copy of the saved version)
+  createNewVersion: async (id: string, bump: VersionBump) => {
+    set({ isLoading: true, error: null });
+    try {
+      const template = await proofTemplatesApi.newVersion(id, bump);
+      set((state) => ({
+        templates: [toListItem(template), ...state.templates],
+        templateVersions: [toListItem(template), ...state.templateVersions],
+        isLoading: false,
+      }));
+      return template;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create new version';
+      set({ error: message, isLoading: false });
+      throw error;
+    }
+  },
+
+  // Deprecate, retire or reinstate a template
+  updateTemplateStatus: async (id: string, status: ProofTemplateStatus, reason?: string) => {
+    set({ isSaving: true, error: null });
+    try {
+      const updated = await proofTemplatesApi.updateStatus(id, { status, reason });
+      const item = toListItem(updated);
+      set((state) => ({
+        templates: state.templates.map((t) => (t.id === id ? item : t)),
+        templateVersions: state.templateVersions.map((t) => (t.id === id ? item : t)),
+        // Keep local edits; only the lifecycle fields change
+        currentTemplate: state.currentTemplate?.id === id
+          ? {
+              ...state.currentTemplate,
+              status: updated.status,
+              statusReason: updated.statusReason,
+              statusChangedAt: updated.statusChangedAt,
+              publishedToVerifier: updated.publishedToVerifier,
+            }
+          : state.currentTemplate,
+        isSaving: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update template status';
+      set({ error: message, isSaving: false });
+      throw error;
+    }
+  },
+
   // Local editing - name
   updateTemplateName: (name: string) => {
     set((state) => ({
@@ -498,6 +619,7 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
             ...state.currentTemplate,
             credentialFormat: format,
             requestedCredentials: [], // Clear since format changed
+            credentialGroups: [],
           }
         : null,
     }));
@@ -551,12 +673,12 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
   removeRequestedCredential: (credentialId: string) => {
     set((state) => ({
       currentTemplate: state.currentTemplate
-        ? {
+        ? pruneCredentialGroups({
             ...state.currentTemplate,
             requestedCredentials: state.currentTemplate.requestedCredentials.filter(
               (cred) => cred.id !== credentialId
             ),
-          }
+          })
         : null,
       selectedCredentialId: state.selectedCredentialId === credentialId ? null : state.selectedCredentialId,
     }));
@@ -567,6 +689,56 @@ export const useProofTemplateStore = create<ProofTemplateState>((set, get) => ({
     set({ selectedCredentialId: credentialId });
   },
 
+  // Start a new group of alternatives with a credential in it
+  addCredentialGroup: (credentialId: string) => {
+    const newGroup: CredentialGroup = {
+      id: generateId(),
+      name: `Alternatives ${(get().currentTemplate?.credentialGroups?.length || 0) + 1}`,
+      minimum: 1,
+    };
+    set((state) => ({
+      currentTemplate: state.currentTemplate
+        ? pruneCredentialGroups({
+            ...state.currentTemplate,
+            credentialGroups: [...(state.currentTemplate.credentialGroups || []), newGroup],
+            requestedCredentials: state.currentTemplate.requestedCredentials.map((cred) =>
+              cred.id === credentialId ? { ...cred, groupId: newGroup.id } : cred
+            ),
+          })
+        : null,
+    }));
+  },
+
+  // Move a credential into a group, or out of all groups (always required)
+  setCredentialGroup: (credentialId: string, groupId: string | null) => {
+    set((state) => ({
+      currentTemplate: state.currentTemplate
+        ? pruneCredentialGroups({
+            ...state.currentTemplate,
+            requestedCredentials: state.currentTemplate.requestedCredentials.map((cred) => {
+              if (cred.id !== credentialId) return cred;
+              const { groupId: _groupId, ...rest } = cred;
+              return groupId ? { ...rest, groupId } : rest;
+            }),
+          })
+        : null,
+    }));
+  },
+
+  // Update a group's name or minimum
+  updateCredentialGroup: (groupId: string, updates: Partial<CredentialGroup>) => {
+    set((state) => ({
+      currentTemplate: state.currentTemplate
+        ? {
+            ...state.currentTemplate,
+            credentialGroups: (state.currentTemplate.credentialGroups || []).map((group) =>
+              group.id === groupId ? { ...group, ...updates } : group
+            ),
+          }
+        : null,
+    }));
+  },
+
   // Add a requested attribute to a credential
   addRequestedAttribute: (credentialId: string, attributeName: string) => {
     const newAttribute: RequestedAttribute = {
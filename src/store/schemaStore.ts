@@ -5,11 +5,13 @@ import {
   SchemaMetadata,
   SchemaStore,
   SavedSchemaProject,
+  SchemaDefinition,
   GovernanceDoc,
   createDefaultMetadata,
   createDefaultProperty,
   toJsonSchema,
   toJsonLdContext,
+  toDefinitionName,
   DEFAULT_STANDARD_CLAIMS,
 } from '../types/schema';
 import { SchemaMode } from '../types/vocabulary';
@@ -157,6 +159,77 @@ const collectAllIds = (properties: SchemaProperty[]): string[] => {
   return ids;
 };
 
+// Definition properties are edited with the same actions as credentialSubject properties,
+// so lookups search the credentialSubject tree first, then each definition's tree
+const propertyTrees = (properties: SchemaProperty[], definitions: SchemaDefinition[]) => [
+  properties,
+  ...definitions.map((def) => def.properties),
+];
+
+const findPropertyInTrees = (
+  properties: SchemaProperty[],
+  definitions: SchemaDefinition[],
+  id: string
+): SchemaProperty | null => {
+  for (const tree of propertyTrees(properties, definitions)) {
+    const found = findPropertyById(tree, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const findParentArrayInTrees = (
+  properties: SchemaProperty[],
+  definitions: SchemaDefinition[],
+  id: string
+): { array: SchemaProperty[]; index: number } | null => {
+  for (const tree of propertyTrees(properties, definitions)) {
+    const found = findParentArray(tree, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const collectAllDefinitionIds = (definitions: SchemaDefinition[]): string[] =>
+  definitions.flatMap((def) => [def.id, ...collectAllIds(def.properties)]);
+
+// Copy a property tree with fresh IDs (inlining a definition must not share IDs with it)
+const cloneWithNewIds = (properties: SchemaProperty[]): SchemaProperty[] =>
+  properties.map((prop) => ({
+    ...prop,
+    id: generateId(),
+    ...(prop.properties ? { properties: cloneWithNewIds(prop.properties) } : {}),
+    ...(prop.items ? { items: cloneWithNewIds([prop.items])[0] } : {}),
+  }));
+
+// Add a child to the root, a definition, an object property or an array's item object
+const insertProperty = (
+  properties: SchemaProperty[],
+  definitions: SchemaDefinition[],
+  newProperty: SchemaProperty,
+  parentId?: string
+) => {
+  if (!parentId) {
+    properties.push(newProperty);
+    return;
+  }
+  const definition = definitions.find((def) => def.id === parentId);
+  if (definition) {
+    definition.properties.push(newProperty);
+    return;
+  }
+  const parent = findPropertyInTrees(properties, definitions, parentId);
+  if (parent) {
+    if (parent.type === 'object') {
+      parent.properties = parent.properties || [];
+      parent.properties.push(newProperty);
+    } else if (parent.type === 'array' && parent.items) {
+      parent.items.properties = parent.items.properties || [];
+      parent.items.properties.push(newProperty);
+    }
+  }
+};
+
 // Deep clone helper for immutable updates
 const deepClone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
 
@@ -166,12 +239,14 @@ export const useSchemaStore = create<SchemaStore>()(
       // Initial state
       metadata: createDefaultMetadata(),
       properties: [],
+      definitions: [],
       currentProjectId: null,
       currentProjectName: 'Untitled',
       isDirty: false,
       isEditing: false,
       savedProjects: [],
       selectedPropertyId: null,
+      sampleIssues: {},
       expandedNodes: new Set<string>(),
       governanceDocs: [],
       isLoadingDocs: false,
@@ -200,23 +275,10 @@ export const useSchemaStore = create<SchemaStore>()(
 
         set((state) => {
           const properties = deepClone(state.properties);
+          const definitions = deepClone(state.definitions);
 
-          if (!parentId) {
-            // Add to root level
-            properties.push(newProperty);
-          } else {
-            // Add as nested property
-            const parent = findPropertyById(properties, parentId);
-            if (parent) {
-              if (parent.type === 'object') {
-                parent.properties = parent.properties || [];
-                parent.properties.push(newProperty);
-              } else if (parent.type === 'array' && parent.items) {
-                parent.items.properties = parent.items.properties || [];
-                parent.items.properties.push(newProperty);
-              }
-            }
-          }
+          // Add to root level, a definition, or as nested property
+          insertProperty(properties, definitions, newProperty, parentId);
 
           // Auto-expand parent and select new property
           const expandedNodes = new Set(state.expandedNodes);
@@ -224,6 +286,7 @@ export const useSchemaStore = create<SchemaStore>()(
 
           return {
             properties,
+            definitions,
             selectedPropertyId: newId,
             expandedNodes,
             isDirty: true,
@@ -238,27 +301,16 @@ export const useSchemaStore = create<SchemaStore>()(
 
         set((state) => {
           const properties = deepClone(state.properties);
+          const definitions = deepClone(state.definitions);
 
-          if (!parentId) {
-            properties.push(newProperty);
-          } else {
-            const parent = findPropertyById(properties, parentId);
-            if (parent) {
-              if (parent.type === 'object') {
-                parent.properties = parent.properties || [];
-                parent.properties.push(newProperty);
-              } else if (parent.type === 'array' && parent.items) {
-                parent.items.properties = parent.items.properties || [];
-                parent.items.properties.push(newProperty);
-              }
-            }
-          }
+          insertProperty(properties, definitions, newProperty, parentId);
 
           const expandedNodes = new Set(state.expandedNodes);
           if (parentId) expandedNodes.add(parentId);
 
           return {
             properties,
+            definitions,
             selectedPropertyId: newId,
             expandedNodes,
             isDirty: true,
@@ -271,7 +323,8 @@ export const useSchemaStore = create<SchemaStore>()(
       updateProperty: (id: string, updates: Partial<SchemaProperty>) =>
         set((state) => {
           const properties = deepClone(state.properties);
-          const prop = findPropertyById(properties, id);
+          const definitions = deepClone(state.definitions);
+          const prop = findPropertyInTrees(properties, definitions, id);
 
           if (prop) {
             Object.assign(prop, updates);
@@ -287,13 +340,14 @@ export const useSchemaStore = create<SchemaStore>()(
             }
           }
 
-          return { properties, isDirty: true };
+          return { properties, definitions, isDirty: true };
         }),
 
       deleteProperty: (id: string) =>
         set((state) => {
           const properties = deepClone(state.properties);
-          const parent = findParentArray(properties, id);
+          const definitions = deepClone(state.definitions);
+          const parent = findParentArrayInTrees(properties, definitions, id);
 
           if (parent) {
             parent.array.splice(parent.index, 1);
@@ -301,6 +355,7 @@ export const useSchemaStore = create<SchemaStore>()(
 
           return {
             properties,
+            definitions,
             selectedPropertyId:
               state.selectedPropertyId === id ? null : state.selectedPropertyId,
             isDirty: true,
@@ -310,7 +365,8 @@ export const useSchemaStore = create<SchemaStore>()(
       moveProperty: (id: string, direction: 'up' | 'down') =>
         set((state) => {
           const properties = deepClone(state.properties);
-          const parent = findParentArray(properties, id);
+          const definitions = deepClone(state.definitions);
+          const parent = findParentArrayInTrees(properties, definitions, id);
 
           if (parent) {
             const newIndex =
@@ -321,7 +377,7 @@ export const useSchemaStore = create<SchemaStore>()(
             }
           }
 
-          return { properties, isDirty: true };
+          return { properties, definitions, isDirty: true };
         }),
 
       reorderProperties: (activeId: string, overId: string) =>
@@ -329,8 +385,9 @@ export const useSchemaStore = create<SchemaStore>()(
           if (activeId === overId) return state;
 
           const properties = deepClone(state.properties);
-          const activeParent = findParentArray(properties, activeId);
-          const overParent = findParentArray(properties, overId);
+          const definitions = deepClone(state.definitions);
+          const activeParent = findParentArrayInTrees(properties, definitions, activeId);
+          const overParent = findParentArrayInTrees(properties, definitions, overId);
 
           // Only allow reordering within the same parent array (same level)
           if (activeParent && overParent && activeParent.array === overParent.array) {
@@ -345,7 +402,98 @@ export const useSchemaStore = create<SchemaStore>()(
             }
           }
 
-          return { properties, isDirty: true };
+          return { properties, definitions, isDirty: true };
+        }),
+
+      // Definition actions
+      addDefinition: (data?: Partial<SchemaDefinition>) => {
+        const newId = generateId();
+        set((state) => {
+          const title = data?.title || `Definition ${state.definitions.length + 1}`;
+          const definition: SchemaDefinition = {
+            properties: [],
+            ...data,
+            id: newId,
+            title,
+            name: data?.name || toDefinitionName(title),
+          };
+          const expandedNodes = new Set(state.expandedNodes);
+          expandedNodes.add(newId);
+          return {
+            definitions: [...state.definitions, definition],
+            selectedPropertyId: newId,
+            expandedNodes,
+            isDirty: true,
+          };
+        });
+        return newId;
+      },
+
+      updateDefinition: (id: string, updates: Partial<SchemaDefinition>) =>
+        set((state) => ({
+          definitions: state.definitions.map((def) => (def.id === id ? { ...def, ...updates } : def)),
+          isDirty: true,
+        })),
+
+      // Properties that referenced the definition keep its shape as inline copies
+      deleteDefinition: (id: string) =>
+        set((state) => {
+          const target = state.definitions.find((def) => def.id === id);
+          if (!target) return state;
+
+          const properties = deepClone(state.properties);
+          const definitions = deepClone(state.definitions.filter((def) => def.id !== id));
+          const inline = (props: SchemaProperty[]) => {
+            for (const prop of props) {
+              if (prop.definitionId === id) {
+                delete prop.definitionId;
+                prop.properties = cloneWithNewIds(target.properties);
+              } else if (prop.properties) {
+                inline(prop.properties);
+              }
+              if (prop.items) inline([prop.items]);
+            }
+          };
+          propertyTrees(properties, definitions).forEach(inline);
+
+          return {
+            properties,
+            definitions,
+            selectedPropertyId: state.selectedPropertyId === id ? null : state.selectedPropertyId,
+            isDirty: true,
+          };
+        }),
+
+      extractDefinition: (propertyId: string) =>
+        set((state) => {
+          const properties = deepClone(state.properties);
+          const definitions = deepClone(state.definitions);
+          const prop = findPropertyInTrees(properties, definitions, propertyId);
+          // Arrays share their item object shape, objects their own
+          const shape = prop?.type === 'array' ? prop.items : prop;
+          if (!prop || !shape || shape.type !== 'object' || shape.definitionId) return state;
+
+          const title = prop.title || prop.name || 'Definition';
+          let name = toDefinitionName(title) || 'Definition';
+          for (let n = 2; definitions.some((def) => def.name === name); n++) {
+            name = `${toDefinitionName(title) || 'Definition'}${n}`;
+          }
+
+          const definition: SchemaDefinition = {
+            id: generateId(),
+            name,
+            title,
+            description: prop.description,
+            properties: shape.properties || [],
+          };
+          shape.definitionId = definition.id;
+          shape.properties = [];
+
+          return {
+            properties,
+            definitions: [...definitions, definition],
+            isDirty: true,
+          };
         }),
 
       // Tree UI actions
@@ -364,21 +512,28 @@ export const useSchemaStore = create<SchemaStore>()(
 
       expandAll: () =>
         set((state) => ({
-          expandedNodes: new Set(collectAllIds(state.properties)),
+          expandedNodes: new Set([
+            ...collectAllIds(state.properties),
+            ...collectAllDefinitionIds(state.definitions),
+          ]),
         })),
 
       collapseAll: () => set({ expandedNodes: new Set() }),
 
+      setSampleIssues: (issues: Record<string, string[]>) => set({ sampleIssues: issues }),
+
       // Project actions
       newSchema: () =>
         set({
           metadata: createDefaultMetadata(),
           properties: [],
+          definitions: [],
           currentProjectId: null,
           currentProjectName: 'Untitled',
           isDirty: false,
           isEditing: true,
           selectedPropertyId: null,
+          sampleIssues: {},
           expandedNodes: new Set(),
         }),
 
@@ -386,11 +541,13 @@ export const useSchemaStore = create<SchemaStore>()(
         set({
           metadata: createDefaultMetadata(),
           properties: [],
+          definitions: [],
           currentProjectId: null,
           currentProjectName: 'Untitled',
           isDirty: false,
           isEditing: false,
           selectedPropertyId: null,
+          sampleIssues: {},
           expandedNodes: new Set(),
         }),
 
@@ -404,6 +561,7 @@ export const useSchemaStore = create<SchemaStore>()(
             name,
             metadata: state.metadata,
             properties: state.properties,
+            definitions: state.definitions,
             updatedAt: now,
           };
 
@@ -434,6 +592,7 @@ export const useSchemaStore = create<SchemaStore>()(
             name,
             metadata: state.metadata,
             properties: state.properties,
+            definitions: state.definitions,
             createdAt: now,
             updatedAt: now,
           };
@@ -467,15 +626,18 @@ export const useSchemaStore = create<SchemaStore>()(
             contextVersion: project.metadata.contextVersion ?? 1.1,
             protected: project.metadata.protected ?? true,
           };
+          const definitions = project.definitions || [];
           set({
             metadata,
             properties: project.properties,
+            definitions,
             currentProjectId: project.id,
             currentProjectName: project.name,
             isDirty: false,
             isEditing: true,
             selectedPropertyId: null,
-            expandedNodes: new Set(collectAllIds(project.properties)),
+            sampleIssues: {},
+            expandedNodes: new Set([...collectAllIds(project.properties), ...collectAllDefinitionIds(definitions)]),
           });
         }
       },
@@ -488,10 +650,12 @@ export const useSchemaStore = create<SchemaStore>()(
             ? {
                 metadata: createDefaultMetadata(),
                 properties: [],
+                definitions: [],
                 currentProjectId: null,
                 currentProjectName: 'Untitled',
                 isDirty: false,
                 selectedPropertyId: null,
+                sampleIssues: {},
                 expandedNodes: new Set(),
               }
             : {}),
@@ -516,20 +680,19 @@ export const useSchemaStore = create<SchemaStore>()(
 
       // Import/Export
       exportSchema: () => {
-        const { metadata, properties } = get();
-
-        // Mode-aware export
-        if (metadata.mode === 'jsonld-context') {
-          const vocabulary = useVocabularyStore.getState().getSelectedVocab();
-          const context = toJsonLdContext(metadata, properties, vocabulary);
-          return JSON.stringify(context, null, 2);
-        }
-
-        // Default: JSON Schema
-        const schema = toJsonSchema(metadata, properties);
+        const { metadata, properties, definitions } = get();
+        const schema = toJsonSchema(metadata, properties, definitions);
         return JSON.stringify(schema, null, 2);
       },
 
+      // JSON-LD @context published next to the schema in jsonld-context mode
+      exportContext: () => {
+        const { metadata, properties, definitions } = get();
+        const vocabulary = useVocabularyStore.getState().getSelectedVocab();
+        const context = toJsonLdContext(metadata, properties, vocabulary, definitions);
+        return JSON.stringify(context, null, 2);
+      },
+
       importSchema: (json: string) => {
         try {
           const schema = JSON.parse(json);
@@ -554,79 +717,115 @@ export const useSchemaStore = create<SchemaStore>()(
           const credentialSubject = schema.properties?.credentialSubject;
           const properties: SchemaProperty[] = [];
 
-          if (credentialSubject?.properties) {
-            const requiredProps = new Set(credentialSubject.required || []);
+          // $defs become definitions; IDs are assigned up front so definitions can reference each other
+          const defsSchemas = (schema.$defs || schema.definitions || {}) as Record<string, Record<string, unknown>>;
+          const definitions: SchemaDefinition[] = Object.entries(defsSchemas).map(([defName, defSchema]) => ({
+            id: generateId(),
+            name: defName,
+            title: (defSchema.title as string) || defName,
+            description: defSchema.description as string | undefined,
+            properties: [],
+          }));
+          const findRefDefinition = (ref: unknown) => {
+            const match = typeof ref === 'string' ? ref.match(/^#\/(?:\$defs|definitions)\/(.+)$/) : null;
+            return match ? definitions.find((def) => def.name === decodeURIComponent(match[1])) : undefined;
+          };
 
-            const parseProperty = (
-              name: string,
-              prop: Record<string, unknown>,
-              isRequired: boolean
-            ): SchemaProperty => {
-              const id = generateId();
-              const schemaProperty: SchemaProperty = {
+          const parseProperty = (
+            name: string,
+            prop: Record<string, unknown>,
+            isRequired: boolean
+          ): SchemaProperty => {
+            const id = generateId();
+
+            const definition = findRefDefinition(prop.$ref);
+            if (definition) {
+              return {
                 id,
                 name,
                 title: (prop.title as string) || name,
                 description: prop.description as string | undefined,
-                type: (prop.type as SchemaProperty['type']) || 'string',
+                type: 'object',
                 required: isRequired,
+                definitionId: definition.id,
+                properties: [],
               };
+            }
 
-              // String constraints
-              if (prop.type === 'string') {
-                if (prop.minLength !== undefined) schemaProperty.minLength = prop.minLength as number;
-                if (prop.maxLength !== undefined) schemaProperty.maxLength = prop.maxLength as number;
-                if (prop.format) schemaProperty.format = prop.format as SchemaProperty['format'];
-                if (prop.pattern) schemaProperty.pattern = prop.pattern as string;
-                if (prop.enum) schemaProperty.enum = prop.enum as string[];
-              }
+            const schemaProperty: SchemaProperty = {
+              id,
+              name,
+              title: (prop.title as string) || name,
+              description: prop.description as string | undefined,
+              type: (prop.type as SchemaProperty['type']) || 'string',
+              required: isRequired,
+            };
 
-              // Number constraints
-              if (prop.type === 'integer' || prop.type === 'number') {
-                if (prop.minimum !== undefined) schemaProperty.minimum = prop.minimum as number;
-                if (prop.maximum !== undefined) schemaProperty.maximum = prop.maximum as number;
-                if (prop.exclusiveMinimum !== undefined) schemaProperty.exclusiveMinimum = prop.exclusiveMinimum as number;
-                if (prop.exclusiveMaximum !== undefined) schemaProperty.exclusiveMaximum = prop.exclusiveMaximum as number;
-              }
+            // String constraints
+            if (prop.type === 'string') {
+              if (prop.minLength !== undefined) schemaProperty.minLength = prop.minLength as number;
+              if (prop.maxLength !== undefined) schemaProperty.maxLength = prop.maxLength as number;
+              if (prop.format) schemaProperty.format = prop.format as SchemaProperty['format'];
+              if (prop.pattern) schemaProperty.pattern = prop.pattern as string;
+              if (prop.enum) schemaProperty.enum = prop.enum as string[];
+            }
 
-              // Array constraints
-              if (prop.type === 'array') {
-                if (prop.minItems !== undefined) schemaProperty.minItems = prop.minItems as number;
-                if (prop.maxItems !== undefined) schemaProperty.maxItems = prop.maxItems as number;
-                if (prop.uniqueItems !== undefined) schemaProperty.uniqueItems = prop.uniqueItems as boolean;
-                if (prop.items) {
-                  schemaProperty.items = parseProperty('item', prop.items as Record<string, unknown>, false);
-                }
-              }
+            // Number constraints
+            if (prop.type === 'integer' || prop.type === 'number') {
+              if (prop.minimum !== undefined) schemaProperty.minimum = prop.minimum as number;
+              if (prop.maximum !== undefined) schemaProperty.maximum = prop.maximum as number;
+              if (prop.exclusiveMinimum !== undefined) schemaProperty.exclusiveMinimum = prop.exclusiveMinimum as number;
+              if (prop.exclusiveMaximum !== undefined) schemaProperty.exclusiveMaximum = prop.exclusiveMaximum as number;
+            }
 
-              // Object nested properties
-              if (prop.type === 'object' && prop.properties) {
-                const nestedRequired = new Set((prop.required as string[]) || []);
-                schemaProperty.properties = Object.entries(
-                  prop.properties as Record<string, Record<string, unknown>>
-                ).map(([nestedName, nestedProp]) =>
-                  parseProperty(nestedName, nestedProp, nestedRequired.has(nestedName))
-                );
+            // Array constraints
+            if (prop.type === 'array') {
+              if (prop.minItems !== undefined) schemaProperty.minItems = prop.minItems as number;
+              if (prop.maxItems !== undefined) schemaProperty.maxItems = prop.maxItems as number;
+              if (prop.uniqueItems !== undefined) schemaProperty.uniqueItems = prop.uniqueItems as boolean;
+              if (prop.items) {
+                schemaProperty.items = parseProperty('item', prop.items as Record<string, unknown>, false);
               }
+            }
 
-              return schemaProperty;
-            };
-
-            for (const [name, prop] of Object.entries(
-              credentialSubject.properties as Record<string, Record<string, unknown>>
-            )) {
-              properties.push(parseProperty(name, prop, requiredProps.has(name)));
+            // Object nested properties
+            if (prop.type === 'object' && prop.properties) {
+              const nestedRequired = new Set((prop.required as string[]) || []);
+              schemaProperty.properties = Object.entries(
+                prop.properties as Record<string, Record<string, unknown>>
+              ).map(([nestedName, nestedProp]) =>
+                parseProperty(nestedName, nestedProp, nestedRequired.has(nestedName))
+              );
             }
+
+            return schemaProperty;
+          };
+
+          for (const definition of definitions) {
+            const defSchema = defsSchemas[definition.name];
+            const defRequired = new Set((defSchema.required as string[]) || []);
+            definition.properties = Object.entries(
+              (defSchema.properties || {}) as Record<string, Record<string, unknown>>
+            ).map(([nestedName, nestedProp]) => parseProperty(nestedName, nestedProp, defRequired.has(nestedName)));
+          }
+
+          const requiredProps = new Set(credentialSubject?.required || []);
+          for (const [name, prop] of Object.entries(
+            (credentialSubject?.properties || {}) as Record<string, Record<string, unknown>>
+          )) {
+            properties.push(parseProperty(name, prop, requiredProps.has(name)));
           }
 
           set({
             metadata,
             properties,
+            definitions,
             currentProjectId: null,
             currentProjectName: 'Imported',
             isDirty: true,
             selectedPropertyId: null,
-            expandedNodes: new Set(collectAllIds(properties)),
+            sampleIssues: {},
+            expandedNodes: new Set([...collectAllIds(properties), ...collectAllDefinitionIds(definitions)]),
           });
         } catch (e) {
           console.error('Failed to import schema:', e);
@@ -634,6 +833,22 @@ export const useSchemaStore = create<SchemaStore>()(
         }
       },
 
+      // Start a new unsaved project from an external schema (JSON Schema, OCA, AnonCreds)
+      loadImportedSchema: (metadata: Partial<SchemaMetadata>, properties: SchemaProperty[], projectName: string) => {
+        set({
+          metadata: { ...createDefaultMetadata(), ...metadata },
+          properties,
+          definitions: [],
+          currentProjectId: null,
+          currentProjectName: projectName,
+          isDirty: true,
+          isEditing: true,
+          selectedPropertyId: null,
+          sampleIssues: {},
+          expandedNodes: new Set(collectAllIds(properties)),
+        });
+      },
+
       // Governance docs
       fetchGovernanceDocs: async () => {
         set({ isLoadingDocs: true });
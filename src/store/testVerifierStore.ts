@@ -62,11 +62,11 @@ export const useTestVerifierStore = create<TestVerifierState>((set, get) => ({
   isLoading: false,
   error: null,
 
-  // Fetch published templates from Proof Template Builder
+  // Fetch published templates from Proof Template Builder (latest version of each)
   fetchPublishedTemplates: async () => {
     set({ isLoading: true, error: null });
     try {
-      const response = await fetch(`${API_BASE}/api/proof-templates/published`, {
+      const response = await fetch(`${API_BASE}/api/proof-templates/published?latest=true`, {
         credentials: 'include',
       });
 
@@ -25,6 +25,7 @@ import {
 } from '../types/vct';
 import { getCurrentUserId, useAuthStore } from './authStore';
 import { useZoneTemplateStore } from './zoneTemplateStore';
+import { resolveVctAncestors } from '../services/vctInheritance';
 
 const generateId = () => crypto.randomUUID();
 
@@ -170,6 +171,11 @@ export const useVctStore = create<VCTStore>()(
       isLoadingSchema: false,
       schemaError: null,
 
+      // Inheritance state
+      vctAncestors: [],
+      isResolvingExtends: false,
+      extendsError: null,
+
       // VCT actions
       setVct: (vct: VCT) => set({ currentVct: normalizeVct(vct), isDirty: true }),
 
@@ -242,6 +248,35 @@ export const useVctStore = create<VCTStore>()(
         schemaError: null,
       }),
 
+      // Resolve the extends chain of the current VCT
+      resolveExtends: async () => {
+        const vct = get().currentVct;
+        if (!vct.extends) {
+          set({ vctAncestors: [], isResolvingExtends: false, extendsError: null });
+          return;
+        }
+
+        set({ isResolvingExtends: true, extendsError: null });
+        // Results for a parent or hash the user has since changed are dropped
+        const isStale = () =>
+          get().currentVct.extends !== vct.extends ||
+          get().currentVct['extends#integrity'] !== vct['extends#integrity'];
+
+        try {
+          const ancestors = await resolveVctAncestors(vct);
+          if (isStale()) return;
+          set({ vctAncestors: ancestors, isResolvingExtends: false, extendsError: null });
+        } catch (error) {
+          console.error('Failed to resolve extends:', error);
+          if (isStale()) return;
+          set({
+            vctAncestors: [],
+            isResolvingExtends: false,
+            extendsError: error instanceof Error ? error.message : 'Failed to resolve the parent type',
+          });
+        }
+      },
+
       // Display actions
       addDisplay: (locale: string) =>
         set((state) => {
@@ -406,6 +441,8 @@ export const useVctStore = create<VCTStore>()(
           isEditing: true,
           schemaProperties: null,
           schemaError: null,
+          vctAncestors: [],
+          extendsError: null,
         }),
 
       closeProject: () =>
@@ -418,6 +455,8 @@ export const useVctStore = create<VCTStore>()(
           isEditing: false,
           schemaProperties: null,
           schemaError: null,
+          vctAncestors: [],
+          extendsError: null,
         }),
 
       saveProject: async (name: string) => {
@@ -2,7 +2,7 @@
 // For managing assets (logos, backgrounds, icons) with GitHub VDR publishing
 
 // Asset type determines GitHub path and naming convention
-export type AssetType = 'entity-logo' | 'credential-background' | 'credential-icon';
+export type AssetType = 'entity-logo' | 'credential-background' | 'credential-icon' | 'credential-svg-template';
 
 // Asset type metadata for UI and publishing
 export const ASSET_TYPE_CONFIG: Record<AssetType, {
@@ -29,6 +29,12 @@ export const ASSET_TYPE_CONFIG: Record<AssetType, {
     githubPath: 'credentials/vct/icons',
     filenamePattern: '{name}.{ext}',
   },
+  'credential-svg-template': {
+    label: 'Credential SVG Template',
+    description: 'SVG rendering template for a credential card face',
+    githubPath: 'credentials/vct/svg-templates',
+    filenamePattern: '{name}.svg',
+  },
 };
 
 // User info for tracking uploads
@@ -5,6 +5,31 @@
  * Based on the VC-Forms-app schema structure.
  */
 
+import type { RegionCode } from '../constants/regions';
+import { SUBMISSION_STATUSES } from '../lib/formRules';
+
+// Conditional logic, validation, value flattening, upload limits, address formatting
+// and submission statuses are shared with the server (src/lib/formRules.js)
+export {
+  SUBMISSION_STATUSES,
+  FILE_UPLOAD_TYPES,
+  FILE_UPLOAD_MAX_SIZE_MB,
+  DEFAULT_FILE_MAX_SIZE_MB,
+  getAcceptedFileTypes,
+  getMaxFileSizeMb,
+  formatAddress,
+  SIGNATURE_DATA_URL_PREFIX,
+  SIGNATURE_MAX_LENGTH,
+  getValueByPath,
+  evaluateCondition,
+  evaluateConditionGroup,
+  resolveFormVisibility,
+  validateFieldValue,
+  validateFormValues,
+  flattenFormData,
+  unflattenFormData,
+} from '../lib/formRules';
+
 // Form field types
 export type FormFieldType =
   | 'text'
@@ -16,6 +41,9 @@ export type FormFieldType =
   | 'select'
   | 'radio'
   | 'checkbox'
+  | 'file'
+  | 'address'
+  | 'signature'
   | 'verifiable-credential';
 
 // Predicate operators for proof fields
@@ -30,6 +58,33 @@ export interface PredicateConfig {
   referencedField?: string;
 }
 
+// Operators for conditional logic rules
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than'
+  | 'credential_verified' // verifiable-credential field's proof (and predicate) succeeded
+  | 'credential_not_verified';
+
+// A single rule comparing another field's value (by FormField.name)
+export interface FieldCondition {
+  id: string;
+  fieldName: string;
+  operator: ConditionOperator;
+  value?: string; // Unused for is_empty / is_not_empty / credential_* operators
+}
+
+// A set of rules combined with AND ('all') or OR ('any')
+export interface ConditionGroup {
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
 // Form field definition
 export interface FormField {
   id: string;
@@ -52,6 +107,11 @@ export interface FormField {
     label: string;
     value?: string; // Optional - mainly used for select fields
   }[];
+  // For file fields - unset means any type in FILE_UPLOAD_TYPES, up to DEFAULT_FILE_MAX_SIZE_MB
+  fileConfig?: {
+    accept?: string[]; // MIME types from FILE_UPLOAD_TYPES
+    maxSizeMb?: number; // At most FILE_UPLOAD_MAX_SIZE_MB
+  };
   // For verifiable-credential fields
   credentialConfig?: {
     // Source of the credential (VCT Library or Catalogue)
@@ -71,6 +131,27 @@ export interface FormField {
     // Which attribute path to verify
     attributePath?: string;
   };
+  // Conditional logic - field is shown only when the group matches
+  visibleWhen?: ConditionGroup;
+  // Conditional logic - field becomes required when the group matches
+  requiredWhen?: ConditionGroup;
+}
+
+// Value of a file field once uploaded (the file is stored server-side)
+export interface FileFieldValue {
+  uploadId: string;
+  name: string;
+  size: number;
+  mimetype: string;
+}
+
+// Value of an address field (Canadian address)
+export interface AddressFieldValue {
+  street: string;
+  unit?: string;
+  city: string;
+  province: RegionCode | '';
+  postalCode: string;
 }
 
 // Form section (groups of fields)
@@ -79,6 +160,8 @@ export interface FormSection {
   title: string;
   description?: string;
   fields: FormField[];
+  // Conditional logic - section (and all its fields) shown only when the group matches
+  visibleWhen?: ConditionGroup;
 }
 
 // Form screen (info/success screens)
@@ -88,11 +171,73 @@ export interface FormScreen {
   content: string; // Markdown content
 }
 
+// How a published form is presented to applicants
+export type FormLayout = 'single-page' | 'wizard'; // wizard: one section per step
+
+// When a bound credential is offered: by an approver from the submission, or on submit
+export type IssuanceMode = 'manual' | 'auto';
+
+// Issuance binding - issues an issuable (cloned) catalogue credential from a submission
+export interface IssuanceBinding {
+  catalogueCredentialId: string;
+  credentialName: string; // For display; the catalogue credential may be renamed later
+  mode: IssuanceMode;
+  attributeMappings: Record<string, string>; // Credential attribute name -> FormField.name
+}
+
 // Complete form schema (stored in JSONB)
 export interface FormSchema {
   sections: FormSection[];
   infoScreen: FormScreen; // Shown before form (if enabled)
   successScreen: FormScreen; // Shown after submission (if enabled)
+  layout?: FormLayout; // Defaults to 'single-page'
+  saveAndResume?: boolean; // Applicants can save a draft and resume it from a link
+  issuance?: IssuanceBinding; // Credential issued from each submission
+}
+
+// Credential offer made from a submission (stored on the submission)
+export interface SubmissionCredentialOffer {
+  offerId: string;
+  shortUrl: string;
+  longUrl?: string;
+  catalogueCredentialId: string;
+  credentialName: string;
+  issuedBy: string | null; // Approver's username; null when offered on submit
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Submission review workflow
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  new: 'New',
+  in_review: 'In Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Internal reviewer comment; replies reference a top-level comment
+export interface SubmissionComment {
+  id: string;
+  submissionId: string;
+  parentId: string | null;
+  githubUserId: string;
+  githubUsername: string;
+  body: string;
+  createdAt: string;
+}
+
+export type SubmissionEventAction = 'status_changed' | 'assigned' | 'commented' | 'credential_issued';
+
+// Audit trail entry for a submission
+export interface SubmissionEvent {
+  id: string;
+  submissionId: string;
+  action: SubmissionEventAction;
+  details: Record<string, unknown> | null;
+  githubUsername: string | null; // null for system actions (e.g. credential offered on submit)
+  createdAt: string;
 }
 
 // Form status
@@ -116,11 +261,24 @@ export interface Form {
   githubUserId: string;
   githubUsername: string;
   clonedFrom: string | null;
+  currentVersionId: string | null; // Latest published FormVersion
   createdAt: string;
   updatedAt: string;
   publishedAt: string | null;
 }
 
+// Immutable snapshot of a form, taken each time it is published
+export interface FormVersion {
+  id: string;
+  formId: string;
+  version: number;
+  title: string;
+  description: string | null;
+  schema: FormSchema;
+  publishedBy: string | null;
+  createdAt: string;
+}
+
 // Form list item (subset for listing)
 export interface FormListItem {
   id: string;
@@ -134,6 +292,17 @@ export interface FormListItem {
   slug: string | null;
 }
 
+// Applicant-side draft of a published form, resumed via its token
+export interface FormDraft {
+  resumeToken: string;
+  sessionId: string;
+  fieldValues: Record<string, unknown>; // Flat values keyed by field name
+  proofPresentations: Record<string, string>; // Still-verified proof request IDs keyed by field name
+  currentStep: number;
+  expiresAt: string;
+  updatedAt: string;
+}
+
 // API request types
 export interface CreateFormRequest {
   title: string;
@@ -165,6 +334,9 @@ export const FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
   select: 'Dropdown',
   radio: 'Radio Buttons',
   checkbox: 'Checkboxes',
+  file: 'File Upload',
+  address: 'Address',
+  signature: 'Signature',
   'verifiable-credential': 'Verifiable Credential',
 };
 
@@ -221,50 +393,241 @@ export const PREDICATE_OPERATOR_LABELS: Record<PredicateOperator, string> = {
   '<': 'less than',
 };
 
+// Condition operator labels for UI
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  credential_verified: 'is verified',
+  credential_not_verified: 'is not verified',
+};
+
+// Operators that compare against a value
+export const VALUE_CONDITION_OPERATORS: ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'less_than',
+];
+
+// Operators available for a referenced field, based on its type
+export function getConditionOperators(type: FormFieldType): ConditionOperator[] {
+  if (type === 'verifiable-credential') {
+    return ['credential_verified', 'credential_not_verified'];
+  }
+  if (type === 'file' || type === 'address' || type === 'signature') {
+    return ['is_empty', 'is_not_empty'];
+  }
+  if (type === 'number' || type === 'date') {
+    return ['equals', 'not_equals', 'greater_than', 'less_than', 'is_empty', 'is_not_empty'];
+  }
+  return ['equals', 'not_equals', 'contains', 'not_contains', 'is_empty', 'is_not_empty'];
+}
+
 /**
- * Unflatten a flat object with dot-notation keys into a nested object.
- * Example: { "eligibility.residency_proof": true } => { eligibility: { residency_proof: true } }
+ * Inputs for evaluating conditional logic.
+ * - values: flat field values keyed by FormField.name
+ * - verifiedCredentials: names of verifiable-credential fields whose proof succeeded
  */
-export function unflattenFormData(flatData: Record<string, unknown>): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(flatData)) {
-    const keys = key.split('.');
-    let current = result;
-
-    for (let i = 0; i < keys.length - 1; i++) {
-      const k = keys[i];
-      if (!(k in current) || typeof current[k] !== 'object' || current[k] === null) {
-        current[k] = {};
-      }
-      current = current[k] as Record<string, unknown>;
-    }
+export interface ConditionContext {
+  values: Record<string, unknown>;
+  verifiedCredentials: Set<string>;
+}
 
-    current[keys[keys.length - 1]] = value;
-  }
+/**
+ * Result of resolving conditional logic for a whole form
+ */
+export interface FormVisibility {
+  hiddenSections: Set<string>; // FormSection.id
+  hiddenFields: Set<string>; // FormField.id
+  requiredFields: Set<string>; // FormField.id of visible fields that are required
+}
+
+// Create a new empty condition
+export function createEmptyCondition(fieldName = ''): FieldCondition {
+  return {
+    id: crypto.randomUUID(),
+    fieldName,
+    operator: 'equals',
+    value: '',
+  };
+}
+
+// A single difference between two form schemas
+export interface FormSchemaChange {
+  kind: 'added' | 'removed' | 'changed';
+  target: 'section' | 'field' | 'screen' | 'settings';
+  id: string;
+  label: string;
+  details: string[]; // Human-readable descriptions of what changed
+}
+
+// Field properties compared by diffFormSchemas, with display names
+const FIELD_DIFF_PROPERTIES: [keyof FormField, string][] = [
+  ['label', 'Label'],
+  ['name', 'Name'],
+  ['type', 'Type'],
+  ['required', 'Required'],
+  ['description', 'Description'],
+  ['placeholder', 'Placeholder'],
+  ['validation', 'Validation'],
+  ['options', 'Options'],
+  ['fileConfig', 'File settings'],
+  ['credentialConfig', 'Credential settings'],
+  ['visibleWhen', 'Show-if rules'],
+  ['requiredWhen', 'Required-if rules'],
+];
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
 
-  return result;
+function describeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  return 'updated';
 }
 
 /**
- * Flatten a nested object into dot-notation keys.
- * Example: { eligibility: { residency_proof: true } } => { "eligibility.residency_proof": true }
+ * Compare two form schemas. Sections and fields are matched by id, so renames and
+ * moves between sections show up as changes rather than remove + add.
  */
-export function flattenFormData(
-  nestedData: Record<string, unknown>,
-  prefix = ''
-): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(nestedData)) {
-    const newKey = prefix ? `${prefix}.${key}` : key;
-
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      Object.assign(result, flattenFormData(value as Record<string, unknown>, newKey));
-    } else {
-      result[newKey] = value;
+export function diffFormSchemas(from: FormSchema, to: FormSchema): FormSchemaChange[] {
+  const changes: FormSchemaChange[] = [];
+
+  const fromSections = new Map(from.sections.map((section) => [section.id, section]));
+  const toSections = new Map(to.sections.map((section) => [section.id, section]));
+
+  for (const section of to.sections) {
+    const previous = fromSections.get(section.id);
+    const label = section.title || 'Untitled Section';
+    if (!previous) {
+      changes.push({ kind: 'added', target: 'section', id: section.id, label, details: [] });
+      continue;
+    }
+    const details: string[] = [];
+    if (previous.title !== section.title) {
+      details.push(`Title: ${describeValue(previous.title)} → ${describeValue(section.title)}`);
+    }
+    if (!isSameValue(previous.description, section.description)) details.push('Description updated');
+    if (!isSameValue(previous.visibleWhen, section.visibleWhen)) details.push('Show-if rules updated');
+    const previousOrder = previous.fields.map((f) => f.id).filter((id) => section.fields.some((f) => f.id === id));
+    const nextOrder = section.fields.map((f) => f.id).filter((id) => previous.fields.some((f) => f.id === id));
+    if (!isSameValue(previousOrder, nextOrder)) details.push('Fields reordered');
+    if (details.length > 0) {
+      changes.push({ kind: 'changed', target: 'section', id: section.id, label, details });
+    }
+  }
+  for (const section of from.sections) {
+    if (!toSections.has(section.id)) {
+      changes.push({
+        kind: 'removed',
+        target: 'section',
+        id: section.id,
+        label: section.title || 'Untitled Section',
+        details: [],
+      });
+    }
+  }
+
+  const locateFields = (schema: FormSchema) =>
+    new Map(
+      schema.sections.flatMap((section) =>
+        section.fields.map((field) => [field.id, { field, section }] as const)
+      )
+    );
+  const fromFields = locateFields(from);
+  const toFields = locateFields(to);
+
+  for (const [id, { field, section }] of toFields) {
+    const label = field.label || field.name || 'Untitled Field';
+    const previous = fromFields.get(id);
+    if (!previous) {
+      changes.push({
+        kind: 'added',
+        target: 'field',
+        id,
+        label,
+        details: [`${FIELD_TYPE_LABELS[field.type]} field in ${section.title || 'Untitled Section'}`],
+      });
+      continue;
+    }
+    const details: string[] = [];
+    if (previous.section.id !== section.id) {
+      details.push(`Moved from ${previous.section.title || 'Untitled Section'} to ${section.title || 'Untitled Section'}`);
     }
+    for (const [property, propertyLabel] of FIELD_DIFF_PROPERTIES) {
+      const before = previous.field[property];
+      const after = field[property];
+      if (isSameValue(before, after)) continue;
+      const simple = typeof (after ?? before) !== 'object';
+      details.push(simple ? `${propertyLabel}: ${describeValue(before)} → ${describeValue(after)}` : `${propertyLabel} updated`);
+    }
+    if (details.length > 0) {
+      changes.push({ kind: 'changed', target: 'field', id, label, details });
+    }
+  }
+  for (const [id, { field }] of fromFields) {
+    if (!toFields.has(id)) {
+      changes.push({
+        kind: 'removed',
+        target: 'field',
+        id,
+        label: field.label || field.name || 'Untitled Field',
+        details: field.name ? [`Answers stored under ${field.name}`] : [],
+      });
+    }
+  }
+
+  for (const [key, label] of [
+    ['infoScreen', 'Info screen'],
+    ['successScreen', 'Success screen'],
+  ] as const) {
+    if (!isSameValue(from[key], to[key])) {
+      changes.push({ kind: 'changed', target: 'screen', id: key, label, details: ['Screen content or visibility updated'] });
+    }
+  }
+
+  if ((from.layout || 'single-page') !== (to.layout || 'single-page')) {
+    changes.push({
+      kind: 'changed',
+      target: 'settings',
+      id: 'layout',
+      label: 'Layout',
+      details: [`${from.layout || 'single-page'} → ${to.layout || 'single-page'}`],
+    });
+  }
+  if (!!from.saveAndResume !== !!to.saveAndResume) {
+    changes.push({
+      kind: 'changed',
+      target: 'settings',
+      id: 'saveAndResume',
+      label: 'Save and resume',
+      details: [to.saveAndResume ? 'Enabled' : 'Disabled'],
+    });
+  }
+  if (!isSameValue(from.issuance, to.issuance)) {
+    changes.push({
+      kind: 'changed',
+      target: 'settings',
+      id: 'issuance',
+      label: 'Credential issuance',
+      details: [
+        to.issuance
+          ? `${to.issuance.credentialName} (${to.issuance.mode === 'auto' ? 'offered on submit' : 'issued by an approver'})`
+          : 'Disabled',
+      ],
+    });
   }
 
-  return result;
+  return changes;
 }
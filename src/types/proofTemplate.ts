@@ -11,6 +11,20 @@
  * - Template ID format: "ecosystemname.templatename.version"
  */
 
+import { ORBIT_FORMAT_MAP, compileProofTemplate, toOrbitRequestedClaims } from '../lib/proofCompiler';
+
+// Compilation to AnonCreds-style requests is shared with the server (src/lib/proofCompiler.js)
+export {
+  ORBIT_FORMAT_MAP,
+  MAX_RESTRICTION_ALTERNATIVES,
+  resolveCredentialGroups,
+  getAcceptedValues,
+  encodeDate,
+  encodePredicateValue,
+  compileProofTemplate,
+  toOrbitRequestedClaims,
+} from '../lib/proofCompiler';
+
 // ============================================================================
 // Credential Formats
 // ============================================================================
@@ -31,16 +45,6 @@ export const CREDENTIAL_FORMAT_LABELS: Record<CredentialFormat, string> = {
   'iso-18013-5': 'ISO 18013-5 (mDL)',
 };
 
-/**
- * Orbit API format mapping
- */
-export const ORBIT_FORMAT_MAP: Record<CredentialFormat, { proofCredFormat: string; messageProtocol: string }> = {
-  'anoncreds': { proofCredFormat: 'ANONCREDS', messageProtocol: 'AIP2_0' },
-  'w3c-jsonld': { proofCredFormat: 'JSONLD', messageProtocol: 'OID4VC' },
-  'w3c-sd-jwt': { proofCredFormat: 'OID4VC', messageProtocol: 'OID4VC' },
-  'iso-18013-5': { proofCredFormat: 'ISO_18013_5', messageProtocol: 'OID4VC' }, // TBD - may need adjustment
-};
-
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -64,13 +68,23 @@ export interface ProofTemplate {
   // Requested Credentials (can request multiple credentials of same format)
   requestedCredentials: RequestedCredential[];
 
+  // Alternatives among the requested credentials (credentials in no group are always required)
+  credentialGroups?: CredentialGroup[];
+
   // Metadata
   metadata: ProofTemplateMetadata;
 
   // Publishing
   status: ProofTemplateStatus;
+  statusReason?: string | null;       // Why the template was deprecated or retired
+  statusChangedAt?: string | null;
+  publishedAt?: string | null;        // Last published to the VDR
   publishedToVerifier: boolean;
 
+  // Version lineage (every version of a template is its own record)
+  familyId?: string;                  // ID of the family's first version
+  previousVersionId?: string | null;  // The version this one was created from
+
   // Timestamps
   createdAt: string;
   updatedAt: string;
@@ -86,7 +100,20 @@ export interface ProofTemplateMetadata {
   category: string;             // e.g., "identity", "financial", "employment"
 }
 
-export type ProofTemplateStatus = 'draft' | 'published';
+/**
+ * Lifecycle: draft -> published -> deprecated (still usable, superseded) ->
+ * retired (read-only, no longer offered to verifiers)
+ */
+export type ProofTemplateStatus = 'draft' | 'published' | 'deprecated' | 'retired';
+
+export const PROOF_TEMPLATE_STATUS_LABELS: Record<ProofTemplateStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  deprecated: 'Deprecated',
+  retired: 'Retired',
+};
+
+export type VersionBump = 'major' | 'minor' | 'patch';
 
 // ============================================================================
 // Requested Credential Types
@@ -115,6 +142,23 @@ export interface RequestedCredential {
 
   // Predicates (prove without revealing)
   predicates: Predicate[];
+
+  // How date attributes are encoded as integers in this credential (default: yyyymmdd)
+  dateEncoding?: DateEncoding;
+
+  // CredentialGroup this credential is an alternative in
+  groupId?: string;
+}
+
+/**
+ * Alternative credentials: the holder presents at least `minimum` of the
+ * group's credentials (1 = any of) instead of all of them, e.g. "a person
+ * credential OR a driver's licence". Members reference the group by groupId.
+ */
+export interface CredentialGroup {
+  id: string;
+  name: string;                   // e.g. "Proof of identity"
+  minimum: number;                // n-of; clamped to the number of members
 }
 
 /**
@@ -124,6 +168,7 @@ export interface CredentialRestrictions {
   schemaId: string;               // Ledger schema ID
   credentialDefinitionId?: string; // Cred def ID (for AnonCreds)
   issuerDid?: string;             // Optional issuer restriction
+  issuerDids?: string[];          // Alternative issuers (any one may match); overrides issuerDid
 }
 
 // ============================================================================
@@ -201,6 +246,17 @@ export const PREDICATE_OPERATOR_LABELS: Record<PredicateOperator, string> = {
   '!=': 'not equals',
 };
 
+/**
+ * Integer encodings issuers use for dates, so date predicates can be proven
+ * (AnonCreds predicates only compare integers)
+ */
+export type DateEncoding = 'yyyymmdd' | 'days-since-epoch';
+
+export const DATE_ENCODING_LABELS: Record<DateEncoding, string> = {
+  'yyyymmdd': 'YYYYMMDD (e.g. 20000131)',
+  'days-since-epoch': 'Days since 1970-01-01',
+};
+
 // ============================================================================
 // List Item (for dashboard view)
 // ============================================================================
@@ -209,8 +265,12 @@ export interface ProofTemplateListItem {
   id: string;
   name: string;
   description: string;
+  version?: string;
+  familyId?: string;
+  previousVersionId?: string | null;
   credentialFormat: CredentialFormat;
   status: ProofTemplateStatus;
+  statusReason?: string | null;
   credentialCount: number;
   publishedToVerifier: boolean;
   createdAt: string;
@@ -233,6 +293,7 @@ export interface UpdateProofTemplateRequest {
   description?: string;
   version?: string;
   requestedCredentials?: RequestedCredential[];
+  credentialGroups?: CredentialGroup[];
   metadata?: Partial<ProofTemplateMetadata>;
   publishedToVerifier?: boolean;
 }
@@ -242,6 +303,11 @@ export interface PublishToVerifierRequest {
   enabled: boolean;
 }
 
+export interface UpdateProofTemplateStatusRequest {
+  status: ProofTemplateStatus;
+  reason?: string;
+}
+
 // ============================================================================
 // Orbit API Types
 // ============================================================================
@@ -280,6 +346,7 @@ export interface OrbitRestriction {
   schemaId?: string;
   credentialDefinitionId?: string;
   issuerDid?: string;
+  [attrValue: `attr::${string}::value`]: string;   // Attribute must have this value
 }
 
 export interface OrbitProofRequestResponse {
@@ -293,50 +360,185 @@ export interface OrbitProofRequestResponse {
   };
 }
 
+// ============================================================================
+// DIF Presentation Exchange v2 Types
+// ============================================================================
+
+/**
+ * Presentation definition, as sent by verifiers that use DIF Presentation Exchange
+ * @see https://identity.foundation/presentation-exchange/spec/v2.0.0/
+ */
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, Record<string, string[]>>;
+  submission_requirements?: SubmissionRequirement[];
+  input_descriptors: InputDescriptor[];
+}
+
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  from: string;                         // Input descriptor group
+}
+
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  group?: string[];
+  constraints: {
+    limit_disclosure?: 'required' | 'preferred';
+    fields: PresentationField[];
+  };
+}
+
+export interface PresentationField {
+  id?: string;
+  name?: string;
+  path: string[];
+  filter?: Record<string, unknown>;     // JSON Schema
+  predicate?: 'required' | 'preferred';
+  optional?: boolean;
+  intent_to_retain?: boolean;
+}
+
+// ============================================================================
+// OpenID4VP / DCQL Types
+// ============================================================================
+
+/**
+ * Digital Credentials Query Language query
+ * @see https://openid.net/specs/openid-4-verifiable-presentations-1_0.html#name-digital-credentials-query-l
+ */
+export interface DcqlQuery {
+  credentials: DcqlCredentialQuery[];
+  credential_sets?: DcqlCredentialSetQuery[];
+}
+
+export interface DcqlCredentialSetQuery {
+  options: string[][];                  // Each option is a set of credential query ids
+  required?: boolean;
+  purpose?: string;
+}
+
+export interface DcqlCredentialQuery {
+  id: string;
+  format: 'dc+sd-jwt' | 'mso_mdoc' | 'ldp_vc';
+  meta?: Record<string, unknown>;
+  claims?: DcqlClaimsQuery[];
+  claim_sets?: string[][];
+}
+
+export interface DcqlClaimsQuery {
+  id?: string;
+  path: (string | number | null)[];
+  values?: (string | number | boolean)[];
+}
+
+/**
+ * OpenID4VP authorization request. Verifier-specific values are left as
+ * placeholders for the consuming verifier to fill in.
+ */
+export interface OpenId4VpAuthorizationRequest {
+  response_type: 'vp_token';
+  client_id: string;
+  response_mode: 'direct_post';
+  response_uri: string;
+  nonce: string;
+  dcql_query?: DcqlQuery;
+  presentation_definition?: PresentationDefinition;
+}
+
+// ============================================================================
+// AnonCreds Types
+// ============================================================================
+
+/**
+ * Native AnonCreds proof request
+ * @see https://hyperledger.github.io/anoncreds-spec/#create-presentation-request
+ */
+export interface AnonCredsProofRequest {
+  name: string;
+  version: string;
+  nonce: string;
+  requested_attributes: Record<string, AnonCredsRequestedAttribute>;
+  requested_predicates: Record<string, AnonCredsRequestedPredicate>;
+}
+
+export interface AnonCredsRequestedAttribute {
+  names: string[];
+  restrictions: AnonCredsRestriction[];
+}
+
+export interface AnonCredsRequestedPredicate {
+  name: string;
+  p_type: '>=' | '>' | '<=' | '<';
+  p_value: number;
+  restrictions: AnonCredsRestriction[];
+}
+
+export interface AnonCredsRestriction {
+  schema_id?: string;
+  cred_def_id?: string;
+  issuer_did?: string;
+  [attrValue: `attr::${string}::value`]: string;
+}
+
 // ============================================================================
 // Conversion Utilities
 // ============================================================================
 
+export type ProofTemplateIssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Something in a template a request format cannot express as configured
+ */
+export interface ProofTemplateIssue {
+  severity: ProofTemplateIssueSeverity;
+  credentialId?: string;
+  message: string;
+}
+
+/**
+ * A requested credential compiled to AnonCreds-style attributes, integer
+ * predicates and restrictions
+ */
+export interface CompiledCredentialRequest {
+  credential: RequestedCredential;
+  attributes: string[];
+  predicates: { attributeName: string; pType: OrbitRequestedPredicate['pType']; pValue: number }[];
+  restrictions: OrbitRestriction[];
+}
+
+export interface CompiledProofTemplate {
+  credentials: CompiledCredentialRequest[];
+  issues: ProofTemplateIssue[];
+}
+
+/**
+ * A credential group with its members, in template order
+ */
+export interface ResolvedCredentialGroup {
+  group: CredentialGroup;
+  credentials: RequestedCredential[];
+  minimum: number;                // Clamped to 1..credentials.length
+}
+
 /**
  * Convert a ProofTemplate to Orbit proof request format
  */
 export function toOrbitProofRequest(template: ProofTemplate, proofPurpose?: string): OrbitProofRequestBody {
   const formatConfig = ORBIT_FORMAT_MAP[template.credentialFormat];
-
-  // Group attributes by credential for Orbit's format
-  const requestedAttributes: OrbitRequestedAttribute[] = [];
-  const requestedPredicates: OrbitRequestedPredicate[] = [];
-
-  for (const cred of template.requestedCredentials) {
-    // Get attributes that should be revealed
-    const attributeNames = cred.requestedAttributes
-      .filter(attr => attr.selectiveDisclosure.revealValue)
-      .map(attr => attr.attributeName);
-
-    if (attributeNames.length > 0) {
-      requestedAttributes.push({
-        attributes: attributeNames,
-        restrictions: [toOrbitRestriction(cred.restrictions)],
-      });
-    }
-
-    // Add predicates
-    for (const pred of cred.predicates) {
-      // Convert our operator to Orbit's pType format
-      const pType = pred.operator as '>=' | '>' | '<=' | '<';
-      const pValue = typeof pred.value === 'number' ? pred.value : parseInt(pred.value as string, 10);
-
-      requestedPredicates.push({
-        attributeName: pred.attributeName,
-        pType,
-        pValue,
-        restrictions: [toOrbitRestriction(cred.restrictions)],
-      });
-    }
-  }
+  const { requestedAttributes, requestedPredicates } = toOrbitRequestedClaims(compileProofTemplate(template).credentials);
 
   return {
-    messageProtocol: formatConfig.messageProtocol as 'AIP2_0' | 'OID4VC',
+    messageProtocol: formatConfig.messageProtocol,
     credProofId: template.id,
     proofAutoVerify: true,
     createClaim: false,
@@ -344,20 +546,12 @@ export function toOrbitProofRequest(template: ProofTemplate, proofPurpose?: stri
     problemReportMessage: '',
     proofName: template.name,
     proofPurpose: proofPurpose || template.description,
-    proofCredFormat: formatConfig.proofCredFormat as 'ANONCREDS' | 'JSONLD' | 'OID4VC' | 'ISO_18013_5',
+    proofCredFormat: formatConfig.proofCredFormat,
     requestedAttributes,
     requestedPredicates,
   };
 }
 
-function toOrbitRestriction(restrictions: CredentialRestrictions): OrbitRestriction {
-  const result: OrbitRestriction = {};
-  if (restrictions.schemaId) result.schemaId = restrictions.schemaId;
-  if (restrictions.credentialDefinitionId) result.credentialDefinitionId = restrictions.credentialDefinitionId;
-  if (restrictions.issuerDid) result.issuerDid = restrictions.issuerDid;
-  return result;
-}
-
 // ============================================================================
 // Default Values
 // ============================================================================
@@ -6,6 +6,11 @@ import {
   SchemaMode,
   JsonLdPropertyExtension,
   Vocabulary,
+  VocabTerm,
+  VocabTermType,
+  DEFAULT_CONTEXT_URL,
+  DEFAULT_VOCAB_URL,
+  VOCAB_TYPE_TO_JSONLD_TYPE,
 } from './vocabulary';
 
 // Supported JSON Schema types
@@ -44,6 +49,7 @@ export interface SchemaProperty {
 
   // Object nested properties
   properties?: SchemaProperty[];
+  definitionId?: string;         // Object shape comes from a project definition ($ref into $defs)
 
   // JSON-LD specific fields (used in jsonld-context mode)
   jsonLd?: JsonLdPropertyExtension;
@@ -179,11 +185,22 @@ export const STANDARD_VC_PROPERTIES = {
 } as const;
 
 // Saved schema project
+// Reusable object shape, emitted under $defs and referenced via $ref
+export interface SchemaDefinition {
+  id: string;
+  name: string;                  // $defs key (e.g., "PostalAddress")
+  title: string;
+  description?: string;
+  properties: SchemaProperty[];
+  vocabTypeId?: string;          // Data Dictionary type this definition was created from
+}
+
 export interface SavedSchemaProject {
   id: string;
   name: string;
   metadata: SchemaMetadata;
   properties: SchemaProperty[];  // credentialSubject properties
+  definitions?: SchemaDefinition[];
   createdAt: string;
   updatedAt: string;
 }
@@ -201,6 +218,7 @@ export interface SchemaStore {
   // Current schema being edited
   metadata: SchemaMetadata;
   properties: SchemaProperty[];
+  definitions: SchemaDefinition[];
 
   // Project management
   currentProjectId: string | null;
@@ -212,6 +230,7 @@ export interface SchemaStore {
   // UI state
   selectedPropertyId: string | null;
   expandedNodes: Set<string>;
+  sampleIssues: Record<string, string[]>; // Sample credential validation errors by property ID
 
   // Governance docs
   governanceDocs: GovernanceDoc[];
@@ -229,11 +248,18 @@ export interface SchemaStore {
   moveProperty: (id: string, direction: 'up' | 'down') => void;
   reorderProperties: (activeId: string, overId: string) => void;
 
+  // Definition actions ($defs)
+  addDefinition: (data?: Partial<SchemaDefinition>) => string;
+  updateDefinition: (id: string, updates: Partial<SchemaDefinition>) => void;
+  deleteDefinition: (id: string) => void;
+  extractDefinition: (propertyId: string) => void; // Move an object's (or array items') properties into a new definition
+
   // Tree UI actions
   selectProperty: (id: string | null) => void;
   toggleExpanded: (id: string) => void;
   expandAll: () => void;
   collapseAll: () => void;
+  setSampleIssues: (issues: Record<string, string[]>) => void;
 
   // Project actions
   newSchema: () => void;
@@ -247,7 +273,9 @@ export interface SchemaStore {
 
   // Import/Export
   exportSchema: () => string;
+  exportContext: () => string;
   importSchema: (json: string) => void;
+  loadImportedSchema: (metadata: Partial<SchemaMetadata>, properties: SchemaProperty[], projectName: string) => void;
 
   // Governance docs
   fetchGovernanceDocs: () => Promise<void>;
@@ -337,13 +365,90 @@ export const createDefaultProperty = (id: string): SchemaProperty => ({
   required: false,
 });
 
+// Definition names double as $defs keys and JSON Pointer segments
+export const toDefinitionName = (title: string): string =>
+  title
+    .replace(/[^a-zA-Z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+/**
+ * Inline definition references so code that walks the property tree sees the
+ * full shape. A definition that contains itself is expanded once.
+ */
+export const expandDefinitions = (
+  properties: SchemaProperty[],
+  definitions: SchemaDefinition[],
+  expanding: string[] = []
+): SchemaProperty[] =>
+  properties.map((prop) => {
+    const expanded: SchemaProperty = { ...prop };
+    const definition = prop.type === 'object' && prop.definitionId
+      ? definitions.find((def) => def.id === prop.definitionId)
+      : undefined;
+    if (definition) {
+      expanded.properties = expanding.includes(definition.id)
+        ? []
+        : expandDefinitions(definition.properties, definitions, [...expanding, definition.id]);
+    } else if (prop.properties) {
+      expanded.properties = expandDefinitions(prop.properties, definitions, expanding);
+    }
+    if (prop.items) {
+      expanded.items = expandDefinitions([prop.items], definitions, expanding)[0];
+    }
+    return expanded;
+  });
+
 // Convert internal schema representation to JSON Schema Draft 2020-12
 // Outputs only credentialSubject validation - JWT wrapper claims are spec-defined
-export const toJsonSchema = (metadata: SchemaMetadata, properties: SchemaProperty[]): object => {
+// Object properties linked to a definition become $ref pointers into $defs
+export const toJsonSchema = (
+  metadata: SchemaMetadata,
+  properties: SchemaProperty[],
+  definitions: SchemaDefinition[] = []
+): object => {
   // Determine if we should restrict additional properties (default: true for W3C compliance)
   const restrictAdditionalProps = metadata.additionalProperties === false || metadata.additionalProperties === undefined;
 
+  // Definitions actually referenced, in first-use order
+  const usedDefinitions: SchemaDefinition[] = [];
+
+  const buildObjectProperties = (props: SchemaProperty[], schema: Record<string, unknown>) => {
+    const nestedProps: Record<string, object> = {};
+    const nestedRequired: string[] = [];
+
+    for (const nested of props) {
+      nestedProps[nested.name] = buildPropertySchema(nested);
+      if (nested.required) {
+        nestedRequired.push(nested.name);
+      }
+    }
+
+    schema.properties = nestedProps;
+    if (nestedRequired.length > 0) {
+      schema.required = nestedRequired;
+    }
+    // W3C vc-json-schema: Apply additionalProperties to nested objects too
+    if (restrictAdditionalProps) {
+      schema.additionalProperties = false;
+    }
+  };
+
   const buildPropertySchema = (prop: SchemaProperty): object => {
+    const definition = prop.type === 'object' && prop.definitionId
+      ? definitions.find((def) => def.id === prop.definitionId)
+      : undefined;
+    if (definition) {
+      if (!usedDefinitions.includes(definition)) usedDefinitions.push(definition);
+      return {
+        title: prop.title || prop.name,
+        ...(prop.description ? { description: prop.description } : {}),
+        $ref: `#/$defs/${definition.name}`,
+      };
+    }
+
     const schema: Record<string, unknown> = {
       title: prop.title || prop.name,
       type: prop.type,
@@ -387,24 +492,7 @@ export const toJsonSchema = (metadata: SchemaMetadata, properties: SchemaPropert
 
     // Object nested properties
     if (prop.type === 'object' && prop.properties && prop.properties.length > 0) {
-      const nestedProps: Record<string, object> = {};
-      const nestedRequired: string[] = [];
-
-      for (const nested of prop.properties) {
-        nestedProps[nested.name] = buildPropertySchema(nested);
-        if (nested.required) {
-          nestedRequired.push(nested.name);
-        }
-      }
-
-      schema.properties = nestedProps;
-      if (nestedRequired.length > 0) {
-        schema.required = nestedRequired;
-      }
-      // W3C vc-json-schema: Apply additionalProperties to nested objects too
-      if (restrictAdditionalProps) {
-        schema.additionalProperties = false;
-      }
+      buildObjectProperties(prop.properties, schema);
     }
 
     return schema;
@@ -455,6 +543,22 @@ export const toJsonSchema = (metadata: SchemaMetadata, properties: SchemaPropert
     schema.description = metadata.description;
   }
 
+  // Definitions can reference other definitions, so usedDefinitions grows while we iterate
+  if (usedDefinitions.length > 0) {
+    const defs: Record<string, object> = {};
+    for (let i = 0; i < usedDefinitions.length; i++) {
+      const definition = usedDefinitions[i];
+      const defSchema: Record<string, unknown> = {
+        title: definition.title || definition.name,
+        ...(definition.description ? { description: definition.description } : {}),
+        type: 'object',
+      };
+      buildObjectProperties(definition.properties, defSchema);
+      defs[definition.name] = defSchema;
+    }
+    schema.$defs = defs;
+  }
+
   return schema;
 };
 
@@ -492,139 +596,126 @@ const getSchemaPrefix = (title: string): string => {
     .join('');
 };
 
+// JSON-LD keywords aliased by the VC base context - redefining them in a
+// protected context is an error, so they never become terms
+const VC_RESERVED_TERMS = new Set(['id', 'type', '@context']);
+
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema#';
+
 /**
- * Convert internal schema representation to JSON-LD Credential Schema format
- * This is used when mode is 'jsonld-context'
- *
- * Produces a JSON Schema (Draft 2020-12) for validating W3C Verifiable Credentials
- * following the W3C VC JSON Schema Specification pattern.
+ * Convert internal schema representation to a JSON-LD @context document
+ * This is used when mode is 'jsonld-context', alongside the JSON Schema
  *
- * The schema focuses on validating credentialSubject properties only,
- * as recommended by the W3C spec examples.
+ * Each property becomes a term. Its @id comes from the property's jsonLd
+ * customId, then its vocabulary term, then the credential's own context URL.
+ * Nested objects get property-scoped contexts and complex types become type terms.
  *
- * @see https://www.w3.org/TR/vc-json-schema/
+ * @see https://www.w3.org/TR/json-ld11/#context-definitions
  */
 export const toJsonLdContext = (
   metadata: SchemaMetadata,
   properties: SchemaProperty[],
-  _vocabulary: Vocabulary | null
+  vocabulary: Vocabulary | null,
+  definitions: SchemaDefinition[] = []
 ): object => {
-  // Generate schema $id URL
-  const schemaId = metadata.schemaId ||
-    generateSchemaId(metadata.title, metadata.category, metadata.credentialName);
+  const isProtected = metadata.protected !== false;
+  const contextUrl = metadata.contextUrl ||
+    generateContextUrl(metadata.title, metadata.category, metadata.credentialName) ||
+    DEFAULT_CONTEXT_URL;
+  const vocabBase = (metadata.vocabUrl || vocabulary?.url || DEFAULT_VOCAB_URL).split('#')[0];
+
+  const typeTerms: Record<string, unknown> = {};
+  let usesXsd = false;
+
+  // Expand vocabulary @ids: "#Party" is relative to the vocab document, "vocab:name" uses the vocab prefix
+  const resolveVocabId = (id: string): string => {
+    if (id.startsWith('#')) return `${vocabBase}${id}`;
+    if (id.startsWith('vocab:')) return `${vocabBase}#${id.slice('vocab:'.length)}`;
+    return id;
+  };
 
-  // Determine if we should restrict additional properties (default: true for W3C compliance)
-  const restrictAdditionalProps = metadata.additionalProperties === false || metadata.additionalProperties === undefined;
+  const findTerm = (prop: SchemaProperty): VocabTerm | undefined =>
+    vocabulary?.terms.find((term) => term.id === (prop.jsonLd?.vocabTermId || prop.name));
 
-  /**
-   * Build JSON Schema property definition from SchemaProperty
-   */
-  const buildPropertySchema = (prop: SchemaProperty): object => {
-    const schema: Record<string, unknown> = {
-      type: prop.type,
-    };
+  const resolveTermId = (prop: SchemaProperty, term: VocabTerm | undefined): string => {
+    if (prop.jsonLd?.customId) return prop.jsonLd.customId;
+    if (term) return resolveVocabId(term['@id']);
+    return `${contextUrl}#${prop.name}`;
+  };
 
-    // Only add format for strings that have it
-    if (prop.type === 'string' && prop.format) {
-      schema.format = prop.format;
+  // Map a property to the vocab type it carries, so format and vocab typing share one coercion table
+  const getValueType = (prop: SchemaProperty, term: VocabTerm | undefined): VocabTermType | undefined => {
+    if (prop.type === 'string') {
+      if (prop.format === 'uri') return 'uri';
+      if (prop.format === 'date') return 'date';
+      if (prop.format === 'date-time') return 'dateTime';
+      const coercible = term?.allowedTypes.filter((type) => VOCAB_TYPE_TO_JSONLD_TYPE[type]) || [];
+      return coercible.length === 1 ? coercible[0] : undefined;
+    }
+    if (prop.type === 'integer' || prop.type === 'number' || prop.type === 'boolean') {
+      return prop.type;
     }
+    return undefined;
+  };
 
-    // String constraints
-    if (prop.type === 'string') {
-      if (prop.minLength !== undefined) schema.minLength = prop.minLength;
-      if (prop.maxLength !== undefined) schema.maxLength = prop.maxLength;
-      if (prop.pattern) schema.pattern = prop.pattern;
-      // W3C vc-json-schema: Use const for single-value enums
-      if (prop.enum && prop.enum.length === 1) {
-        schema.const = prop.enum[0];
-      } else if (prop.enum && prop.enum.length > 1) {
-        schema.enum = prop.enum;
+  const buildTerms = (props: SchemaProperty[]): Record<string, unknown> => {
+    const terms: Record<string, unknown> = {};
+    for (const prop of props) {
+      if (prop.name && !VC_RESERVED_TERMS.has(prop.name)) {
+        terms[prop.name] = buildTermDefinition(prop);
       }
     }
+    return terms;
+  };
 
-    // Number/Integer constraints
-    if (prop.type === 'integer' || prop.type === 'number') {
-      if (prop.minimum !== undefined) schema.minimum = prop.minimum;
-      if (prop.maximum !== undefined) schema.maximum = prop.maximum;
-      if (prop.exclusiveMinimum !== undefined) schema.exclusiveMinimum = prop.exclusiveMinimum;
-      if (prop.exclusiveMaximum !== undefined) schema.exclusiveMaximum = prop.exclusiveMaximum;
-    }
+  const buildTermDefinition = (prop: SchemaProperty): Record<string, unknown> => {
+    const term = findTerm(prop);
+    const definition: Record<string, unknown> = { '@id': resolveTermId(prop, term) };
 
-    // Array constraints
+    // Arrays are coerced and scoped by their item definition
+    const valueProp = prop.type === 'array' && prop.items ? prop.items : prop;
     if (prop.type === 'array') {
-      if (prop.minItems !== undefined) schema.minItems = prop.minItems;
-      if (prop.maxItems !== undefined) schema.maxItems = prop.maxItems;
-      if (prop.uniqueItems) schema.uniqueItems = prop.uniqueItems;
-      if (prop.items) {
-        schema.items = buildPropertySchema(prop.items);
-      }
+      definition['@container'] = '@set';
     }
 
-    // Object nested properties
-    if (prop.type === 'object' && prop.properties && prop.properties.length > 0) {
-      const nestedProps: Record<string, object> = {};
-      const nestedRequired: string[] = [];
-
-      for (const nested of prop.properties) {
-        nestedProps[nested.name] = buildPropertySchema(nested);
-        if (nested.required) {
-          nestedRequired.push(nested.name);
-        }
-      }
+    const valueType = getValueType(valueProp, valueProp === prop ? term : findTerm(valueProp));
+    const coercion = valueType ? VOCAB_TYPE_TO_JSONLD_TYPE[valueType] : undefined;
+    if (coercion) {
+      definition['@type'] = coercion;
+      if (coercion.startsWith('xsd:')) usesXsd = true;
+    }
 
-      schema.properties = nestedProps;
-      if (nestedRequired.length > 0) {
-        schema.required = nestedRequired;
+    if (valueProp.type === 'object') {
+      const complexTypeId = valueProp.jsonLd?.complexTypeId || prop.jsonLd?.complexTypeId;
+      const complexType = vocabulary?.complexTypes.find((type) => type.id === complexTypeId);
+      if (complexType) {
+        typeTerms[complexType.id] = { '@id': resolveVocabId(complexType['@id']) };
       }
-      // W3C vc-json-schema: Apply additionalProperties to nested objects too
-      if (restrictAdditionalProps) {
-        schema.additionalProperties = false;
+      if (valueProp.properties && valueProp.properties.length > 0) {
+        definition['@context'] = {
+          ...(isProtected ? { '@protected': true } : {}),
+          ...buildTerms(valueProp.properties),
+        };
       }
     }
 
-    return schema;
+    return definition;
   };
 
-  // Build credentialSubject properties
-  const credentialSubjectProps: Record<string, object> = {};
-  const credentialSubjectRequired: string[] = [];
-
-  for (const prop of properties) {
-    if (prop.name) {
-      credentialSubjectProps[prop.name] = buildPropertySchema(prop);
-      if (prop.required) {
-        credentialSubjectRequired.push(prop.name);
-      }
-    }
-  }
+  // Contexts have no $ref equivalent, so definitions are scoped into each use
+  const terms = buildTerms(expandDefinitions(properties, definitions));
 
-  // Credential type name (PascalCase from title) for description
+  // Credential type term (PascalCase from title) so credentials can declare their own type
   const credentialTypeName = metadata.title ? getSchemaPrefix(metadata.title) : 'Credential';
 
-  // Build credentialSubject schema with optional additionalProperties restriction
-  const credentialSubjectSchema: Record<string, unknown> = {
-    type: 'object',
-    properties: credentialSubjectProps,
-    ...(credentialSubjectRequired.length > 0 ? { required: credentialSubjectRequired } : {}),
-  };
-
-  // W3C vc-json-schema: Add additionalProperties: false for strict validation
-  if (restrictAdditionalProps) {
-    credentialSubjectSchema.additionalProperties = false;
-  }
-
-  // Build the JSON Schema following W3C VC JSON Schema Specification pattern
-  // This simplified structure focuses on credentialSubject validation only
-  const schema: Record<string, unknown> = {
-    $id: schemaId,
-    $schema: 'https://json-schema.org/draft/2020-12/schema',
-    title: metadata.title || credentialTypeName,
-    description: metadata.description || `${credentialTypeName} using JsonSchema`,
-    type: 'object',
-    properties: {
-      credentialSubject: credentialSubjectSchema,
-    },
+  const context: Record<string, unknown> = {
+    '@version': metadata.contextVersion ?? 1.1,
+    ...(isProtected ? { '@protected': true } : {}),
+    ...(usesXsd ? { xsd: XSD_NAMESPACE } : {}),
+    [credentialTypeName]: { '@id': `${contextUrl}#${credentialTypeName}` },
+    ...typeTerms,
+    ...terms,
   };
 
-  return schema;
+  return { '@context': context };
 };
@@ -257,6 +257,27 @@ export interface VCT {
   claims: VCTClaim[];
 }
 
+// A parent type reached through `extends` (nearest parent first in a chain)
+export interface VCTAncestor {
+  vct: string;                      // URI the parent was resolved from
+  document: VCT;
+  source: 'library' | 'url';
+  integrityValid: boolean | null;   // null when the child gives no extends#integrity
+}
+
+// Claim metadata after merging the extends chain
+export interface InheritedVCTClaim extends VCTClaim {
+  inheritedFrom?: string;           // Ancestor URI that defines the claim; absent for own claims
+  overrides?: string;               // Ancestor URI whose claim metadata this own claim replaces
+}
+
+// Effective display and claims of a VCT with its ancestors applied
+export interface MergedVCT {
+  display: VCTDisplay[];
+  claims: InheritedVCTClaim[];
+  warnings: string[];
+}
+
 // Sample data for preview
 export interface SampleData {
   [claimPath: string]: string;
@@ -305,6 +326,11 @@ export interface VCTStore {
   isLoadingSchema: boolean;
   schemaError: string | null;
 
+  // Parent types resolved from extends
+  vctAncestors: VCTAncestor[];
+  isResolvingExtends: boolean;
+  extendsError: string | null;
+
   // Actions
   setVct: (vct: VCT) => void;
   updateVctField: <K extends keyof VCT>(field: K, value: VCT[K]) => void;
@@ -320,6 +346,9 @@ export interface VCTStore {
   loadSchemaProperties: (schemaUri: string) => Promise<void>;
   clearSchemaProperties: () => void;
 
+  // Inheritance actions
+  resolveExtends: () => Promise<void>;
+
   // Display actions
   addDisplay: (locale: string) => void;
   updateDisplay: (index: number, display: Partial<VCTDisplay>) => void;
@@ -582,19 +611,57 @@ export const getZoneColor = (index: number): string => {
 // SCHEMA PARSING HELPERS
 // ============================================
 
+/**
+ * Resolve a local $ref ("#/$defs/Address", "#/definitions/Address") against the root schema.
+ * Sibling keywords (title, description) on the referencing schema take precedence.
+ * Returns the schema unchanged when it has no $ref, or the ref is external or recursive.
+ */
+const resolveLocalRef = (
+  propSchema: Record<string, unknown>,
+  root: Record<string, unknown>,
+  refStack: string[]
+): { schema: Record<string, unknown>; refStack: string[] } => {
+  const ref = propSchema.$ref;
+  if (typeof ref !== 'string' || !ref.startsWith('#/') || refStack.includes(ref)) {
+    return { schema: propSchema, refStack };
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+  if (!target || typeof target !== 'object') {
+    return { schema: propSchema, refStack };
+  }
+
+  const { $ref: _ref, ...siblings } = propSchema;
+  // Definitions may themselves be references
+  return resolveLocalRef(
+    { ...(target as Record<string, unknown>), ...siblings },
+    root,
+    [...refStack, ref]
+  );
+};
+
 /**
  * Parse a JSON Schema property into our internal ParsedSchemaProperty format
- * Recursively handles nested objects
+ * Recursively handles nested objects and local $defs references
  */
 const parseSchemaProperty = (
   name: string,
-  propSchema: Record<string, unknown>,
+  rawSchema: Record<string, unknown>,
   parentPath: string[],
-  requiredFields: string[]
+  requiredFields: string[],
+  root: Record<string, unknown>,
+  parentRefStack: string[] = []
 ): ParsedSchemaProperty => {
+  const { schema: propSchema, refStack } = resolveLocalRef(rawSchema, root, parentRefStack);
   const path = [...parentPath, name];
   const type = propSchema.type as string || 'string';
   const required = requiredFields.includes(name);
+  // A definition that (indirectly) contains itself is listed once, without children
+  const isRecursive = typeof rawSchema.$ref === 'string' && refStack === parentRefStack;
 
   const parsed: ParsedSchemaProperty = {
     name,
@@ -606,23 +673,29 @@ const parseSchemaProperty = (
     required,
   };
 
+  if (isRecursive) return parsed;
+
   // Handle nested object properties
   if (type === 'object' && propSchema.properties) {
     const nestedProps = propSchema.properties as Record<string, Record<string, unknown>>;
     const nestedRequired = (propSchema.required as string[]) || [];
     parsed.children = Object.entries(nestedProps).map(([nestedName, nestedSchema]) =>
-      parseSchemaProperty(nestedName, nestedSchema, path, nestedRequired)
+      parseSchemaProperty(nestedName, nestedSchema, path, nestedRequired, root, refStack)
     );
   }
 
   // Handle array items (if items is an object with properties)
   if (type === 'array' && propSchema.items) {
-    const itemsSchema = propSchema.items as Record<string, unknown>;
+    const { schema: itemsSchema, refStack: itemsRefStack } = resolveLocalRef(
+      propSchema.items as Record<string, unknown>,
+      root,
+      refStack
+    );
     if (itemsSchema.type === 'object' && itemsSchema.properties) {
       const nestedProps = itemsSchema.properties as Record<string, Record<string, unknown>>;
       const nestedRequired = (itemsSchema.required as string[]) || [];
       parsed.children = Object.entries(nestedProps).map(([nestedName, nestedSchema]) =>
-        parseSchemaProperty(nestedName, nestedSchema, [...path, '[]'], nestedRequired)
+        parseSchemaProperty(nestedName, nestedSchema, [...path, '[]'], nestedRequired, root, itemsRefStack)
       );
     }
   }
@@ -632,12 +705,17 @@ const parseSchemaProperty = (
 
 /**
  * Parse a full JSON Schema (from URL fetch) into ParsedSchema format
- * Extracts credentialSubject properties for claim configuration
+ * Extracts credentialSubject properties for claim configuration,
+ * expanding $ref pointers into the schema's $defs
  */
 export const parseJsonSchema = (schema: Record<string, unknown>): ParsedSchema => {
-  const credentialSubject = (schema.properties as Record<string, unknown>)?.credentialSubject as Record<string, unknown>;
+  const credentialSubject = resolveLocalRef(
+    ((schema.properties as Record<string, unknown>)?.credentialSubject as Record<string, unknown>) || {},
+    schema,
+    []
+  ).schema;
 
-  if (!credentialSubject || !credentialSubject.properties) {
+  if (!credentialSubject.properties) {
     return {
       $id: schema.$id as string || '',
       title: schema.title as string || '',
@@ -650,7 +728,7 @@ export const parseJsonSchema = (schema: Record<string, unknown>): ParsedSchema =
   const required = (credentialSubject.required as string[]) || [];
 
   const parsedProperties = Object.entries(properties).map(([name, propSchema]) =>
-    parseSchemaProperty(name, propSchema, ['credentialSubject'], required)
+    parseSchemaProperty(name, propSchema, ['credentialSubject'], required, schema)
   );
 
   return {
@@ -29,6 +29,7 @@ export interface ProofRequest {
   status: ProofRequestStatus;
   socketSessionId?: string;     // Socket session for real-time updates
   requestPayload: string;       // JSON of the full Orbit request
+  warnings?: string[];          // Parts of the template the request could not express
   createdAt: string;
   verifiedAt?: string;
   verificationResult?: VerificationResult;
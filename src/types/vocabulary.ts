@@ -134,3 +134,15 @@ export const VOCAB_TYPE_TO_JSON_SCHEMA_FORMAT: Partial<
   date: 'date',
   dateTime: 'date-time',
 };
+
+// JSON-LD @type coercions for vocab types (xsd: prefix is declared by the generated context)
+export const VOCAB_TYPE_TO_JSONLD_TYPE: Partial<
+  Record<VocabTermType, string>
+> = {
+  integer: 'xsd:integer',
+  number: 'xsd:decimal',
+  boolean: 'xsd:boolean',
+  uri: '@id',
+  date: 'xsd:date',
+  dateTime: 'xsd:dateTime',
+};